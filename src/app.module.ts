@@ -15,6 +15,9 @@ import { AuthModule } from './auth/auth.module';
 import { FoldersModule } from './folders/folders.module';
 import { AccessTokensModule } from './access-tokens/access-tokens.module';
 import { VideoModule } from './video/video.module';
+import { AudioModule } from './audio/audio.module';
+import { DocumentModule } from './document/document.module';
+import { JobsModule } from './jobs/jobs.module';
 import { AllExceptionsFilter } from './common/filters/all-exceptions.filter';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
@@ -37,6 +40,9 @@ import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
     ImageProcessingModule,
     ProcessedMediaModule,
     VideoModule,
+    AudioModule,
+    DocumentModule,
+    JobsModule,
   ],
   controllers: [AppController],
   providers: [
@@ -0,0 +1,78 @@
+export type AudioFormat = 'mp3' | 'aac' | 'opus' | 'flac' | 'wav';
+
+export interface AudioFormatSpec {
+  codec: string;
+  extension: string;
+  mimeType: string;
+  /** Lossless formats ignore the requested bitrate */
+  lossless: boolean;
+  /** Sample rates the encoder accepts; undefined means any */
+  sampleRates?: number[];
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatSpec> = {
+  mp3: { codec: 'libmp3lame', extension: 'mp3', mimeType: 'audio/mpeg', lossless: false },
+  aac: { codec: 'aac', extension: 'm4a', mimeType: 'audio/mp4', lossless: false },
+  opus: {
+    codec: 'libopus',
+    extension: 'opus',
+    mimeType: 'audio/ogg',
+    lossless: false,
+    sampleRates: [8000, 12000, 16000, 24000, 48000],
+  },
+  flac: { codec: 'flac', extension: 'flac', mimeType: 'audio/flac', lossless: true },
+  wav: { codec: 'pcm_s16le', extension: 'wav', mimeType: 'audio/wav', lossless: true },
+};
+
+export const AUDIO_SAMPLE_RATES = [8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000, 96000];
+
+export const AUDIO_METADATA_TAGS = [
+  'title',
+  'artist',
+  'album',
+  'album_artist',
+  'composer',
+  'genre',
+  'date',
+  'track',
+  'disc',
+  'comment',
+  'copyright',
+] as const;
+
+export type AudioMetadataTag = (typeof AUDIO_METADATA_TAGS)[number];
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  opus: 'audio/ogg',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+};
+
+/**
+ * Guesses the MIME type of an audio file from its extension.
+ */
+export function audioMimeType(filePath: string): string {
+  const extension = filePath.split('.').pop()?.toLowerCase();
+  return MIME_BY_EXTENSION[extension] || 'application/octet-stream';
+}
+
+/**
+ * Builds the `-metadata key=value` arguments for FFmpeg. Tags outside
+ * AUDIO_METADATA_TAGS are dropped; an empty string clears the tag.
+ */
+export function buildMetadataArgs(tags: Partial<Record<string, string>>): string[] {
+  const args: string[] = [];
+  for (const tag of AUDIO_METADATA_TAGS) {
+    const value = tags[tag];
+    if (value !== undefined && value !== null) {
+      args.push('-metadata', `${tag}=${value}`);
+    }
+  }
+  return args;
+}
@@ -0,0 +1,177 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { existsSync } from 'fs';
+import { stat } from 'fs-extra';
+import { AudioService } from './audio.service';
+import { audioMimeType } from './audio-formats';
+import { VideoService, FfmpegRunOptions } from '../video/video.service';
+import { ProcessedMediaService } from '../processed-media/processed-media.service';
+import { CreateProcessedMediaDto } from '../processed-media/dto/create-processed-media.dto';
+import { JobHandlerRegistry, JobHandlerResult, ProcessingJobRecord } from '../jobs/job-handler.registry';
+
+// path.join drops the leading ./ from './uploads/...'
+const toPublicPath = (path: string) => path.replace(/^(\.\/)?uploads\//, '/uploads/');
+
+/**
+ * Payload shared by all audio jobs. Upload routes set `deleteInput` so the
+ * multer temp file is removed once the job settles; by-id routes set
+ * `mediaId`, which becomes the source of the ProcessedMedia record.
+ */
+export interface AudioJobPayload {
+  inputPath: string;
+  outputPath: string;
+  /** User who queued the job and owns the ProcessedMedia record */
+  userId: string;
+  deleteInput?: boolean;
+  mediaId?: string;
+  /** Defaults to true for library media and false for uploads */
+  permanent?: boolean;
+  expiryDays?: number;
+  [key: string]: any;
+}
+
+@Injectable()
+export class AudioJobHandlers implements OnModuleInit {
+  constructor(
+    private readonly registry: JobHandlerRegistry,
+    private readonly audioService: AudioService,
+    private readonly videoService: VideoService,
+    private readonly processedMediaService: ProcessedMediaService,
+  ) {}
+
+  onModuleInit() {
+    this.register('audio.transcode', async (p, runOptions) => {
+      await this.audioService.transcode(p.inputPath, p.outputPath, p.options, runOptions);
+      return this.recordOutput(p, 'FORMAT_CHANGE', { format: p.options.format }, p.options);
+    });
+
+    this.register('audio.trim', async (p, runOptions) => {
+      await this.audioService.trim(p.inputPath, p.outputPath, p.startTime, p.duration, runOptions);
+      return this.recordOutput(p, 'AUDIO_EDIT', {}, { operation: 'trim', startTime: p.startTime, duration: p.duration });
+    });
+
+    this.register('audio.normalize', async (p, runOptions) => {
+      const { measured } = await this.audioService.normalizeLoudness(p.inputPath, p.outputPath, p.target, runOptions);
+      return this.recordOutput(
+        p,
+        'AUDIO_EDIT',
+        {
+          measuredLoudness: parseFloat(measured.input_i),
+          measuredTruePeak: parseFloat(measured.input_tp),
+        },
+        { operation: 'normalize', ...p.target },
+      );
+    });
+
+    this.register('audio.waveform', async (p, runOptions) => {
+      const peaks = await this.audioService.generateWaveformPeaks(p.inputPath, p.outputPath, p.options, runOptions);
+      return this.recordOutput(
+        p,
+        'WAVEFORM',
+        { points: peaks.length, samplesPerPixel: peaks.samples_per_pixel },
+        p.options,
+        { mimeType: 'application/json', format: 'json' },
+      );
+    });
+
+    this.register('audio.waveform-image', async (p, runOptions) => {
+      const { width, height } = await this.audioService.renderWaveformImage(
+        p.inputPath,
+        p.outputPath,
+        p.options,
+        runOptions,
+      );
+      return this.recordOutput(p, 'WAVEFORM', { width, height }, p.options, {
+        mimeType: 'image/png',
+        format: 'png',
+        width,
+        height,
+      });
+    });
+
+    this.register('audio.metadata-write', async (p, runOptions) => {
+      await this.audioService.writeMetadata(p.inputPath, p.outputPath, p.tags, runOptions);
+      const metadata = await this.audioService.readMetadata(p.outputPath, runOptions.signal);
+      return this.recordOutput(p, 'AUDIO_EDIT', { tags: metadata.tags }, { operation: 'metadata', tags: p.tags });
+    });
+  }
+
+  // Audio jobs are FFmpeg work too, so they share the video queue's concurrency limit
+  private register(
+    type: string,
+    handle: (payload: AudioJobPayload, runOptions: FfmpegRunOptions) => Promise<JobHandlerResult>,
+  ) {
+    this.registry.register(type, {
+      queue: 'video',
+      handle: async (job, context) => {
+        const outcome = await handle(job.payload, {
+          onProgress: (progress) => context.reportProgress(progress),
+          signal: context.signal,
+        });
+        if (job.payload.deleteInput) {
+          await this.videoService.deleteFile(job.payload.inputPath);
+        }
+        return outcome;
+      },
+      cleanup: (job) => this.cleanup(job),
+    });
+  }
+
+  /**
+   * Tracks the job output as ProcessedMedia and builds the job result
+   */
+  private async recordOutput(
+    payload: AudioJobPayload,
+    processType: CreateProcessedMediaDto['processType'],
+    result: Record<string, any>,
+    processingOptions: Record<string, any>,
+    file: Partial<Pick<CreateProcessedMediaDto, 'mimeType' | 'format' | 'width' | 'height'>> = {},
+  ): Promise<JobHandlerResult> {
+    const fileName = payload.outputPath.split('/').pop();
+    const permanent = payload.permanent ?? !!payload.mediaId;
+
+    const record = await this.processedMediaService.create({
+      originalName: fileName,
+      storedFileName: fileName,
+      mimeType: audioMimeType(payload.outputPath),
+      format: fileName.split('.').pop().toLowerCase(),
+      fileSize: (await stat(payload.outputPath)).size,
+      originalSize: (await stat(payload.inputPath)).size,
+      filePath: payload.outputPath,
+      publicUrl: toPublicPath(payload.outputPath),
+      processType,
+      processingOptions,
+      sourceMediaId: payload.mediaId,
+      sourceType: payload.mediaId ? 'MEDIA_LIBRARY' : 'UPLOAD',
+      ...(permanent ? { isPermanent: true } : { expiryDays: payload.expiryDays || 1 }),
+      ...file,
+    }, payload.userId);
+
+    return {
+      result: {
+        processedMediaId: record.id,
+        url: toPublicPath(payload.outputPath),
+        ...result,
+      },
+      processedMediaIds: [record.id],
+    };
+  }
+
+  /**
+   * Removes the uploaded input and the partial output; runs after a
+   * permanent failure or a cancellation
+   */
+  private async cleanup(job: ProcessingJobRecord) {
+    const payload: AudioJobPayload = job.payload;
+    const paths = [payload.outputPath];
+
+    if (payload.deleteInput) {
+      paths.push(payload.inputPath);
+    }
+
+    for (const path of paths) {
+      if (path && existsSync(path)) {
+        await this.videoService.deleteFile(path);
+      }
+    }
+  }
+}
@@ -0,0 +1,338 @@
+import {
+  Controller,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+  Body,
+  BadRequestException,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { diskStorage } from 'multer';
+import { extname, join } from 'path';
+import * as fs from 'fs-extra';
+import { AudioService } from './audio.service';
+import { AUDIO_FORMATS, AUDIO_METADATA_TAGS } from './audio-formats';
+import { VideoService } from '../video/video.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import {
+  AudioOutputDto,
+  TranscodeAudioDto,
+  TranscodeAudioByIdDto,
+  TrimAudioDto,
+  TrimAudioByIdDto,
+  NormalizeLoudnessDto,
+  NormalizeLoudnessByIdDto,
+  WaveformDto,
+  WaveformByIdDto,
+  WaveformImageDto,
+  WaveformImageByIdDto,
+  AudioMetadataByIdDto,
+  WriteAudioMetadataDto,
+  WriteAudioMetadataByIdDto,
+} from './dto';
+
+const AUDIO_OUTPUT_DIR = './uploads/audio';
+
+/**
+ * Upload handling shared by all audio routes: stores the file under
+ * ./uploads/audio with a random name
+ */
+const audioUpload = FileInterceptor('file', {
+  storage: diskStorage({
+    destination: AUDIO_OUTPUT_DIR,
+    filename: (req, file, cb) => {
+      const randomName = Array(32)
+        .fill(null)
+        .map(() => Math.round(Math.random() * 16).toString(16))
+        .join('');
+      return cb(null, `${randomName}${extname(file.originalname)}`);
+    },
+  }),
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('audio/')) {
+      cb(null, true);
+    } else {
+      cb(new BadRequestException('Invalid file type. Only audio files are allowed.'), false);
+    }
+  },
+  limits: {
+    fileSize: 200 * 1024 * 1024, // 200MB limit
+  },
+});
+
+@Controller('audio')
+@UseGuards(JwtAuthGuard)
+export class AudioController {
+  constructor(
+    private readonly audioService: AudioService,
+    private readonly videoService: VideoService,
+    private readonly jobsService: JobsService,
+  ) {}
+
+  private queued(job: { id: string; status: string }, message: string) {
+    return {
+      message,
+      jobId: job.id,
+      status: job.status,
+    };
+  }
+
+  /**
+   * Output path next to the other audio outputs; keeps the input extension
+   * unless one is given. The timestamp keeps repeated runs on the same
+   * library item from overwriting outputs that are still tracked.
+   */
+  private outputPath(inputPath: string, outputPrefix: string, extension?: string) {
+    const fileName = inputPath.split('/').pop();
+    const baseFilename = fileName.split('.')[0];
+    const ext = extension || fileName.split('.').pop();
+    return join(AUDIO_OUTPUT_DIR, `${outputPrefix}-${baseFilename}-${Date.now()}.${ext}`);
+  }
+
+  /**
+   * Queues a job for an uploaded audio file; the upload is removed once the
+   * job settles
+   */
+  private async enqueueUploaded(
+    type: string,
+    file: Express.Multer.File,
+    dto: AudioOutputDto,
+    userId: string,
+    outputPrefix: string,
+    extension: string | undefined,
+    params: Record<string, any>,
+    message: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const job = await this.jobsService.enqueue(type, {
+      inputPath: file.path,
+      outputPath: this.outputPath(file.path, outputPrefix, extension),
+      ...params,
+      permanent: dto.permanent,
+      expiryDays: dto.expiryDays,
+      deleteInput: true,
+      userId,
+    }, { userId });
+
+    return this.queued(job, message);
+  }
+
+  /**
+   * Queues a job for a library audio file; the output is tracked as
+   * ProcessedMedia of that item
+   */
+  private async enqueueById(
+    type: string,
+    dto: AudioOutputDto & { mediaId: string },
+    userId: string,
+    outputPrefix: string,
+    extension: string | undefined,
+    params: Record<string, any>,
+    message: string,
+  ) {
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    await fs.ensureDir(AUDIO_OUTPUT_DIR);
+
+    const job = await this.jobsService.enqueue(type, {
+      inputPath,
+      outputPath: this.outputPath(inputPath, outputPrefix, extension),
+      ...params,
+      mediaId: dto.mediaId,
+      permanent: dto.permanent,
+      expiryDays: dto.expiryDays,
+      userId,
+    }, { userId, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, message);
+  }
+
+  private transcodeOptions(dto: TranscodeAudioDto) {
+    const spec = AUDIO_FORMATS[dto.format];
+    if (dto.sampleRate && spec.sampleRates && !spec.sampleRates.includes(dto.sampleRate)) {
+      throw new BadRequestException(
+        `${dto.format} supports sample rates ${spec.sampleRates.join(', ')}`,
+      );
+    }
+    return {
+      format: dto.format,
+      bitrate: dto.bitrate,
+      sampleRate: dto.sampleRate,
+      channels: dto.channels,
+    };
+  }
+
+  private metadataTags(dto: WriteAudioMetadataDto) {
+    const tags: Record<string, string> = {};
+    for (const tag of AUDIO_METADATA_TAGS) {
+      if (dto[tag] !== undefined) {
+        tags[tag] = dto[tag];
+      }
+    }
+    if (!Object.keys(tags).length) {
+      throw new BadRequestException('At least one tag is required');
+    }
+    return tags;
+  }
+
+  // ============================================
+  // UPLOAD ENDPOINTS
+  // ============================================
+
+  @Post('transcode')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(audioUpload)
+  async transcode(@UploadedFile() file: Express.Multer.File, @Body() dto: TranscodeAudioDto, @Request() req) {
+    const options = this.transcodeOptions(dto);
+    return this.enqueueUploaded('audio.transcode', file, dto, req.user.id, 'transcoded', AUDIO_FORMATS[dto.format].extension, {
+      options,
+    }, 'Audio transcoding queued');
+  }
+
+  @Post('trim')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(audioUpload)
+  async trim(@UploadedFile() file: Express.Multer.File, @Body() dto: TrimAudioDto, @Request() req) {
+    return this.enqueueUploaded('audio.trim', file, dto, req.user.id, 'trimmed', undefined, {
+      startTime: dto.startTime,
+      duration: dto.duration,
+    }, 'Audio trimming queued');
+  }
+
+  @Post('normalize')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(audioUpload)
+  async normalize(@UploadedFile() file: Express.Multer.File, @Body() dto: NormalizeLoudnessDto, @Request() req) {
+    return this.enqueueUploaded('audio.normalize', file, dto, req.user.id, 'normalized', undefined, {
+      target: {
+        integratedLoudness: dto.integratedLoudness,
+        truePeak: dto.truePeak,
+        loudnessRange: dto.loudnessRange,
+      },
+    }, 'Loudness normalization queued');
+  }
+
+  @Post('waveform')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(audioUpload)
+  async waveform(@UploadedFile() file: Express.Multer.File, @Body() dto: WaveformDto, @Request() req) {
+    return this.enqueueUploaded('audio.waveform', file, dto, req.user.id, 'waveform', 'json', {
+      options: { points: dto.points, bits: dto.bits },
+    }, 'Waveform generation queued');
+  }
+
+  @Post('waveform-image')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(audioUpload)
+  async waveformImage(@UploadedFile() file: Express.Multer.File, @Body() dto: WaveformImageDto, @Request() req) {
+    return this.enqueueUploaded('audio.waveform-image', file, dto, req.user.id, 'waveform', 'png', {
+      options: { width: dto.width, height: dto.height, color: dto.color, scale: dto.scale },
+    }, 'Waveform rendering queued');
+  }
+
+  @Post('metadata')
+  @UseInterceptors(audioUpload)
+  async readMetadata(@UploadedFile() file: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    try {
+      const metadata = await this.audioService.readMetadata(file.path);
+      return {
+        message: 'Audio metadata read successfully',
+        originalFileName: file.originalname,
+        metadata,
+      };
+    } finally {
+      await this.videoService.deleteFile(file.path);
+    }
+  }
+
+  @Post('metadata/write')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(audioUpload)
+  async writeMetadata(@UploadedFile() file: Express.Multer.File, @Body() dto: WriteAudioMetadataDto, @Request() req) {
+    const tags = this.metadataTags(dto);
+    return this.enqueueUploaded('audio.metadata-write', file, dto, req.user.id, 'tagged', undefined, {
+      tags,
+    }, 'Metadata update queued');
+  }
+
+  // ============================================
+  // MEDIA LIBRARY (BY ID) ENDPOINTS
+  // ============================================
+
+  @Post('by-id/transcode')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async transcodeById(@Body() dto: TranscodeAudioByIdDto, @Request() req) {
+    const options = this.transcodeOptions(dto);
+    return this.enqueueById('audio.transcode', dto, req.user.id, 'transcoded', AUDIO_FORMATS[dto.format].extension, {
+      options,
+    }, 'Audio transcoding queued');
+  }
+
+  @Post('by-id/trim')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async trimById(@Body() dto: TrimAudioByIdDto, @Request() req) {
+    return this.enqueueById('audio.trim', dto, req.user.id, 'trimmed', undefined, {
+      startTime: dto.startTime,
+      duration: dto.duration,
+    }, 'Audio trimming queued');
+  }
+
+  @Post('by-id/normalize')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async normalizeById(@Body() dto: NormalizeLoudnessByIdDto, @Request() req) {
+    return this.enqueueById('audio.normalize', dto, req.user.id, 'normalized', undefined, {
+      target: {
+        integratedLoudness: dto.integratedLoudness,
+        truePeak: dto.truePeak,
+        loudnessRange: dto.loudnessRange,
+      },
+    }, 'Loudness normalization queued');
+  }
+
+  @Post('by-id/waveform')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async waveformById(@Body() dto: WaveformByIdDto, @Request() req) {
+    return this.enqueueById('audio.waveform', dto, req.user.id, 'waveform', 'json', {
+      options: { points: dto.points, bits: dto.bits },
+    }, 'Waveform generation queued');
+  }
+
+  @Post('by-id/waveform-image')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async waveformImageById(@Body() dto: WaveformImageByIdDto, @Request() req) {
+    return this.enqueueById('audio.waveform-image', dto, req.user.id, 'waveform', 'png', {
+      options: { width: dto.width, height: dto.height, color: dto.color, scale: dto.scale },
+    }, 'Waveform rendering queued');
+  }
+
+  @Post('by-id/metadata')
+  async readMetadataById(@Body() dto: AudioMetadataByIdDto) {
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    const metadata = await this.audioService.readMetadata(inputPath);
+    return {
+      message: 'Audio metadata read successfully',
+      mediaId: dto.mediaId,
+      metadata,
+    };
+  }
+
+  @Post('by-id/metadata/write')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async writeMetadataById(@Body() dto: WriteAudioMetadataByIdDto, @Request() req) {
+    const tags = this.metadataTags(dto);
+    return this.enqueueById('audio.metadata-write', dto, req.user.id, 'tagged', undefined, {
+      tags,
+    }, 'Metadata update queued');
+  }
+}
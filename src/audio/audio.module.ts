@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { AudioService } from './audio.service';
+import { AudioController } from './audio.controller';
+import { AudioJobHandlers } from './audio-job.handlers';
+import { VideoModule } from '../video/video.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { ProcessedMediaModule } from '../processed-media/processed-media.module';
+
+@Module({
+  imports: [VideoModule, JobsModule, ProcessedMediaModule],
+  controllers: [AudioController],
+  providers: [AudioService, AudioJobHandlers],
+  exports: [AudioService],
+})
+export class AudioModule {}
@@ -0,0 +1,350 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { join } from 'path';
+import * as fs from 'fs-extra';
+import { VideoService, FfmpegRunOptions } from '../video/video.service';
+import { MediaProbeService } from '../video/media-probe.service';
+import { AUDIO_FORMATS, AudioFormat, buildMetadataArgs } from './audio-formats';
+import { WaveformPeaks, computeWaveformPeaks, pcmToSamples } from './waveform';
+
+export interface AudioTranscodeOptions {
+  format: AudioFormat;
+  /** e.g. "192k"; ignored for lossless formats */
+  bitrate?: string;
+  sampleRate?: number;
+  channels?: 1 | 2;
+}
+
+export interface WaveformOptions {
+  /** Number of min/max pairs */
+  points?: number;
+  bits?: 8 | 16;
+}
+
+export interface WaveformImageOptions {
+  width?: number;
+  height?: number;
+  /** Hex color such as "#3b82f6" */
+  color?: string;
+  scale?: 'lin' | 'log' | 'sqrt' | 'cbrt';
+}
+
+export interface AudioMetadata {
+  format: string;
+  duration?: number;
+  bitrate?: number;
+  codec?: string;
+  sampleRate?: number;
+  channels?: number;
+  /** Tag names are lower-cased; Vorbis comments and ID3 frames use different casing */
+  tags: Record<string, string>;
+}
+
+/** Sample rate used to decode audio for waveform peaks */
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+const lowerCaseKeys = (tags: Record<string, string> = {}) =>
+  Object.fromEntries(Object.entries(tags).map(([key, value]) => [key.toLowerCase(), value]));
+
+@Injectable()
+export class AudioService {
+  private readonly logger = new Logger(AudioService.name);
+
+  constructor(
+    private readonly videoService: VideoService,
+    private readonly mediaProbeService: MediaProbeService,
+  ) {}
+
+  /**
+   * Converts the first audio stream to another format. Tags are kept;
+   * embedded cover art is dropped.
+   * @param inputPath Path to the audio file
+   * @param outputPath Path where the audio will be saved; its extension should match the format
+   * @param options Target format, bitrate, sample rate and channel count
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async transcode(
+    inputPath: string,
+    outputPath: string,
+    options: AudioTranscodeOptions,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const spec = AUDIO_FORMATS[options.format];
+    const args = ['-i', inputPath, '-map', '0:a:0', '-map_metadata', '0', '-c:a', spec.codec];
+
+    if (options.bitrate && !spec.lossless) {
+      args.push('-b:a', options.bitrate);
+    }
+    if (options.sampleRate) {
+      args.push('-ar', String(options.sampleRate));
+    }
+    if (options.channels) {
+      args.push('-ac', String(options.channels));
+    }
+    args.push(...this.containerArgs(outputPath), '-y', outputPath);
+
+    this.logger.log(`Transcoding ${inputPath} to ${options.format}...`);
+    await this.videoService.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Cuts a section out of an audio file, re-encoding in the same format so
+   * the cut is sample accurate.
+   * @param inputPath Path to the audio file
+   * @param outputPath Path where the audio will be saved
+   * @param startTime Start time (e.g., "00:00:10" or "10")
+   * @param duration Duration to keep (e.g., "30" for 30 seconds); until the end when omitted
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async trim(
+    inputPath: string,
+    outputPath: string,
+    startTime: string,
+    duration?: string,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const args = ['-ss', startTime, '-i', inputPath];
+    if (duration) {
+      args.push('-t', duration);
+    }
+    args.push(
+      '-map',
+      '0:a:0',
+      '-map_metadata',
+      '0',
+      ...this.encoderArgs(outputPath),
+      ...this.containerArgs(outputPath),
+      '-y',
+      outputPath,
+    );
+
+    this.logger.log(`Trimming audio ${inputPath} from ${startTime}${duration ? ` for ${duration}s` : ''}...`);
+    await this.videoService.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Two-pass EBU R128 loudness normalization: the first pass measures, the
+   * second applies loudnorm linearly with the measured values. The output
+   * keeps the source format and sample rate.
+   * @param inputPath Path to the audio file
+   * @param outputPath Path where the audio will be saved
+   * @param target Integrated loudness (LUFS), true peak (dBTP) and loudness range (LU)
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async normalizeLoudness(
+    inputPath: string,
+    outputPath: string,
+    target: { integratedLoudness?: number; truePeak?: number; loudnessRange?: number } = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<{ measured: Record<string, string> }> {
+    const I = target.integratedLoudness ?? -16;
+    const TP = target.truePeak ?? -1.5;
+    const LRA = target.loudnessRange ?? 11;
+    const probe = await this.mediaProbeService.probeFile(inputPath, runOptions?.signal);
+    const duration = probe.container.duration;
+
+    const stderr = await this.videoService.runFfmpegCommand(
+      ['-i', inputPath, '-map', '0:a:0', '-af', `loudnorm=I=${I}:TP=${TP}:LRA=${LRA}:print_format=json`, '-f', 'null', '-'],
+      runOptions,
+      { label: 'measure', index: 0, count: 2, duration },
+    );
+
+    // loudnorm prints its measurements as the last JSON object in stderr
+    const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+    let measured: Record<string, string>;
+    try {
+      measured = JSON.parse(json);
+    } catch (error) {
+      throw new Error('Could not read loudness measurements');
+    }
+
+    const args = [
+      '-i',
+      inputPath,
+      '-map',
+      '0:a:0',
+      '-map_metadata',
+      '0',
+      '-af',
+      [
+        `loudnorm=I=${I}:TP=${TP}:LRA=${LRA}`,
+        `measured_I=${measured.input_i}`,
+        `measured_TP=${measured.input_tp}`,
+        `measured_LRA=${measured.input_lra}`,
+        `measured_thresh=${measured.input_thresh}`,
+        `offset=${measured.target_offset}`,
+        'linear=true',
+      ].join(':'),
+      ...this.encoderArgs(outputPath),
+      // loudnorm resamples to 192 kHz internally
+      '-ar',
+      String(probe.audio[0]?.sampleRate || 48000),
+      ...this.containerArgs(outputPath),
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Normalizing loudness to ${I} LUFS (measured ${measured.input_i} LUFS)...`);
+    await this.videoService.runFfmpegCommand(args, runOptions, { label: 'normalize', index: 1, count: 2, duration });
+    return { measured };
+  }
+
+  /**
+   * Decodes the audio to mono PCM and writes min/max peak data as JSON.
+   * @param inputPath Path to the audio file
+   * @param outputPath Path where the JSON will be saved
+   * @param options Number of points and value resolution
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async generateWaveformPeaks(
+    inputPath: string,
+    outputPath: string,
+    options: WaveformOptions = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<WaveformPeaks> {
+    const pcmPath = join(process.cwd(), 'temp', `waveform-${Date.now()}.pcm`);
+    await fs.ensureDir(join(pcmPath, '..'));
+
+    try {
+      await this.videoService.runFfmpegCommand(
+        [
+          '-i',
+          inputPath,
+          '-map',
+          '0:a:0',
+          '-ac',
+          '1',
+          '-ar',
+          String(WAVEFORM_SAMPLE_RATE),
+          '-f',
+          's16le',
+          '-acodec',
+          'pcm_s16le',
+          '-y',
+          pcmPath,
+        ],
+        runOptions,
+      );
+
+      const samples = pcmToSamples(await fs.readFile(pcmPath));
+      const peaks = computeWaveformPeaks(samples, WAVEFORM_SAMPLE_RATE, options.points || 1000, options.bits || 8);
+      await fs.writeJson(outputPath, peaks);
+      return peaks;
+    } finally {
+      await fs.remove(pcmPath);
+    }
+  }
+
+  /**
+   * Renders the waveform of the whole file as a single PNG on a transparent
+   * background.
+   * @param inputPath Path to the audio file
+   * @param outputPath Path where the PNG will be saved
+   * @param options Image size, wave color and amplitude scale
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async renderWaveformImage(
+    inputPath: string,
+    outputPath: string,
+    options: WaveformImageOptions = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<{ width: number; height: number }> {
+    const width = options.width || 1800;
+    const height = options.height || 280;
+    const color = (options.color || '#3b82f6').replace('#', '0x');
+
+    const args = [
+      '-i',
+      inputPath,
+      '-filter_complex',
+      `[0:a:0]aformat=channel_layouts=mono,showwavespic=s=${width}x${height}:colors=${color}:scale=${options.scale || 'sqrt'}`,
+      '-frames:v',
+      '1',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Rendering ${width}x${height} waveform for ${inputPath}...`);
+    await this.videoService.runFfmpegCommand(args, runOptions);
+    return { width, height };
+  }
+
+  /**
+   * Reads codec details and tags (ID3, Vorbis comments, MP4 atoms) with
+   * ffprobe.
+   * @param inputPath Path to the audio file
+   * @param signal Kills ffprobe when aborted
+   */
+  async readMetadata(inputPath: string, signal?: AbortSignal): Promise<AudioMetadata> {
+    const probe = await this.mediaProbeService.probeFile(inputPath, signal);
+    const stream = probe.audio[0];
+
+    return {
+      format: probe.container.format,
+      duration: probe.container.duration,
+      bitrate: probe.container.bitrate ?? stream?.bitrate,
+      codec: stream?.codec,
+      sampleRate: stream?.sampleRate,
+      channels: stream?.channels,
+      tags: { ...lowerCaseKeys(stream?.tags), ...lowerCaseKeys(probe.container.tags) },
+    };
+  }
+
+  /**
+   * Rewrites tags without re-encoding. Existing tags are kept unless
+   * overridden; an empty string removes a tag.
+   * @param inputPath Path to the audio file
+   * @param outputPath Path where the audio will be saved; same format as the input
+   * @param tags Tag values keyed by name (title, artist, album, ...)
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async writeMetadata(
+    inputPath: string,
+    outputPath: string,
+    tags: Record<string, string>,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const args = [
+      '-i',
+      inputPath,
+      '-map',
+      '0',
+      '-map_metadata',
+      '0',
+      '-c',
+      'copy',
+      ...buildMetadataArgs(tags),
+      ...this.containerArgs(outputPath),
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Writing ${Object.keys(tags).length} tag(s) to ${outputPath}...`);
+    await this.videoService.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Encoder for re-encoding into the output's own format; lossy formats get
+   * a 192k bitrate instead of the encoder default. Unknown extensions are
+   * left to FFmpeg.
+   */
+  private encoderArgs(outputPath: string): string[] {
+    const extension = outputPath.split('.').pop()?.toLowerCase();
+    const spec = Object.values(AUDIO_FORMATS).find((format) => format.extension === extension);
+    if (!spec) {
+      return [];
+    }
+    return spec.lossless ? ['-c:a', spec.codec] : ['-c:a', spec.codec, '-b:a', '192k'];
+  }
+
+  /** Muxer flags: ID3v2.3 for players that can't read v2.4, faststart for M4A */
+  private containerArgs(outputPath: string): string[] {
+    const extension = outputPath.split('.').pop()?.toLowerCase();
+    if (extension === 'mp3') {
+      return ['-id3v2_version', '3'];
+    }
+    if (extension === 'm4a') {
+      return ['-movflags', '+faststart'];
+    }
+    return [];
+  }
+}
@@ -0,0 +1,70 @@
+import { IsString, IsOptional, MaxLength } from 'class-validator';
+import { AudioOutputDto } from './audio-output.dto';
+
+export class AudioMetadataByIdDto {
+  @IsString()
+  mediaId: string;
+}
+
+/** Omitted tags are kept as they are; an empty string removes the tag */
+export class WriteAudioMetadataDto extends AudioOutputDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  artist?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  album?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  album_artist?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  composer?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  genre?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(32)
+  date?: string; // e.g. "2024" or "2024-05-01"
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(16)
+  track?: string; // e.g. "3" or "3/12"
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(16)
+  disc?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(4096)
+  comment?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1024)
+  copyright?: string;
+}
+
+export class WriteAudioMetadataByIdDto extends WriteAudioMetadataDto {
+  @IsString()
+  mediaId: string;
+}
@@ -0,0 +1,22 @@
+import { IsOptional, IsNumber, IsBoolean, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+// Multipart bodies send booleans as strings
+export const toBoolean = ({ value }) => (typeof value === 'string' ? value.toLowerCase() === 'true' : value);
+
+/**
+ * Retention of the ProcessedMedia record an audio job produces. Library
+ * outputs are kept by default, outputs of uploaded files expire.
+ */
+export class AudioOutputDto {
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  permanent?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  expiryDays?: number; // Only used when the output is not permanent
+}
@@ -0,0 +1,6 @@
+export * from './audio-output.dto';
+export * from './transcode-audio.dto';
+export * from './trim-audio.dto';
+export * from './normalize-loudness.dto';
+export * from './waveform.dto';
+export * from './audio-metadata.dto';
@@ -0,0 +1,31 @@
+import { IsString, IsOptional, IsNumber, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { AudioOutputDto } from './audio-output.dto';
+
+export class NormalizeLoudnessDto extends AudioOutputDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-70)
+  @Max(-5)
+  integratedLoudness?: number = -16; // LUFS
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-9)
+  @Max(0)
+  truePeak?: number = -1.5; // dBTP
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  loudnessRange?: number = 11; // LU
+}
+
+export class NormalizeLoudnessByIdDto extends NormalizeLoudnessDto {
+  @IsString()
+  mediaId: string;
+}
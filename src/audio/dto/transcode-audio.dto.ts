@@ -0,0 +1,28 @@
+import { IsString, IsOptional, IsIn, Matches } from 'class-validator';
+import { Type } from 'class-transformer';
+import { AudioOutputDto } from './audio-output.dto';
+import { AUDIO_SAMPLE_RATES } from '../audio-formats';
+
+export class TranscodeAudioDto extends AudioOutputDto {
+  @IsIn(['mp3', 'aac', 'opus', 'flac', 'wav'])
+  format: 'mp3' | 'aac' | 'opus' | 'flac' | 'wav';
+
+  @IsOptional()
+  @Matches(/^\d{2,3}k$/, { message: 'bitrate must look like 192k' })
+  bitrate?: string; // Ignored for flac and wav
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(AUDIO_SAMPLE_RATES)
+  sampleRate?: number; // Hz; opus only accepts 8000, 12000, 16000, 24000 and 48000
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn([1, 2])
+  channels?: 1 | 2;
+}
+
+export class TranscodeAudioByIdDto extends TranscodeAudioDto {
+  @IsString()
+  mediaId: string;
+}
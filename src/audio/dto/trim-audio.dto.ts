@@ -0,0 +1,16 @@
+import { IsString, IsOptional } from 'class-validator';
+import { AudioOutputDto } from './audio-output.dto';
+
+export class TrimAudioDto extends AudioOutputDto {
+  @IsString()
+  startTime: string; // e.g. "00:01:30" or "90"
+
+  @IsOptional()
+  @IsString()
+  duration?: string; // Seconds to keep; until the end when omitted
+}
+
+export class TrimAudioByIdDto extends TrimAudioDto {
+  @IsString()
+  mediaId: string;
+}
@@ -0,0 +1,51 @@
+import { IsString, IsOptional, IsIn, IsInt, Matches, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { AudioOutputDto } from './audio-output.dto';
+
+export class WaveformDto extends AudioOutputDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(10)
+  @Max(20000)
+  points?: number = 1000; // Number of min/max pairs
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn([8, 16])
+  bits?: 8 | 16 = 8;
+}
+
+export class WaveformByIdDto extends WaveformDto {
+  @IsString()
+  mediaId: string;
+}
+
+export class WaveformImageDto extends AudioOutputDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(100)
+  @Max(4000)
+  width?: number = 1800;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(20)
+  @Max(1000)
+  height?: number = 280;
+
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a hex color such as #3b82f6' })
+  color?: string = '#3b82f6';
+
+  @IsOptional()
+  @IsIn(['lin', 'log', 'sqrt', 'cbrt'])
+  scale?: 'lin' | 'log' | 'sqrt' | 'cbrt' = 'sqrt'; // sqrt keeps quiet passages visible
+}
+
+export class WaveformImageByIdDto extends WaveformImageDto {
+  @IsString()
+  mediaId: string;
+}
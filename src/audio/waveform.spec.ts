@@ -0,0 +1,32 @@
+import { computeWaveformPeaks, pcmToSamples } from './waveform';
+import { buildMetadataArgs } from './audio-formats';
+
+describe('waveform', () => {
+  it('should reduce samples to min/max pairs', () => {
+    const samples = Int16Array.from([0, 1000, -2000, 500, 32767, -32768, 0, 0]);
+    const peaks = computeWaveformPeaks(samples, 8000, 4, 16);
+
+    expect(peaks).toMatchObject({ version: 2, channels: 1, sample_rate: 8000, samples_per_pixel: 2, bits: 16, length: 4 });
+    expect(peaks.data).toEqual([0, 1000, -2000, 500, -32768, 32767, 0, 0]);
+  });
+
+  it('should scale to 8 bits and never ask for more points than samples', () => {
+    const peaks = computeWaveformPeaks(Int16Array.from([32767, -32768]), 8000, 100);
+    expect(peaks.length).toBe(2);
+    expect(peaks.data).toEqual([127, 127, -128, -128]);
+  });
+
+  it('should read little-endian PCM from an unaligned buffer', () => {
+    const backing = Buffer.from([0xff, 0x10, 0x00, 0x00, 0x80, 0x01]);
+    expect(Array.from(pcmToSamples(backing.subarray(1)))).toEqual([16, -32768]);
+  });
+
+  it('should only pass known metadata tags', () => {
+    expect(buildMetadataArgs({ title: 'Intro', comment: '', encoder: 'x' })).toEqual([
+      '-metadata',
+      'title=Intro',
+      '-metadata',
+      'comment=',
+    ]);
+  });
+});
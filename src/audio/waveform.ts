@@ -0,0 +1,65 @@
+/**
+ * Peak data in the audiowaveform JSON layout (version 2), which wavesurfer.js
+ * and peaks.js load directly. `data` holds interleaved min/max pairs.
+ */
+export interface WaveformPeaks {
+  version: 2;
+  channels: 1;
+  sample_rate: number;
+  samples_per_pixel: number;
+  bits: 8 | 16;
+  length: number;
+  data: number[];
+}
+
+/**
+ * Reduces mono 16-bit PCM to `points` min/max pairs. With 8 bits the values
+ * are scaled to -128..127, which keeps the JSON small enough to inline.
+ * @param samples Decoded mono samples
+ * @param sampleRate Sample rate the samples were decoded at
+ * @param points Number of min/max pairs to produce
+ * @param bits Resolution of the stored values
+ */
+export function computeWaveformPeaks(
+  samples: Int16Array,
+  sampleRate: number,
+  points: number,
+  bits: 8 | 16 = 8,
+): WaveformPeaks {
+  const length = Math.max(Math.min(points, samples.length), 1);
+  const samplesPerPixel = Math.max(Math.ceil(samples.length / length), 1);
+  const shift = bits === 8 ? 8 : 0;
+  const data: number[] = [];
+
+  for (let start = 0; start < samples.length; start += samplesPerPixel) {
+    const end = Math.min(start + samplesPerPixel, samples.length);
+    let min = samples[start];
+    let max = samples[start];
+    for (let i = start + 1; i < end; i++) {
+      if (samples[i] < min) min = samples[i];
+      if (samples[i] > max) max = samples[i];
+    }
+    data.push(min >> shift, max >> shift);
+  }
+
+  return {
+    version: 2,
+    channels: 1,
+    sample_rate: sampleRate,
+    samples_per_pixel: samplesPerPixel,
+    bits,
+    length: data.length / 2,
+    data,
+  };
+}
+
+/**
+ * Reads little-endian 16-bit PCM from a buffer. Copies first because Node
+ * buffers may start at an odd offset into their backing store.
+ */
+export function pcmToSamples(buffer: Buffer): Int16Array {
+  const byteLength = buffer.length - (buffer.length % 2);
+  const copy = new ArrayBuffer(byteLength);
+  new Uint8Array(copy).set(buffer.subarray(0, byteLength));
+  return new Int16Array(copy);
+}
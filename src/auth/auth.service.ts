@@ -105,6 +105,21 @@ export class AuthService {
     };
   }
 
+  /**
+   * Resolve the user behind an access token, for transports that cannot use
+   * the passport JWT guard (e.g. the Socket.IO handshake)
+   */
+  async verifyToken(token: string) {
+    let payload: { sub: string };
+    try {
+      payload = await this.jwtService.verifyAsync(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    return this.validateUser(payload.sub);
+  }
+
   // User CRUD Operations
   async createUser(createUserDto: CreateUserDto, currentUser: any): Promise<UserResponseDto> {
     // Only admins can create users
@@ -0,0 +1,11 @@
+/**
+ * Content types for adaptive-streaming packages (HLS and DASH), keyed by
+ * file extension. Used for storage uploads, static serving and nginx.
+ */
+export const STREAMING_MIME_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.mpd': 'application/dash+xml',
+  '.ts': 'video/mp2t',
+  '.m4s': 'video/iso.segment',
+  '.mp4': 'video/mp4',
+};
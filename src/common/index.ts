@@ -1,3 +1,4 @@
 export * from './filters';
 export * from './logger';
 export * from './interceptors/logging.interceptor';
+export * from './constants/streaming-mime-types';
@@ -2,6 +2,7 @@ import { Injectable } from '@nestjs/common';
 import { ConfigService as NestConfigService } from '@nestjs/config';
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import { STREAMING_MIME_TYPES } from '../common/constants/streaming-mime-types';
 
 export interface StorageConfig {
   uploadDir: string;
@@ -173,6 +174,10 @@ export class StorageConfigService {
       return '# Nginx configuration disabled';
     }
 
+    const streamingTypes = Object.entries(STREAMING_MIME_TYPES)
+      .map(([extension, mimeType]) => `        ${mimeType} ${extension.slice(1)};`)
+      .join('\n');
+
     const nginxConfigTemplate = `
 # Oreo Media Management - Nginx Configuration
 # Generated automatically - Do not edit manually
@@ -232,6 +237,19 @@ location /uploads/batch-optimized/ {
     add_header Cache-Control "public, immutable";
 }
 
+# Adaptive streaming packages (HLS playlists, DASH manifests, segments)
+location /uploads/videos/streaming/ {
+    alias ${path.resolve(uploadDir)}/videos/streaming/;
+    types {
+${streamingTypes}
+    }
+    expires ${nginxConfig.cacheMaxAge}s;
+    add_header Cache-Control "public, immutable";
+    add_header Access-Control-Allow-Origin "*";
+    add_header Access-Control-Allow-Methods "GET, OPTIONS";
+    add_header Access-Control-Allow-Headers "Origin, X-Requested-With, Content-Type, Accept, Range";
+}
+
 # Security: Block access to sensitive files
 location ~ /\\. {
     deny all;
@@ -2,6 +2,8 @@ import { Injectable, OnModuleInit } from '@nestjs/common';
 import { ConfigService as NestConfigService } from '@nestjs/config';
 import { PrismaService } from '../prisma/prisma.service';
 import * as crypto from 'crypto';
+import { DEFAULT_VARIANT_PROFILES, VariantProfile } from '../image-processing/variant-profiles';
+import { DEFAULT_TRANSFORM_PRESETS } from '../image-processing/transform-params';
 
 export enum ConfigType {
   STRING = 'STRING',
@@ -69,6 +71,27 @@ export interface UnifiedConfig {
   enableDocumentProcessing: boolean;
   maxImageDimension: number;
   maxVideoDuration: number;
+  ffprobePath: string;
+  popplerPath: string;
+  documentConverter: string;
+  libreOfficePath: string;
+  documentConversionTimeout: number;
+  imageVariantProfiles: VariantProfile[];
+  imageTransformPolicy: 'open' | 'signed' | 'presets';
+  imageTransformSecret: string;
+  imageTransformPresets: Record<string, string>;
+  imageTransformCacheDir: string;
+  focalPointStrategy: 'attention' | 'entropy';
+  faceDetector: string;
+  faceDetectionModel: string;
+  backgroundRemovalProvider: string;
+  backgroundRemovalModel: string;
+  
+  // Job Queue Settings
+  jobPollInterval: number;
+  jobVideoConcurrency: number;
+  jobImageConcurrency: number;
+  jobStaleTimeout: number;
   
   // Security Settings
   jwtSecret: string;
@@ -188,6 +211,25 @@ export class UnifiedConfigService implements OnModuleInit {
           'ENABLE_DOCUMENT_PROCESSING': 'enableDocumentProcessing',
           'MAX_IMAGE_DIMENSION': 'maxImageDimension',
           'MAX_VIDEO_DURATION': 'maxVideoDuration',
+          'FFPROBE_PATH': 'ffprobePath',
+          'POPPLER_PATH': 'popplerPath',
+          'DOCUMENT_CONVERTER': 'documentConverter',
+          'LIBREOFFICE_PATH': 'libreOfficePath',
+          'DOCUMENT_CONVERSION_TIMEOUT': 'documentConversionTimeout',
+          'IMAGE_VARIANT_PROFILES': 'imageVariantProfiles',
+          'IMAGE_TRANSFORM_POLICY': 'imageTransformPolicy',
+          'IMAGE_TRANSFORM_SECRET': 'imageTransformSecret',
+          'IMAGE_TRANSFORM_PRESETS': 'imageTransformPresets',
+          'IMAGE_TRANSFORM_CACHE_DIR': 'imageTransformCacheDir',
+          'FOCAL_POINT_STRATEGY': 'focalPointStrategy',
+          'FACE_DETECTOR': 'faceDetector',
+          'FACE_DETECTION_MODEL': 'faceDetectionModel',
+          'BACKGROUND_REMOVAL_PROVIDER': 'backgroundRemovalProvider',
+          'BACKGROUND_REMOVAL_MODEL': 'backgroundRemovalModel',
+          'JOB_POLL_INTERVAL': 'jobPollInterval',
+          'JOB_VIDEO_CONCURRENCY': 'jobVideoConcurrency',
+          'JOB_IMAGE_CONCURRENCY': 'jobImageConcurrency',
+          'JOB_STALE_TIMEOUT': 'jobStaleTimeout',
           'JWT_SECRET': 'jwtSecret',
           'JWT_EXPIRES_IN': 'jwtExpiresIn',
           'BCRYPT_ROUNDS': 'bcryptRounds',
@@ -262,6 +304,27 @@ export class UnifiedConfigService implements OnModuleInit {
       enableDocumentProcessing: this.nestConfigService.get<string>('ENABLE_DOCUMENT_PROCESSING', 'true') === 'true',
       maxImageDimension: parseInt(this.nestConfigService.get<string>('MAX_IMAGE_DIMENSION', '4096')),
       maxVideoDuration: parseInt(this.nestConfigService.get<string>('MAX_VIDEO_DURATION', '3600')),
+      ffprobePath: this.nestConfigService.get<string>('FFPROBE_PATH', 'ffprobe'),
+      popplerPath: this.nestConfigService.get<string>('POPPLER_PATH', ''),
+      documentConverter: this.nestConfigService.get<string>('DOCUMENT_CONVERTER', 'libreoffice'),
+      libreOfficePath: this.nestConfigService.get<string>('LIBREOFFICE_PATH', 'soffice'),
+      documentConversionTimeout: parseInt(this.nestConfigService.get<string>('DOCUMENT_CONVERSION_TIMEOUT', '120000')),
+      imageVariantProfiles: JSON.parse(this.nestConfigService.get<string>('IMAGE_VARIANT_PROFILES', JSON.stringify(DEFAULT_VARIANT_PROFILES))),
+      imageTransformPolicy: this.nestConfigService.get<'open' | 'signed' | 'presets'>('IMAGE_TRANSFORM_POLICY', 'signed'),
+      imageTransformSecret: this.nestConfigService.get<string>('IMAGE_TRANSFORM_SECRET', ''),
+      imageTransformPresets: JSON.parse(this.nestConfigService.get<string>('IMAGE_TRANSFORM_PRESETS', JSON.stringify(DEFAULT_TRANSFORM_PRESETS))),
+      imageTransformCacheDir: this.nestConfigService.get<string>('IMAGE_TRANSFORM_CACHE_DIR', 'cache/transforms'),
+      focalPointStrategy: this.nestConfigService.get<'attention' | 'entropy'>('FOCAL_POINT_STRATEGY', 'attention'),
+      faceDetector: this.nestConfigService.get<string>('FACE_DETECTOR', 'none'),
+      faceDetectionModel: this.nestConfigService.get<string>('FACE_DETECTION_MODEL', 'models/version-RFB-320.onnx'),
+      backgroundRemovalProvider: this.nestConfigService.get<string>('BACKGROUND_REMOVAL_PROVIDER', 'removebg'),
+      backgroundRemovalModel: this.nestConfigService.get<string>('BACKGROUND_REMOVAL_MODEL', 'models/u2net.onnx'),
+      
+      // Job Queue Settings
+      jobPollInterval: parseInt(this.nestConfigService.get<string>('JOB_POLL_INTERVAL', '2000')),
+      jobVideoConcurrency: parseInt(this.nestConfigService.get<string>('JOB_VIDEO_CONCURRENCY', '1')),
+      jobImageConcurrency: parseInt(this.nestConfigService.get<string>('JOB_IMAGE_CONCURRENCY', '2')),
+      jobStaleTimeout: parseInt(this.nestConfigService.get<string>('JOB_STALE_TIMEOUT', '300000')),
       
       // Security Settings
       jwtSecret: this.nestConfigService.get<string>('JWT_SECRET', 'aWQf9m6NEU8qmJ3vLcZo6ZT5wdNyv86kc4r5PWTnuulm='),
@@ -340,6 +403,25 @@ export class UnifiedConfigService implements OnModuleInit {
       'enableDocumentProcessing': 'ENABLE_DOCUMENT_PROCESSING',
       'maxImageDimension': 'MAX_IMAGE_DIMENSION',
       'maxVideoDuration': 'MAX_VIDEO_DURATION',
+      'ffprobePath': 'FFPROBE_PATH',
+      'popplerPath': 'POPPLER_PATH',
+      'documentConverter': 'DOCUMENT_CONVERTER',
+      'libreOfficePath': 'LIBREOFFICE_PATH',
+      'documentConversionTimeout': 'DOCUMENT_CONVERSION_TIMEOUT',
+      'imageVariantProfiles': 'IMAGE_VARIANT_PROFILES',
+      'imageTransformPolicy': 'IMAGE_TRANSFORM_POLICY',
+      'imageTransformSecret': 'IMAGE_TRANSFORM_SECRET',
+      'imageTransformPresets': 'IMAGE_TRANSFORM_PRESETS',
+      'imageTransformCacheDir': 'IMAGE_TRANSFORM_CACHE_DIR',
+      'focalPointStrategy': 'FOCAL_POINT_STRATEGY',
+      'faceDetector': 'FACE_DETECTOR',
+      'faceDetectionModel': 'FACE_DETECTION_MODEL',
+      'backgroundRemovalProvider': 'BACKGROUND_REMOVAL_PROVIDER',
+      'backgroundRemovalModel': 'BACKGROUND_REMOVAL_MODEL',
+      'jobPollInterval': 'JOB_POLL_INTERVAL',
+      'jobVideoConcurrency': 'JOB_VIDEO_CONCURRENCY',
+      'jobImageConcurrency': 'JOB_IMAGE_CONCURRENCY',
+      'jobStaleTimeout': 'JOB_STALE_TIMEOUT',
       'jwtSecret': 'JWT_SECRET',
       'jwtExpiresIn': 'JWT_EXPIRES_IN',
       'bcryptRounds': 'BCRYPT_ROUNDS',
@@ -390,6 +472,25 @@ export class UnifiedConfigService implements OnModuleInit {
       'enableDocumentProcessing': ConfigCategory.MEDIA_PROCESSING,
       'maxImageDimension': ConfigCategory.MEDIA_PROCESSING,
       'maxVideoDuration': ConfigCategory.MEDIA_PROCESSING,
+      'ffprobePath': ConfigCategory.MEDIA_PROCESSING,
+      'popplerPath': ConfigCategory.MEDIA_PROCESSING,
+      'documentConverter': ConfigCategory.MEDIA_PROCESSING,
+      'libreOfficePath': ConfigCategory.MEDIA_PROCESSING,
+      'documentConversionTimeout': ConfigCategory.MEDIA_PROCESSING,
+      'imageVariantProfiles': ConfigCategory.MEDIA_PROCESSING,
+      'imageTransformPolicy': ConfigCategory.MEDIA_PROCESSING,
+      'imageTransformSecret': ConfigCategory.SECURITY,
+      'imageTransformPresets': ConfigCategory.MEDIA_PROCESSING,
+      'imageTransformCacheDir': ConfigCategory.MEDIA_PROCESSING,
+      'focalPointStrategy': ConfigCategory.MEDIA_PROCESSING,
+      'faceDetector': ConfigCategory.MEDIA_PROCESSING,
+      'faceDetectionModel': ConfigCategory.MEDIA_PROCESSING,
+      'backgroundRemovalProvider': ConfigCategory.MEDIA_PROCESSING,
+      'backgroundRemovalModel': ConfigCategory.MEDIA_PROCESSING,
+      'jobPollInterval': ConfigCategory.MEDIA_PROCESSING,
+      'jobVideoConcurrency': ConfigCategory.MEDIA_PROCESSING,
+      'jobImageConcurrency': ConfigCategory.MEDIA_PROCESSING,
+      'jobStaleTimeout': ConfigCategory.MEDIA_PROCESSING,
       'jwtSecret': ConfigCategory.SECURITY,
       'jwtExpiresIn': ConfigCategory.SECURITY,
       'bcryptRounds': ConfigCategory.SECURITY,
@@ -418,7 +519,8 @@ export class UnifiedConfigService implements OnModuleInit {
           let type: ConfigType;
           let isEncrypted = false;
 
-          if (Array.isArray(value)) {
+          // Lists of objects (variant profiles) are stored as JSON
+          if (Array.isArray(value) && !value.some((item) => typeof item === 'object')) {
             stringValue = value.join(',');
             type = ConfigType.ARRAY;
           } else if (typeof value === 'boolean') {
@@ -470,6 +572,7 @@ export class UnifiedConfigService implements OnModuleInit {
       'AWS_ACCESS_KEY_ID',
       'AWS_SECRET_ACCESS_KEY',
       'DATABASE_URL',
+      'IMAGE_TRANSFORM_SECRET',
     ];
     return sensitiveKeys.includes(key);
   }
@@ -590,6 +693,30 @@ export class UnifiedConfigService implements OnModuleInit {
       enableDocumentProcessing: this.config.enableDocumentProcessing,
       maxImageDimension: this.config.maxImageDimension,
       maxVideoDuration: this.config.maxVideoDuration,
+      ffprobePath: this.config.ffprobePath,
+      popplerPath: this.config.popplerPath,
+      documentConverter: this.config.documentConverter,
+      libreOfficePath: this.config.libreOfficePath,
+      documentConversionTimeout: this.config.documentConversionTimeout,
+      imageVariantProfiles: this.config.imageVariantProfiles,
+      imageTransformPolicy: this.config.imageTransformPolicy,
+      imageTransformPresets: this.config.imageTransformPresets,
+      imageTransformCacheDir: this.config.imageTransformCacheDir,
+      focalPointStrategy: this.config.focalPointStrategy,
+      faceDetector: this.config.faceDetector,
+      faceDetectionModel: this.config.faceDetectionModel,
+      backgroundRemovalProvider: this.config.backgroundRemovalProvider,
+      backgroundRemovalModel: this.config.backgroundRemovalModel,
+    };
+  }
+
+  // Job queue getters
+  getJobQueueConfig() {
+    return {
+      pollInterval: this.config.jobPollInterval,
+      videoConcurrency: this.config.jobVideoConcurrency,
+      imageConcurrency: this.config.jobImageConcurrency,
+      staleTimeout: this.config.jobStaleTimeout,
     };
   }
 
@@ -599,6 +726,7 @@ export class UnifiedConfigService implements OnModuleInit {
       jwtSecret: this.config.jwtSecret,
       jwtExpiresIn: this.config.jwtExpiresIn,
       bcryptRounds: this.config.bcryptRounds,
+      imageTransformSecret: this.config.imageTransformSecret,
     };
   }
 
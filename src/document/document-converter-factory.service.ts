@@ -0,0 +1,39 @@
+import { Injectable } from '@nestjs/common';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { DocumentConverter } from './document-converter.interface';
+import { LibreOfficeConverterService } from './libreoffice-converter.service';
+
+export type DocumentConverterType = 'libreoffice' | 'none';
+
+@Injectable()
+export class DocumentConverterFactory {
+  constructor(
+    private readonly configService: UnifiedConfigService,
+    private readonly libreOfficeConverter: LibreOfficeConverterService,
+  ) {}
+
+  /**
+   * Get the converter selected by DOCUMENT_CONVERTER, or null when
+   * conversion is turned off
+   */
+  getConverter(): DocumentConverter | null {
+    const type = this.configService.getMediaProcessingConfig().documentConverter as DocumentConverterType;
+
+    switch (type) {
+      case 'libreoffice':
+        return this.libreOfficeConverter;
+      case 'none':
+        return null;
+      default:
+        throw new Error(`Unsupported document converter: ${type}`);
+    }
+  }
+
+  /**
+   * Get the converter for a MIME type, or null when none is configured for it
+   */
+  getConverterFor(mimeType: string): DocumentConverter | null {
+    const converter = this.getConverter();
+    return converter?.supports(mimeType) ? converter : null;
+  }
+}
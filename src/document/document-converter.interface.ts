@@ -0,0 +1,17 @@
+export interface DocumentConverter {
+  /**
+   * Name reported in logs and stored with the conversion result
+   */
+  readonly name: string;
+
+  /**
+   * Whether this converter can handle the MIME type
+   */
+  supports(mimeType: string): boolean;
+
+  /**
+   * Convert a document to PDF inside outputDir and return the PDF path.
+   * Aborting the signal stops the conversion.
+   */
+  convertToPdf(inputPath: string, outputDir: string, signal?: AbortSignal): Promise<string>;
+}
@@ -0,0 +1,190 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { remove } from 'fs-extra';
+import { DocumentService } from './document.service';
+import { ProcessedMediaService } from '../processed-media/processed-media.service';
+import { CreateProcessedMediaDto } from '../processed-media/dto/create-processed-media.dto';
+import { JobContext, JobHandlerRegistry, JobHandlerResult, ProcessingJobRecord } from '../jobs/job-handler.registry';
+
+// path.join drops the leading ./ from './uploads/...'
+const toPublicPath = (path: string) => path.replace(/^(\.\/)?uploads\//, '/uploads/');
+
+/**
+ * Payload shared by document jobs. Jobs writing several files get their own
+ * `outputDir`, which is removed if the job fails. Jobs queued for an upload's
+ * background analysis have no `userId` and create no ProcessedMedia.
+ */
+export interface DocumentJobPayload {
+  mediaId?: string;
+  /** User who queued the job and owns its ProcessedMedia records */
+  userId?: string;
+  inputPath?: string;
+  inputPaths?: string[];
+  outputPath?: string;
+  outputDir?: string;
+  permanent?: boolean;
+  expiryDays?: number;
+  [key: string]: any;
+}
+
+@Injectable()
+export class DocumentJobHandlers implements OnModuleInit {
+  constructor(
+    private readonly registry: JobHandlerRegistry,
+    private readonly documentService: DocumentService,
+    private readonly processedMediaService: ProcessedMediaService,
+  ) {}
+
+  onModuleInit() {
+    this.register('document.process', async (p, context) => {
+      this.documentService.assertEnabled();
+      const { info, thumbnail, textLength } = await this.documentService.processMedia(p.mediaId, context.signal);
+      return {
+        result: {
+          mediaId: p.mediaId,
+          pageCount: info.pageCount,
+          title: info.title,
+          textLength,
+          thumbnailUrl: thumbnail.publicUrl,
+        },
+      };
+    });
+
+    this.register('document.convert', async (p, context) => {
+      this.documentService.assertEnabled();
+      const { info, thumbnail, textLength } = await this.documentService.convertMedia(p.mediaId, context.signal);
+      return {
+        result: {
+          mediaId: p.mediaId,
+          pageCount: info.pageCount,
+          textLength,
+          thumbnailUrl: thumbnail.publicUrl,
+        },
+      };
+    });
+
+    this.register('document.page-thumbnails', async (p, context) => {
+      const pages = await this.documentService.renderPages(
+        p.inputPath,
+        p.outputDir,
+        p.baseFilename,
+        p.pages,
+        p.options,
+        context.signal,
+      );
+
+      const records = [];
+      for (const page of pages) {
+        records.push(
+          await this.record(p, page.path, page.size, {
+            mimeType: `image/${p.options.format}`,
+            format: p.options.format,
+            width: page.width,
+            height: page.height,
+            processType: 'THUMBNAIL',
+            processingOptions: { ...p.options, page: page.page },
+          }),
+        );
+      }
+
+      return {
+        result: {
+          pages: pages.map((page, index) => ({
+            id: records[index].id,
+            page: page.page,
+            url: toPublicPath(page.path),
+            width: page.width,
+            height: page.height,
+          })),
+        },
+        processedMediaIds: records.map((record) => record.id),
+      };
+    });
+
+    this.register('document.split', async (p) => {
+      const parts = await this.documentService.splitPdf(p.inputPath, p.groups, p.outputDir, p.baseFilename);
+
+      const records = [];
+      for (const part of parts) {
+        records.push(
+          await this.record(p, part.path, part.size, {
+            mimeType: 'application/pdf',
+            format: 'pdf',
+            processType: 'PDF_SPLIT',
+            processingOptions: { pages: part.pages },
+          }),
+        );
+      }
+
+      return {
+        result: {
+          parts: parts.map((part, index) => ({
+            id: records[index].id,
+            pages: part.pages,
+            url: toPublicPath(part.path),
+          })),
+        },
+        processedMediaIds: records.map((record) => record.id),
+      };
+    });
+
+    this.register('document.merge', async (p) => {
+      const { pageCount, size } = await this.documentService.mergePdfs(p.inputPaths, p.outputPath);
+      const record = await this.record(p, p.outputPath, size, {
+        mimeType: 'application/pdf',
+        format: 'pdf',
+        processType: 'PDF_MERGE',
+        processingOptions: { sourceMediaIds: p.mediaIds },
+      });
+
+      return {
+        result: {
+          processedMediaId: record.id,
+          url: toPublicPath(p.outputPath),
+          pageCount,
+        },
+        processedMediaIds: [record.id],
+      };
+    });
+  }
+
+  // Rasterizing and PDF rewriting are short CPU-bound tasks like image work
+  private register(type: string, handle: (payload: DocumentJobPayload, context: JobContext) => Promise<JobHandlerResult>) {
+    this.registry.register(type, {
+      queue: 'image',
+      handle: (job, context) => handle(job.payload, context),
+      cleanup: (job) => this.cleanup(job),
+    });
+  }
+
+  private record(
+    payload: DocumentJobPayload,
+    filePath: string,
+    fileSize: number,
+    extra: Pick<CreateProcessedMediaDto, 'mimeType' | 'format' | 'processType' | 'processingOptions' | 'width' | 'height'>,
+  ) {
+    const fileName = filePath.split('/').pop();
+    return this.processedMediaService.create({
+      originalName: fileName,
+      storedFileName: fileName,
+      fileSize,
+      filePath,
+      publicUrl: toPublicPath(filePath),
+      sourceMediaId: payload.mediaId,
+      sourceType: 'MEDIA_LIBRARY',
+      ...(payload.permanent === false ? { expiryDays: payload.expiryDays || 1 } : { isPermanent: true }),
+      ...extra,
+    }, payload.userId);
+  }
+
+  /**
+   * Removes partial outputs after a permanent failure or a cancellation
+   */
+  private async cleanup(job: ProcessingJobRecord) {
+    const payload: DocumentJobPayload = job.payload;
+    for (const path of [payload.outputPath, payload.outputDir]) {
+      if (path) {
+        await remove(path);
+      }
+    }
+  }
+}
@@ -0,0 +1,238 @@
+import {
+  Controller,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+  Body,
+  BadRequestException,
+  NotFoundException,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  Request,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { diskStorage } from 'multer';
+import { extname, join } from 'path';
+import * as fs from 'fs-extra';
+import { DocumentService } from './document.service';
+import { parsePageRanges } from './pdf-pages';
+import { isOfficeDocument } from './office-formats';
+import { JobsService } from '../jobs/jobs.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { DocumentByIdDto, PageThumbnailsByIdDto, SplitPdfByIdDto, MergePdfsDto } from './dto';
+
+const DOCUMENT_OUTPUT_DIR = './uploads/documents';
+
+@Controller('document')
+@UseGuards(JwtAuthGuard)
+export class DocumentController {
+  constructor(
+    private readonly documentService: DocumentService,
+    private readonly jobsService: JobsService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  private queued(job: { id: string; status: string }, message: string) {
+    return {
+      message,
+      jobId: job.id,
+      status: job.status,
+    };
+  }
+
+  /**
+   * Turns a page selection into page groups, answering 400 for selections
+   * outside the document
+   */
+  private pageGroups(spec: string | undefined, pageCount: number): number[][] {
+    if (!spec) {
+      return Array.from({ length: pageCount }, (_, index) => [index + 1]);
+    }
+    try {
+      return parsePageRanges(spec, pageCount);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  @Post('info')
+  @UseInterceptors(
+    FileInterceptor('file', {
+      storage: diskStorage({
+        destination: './uploads/temp',
+        filename: (req, file, cb) => {
+          const randomName = Array(32)
+            .fill(null)
+            .map(() => Math.round(Math.random() * 16).toString(16))
+            .join('');
+          return cb(null, `${randomName}${extname(file.originalname)}`);
+        },
+      }),
+      fileFilter: (req, file, cb) => {
+        if (file.mimetype === 'application/pdf') {
+          cb(null, true);
+        } else {
+          cb(new BadRequestException('Invalid file type. Only PDF files are allowed.'), false);
+        }
+      },
+      limits: {
+        fileSize: 100 * 1024 * 1024, // 100MB limit
+      },
+    }),
+  )
+  async readInfo(@UploadedFile() file: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    try {
+      const info = await this.documentService.readInfo(file.path);
+      return {
+        message: 'Document read successfully',
+        originalFileName: file.originalname,
+        info,
+      };
+    } finally {
+      await fs.remove(file.path);
+    }
+  }
+
+  @Post('by-id/info')
+  async readInfoById(@Body() dto: DocumentByIdDto) {
+    const filePath = await this.documentService.getLocalFilePath(dto.mediaId);
+    return {
+      message: 'Document read successfully',
+      mediaId: dto.mediaId,
+      info: await this.documentService.readInfo(filePath),
+    };
+  }
+
+  @Post('by-id/process')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async processById(@Body() dto: DocumentByIdDto, @Request() req) {
+    this.documentService.assertEnabled();
+    await this.documentService.getLocalFilePath(dto.mediaId);
+
+    const job = await this.jobsService.enqueue('document.process', {
+      mediaId: dto.mediaId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Document processing queued');
+  }
+
+  @Post('by-id/convert')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async convertById(@Body() dto: DocumentByIdDto, @Request() req) {
+    this.documentService.assertEnabled();
+    const media = await this.prisma.media.findUnique({ where: { id: dto.mediaId } });
+    if (!media) {
+      throw new NotFoundException(`Media with ID ${dto.mediaId} not found`);
+    }
+    if (!isOfficeDocument(media.mimeType)) {
+      throw new BadRequestException(`Media ${dto.mediaId} is not an office document`);
+    }
+
+    const job = await this.jobsService.enqueue('document.convert', {
+      mediaId: dto.mediaId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Document conversion queued');
+  }
+
+  @Post('by-id/text')
+  async getTextById(@Body() dto: DocumentByIdDto) {
+    const media = await this.prisma.media.findUnique({
+      where: { id: dto.mediaId },
+      select: { id: true, textContent: true },
+    });
+    if (!media) {
+      throw new NotFoundException(`Media with ID ${dto.mediaId} not found`);
+    }
+    if (media.textContent === null) {
+      throw new NotFoundException(`Text of media ${dto.mediaId} has not been extracted yet`);
+    }
+
+    // Pages are stored separated by form feeds
+    const pages = media.textContent.split('\f');
+    return {
+      mediaId: media.id,
+      pageCount: pages.length,
+      pages,
+    };
+  }
+
+  @Post('by-id/page-thumbnails')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async pageThumbnailsById(@Body() dto: PageThumbnailsByIdDto, @Request() req) {
+    this.documentService.assertEnabled();
+    const inputPath = await this.documentService.getLocalFilePath(dto.mediaId);
+    const { pageCount } = await this.documentService.readInfo(inputPath);
+    const pages = this.pageGroups(dto.pages, pageCount).flat();
+
+    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const job = await this.jobsService.enqueue('document.page-thumbnails', {
+      inputPath,
+      outputDir: join(DOCUMENT_OUTPUT_DIR, `${baseFilename}-pages-${Date.now()}`),
+      baseFilename,
+      pages: [...new Set(pages)],
+      options: { width: dto.width, format: dto.format, quality: dto.quality },
+      mediaId: dto.mediaId,
+      permanent: dto.permanent,
+      expiryDays: dto.expiryDays,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Page thumbnail generation queued');
+  }
+
+  @Post('by-id/split')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async splitById(@Body() dto: SplitPdfByIdDto, @Request() req) {
+    this.documentService.assertEnabled();
+    const inputPath = await this.documentService.getLocalFilePath(dto.mediaId);
+    const { pageCount } = await this.documentService.readInfo(inputPath);
+    const groups = this.pageGroups(dto.ranges, pageCount);
+
+    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const job = await this.jobsService.enqueue('document.split', {
+      inputPath,
+      outputDir: join(DOCUMENT_OUTPUT_DIR, `${baseFilename}-split-${Date.now()}`),
+      baseFilename,
+      groups,
+      mediaId: dto.mediaId,
+      permanent: dto.permanent,
+      expiryDays: dto.expiryDays,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, `Splitting into ${groups.length} part(s) queued`);
+  }
+
+  @Post('by-id/merge')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async mergeById(@Body() dto: MergePdfsDto, @Request() req) {
+    this.documentService.assertEnabled();
+    const inputPaths = [];
+    for (const mediaId of dto.mediaIds) {
+      inputPaths.push(await this.documentService.getLocalFilePath(mediaId));
+    }
+
+    await fs.ensureDir(DOCUMENT_OUTPUT_DIR);
+    const outputName = `${dto.outputName || 'merged'}-${Date.now()}`;
+    const job = await this.jobsService.enqueue('document.merge', {
+      inputPaths,
+      outputPath: join(DOCUMENT_OUTPUT_DIR, `${outputName}.pdf`),
+      mediaIds: dto.mediaIds,
+      mediaId: dto.mediaIds[0],
+      permanent: dto.permanent,
+      expiryDays: dto.expiryDays,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaIds[0] });
+
+    return this.queued(job, 'PDF merge queued');
+  }
+}
@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { DocumentService } from './document.service';
+import { DocumentController } from './document.controller';
+import { DocumentJobHandlers } from './document-job.handlers';
+import { DocumentConverterFactory } from './document-converter-factory.service';
+import { LibreOfficeConverterService } from './libreoffice-converter.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { ProcessedMediaModule } from '../processed-media/processed-media.module';
+import { ConfigModule } from '../config/config.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [PrismaModule, JobsModule, ProcessedMediaModule, ConfigModule, StorageModule],
+  controllers: [DocumentController],
+  providers: [DocumentService, DocumentJobHandlers, DocumentConverterFactory, LibreOfficeConverterService],
+  exports: [DocumentService],
+})
+export class DocumentModule {}
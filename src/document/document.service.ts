@@ -0,0 +1,481 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { extname, join } from 'path';
+import * as fs from 'fs-extra';
+import * as sharp from 'sharp';
+import { PDFDocument } from 'pdf-lib';
+import { PrismaService } from '../prisma/prisma.service';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { splitTextPages, toSearchText } from './pdf-pages';
+import { isOfficeDocument } from './office-formats';
+import { DocumentConverterFactory } from './document-converter-factory.service';
+import { StorageFactoryService } from '../storage/storage-factory.service';
+
+export interface PdfInfo {
+  pageCount: number;
+  title?: string;
+  author?: string;
+  subject?: string;
+  keywords?: string;
+  creator?: string;
+  producer?: string;
+  creationDate?: string;
+  modificationDate?: string;
+  encrypted: boolean;
+  /** Page size in points as displayed, i.e. after applying the page rotation */
+  pages: Array<{ width: number; height: number; rotation: number }>;
+}
+
+export interface PageRenderOptions {
+  /** Output width in pixels; height follows the page aspect ratio */
+  width?: number;
+  format?: 'png' | 'jpeg' | 'webp';
+  quality?: number;
+}
+
+export interface RenderedPage {
+  page: number;
+  path: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+const DOCUMENT_OUTPUT_DIR = './uploads/documents';
+// Local copies of documents kept in cloud storage
+const DOCUMENT_SOURCE_DIR = './temp/documents';
+
+@Injectable()
+export class DocumentService {
+  private readonly logger = new Logger(DocumentService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: UnifiedConfigService,
+    private readonly converterFactory: DocumentConverterFactory,
+    private readonly storageFactory: StorageFactoryService,
+  ) {}
+
+  /**
+   * Rejects document work when ENABLE_DOCUMENT_PROCESSING is off.
+   */
+  assertEnabled() {
+    if (!this.configService.getMediaProcessingConfig().enableDocumentProcessing) {
+      throw new ForbiddenException('Document processing is disabled');
+    }
+  }
+
+  /**
+   * Runs a poppler-utils binary (pdftoppm, pdftotext) from POPPLER_PATH, or
+   * from PATH when unset.
+   * @param tool Binary name
+   * @param args Command-line arguments
+   * @param signal Kills the process when aborted
+   * @returns The tool's stdout
+   */
+  private async runPopplerTool(tool: 'pdftoppm' | 'pdftotext', args: string[], signal?: AbortSignal): Promise<string> {
+    const { popplerPath } = this.configService.getMediaProcessingConfig();
+    const command = popplerPath ? join(popplerPath, tool) : tool;
+
+    return new Promise<string>((resolve, reject) => {
+      const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      const onAbort = () => child.kill('SIGKILL');
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', (data) => (stdout += data.toString()));
+      child.stderr.on('data', (data) => (stderr += data.toString()));
+
+      child.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          reject(new Error(`${tool} cancelled`));
+        } else if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`${tool} failed: ${stderr.trim()}`));
+        }
+      });
+
+      child.on('error', (err) => {
+        reject(new Error(`Failed to start ${tool} (${command}): ${err.message}`));
+      });
+    });
+  }
+
+  private async loadPdf(filePath: string): Promise<PDFDocument> {
+    try {
+      return await PDFDocument.load(await fs.readFile(filePath), { ignoreEncryption: true, updateMetadata: false });
+    } catch (error) {
+      throw new BadRequestException(`Could not read PDF: ${error.message}`);
+    }
+  }
+
+  /**
+   * Reads page count, page sizes and the document information dictionary.
+   * @param filePath Path to the PDF
+   */
+  async readInfo(filePath: string): Promise<PdfInfo> {
+    const pdf = await this.loadPdf(filePath);
+
+    return {
+      pageCount: pdf.getPageCount(),
+      title: pdf.getTitle(),
+      author: pdf.getAuthor(),
+      subject: pdf.getSubject(),
+      keywords: pdf.getKeywords(),
+      creator: pdf.getCreator(),
+      producer: pdf.getProducer(),
+      creationDate: pdf.getCreationDate()?.toISOString(),
+      modificationDate: pdf.getModificationDate()?.toISOString(),
+      encrypted: pdf.isEncrypted,
+      pages: pdf.getPages().map((page) => {
+        const { width, height } = page.getSize();
+        const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+        const sideways = rotation === 90 || rotation === 270;
+        return {
+          width: Math.round(sideways ? height : width),
+          height: Math.round(sideways ? width : height),
+          rotation,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Extracts the text layer with pdftotext. Scanned pages without a text
+   * layer come back empty.
+   * @param filePath Path to the PDF
+   * @param signal Kills pdftotext when aborted
+   * @returns Text per page
+   */
+  async extractText(filePath: string, signal?: AbortSignal): Promise<string[]> {
+    const output = await this.runPopplerTool('pdftotext', ['-enc', 'UTF-8', filePath, '-'], signal);
+    return splitTextPages(output);
+  }
+
+  /**
+   * Rasterizes pages with pdftoppm, one call per page so output names don't
+   * depend on pdftoppm's page-number padding.
+   * @param filePath Path to the PDF
+   * @param outputDir Directory for the images
+   * @param baseFilename Images are named `<baseFilename>-page-<n>.<format>`
+   * @param pages 1-based page numbers
+   * @param options Width, format and quality
+   * @param signal Kills pdftoppm when aborted
+   */
+  async renderPages(
+    filePath: string,
+    outputDir: string,
+    baseFilename: string,
+    pages: number[],
+    options: PageRenderOptions = {},
+    signal?: AbortSignal,
+  ): Promise<RenderedPage[]> {
+    const width = options.width || 400;
+    const format = options.format || 'webp';
+    const quality = options.quality || 80;
+    await fs.ensureDir(outputDir);
+
+    const rendered: RenderedPage[] = [];
+    for (const page of pages) {
+      const rasterPrefix = join(outputDir, `${baseFilename}-page-${page}-raster`);
+      const outputPath = join(outputDir, `${baseFilename}-page-${page}.${format === 'jpeg' ? 'jpg' : format}`);
+
+      await this.runPopplerTool(
+        'pdftoppm',
+        ['-f', String(page), '-l', String(page), '-singlefile', '-scale-to-x', String(width), '-scale-to-y', '-1', '-png', filePath, rasterPrefix],
+        signal,
+      );
+
+      try {
+        const image = sharp(`${rasterPrefix}.png`);
+        const info = await (format === 'png'
+          ? image.png({ compressionLevel: 9 })
+          : format === 'jpeg'
+            ? image.jpeg({ quality, mozjpeg: true })
+            : image.webp({ quality })
+        ).toFile(outputPath);
+        rendered.push({ page, path: outputPath, width: info.width, height: info.height, size: info.size });
+      } finally {
+        await fs.remove(`${rasterPrefix}.png`);
+      }
+    }
+
+    this.logger.log(`Rendered ${rendered.length} page(s) of ${filePath}`);
+    return rendered;
+  }
+
+  /**
+   * Writes one PDF per page group.
+   * @param filePath Path to the PDF
+   * @param groups 1-based page numbers per output file
+   * @param outputDir Directory for the parts
+   * @param baseFilename Parts are named `<baseFilename>-part-<n>.pdf`
+   */
+  async splitPdf(
+    filePath: string,
+    groups: number[][],
+    outputDir: string,
+    baseFilename: string,
+  ): Promise<Array<{ path: string; pages: number[]; size: number }>> {
+    const source = await this.loadPdf(filePath);
+    if (source.isEncrypted) {
+      throw new BadRequestException('Encrypted PDFs cannot be split');
+    }
+    await fs.ensureDir(outputDir);
+
+    const parts = [];
+    for (const [index, pages] of groups.entries()) {
+      const part = await PDFDocument.create();
+      const copied = await part.copyPages(source, pages.map((page) => page - 1));
+      copied.forEach((page) => part.addPage(page));
+
+      const outputPath = join(outputDir, `${baseFilename}-part-${index + 1}.pdf`);
+      const bytes = await part.save();
+      await fs.writeFile(outputPath, bytes);
+      parts.push({ path: outputPath, pages, size: bytes.length });
+    }
+
+    this.logger.log(`Split ${filePath} into ${parts.length} part(s)`);
+    return parts;
+  }
+
+  /**
+   * Concatenates PDFs in the given order.
+   * @param filePaths Paths to the PDFs
+   * @param outputPath Path where the merged PDF will be saved
+   */
+  async mergePdfs(filePaths: string[], outputPath: string): Promise<{ pageCount: number; size: number }> {
+    const merged = await PDFDocument.create();
+
+    for (const filePath of filePaths) {
+      const source = await this.loadPdf(filePath);
+      if (source.isEncrypted) {
+        throw new BadRequestException(`Encrypted PDFs cannot be merged (${filePath.split('/').pop()})`);
+      }
+      const copied = await merged.copyPages(source, source.getPageIndices());
+      copied.forEach((page) => merged.addPage(page));
+    }
+
+    const bytes = await merged.save();
+    await fs.writeFile(outputPath, bytes);
+    this.logger.log(`Merged ${filePaths.length} PDF(s) into ${outputPath}`);
+    return { pageCount: merged.getPageCount(), size: bytes.length };
+  }
+
+  /**
+   * Converts an office document to PDF with the configured converter and
+   * runs the PDF through processMedia. The PDF is kept as the PDF_RENDITION
+   * variant, so page thumbnails, split and text work on office media too.
+   * @param mediaId Media ID
+   * @param signal Stops the converter and poppler tools when aborted
+   */
+  async convertMedia(mediaId: string, signal?: AbortSignal) {
+    const { media, filePath } = await this.getSourceFile(mediaId);
+
+    return this.trackStage(mediaId, 'PROCESSING', async () => {
+      const converter = this.converterFactory.getConverterFor(media.mimeType);
+      if (!converter) {
+        throw new BadRequestException(`No document converter configured for ${media.mimeType}`);
+      }
+      const pdfPath = await converter.convertToPdf(filePath, DOCUMENT_OUTPUT_DIR, signal);
+
+      await this.prisma.$transaction([
+        this.prisma.mediaVariant.deleteMany({ where: { mediaId, variantType: 'PDF_RENDITION' } }),
+        this.prisma.mediaVariant.create({
+          data: {
+            mediaId,
+            variantType: 'PDF_RENDITION',
+            filePath: pdfPath,
+            publicUrl: pdfPath.replace(/^(\.\/)?uploads\//, '/uploads/'),
+            fileSize: (await fs.stat(pdfPath)).size,
+            quality: 100,
+            format: 'pdf',
+          },
+        }),
+      ]);
+
+      this.logger.log(`Converted media ${mediaId} to PDF with ${converter.name}`);
+      return this.generatePreview(mediaId, signal);
+    });
+  }
+
+  /**
+   * Reads the document information, stores the text layer on
+   * `Media.textContent` for search and renders the first page as the
+   * THUMBNAIL variant. Progress and failures are reflected on
+   * `Media.status` / `processingStage`.
+   * @param mediaId Media ID
+   * @param signal Kills poppler tools when aborted
+   */
+  async processMedia(mediaId: string, signal?: AbortSignal) {
+    return this.trackStage(mediaId, 'GENERATING_VARIANTS', () => this.generatePreview(mediaId, signal));
+  }
+
+  /**
+   * The info is saved under `metadata.document` before the poppler steps, so
+   * it survives a missing poppler install.
+   */
+  private async generatePreview(mediaId: string, signal?: AbortSignal) {
+    const filePath = await this.getLocalFilePath(mediaId);
+    const info = await this.readInfo(filePath);
+
+    const media = await this.prisma.media.findUnique({ where: { id: mediaId } });
+    const metadata = (media?.metadata as Record<string, any>) || {};
+    await this.prisma.media.update({
+      where: { id: mediaId },
+      data: {
+        processingStage: 'GENERATING_VARIANTS',
+        metadata: { ...metadata, document: { ...info, processedAt: new Date().toISOString() } },
+      },
+    });
+
+    const pages = await this.extractText(filePath, signal);
+    const textContent = toSearchText(pages);
+
+    const baseFilename = filePath.split('/').pop().split('.')[0];
+    const [thumbnail] = await this.renderPages(filePath, DOCUMENT_OUTPUT_DIR, baseFilename, [1], { width: 400 }, signal);
+
+    const [updated, , variant] = await this.prisma.$transaction([
+      this.prisma.media.update({
+        where: { id: mediaId },
+        data: { textContent },
+      }),
+      this.prisma.mediaVariant.deleteMany({ where: { mediaId, variantType: 'THUMBNAIL' } }),
+      this.prisma.mediaVariant.create({
+        data: {
+          mediaId,
+          variantType: 'THUMBNAIL',
+          width: thumbnail.width,
+          height: thumbnail.height,
+          filePath: thumbnail.path,
+          publicUrl: thumbnail.path.replace(/^(\.\/)?uploads\//, '/uploads/'),
+          fileSize: thumbnail.size,
+          quality: 80,
+          format: 'webp',
+        },
+      }),
+    ]);
+
+    this.logger.log(`Processed document ${mediaId}: ${info.pageCount} page(s), ${textContent.length} characters of text`);
+    return { media: updated, info, thumbnail: variant, textLength: textContent.length };
+  }
+
+  /**
+   * Marks the media as processing at the given stage, then COMPLETED when
+   * work succeeds or FAILED with the error under `metadata.document.error`.
+   * The error is rethrown so the job still fails and retries.
+   */
+  private async trackStage<T>(
+    mediaId: string,
+    stage: 'PROCESSING' | 'GENERATING_VARIANTS',
+    work: () => Promise<T>,
+  ): Promise<T> {
+    await this.prisma.media.update({
+      where: { id: mediaId },
+      data: { status: 'PROCESSING', processingStage: stage },
+    });
+
+    try {
+      const result = await work();
+      await this.prisma.media.update({
+        where: { id: mediaId },
+        data: { status: 'COMPLETED', processingStage: 'COMPLETED' },
+      });
+      return result;
+    } catch (error) {
+      const media = await this.prisma.media.findUnique({ where: { id: mediaId } });
+      const metadata = (media?.metadata as Record<string, any>) || {};
+      await this.prisma.media.update({
+        where: { id: mediaId },
+        data: {
+          status: 'FAILED',
+          processingStage: 'FAILED',
+          metadata: {
+            ...metadata,
+            document: {
+              ...metadata.document,
+              error: error.message,
+              failedStage: media?.processingStage,
+              failedAt: new Date().toISOString(),
+            },
+          },
+        },
+      });
+      this.logger.error(`Document processing failed for media ${mediaId}: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private async getSourceFile(mediaId: string) {
+    const media = await this.prisma.media.findUnique({ where: { id: mediaId } });
+    if (!media) {
+      throw new NotFoundException(`Media with ID ${mediaId} not found`);
+    }
+
+    for (const candidate of [media.filePath, join(process.cwd(), media.filePath)]) {
+      if (candidate && existsSync(candidate)) {
+        return { media, filePath: candidate };
+      }
+    }
+
+    // Cloud uploads keep the storage key in filePath
+    return { media, filePath: await this.downloadSource(media) };
+  }
+
+  /**
+   * Downloads a document from cloud storage. The copy is named after the
+   * media ID and reused by later jobs on the same document.
+   */
+  private async downloadSource(media: { id: string; filePath: string; storedFileName: string }): Promise<string> {
+    const storage = this.storageFactory.getStorageProvider();
+    if (!storage.generatePresignedUrl || !(await storage.fileExists(media.filePath))) {
+      throw new NotFoundException(`File for media ${media.id} is neither on disk nor in cloud storage`);
+    }
+
+    const localPath = join(DOCUMENT_SOURCE_DIR, `${media.id}${extname(media.storedFileName)}`);
+    if (existsSync(localPath)) {
+      return localPath;
+    }
+
+    const response = await fetch(await storage.generatePresignedUrl(media.filePath));
+    if (!response.ok) {
+      throw new Error(`Could not download media ${media.id} from cloud storage: ${response.status}`);
+    }
+
+    // Write beside the target first so a failed download never leaves a partial copy to reuse
+    await fs.ensureDir(DOCUMENT_SOURCE_DIR);
+    const partialPath = `${localPath}.part`;
+    await fs.writeFile(partialPath, Buffer.from(await response.arrayBuffer()));
+    await fs.move(partialPath, localPath, { overwrite: true });
+    this.logger.log(`Downloaded media ${media.id} from cloud storage`);
+    return localPath;
+  }
+
+  /**
+   * Gets the local PDF for a library document: the file itself for PDFs,
+   * the PDF_RENDITION variant for converted office documents.
+   * @param mediaId Media ID
+   */
+  async getLocalFilePath(mediaId: string): Promise<string> {
+    const { media, filePath } = await this.getSourceFile(mediaId);
+    if (media.mimeType === 'application/pdf') {
+      return filePath;
+    }
+    if (!isOfficeDocument(media.mimeType)) {
+      throw new BadRequestException(`Media ${mediaId} is not a PDF`);
+    }
+
+    const rendition = await this.prisma.mediaVariant.findFirst({
+      where: { mediaId, variantType: 'PDF_RENDITION' },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!rendition || !existsSync(rendition.filePath)) {
+      throw new BadRequestException(`Media ${mediaId} has not been converted to PDF yet`);
+    }
+    return rendition.filePath;
+  }
+}
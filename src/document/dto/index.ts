@@ -0,0 +1,4 @@
+export * from './document-by-id.dto';
+export * from './page-thumbnails.dto';
+export * from './split-pdf.dto';
+export * from './merge-pdf.dto';
@@ -0,0 +1,24 @@
+import { IsString, IsOptional, IsArray, IsNumber, IsBoolean, ArrayMinSize, ArrayMaxSize, Matches, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class MergePdfsDto {
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  mediaIds: string[]; // Merged in this order
+
+  @IsOptional()
+  @Matches(/^[\w-]{1,100}$/, { message: 'outputName may only contain letters, digits, - and _' })
+  outputName?: string; // Without extension; a timestamp is appended
+
+  @IsOptional()
+  @IsBoolean()
+  permanent?: boolean = true;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  expiryDays?: number; // Only used when permanent is false
+}
@@ -0,0 +1,39 @@
+import { IsString, IsOptional, IsIn, IsInt, IsNumber, IsBoolean, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PageThumbnailsByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  pages?: string; // e.g. "1-5,9"; every page when omitted
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(64)
+  @Max(2400)
+  width?: number = 400;
+
+  @IsOptional()
+  @IsIn(['png', 'jpeg', 'webp'])
+  format?: 'png' | 'jpeg' | 'webp' = 'webp';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  quality?: number = 80;
+
+  @IsOptional()
+  @IsBoolean()
+  permanent?: boolean = true;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  expiryDays?: number; // Only used when permanent is false
+}
@@ -0,0 +1,21 @@
+import { IsString, IsOptional, IsNumber, IsBoolean, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SplitPdfByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  ranges?: string; // One part per comma-separated range, e.g. "1-3,4-10"; one part per page when omitted
+
+  @IsOptional()
+  @IsBoolean()
+  permanent?: boolean = true;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  expiryDays?: number; // Only used when permanent is false
+}
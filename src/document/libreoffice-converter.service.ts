@@ -0,0 +1,122 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import { basename, extname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import * as fs from 'fs-extra';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { DocumentConverter } from './document-converter.interface';
+import { isOfficeDocument } from './office-formats';
+
+@Injectable()
+export class LibreOfficeConverterService implements DocumentConverter {
+  readonly name = 'libreoffice';
+  private readonly logger = new Logger(LibreOfficeConverterService.name);
+
+  constructor(private readonly configService: UnifiedConfigService) {}
+
+  supports(mimeType: string): boolean {
+    return isOfficeDocument(mimeType);
+  }
+
+  /**
+   * Converts with `soffice --headless --convert-to pdf`. Each run gets its
+   * own profile directory; LibreOffice refuses to start a second instance on
+   * a profile that is in use.
+   * @param inputPath Path to the office document
+   * @param outputDir Directory for the PDF
+   * @param signal Kills LibreOffice when aborted
+   * @returns Path to the PDF
+   */
+  async convertToPdf(inputPath: string, outputDir: string, signal?: AbortSignal): Promise<string> {
+    const profileDir = resolve('temp', `libreoffice-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`);
+    await fs.ensureDir(outputDir);
+
+    const args = [
+      `-env:UserInstallation=${pathToFileURL(profileDir).href}`,
+      '--headless',
+      '--norestore',
+      '--nolockcheck',
+      '--convert-to',
+      'pdf',
+      '--outdir',
+      outputDir,
+      inputPath,
+    ];
+
+    try {
+      const output = await this.runLibreOfficeCommand(args, signal);
+
+      // soffice exits with 0 even when it could not load the source file
+      const pdfPath = join(outputDir, `${basename(inputPath, extname(inputPath))}.pdf`);
+      if (!existsSync(pdfPath)) {
+        throw new Error(`LibreOffice produced no PDF: ${output.trim() || 'no output'}`);
+      }
+
+      this.logger.log(`Converted ${inputPath} to PDF`);
+      return pdfPath;
+    } finally {
+      await fs.remove(profileDir);
+    }
+  }
+
+  /**
+   * Runs LibreOffice with the provided arguments, killing it after
+   * DOCUMENT_CONVERSION_TIMEOUT milliseconds; a broken document can leave it
+   * hanging forever.
+   * @param args The command-line arguments for soffice.
+   * @param signal Kills the process when aborted.
+   * @returns A Promise that resolves with stdout and stderr when the command completes successfully.
+   */
+  private async runLibreOfficeCommand(args: string[], signal?: AbortSignal): Promise<string> {
+    const { libreOfficePath, documentConversionTimeout } = this.configService.getMediaProcessingConfig();
+    if (signal?.aborted) {
+      throw new Error('LibreOffice conversion cancelled');
+    }
+
+    return new Promise((resolve, reject) => {
+      const sofficeProcess = spawn(libreOfficePath, args, {
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        this.logger.warn(`Killing LibreOffice process ${sofficeProcess.pid} (timed out)`);
+        sofficeProcess.kill('SIGKILL');
+      }, documentConversionTimeout);
+
+      const onAbort = () => {
+        this.logger.warn(`Killing LibreOffice process ${sofficeProcess.pid} (cancelled)`);
+        sofficeProcess.kill('SIGKILL');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      let output = '';
+      sofficeProcess.stdout.on('data', (data) => (output += data.toString()));
+      sofficeProcess.stderr.on('data', (data) => (output += data.toString()));
+
+      sofficeProcess.on('close', (code) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+
+        if (signal?.aborted) {
+          reject(new Error('LibreOffice conversion cancelled'));
+        } else if (timedOut) {
+          reject(new Error(`LibreOffice conversion timed out after ${documentConversionTimeout / 1000}s`));
+        } else if (code === 0) {
+          resolve(output);
+        } else {
+          this.logger.error(`LibreOffice process exited with code ${code}: ${output}`);
+          reject(new Error(`LibreOffice conversion failed: ${output.trim()}`));
+        }
+      });
+
+      sofficeProcess.on('error', (err) => {
+        clearTimeout(timer);
+        this.logger.error(`Failed to start LibreOffice process: ${err.message}`);
+        reject(new Error(`Failed to start LibreOffice (${libreOfficePath}): ${err.message}`));
+      });
+    });
+  }
+}
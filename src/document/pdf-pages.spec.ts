@@ -0,0 +1,25 @@
+import { MAX_TEXT_LENGTH, parsePageRanges, splitTextPages, toSearchText } from './pdf-pages';
+
+describe('pdf-pages', () => {
+  it('should parse single pages, closed and open ranges', () => {
+    expect(parsePageRanges('1-3, 5,8-', 9)).toEqual([[1, 2, 3], [5], [8, 9]]);
+    expect(parsePageRanges('-2', 4)).toEqual([[1, 2]]);
+  });
+
+  it('should reject malformed and out of range selections', () => {
+    expect(() => parsePageRanges('a-b', 4)).toThrow('Invalid page range "a-b"');
+    expect(() => parsePageRanges('3-2', 4)).toThrow('outside 1-4');
+    expect(() => parsePageRanges('5', 4)).toThrow('outside 1-4');
+    expect(() => parsePageRanges(' , ', 4)).toThrow('No pages selected');
+  });
+
+  it('should split pdftotext output on form feeds', () => {
+    expect(splitTextPages('First page  \nline\fSecond page\f')).toEqual(['First page\nline', 'Second page']);
+    expect(splitTextPages('')).toEqual(['']);
+  });
+
+  it('should collapse whitespace and cap stored text', () => {
+    expect(toSearchText(['a    b\n\n\n\nc', 'd'])).toBe('a b\n\nc\fd');
+    expect(toSearchText(['x'.repeat(MAX_TEXT_LENGTH + 10)])).toHaveLength(MAX_TEXT_LENGTH);
+  });
+});
@@ -0,0 +1,55 @@
+/** Upper bound on stored text so a scanned-book OCR layer can't bloat the row */
+export const MAX_TEXT_LENGTH = 1_000_000;
+
+/**
+ * Parses a page selection such as "1-3,5,8-" into groups of 1-based page
+ * numbers, one group per comma-separated part. An open range runs to the
+ * last page.
+ * @throws Error when a part is malformed or outside 1..pageCount
+ */
+export function parsePageRanges(spec: string, pageCount: number): number[][] {
+  const groups: number[][] = [];
+
+  for (const part of spec.split(',').map((value) => value.trim()).filter(Boolean)) {
+    const match = part.match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`Invalid page range "${part}"`);
+    }
+
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : start;
+    if (start < 1 || end > pageCount || start > end) {
+      throw new Error(`Page range "${part}" is outside 1-${pageCount}`);
+    }
+
+    groups.push(Array.from({ length: end - start + 1 }, (_, index) => start + index));
+  }
+
+  if (!groups.length) {
+    throw new Error('No pages selected');
+  }
+  return groups;
+}
+
+/**
+ * Splits pdftotext output into pages. pdftotext ends every page with a form
+ * feed, so the last element is dropped when empty.
+ */
+export function splitTextPages(text: string): string[] {
+  const pages = text.split('\f').map((page) => page.replace(/[ \t]+\n/g, '\n').trim());
+  if (pages.length > 1 && !pages[pages.length - 1]) {
+    pages.pop();
+  }
+  return pages;
+}
+
+/**
+ * Text stored for search: pages separated by form feeds, runs of blank
+ * lines and spaces collapsed, capped at MAX_TEXT_LENGTH.
+ */
+export function toSearchText(pages: string[]): string {
+  const text = pages
+    .map((page) => page.replace(/[ \t]{2,}/g, ' ').replace(/\n{3,}/g, '\n\n'))
+    .join('\f');
+  return text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) : text;
+}
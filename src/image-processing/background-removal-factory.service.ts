@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { BackgroundRemovalProvider } from './background-removal-provider.interface';
+import { RemoveBgService } from './remove-bg.service';
+import { OnnxBackgroundRemovalService } from './onnx-background-removal.service';
+
+export type BackgroundRemovalProviderType = 'removebg' | 'onnx';
+
+@Injectable()
+export class BackgroundRemovalFactory {
+  constructor(
+    private readonly configService: UnifiedConfigService,
+    private readonly removeBgService: RemoveBgService,
+    private readonly onnxBackgroundRemoval: OnnxBackgroundRemovalService,
+  ) {}
+
+  /**
+   * Get the provider selected by BACKGROUND_REMOVAL_PROVIDER
+   */
+  getProvider(): BackgroundRemovalProvider {
+    const type = this.configService.getMediaProcessingConfig().backgroundRemovalProvider as BackgroundRemovalProviderType;
+
+    switch (type) {
+      case 'removebg':
+        return this.removeBgService;
+      case 'onnx':
+        return this.onnxBackgroundRemoval;
+      default:
+        throw new Error(`Unsupported background removal provider: ${type}`);
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { RemoveBgOptions, RemoveBgResult } from './remove-bg.service';
+
+export interface BackgroundRemovalProvider {
+  /**
+   * Name reported in logs and stored with the job result
+   */
+  readonly name: string;
+
+  /**
+   * Remove the background of an image. Background colour or image, crop,
+   * scale and shadow options are applied to the result.
+   */
+  removeBackground(imageBuffer: Buffer, options?: RemoveBgOptions): Promise<RemoveBgResult>;
+
+  /**
+   * Remove the background of an image downloaded from a URL
+   */
+  removeBackgroundFromUrl(imageUrl: string, options?: RemoveBgOptions): Promise<RemoveBgResult>;
+}
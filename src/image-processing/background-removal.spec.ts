@@ -0,0 +1,44 @@
+import { expandRegion, maskBounds, outputDimensions, parseRegion, placeSubject, visiblePart } from './background-removal';
+
+describe('background-removal', () => {
+  it('should cap the output resolution per size', () => {
+    expect(outputDimensions(4000, 3000, 'preview')).toEqual({ width: 577, height: 433 });
+    expect(outputDimensions(1000, 500, 'hd')).toEqual({ width: 1000, height: 500 });
+    expect(outputDimensions(8000, 6000)).toEqual({ width: 5773, height: 4330 });
+  });
+
+  it('should parse regions of interest in pixels and percentages', () => {
+    expect(parseRegion('100,50,200,100', 400, 300, false)).toEqual({ left: 100, top: 50, width: 200, height: 100 });
+    expect(parseRegion('10%,10%,80%,50%', 400, 300, true)).toEqual({ left: 40, top: 30, width: 320, height: 150 });
+    expect(parseRegion('300 200 500 500', 400, 300, false)).toEqual({ left: 300, top: 200, width: 100, height: 100 });
+    expect(() => parseRegion('1,2,3', 400, 300, false)).toThrow('expected x,y,width,height');
+  });
+
+  it('should find the bounds of the foreground', () => {
+    const mask = new Uint8Array(5 * 4);
+    mask[1 * 5 + 1] = 255;
+    mask[2 * 5 + 3] = 200;
+    mask[3 * 5 + 4] = 10;
+    expect(maskBounds(mask, 5, 4)).toEqual({ left: 1, top: 1, width: 3, height: 2 });
+    expect(maskBounds(new Uint8Array(20), 5, 4)).toBeNull();
+  });
+
+  it('should add the crop margin inside the image', () => {
+    expect(expandRegion({ left: 5, top: 40, width: 20, height: 20 }, 10, 100, 65)).toEqual({ left: 0, top: 30, width: 35, height: 35 });
+  });
+
+  it('should scale and position the subject on the canvas', () => {
+    const subject = { left: 10, top: 10, width: 20, height: 40 };
+    expect(placeSubject(subject, 100, 100, 0.5)).toEqual({ left: 38, top: 25, width: 25, height: 50 });
+    expect(placeSubject(subject, 100, 100, 0.5, 'original')).toEqual({ left: 8, top: 5, width: 25, height: 50 });
+  });
+
+  it('should clip a subject placed partly outside the canvas', () => {
+    expect(visiblePart({ left: -10, top: 20, width: 50, height: 100 }, 100, 100)).toEqual({
+      region: { left: 10, top: 0, width: 40, height: 80 },
+      left: 0,
+      top: 20,
+    });
+    expect(visiblePart({ left: 120, top: 0, width: 10, height: 10 }, 100, 100)).toBeNull();
+  });
+});
@@ -0,0 +1,137 @@
+import { CropRegion } from './focal-point';
+
+export type BackgroundRemovalSize = 'auto' | 'preview' | 'small' | 'regular' | 'medium' | 'hd' | 'full' | '4k' | '50MP';
+
+// Output resolution caps in megapixels, following the remove.bg size options
+export const OUTPUT_MEGAPIXELS: Record<BackgroundRemovalSize, number> = {
+  preview: 0.25,
+  small: 0.25,
+  regular: 0.25,
+  medium: 1.5,
+  hd: 4,
+  '4k': 10,
+  full: 25,
+  auto: 25,
+  '50MP': 50,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Scales image dimensions down to the pixel budget of an output size
+ */
+export function outputDimensions(width: number, height: number, size: BackgroundRemovalSize = 'auto'): { width: number; height: number } {
+  const maxPixels = (OUTPUT_MEGAPIXELS[size] ?? OUTPUT_MEGAPIXELS.auto) * 1_000_000;
+  if (width * height <= maxPixels) {
+    return { width, height };
+  }
+  const factor = Math.sqrt(maxPixels / (width * height));
+  return { width: Math.max(1, Math.floor(width * factor)), height: Math.max(1, Math.floor(height * factor)) };
+}
+
+/**
+ * Parses a region of interest given as `x,y,width,height` in pixels or as
+ * percentages of the image, clamped to the image
+ * @throws Error when the value is not four numbers
+ */
+export function parseRegion(value: string, width: number, height: number, percent: boolean): CropRegion {
+  const parts = value.split(/[\s,]+/).filter(Boolean).map((part) => parseFloat(part.replace(/(px|%)$/, '')));
+  if (parts.length !== 4 || parts.some((part) => !Number.isFinite(part) || part < 0)) {
+    throw new Error(`Invalid region of interest "${value}": expected x,y,width,height`);
+  }
+
+  const [x, y, w, h] = percent
+    ? [parts[0] * width, parts[1] * height, parts[2] * width, parts[3] * height].map((part) => part / 100)
+    : parts;
+  const left = clamp(Math.round(x), 0, width - 1);
+  const top = clamp(Math.round(y), 0, height - 1);
+  return {
+    left,
+    top,
+    width: clamp(Math.round(w), 1, width - left),
+    height: clamp(Math.round(h), 1, height - top),
+  };
+}
+
+/**
+ * Bounding box of the mask pixels above the threshold, or null when the mask
+ * is empty
+ * @param mask One byte per pixel
+ */
+export function maskBounds(mask: Uint8Array, width: number, height: number, threshold = 16): CropRegion | null {
+  let left = width;
+  let top = height;
+  let right = -1;
+  let bottom = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] > threshold) {
+        left = Math.min(left, x);
+        right = Math.max(right, x);
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y);
+      }
+    }
+  }
+
+  return right < 0 ? null : { left, top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * Grows a region by a margin on every side without leaving the image
+ */
+export function expandRegion(region: CropRegion, margin: number, width: number, height: number): CropRegion {
+  const left = Math.max(0, region.left - margin);
+  const top = Math.max(0, region.top - margin);
+  return {
+    left,
+    top,
+    width: Math.min(width, region.left + region.width + margin) - left,
+    height: Math.min(height, region.top + region.height + margin) - top,
+  };
+}
+
+/**
+ * Where the subject goes on a canvas when `scale` is set: scaled to fit
+ * `scale` times the canvas, then centred or kept around its original centre
+ * @param subject Subject bounds on the canvas
+ */
+export function placeSubject(
+  subject: CropRegion,
+  canvasWidth: number,
+  canvasHeight: number,
+  scale: number,
+  position: 'center' | 'original' = 'center',
+): CropRegion {
+  const factor = Math.min((canvasWidth * scale) / subject.width, (canvasHeight * scale) / subject.height);
+  const width = Math.max(1, Math.round(subject.width * factor));
+  const height = Math.max(1, Math.round(subject.height * factor));
+  const [centerX, centerY] = position === 'original'
+    ? [subject.left + subject.width / 2, subject.top + subject.height / 2]
+    : [canvasWidth / 2, canvasHeight / 2];
+  return { left: Math.round(centerX - width / 2), top: Math.round(centerY - height / 2), width, height };
+}
+
+/**
+ * Part of a placed subject that falls on the canvas, as the region to cut
+ * from the scaled subject and its offset on the canvas; null when none does
+ */
+export function visiblePart(
+  placement: CropRegion,
+  canvasWidth: number,
+  canvasHeight: number,
+): { region: CropRegion; left: number; top: number } | null {
+  const left = Math.max(0, placement.left);
+  const top = Math.max(0, placement.top);
+  const right = Math.min(canvasWidth, placement.left + placement.width);
+  const bottom = Math.min(canvasHeight, placement.top + placement.height);
+  if (right <= left || bottom <= top) {
+    return null;
+  }
+  return {
+    region: { left: left - placement.left, top: top - placement.top, width: right - left, height: bottom - top },
+    left,
+    top,
+  };
+}
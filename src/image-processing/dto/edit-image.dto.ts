@@ -0,0 +1,174 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsOptional,
+  IsIn,
+  IsEnum,
+  IsNumber,
+  IsInt,
+  IsArray,
+  IsString,
+  IsDateString,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Matches,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type, plainToInstance } from 'class-transformer';
+import { ImageEditType } from '../image-edits';
+
+const COLOR_PATTERN = /^(#[0-9a-fA-F]{3,8}|[a-zA-Z]+)$/;
+const COLOR_MESSAGE = 'must be a hex colour like #ffffff or a color name';
+
+export class ImageEditStepDto {
+  @ApiProperty({
+    description: 'Operation',
+    enum: ['crop', 'rotate', 'flip', 'flop', 'autoOrient', 'adjust', 'sharpen', 'blur', 'grayscale', 'tint', 'trim', 'padToAspect'],
+  })
+  @IsIn(['crop', 'rotate', 'flip', 'flop', 'autoOrient', 'adjust', 'sharpen', 'blur', 'grayscale', 'tint', 'trim', 'padToAspect'])
+  type: ImageEditType;
+
+  @ApiProperty({ description: 'crop: left edge in pixels', required: false, minimum: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  x?: number;
+
+  @ApiProperty({ description: 'crop: top edge in pixels', required: false, minimum: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  y?: number;
+
+  @ApiProperty({ description: 'crop: width in pixels', required: false, minimum: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  width?: number;
+
+  @ApiProperty({ description: 'crop: height in pixels', required: false, minimum: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  height?: number;
+
+  @ApiProperty({ description: 'rotate: degrees clockwise', required: false, minimum: -360, maximum: 360 })
+  @IsOptional()
+  @IsNumber()
+  @Min(-360)
+  @Max(360)
+  angle?: number;
+
+  @ApiProperty({ description: 'rotate/padToAspect: fill colour (default #ffffff); trim: border colour', required: false })
+  @IsOptional()
+  @Matches(COLOR_PATTERN, { message: `background ${COLOR_MESSAGE}` })
+  background?: string;
+
+  @ApiProperty({ description: 'adjust: brightness multiplier, 1 leaves it unchanged', required: false, minimum: 0, maximum: 5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(5)
+  brightness?: number;
+
+  @ApiProperty({ description: 'adjust: contrast multiplier, 1 leaves it unchanged', required: false, minimum: 0, maximum: 5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(5)
+  contrast?: number;
+
+  @ApiProperty({ description: 'adjust: saturation multiplier, 0 is grayscale', required: false, minimum: 0, maximum: 5 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(5)
+  saturation?: number;
+
+  @ApiProperty({ description: 'adjust: hue rotation in degrees', required: false, minimum: -360, maximum: 360 })
+  @IsOptional()
+  @IsInt()
+  @Min(-360)
+  @Max(360)
+  hue?: number;
+
+  @ApiProperty({ description: 'sharpen (up to 10)/blur: gaussian sigma in pixels', required: false, minimum: 0.3, maximum: 100 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.3)
+  @Max(100)
+  sigma?: number;
+
+  @ApiProperty({ description: 'tint: colour', required: false, example: '#704214' })
+  @IsOptional()
+  @Matches(COLOR_PATTERN, { message: `color ${COLOR_MESSAGE}` })
+  color?: string;
+
+  @ApiProperty({ description: 'trim: colour difference still treated as border (default 10)', required: false, minimum: 0, maximum: 255 })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(255)
+  threshold?: number;
+
+  @ApiProperty({ description: 'padToAspect: width:height or a number', required: false, example: '16:9' })
+  @IsOptional()
+  @IsString()
+  aspectRatio?: string;
+}
+
+// Multipart bodies send the step list as a JSON string
+const toEditSteps = ({ value }) => {
+  let steps = value;
+  if (typeof value === 'string') {
+    try {
+      steps = JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return Array.isArray(steps) ? plainToInstance(ImageEditStepDto, steps) : steps;
+};
+
+export class EditImageDto {
+  @ApiProperty({
+    description: 'Editing steps, applied in order',
+    type: [ImageEditStepDto],
+    example: [{ type: 'autoOrient' }, { type: 'crop', x: 10, y: 10, width: 400, height: 300 }, { type: 'adjust', brightness: 1.1 }],
+  })
+  @Transform(toEditSteps)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  operations: ImageEditStepDto[];
+
+  @ApiProperty({ description: 'Output format', enum: ['jpeg', 'png', 'webp', 'avif'], required: false, default: 'jpeg' })
+  @IsOptional()
+  @IsEnum(['jpeg', 'png', 'webp', 'avif'])
+  format?: 'jpeg' | 'png' | 'webp' | 'avif';
+
+  @ApiProperty({ description: 'Quality setting (1-100)', required: false, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : undefined)
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  quality?: number;
+
+  @ApiProperty({ description: 'Expiry in days (default: 1)', required: false, default: 1, minimum: 1, maximum: 365 })
+  @IsOptional()
+  @Transform(({ value }) => value ? parseInt(value, 10) : 1)
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(365)
+  expiryDays?: number;
+
+  @ApiProperty({ description: 'Custom expiry date and time (ISO 8601 format)', required: false })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+}
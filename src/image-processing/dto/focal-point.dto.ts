@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class FocalPointDto {
+  @ApiProperty({ description: 'Horizontal position, 0 (left) to 1 (right)', minimum: 0, maximum: 1, example: 0.5 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  x: number;
+
+  @ApiProperty({ description: 'Vertical position, 0 (top) to 1 (bottom)', minimum: 0, maximum: 1, example: 0.33 })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  y: number;
+}
+
+export class DetectFocalPointDto {
+  @ApiProperty({
+    description: 'Saliency strategy used when no face is found (default: FOCAL_POINT_STRATEGY)',
+    enum: ['attention', 'entropy'],
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(['attention', 'entropy'])
+  strategy?: 'attention' | 'entropy';
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class SignTransformDto {
+  @ApiProperty({ description: 'Media ID' })
+  @IsString()
+  @IsNotEmpty()
+  mediaId: string;
+
+  @ApiProperty({ description: 'Transformation to sign', example: 'w_400,h_300,c_cover,f_auto,q_80' })
+  @IsString()
+  @IsNotEmpty()
+  transform: string;
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { FaceDetector } from './face-detector.interface';
+import { OnnxFaceDetectorService } from './onnx-face-detector.service';
+
+export type FaceDetectorType = 'onnx' | 'none';
+
+@Injectable()
+export class FaceDetectorFactory {
+  constructor(
+    private readonly configService: UnifiedConfigService,
+    private readonly onnxFaceDetector: OnnxFaceDetectorService,
+  ) {}
+
+  /**
+   * Get the detector selected by FACE_DETECTOR, or null when face detection
+   * is turned off
+   */
+  getDetector(): FaceDetector | null {
+    const type = this.configService.getMediaProcessingConfig().faceDetector as FaceDetectorType;
+
+    switch (type) {
+      case 'onnx':
+        return this.onnxFaceDetector;
+      case 'none':
+        return null;
+      default:
+        throw new Error(`Unsupported face detector: ${type}`);
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { FaceBox } from './focal-point';
+
+export interface FaceDetector {
+  /**
+   * Name reported in logs
+   */
+  readonly name: string;
+
+  /**
+   * Detect faces in an image. Boxes are relative to the EXIF-oriented image,
+   * 0-1 from the top left.
+   */
+  detectFaces(input: string | Buffer): Promise<FaceBox[]>;
+}
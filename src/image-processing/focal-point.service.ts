@@ -0,0 +1,141 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import * as sharp from 'sharp';
+import { PrismaService } from '../prisma/prisma.service';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { FaceDetectorFactory } from './face-detector-factory.service';
+import { FocalPoint, Point, facesFocalPoint, readFocalPoint } from './focal-point';
+
+export type SaliencyStrategy = 'attention' | 'entropy';
+
+// Saliency is computed on a copy no larger than this; it only needs the layout
+const ANALYSIS_SIZE = 512;
+
+@Injectable()
+export class FocalPointService {
+  private readonly logger = new Logger(FocalPointService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: UnifiedConfigService,
+    private readonly faceDetectorFactory: FaceDetectorFactory,
+  ) {}
+
+  /**
+   * Finds the focal point of an image: the faces when FACE_DETECTOR finds
+   * any, otherwise the sharp saliency strategy. A failing face detector only
+   * logs a warning.
+   * @param input Image file path or buffer
+   * @param strategy Saliency strategy, FOCAL_POINT_STRATEGY by default
+   */
+  async detect(input: string | Buffer, strategy?: SaliencyStrategy): Promise<FocalPoint> {
+    const detector = this.faceDetectorFactory.getDetector();
+    if (detector) {
+      try {
+        const faces = await detector.detectFaces(input);
+        if (faces.length > 0) {
+          return { ...facesFocalPoint(faces), source: 'face', faces, updatedAt: new Date().toISOString() };
+        }
+      } catch (error) {
+        this.logger.warn(`Face detection with ${detector.name} failed: ${error.message}`);
+      }
+    }
+
+    const salient = strategy || this.configService.getMediaProcessingConfig().focalPointStrategy;
+    const point = await this.detectSalientPoint(input, salient);
+    return { ...point, source: salient, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * Detects and stores the focal point of a media item. A manually set focal
+   * point is kept unless `force` is set.
+   * @param mediaId Media to update
+   * @param input Image file path or buffer of the media
+   */
+  async detectForMedia(
+    mediaId: string,
+    input: string | Buffer,
+    options: { strategy?: SaliencyStrategy; force?: boolean } = {},
+  ): Promise<FocalPoint> {
+    const media = await this.findMedia(mediaId);
+    const current = readFocalPoint(media.metadata);
+    if (current?.source === 'manual' && !options.force) {
+      return current;
+    }
+
+    const focalPoint = await this.detect(input, options.strategy);
+    await this.save(mediaId, media.metadata, focalPoint);
+    this.logger.log(`Focal point of media ${mediaId} set from ${focalPoint.source}`);
+    return focalPoint;
+  }
+
+  /**
+   * Stores a focal point chosen by a user; detection no longer replaces it
+   */
+  async setManual(mediaId: string, point: Point): Promise<FocalPoint> {
+    const media = await this.findMedia(mediaId);
+    const focalPoint: FocalPoint = { x: point.x, y: point.y, source: 'manual', updatedAt: new Date().toISOString() };
+    await this.save(mediaId, media.metadata, focalPoint);
+    return focalPoint;
+  }
+
+  /**
+   * Get the stored focal point of a media item, or null when none is set
+   */
+  async getForMedia(mediaId: string): Promise<FocalPoint | null> {
+    const media = await this.findMedia(mediaId);
+    return readFocalPoint(media.metadata);
+  }
+
+  /**
+   * Crops a downscaled copy with the strategy and reads back where it cut.
+   * Attention reports the centre of the salient region directly; entropy
+   * only reports crop offsets, so it needs a narrow crop along each axis.
+   */
+  private async detectSalientPoint(input: string | Buffer, strategy: SaliencyStrategy): Promise<Point> {
+    const { data, info } = await sharp(input, { failOn: 'none' })
+      .rotate()
+      .resize(ANALYSIS_SIZE, ANALYSIS_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const { width, height, channels } = info;
+    if (width < 4 || height < 4) {
+      return { x: 0.5, y: 0.5 };
+    }
+
+    const crop = (cropWidth: number, cropHeight: number) =>
+      sharp(data, { raw: { width, height, channels } })
+        .resize(cropWidth, cropHeight, { fit: 'cover', position: sharp.strategy[strategy] })
+        .raw()
+        .toBuffer({ resolveWithObject: true })
+        .then((result) => result.info);
+
+    if (strategy === 'attention') {
+      const { attentionX, attentionY } = await crop(Math.round(width / 2), height);
+      return { x: attentionX / width, y: attentionY / height };
+    }
+
+    const cropWidth = Math.round(width / 4);
+    const cropHeight = Math.round(height / 4);
+    const { cropOffsetLeft } = await crop(cropWidth, height);
+    const { cropOffsetTop } = await crop(width, cropHeight);
+    return {
+      x: (Math.abs(cropOffsetLeft) + cropWidth / 2) / width,
+      y: (Math.abs(cropOffsetTop) + cropHeight / 2) / height,
+    };
+  }
+
+  private async findMedia(mediaId: string) {
+    const media = await this.prisma.media.findUnique({ where: { id: mediaId } });
+    if (!media) {
+      throw new NotFoundException(`Media with ID ${mediaId} not found`);
+    }
+    return media;
+  }
+
+  private save(mediaId: string, metadata: unknown, focalPoint: FocalPoint) {
+    return this.prisma.media.update({
+      where: { id: mediaId },
+      data: { metadata: { ...((metadata as Record<string, any>) || {}), focalPoint } },
+    });
+  }
+}
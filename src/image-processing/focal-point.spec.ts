@@ -0,0 +1,37 @@
+import { facesFocalPoint, focalCropRegion, nonMaxSuppression, readFocalPoint } from './focal-point';
+
+describe('focal-point', () => {
+  it('should read only valid focal points from metadata', () => {
+    const focalPoint = { x: 0.2, y: 0.8, source: 'manual', updatedAt: '2024-01-01T00:00:00.000Z' };
+    expect(readFocalPoint({ focalPoint })).toEqual(focalPoint);
+    expect(readFocalPoint({ focalPoint: { x: 1.5, y: 0.5 } })).toBeNull();
+    expect(readFocalPoint({ focalPoint: { x: '0.5', y: 0.5 } })).toBeNull();
+    expect(readFocalPoint(null)).toBeNull();
+  });
+
+  it('should centre the crop on the focal point', () => {
+    expect(focalCropRegion(1000, 500, 100, 100, { x: 0.3, y: 0.5 })).toEqual({ left: 50, top: 0, width: 500, height: 500 });
+    expect(focalCropRegion(400, 800, 200, 100, { x: 0.5, y: 0.25 })).toEqual({ left: 0, top: 100, width: 400, height: 200 });
+  });
+
+  it('should keep the crop inside the image', () => {
+    expect(focalCropRegion(1000, 500, 100, 100, { x: 0, y: 0 })).toEqual({ left: 0, top: 0, width: 500, height: 500 });
+    expect(focalCropRegion(1000, 500, 100, 100, { x: 1, y: 1 })).toEqual({ left: 500, top: 0, width: 500, height: 500 });
+  });
+
+  it('should focus on the box enclosing all faces', () => {
+    const point = facesFocalPoint([
+      { x: 0.1, y: 0.2, width: 0.1, height: 0.1, score: 0.9 },
+      { x: 0.5, y: 0.4, width: 0.1, height: 0.2, score: 0.8 },
+    ]);
+    expect(point.x).toBeCloseTo(0.35);
+    expect(point.y).toBeCloseTo(0.4);
+  });
+
+  it('should drop overlapping detections with lower scores', () => {
+    const best = { x: 0.1, y: 0.1, width: 0.2, height: 0.2, score: 0.95 };
+    const overlapping = { x: 0.12, y: 0.11, width: 0.2, height: 0.2, score: 0.8 };
+    const separate = { x: 0.6, y: 0.6, width: 0.2, height: 0.2, score: 0.75 };
+    expect(nonMaxSuppression([overlapping, separate, best])).toEqual([best, separate]);
+  });
+});
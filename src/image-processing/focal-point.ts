@@ -0,0 +1,105 @@
+/**
+ * Focal points are stored under `Media.metadata.focalPoint` with coordinates
+ * relative to the displayed (EXIF-oriented) image, 0-1 from the top left.
+ */
+export type FocalPointSource = 'manual' | 'face' | 'attention' | 'entropy';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+export interface FocalPoint extends Point {
+  source: FocalPointSource;
+  faces?: FaceBox[];
+  updatedAt: string;
+}
+
+export interface CropRegion {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Reads the focal point from media metadata, ignoring malformed values
+ */
+export function readFocalPoint(metadata: unknown): FocalPoint | null {
+  const focalPoint = (metadata as Record<string, any>)?.focalPoint;
+  if (
+    typeof focalPoint?.x !== 'number' || typeof focalPoint?.y !== 'number' ||
+    focalPoint.x < 0 || focalPoint.x > 1 || focalPoint.y < 0 || focalPoint.y > 1
+  ) {
+    return null;
+  }
+  return focalPoint;
+}
+
+/**
+ * Largest region with the target aspect ratio, centred on the focal point as
+ * far as the image edges allow. Extracting it and resizing to the target
+ * replaces a centred `cover` crop.
+ */
+export function focalCropRegion(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  focalPoint: Point,
+): CropRegion {
+  const scale = Math.min(sourceWidth / targetWidth, sourceHeight / targetHeight);
+  const width = clamp(Math.round(targetWidth * scale), 1, sourceWidth);
+  const height = clamp(Math.round(targetHeight * scale), 1, sourceHeight);
+
+  return {
+    left: clamp(Math.round(focalPoint.x * sourceWidth - width / 2), 0, sourceWidth - width),
+    top: clamp(Math.round(focalPoint.y * sourceHeight - height / 2), 0, sourceHeight - height),
+    width,
+    height,
+  };
+}
+
+/**
+ * Centre of the box enclosing every face, so group shots keep all faces
+ */
+export function facesFocalPoint(faces: FaceBox[]): Point {
+  const left = Math.min(...faces.map((face) => face.x));
+  const top = Math.min(...faces.map((face) => face.y));
+  const right = Math.max(...faces.map((face) => face.x + face.width));
+  const bottom = Math.max(...faces.map((face) => face.y + face.height));
+  return { x: (left + right) / 2, y: (top + bottom) / 2 };
+}
+
+function intersectionOverUnion(a: FaceBox, b: FaceBox): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) {
+    return 0;
+  }
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+/**
+ * Keeps the best-scoring box of every group of overlapping detections
+ */
+export function nonMaxSuppression(boxes: FaceBox[], iouThreshold = 0.3): FaceBox[] {
+  const kept: FaceBox[] = [];
+  for (const box of [...boxes].sort((a, b) => b.score - a.score)) {
+    if (kept.every((other) => intersectionOverUnion(box, other) < iouThreshold)) {
+      kept.push(box);
+    }
+  }
+  return kept;
+}
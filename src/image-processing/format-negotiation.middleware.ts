@@ -0,0 +1,48 @@
+import { Logger } from '@nestjs/common';
+import { NextFunction, Request, Response } from 'express';
+import * as path from 'path';
+import { NEGOTIABLE_EXTENSIONS } from './format-negotiation';
+import { FormatNegotiationService, NEGOTIATED_DIR } from './format-negotiation.service';
+
+/**
+ * Express middleware for the static `/uploads` route. Requests for JPEG, PNG
+ * and WebP files are rewritten to an AVIF or WebP copy when the Accept header
+ * allows one, so the static handler still takes care of ETags, ranges and
+ * CORS headers. Must be mounted before the static handler.
+ * @param service Format negotiation service
+ * @param root Directory served under `/uploads`
+ */
+export function formatNegotiationMiddleware(service: FormatNegotiationService, root: string) {
+  const logger = new Logger('FormatNegotiation');
+  const uploadRoot = path.resolve(root);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const mimeType = NEGOTIABLE_EXTENSIONS[path.extname(req.path).toLowerCase()];
+    if (!mimeType || (req.method !== 'GET' && req.method !== 'HEAD')) {
+      return next();
+    }
+    res.vary('Accept');
+
+    let relativePath: string;
+    try {
+      relativePath = decodeURIComponent(req.path);
+    } catch {
+      return next();
+    }
+
+    const sourcePath = path.join(uploadRoot, relativePath);
+    if (!sourcePath.startsWith(uploadRoot + path.sep) || relativePath.startsWith(`/${NEGOTIATED_DIR}/`)) {
+      return next();
+    }
+
+    try {
+      const negotiated = await service.negotiate(sourcePath, mimeType, req.headers.accept, path.join(uploadRoot, NEGOTIATED_DIR));
+      if (negotiated) {
+        req.url = `/${NEGOTIATED_DIR}/${negotiated.fileName}`;
+      }
+    } catch (error) {
+      logger.warn(`Serving original ${relativePath}: ${error.message}`);
+    }
+    next();
+  };
+}
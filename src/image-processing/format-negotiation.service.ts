@@ -0,0 +1,88 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { createHash } from 'crypto';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { ImageProcessingService } from './image-processing.service';
+import { NEGOTIATED_QUALITY, NegotiatedFormat, preferredFormats } from './format-negotiation';
+
+// Directory inside the upload directory holding converted copies
+export const NEGOTIATED_DIR = '_negotiated';
+
+export interface NegotiatedFile {
+  fileName: string;
+  filePath: string;
+  mimeType: string;
+  size: number;
+  format: NegotiatedFormat;
+}
+
+@Injectable()
+export class FormatNegotiationService {
+  private readonly logger = new Logger(FormatNegotiationService.name);
+  // Concurrent first requests for one conversion share a single encode
+  private readonly converting = new Map<string, Promise<void>>();
+
+  constructor(private readonly imageProcessingService: ImageProcessingService) {}
+
+  /**
+   * Picks the best format of an image for an Accept header. Each format is
+   * converted once and kept in `outputDir`; copies are named after the
+   * source path and version, so replacing the source invalidates them.
+   * @param sourcePath Path to the original image
+   * @param mimeType MIME type of the original
+   * @param accept Accept header of the request
+   * @param outputDir Directory for converted copies
+   * @returns The converted copy, or null when the original should be served
+   * because the client accepts nothing better or no conversion is smaller
+   */
+  async negotiate(sourcePath: string, mimeType: string, accept: string | undefined, outputDir: string): Promise<NegotiatedFile | null> {
+    const formats = preferredFormats(accept, mimeType);
+    if (formats.length === 0) {
+      return null;
+    }
+
+    const source = await fs.stat(sourcePath).catch(() => null);
+    if (!source?.isFile()) {
+      return null;
+    }
+
+    const hash = createHash('sha256')
+      .update(`${path.resolve(sourcePath)}:${source.size}:${source.mtimeMs}`)
+      .digest('hex')
+      .slice(0, 32);
+
+    for (const format of formats) {
+      const fileName = `${hash}.${format}`;
+      const filePath = path.join(outputDir, fileName);
+      await this.ensureConverted(sourcePath, filePath, format);
+
+      const { size } = await fs.stat(filePath);
+      if (size < source.size) {
+        return { fileName, filePath, mimeType: `image/${format}`, size, format };
+      }
+    }
+
+    return null;
+  }
+
+  private async ensureConverted(sourcePath: string, filePath: string, format: NegotiatedFormat) {
+    if (await fs.pathExists(filePath)) {
+      return;
+    }
+
+    if (!this.converting.has(filePath)) {
+      const tempPath = `${filePath}.${process.pid}-${Date.now()}.tmp`;
+      const conversion = this.imageProcessingService
+        .convertFormat(sourcePath, tempPath, format, NEGOTIATED_QUALITY[format])
+        .then(() => fs.move(tempPath, filePath, { overwrite: true }))
+        .then(() => this.logger.log(`Converted ${sourcePath} to ${format}`))
+        .finally(async () => {
+          this.converting.delete(filePath);
+          await fs.remove(tempPath);
+        });
+      this.converting.set(filePath, conversion);
+    }
+
+    await this.converting.get(filePath);
+  }
+}
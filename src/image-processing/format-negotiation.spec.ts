@@ -0,0 +1,16 @@
+import { preferredFormats } from './format-negotiation';
+
+describe('format-negotiation', () => {
+  it('should prefer AVIF, then WebP, for JPEG and PNG sources', () => {
+    expect(preferredFormats('image/avif,image/webp,image/apng,*/*;q=0.8', 'image/jpeg')).toEqual(['avif', 'webp']);
+    expect(preferredFormats('image/webp,*/*', 'image/png')).toEqual(['webp']);
+    expect(preferredFormats('image/avif,image/webp', 'image/webp')).toEqual(['avif']);
+  });
+
+  it('should ignore wildcards, refused formats and other sources', () => {
+    expect(preferredFormats('*/*', 'image/jpeg')).toEqual([]);
+    expect(preferredFormats(undefined, 'image/jpeg')).toEqual([]);
+    expect(preferredFormats('image/avif;q=0, image/webp', 'image/jpeg')).toEqual(['webp']);
+    expect(preferredFormats('image/avif,image/webp', 'image/gif')).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+export type NegotiatedFormat = 'avif' | 'webp';
+
+// Formats worth serving instead of the source, best first
+const ALTERNATIVES: Record<string, NegotiatedFormat[]> = {
+  'image/jpeg': ['avif', 'webp'],
+  'image/png': ['avif', 'webp'],
+  'image/webp': ['avif'],
+};
+
+export const NEGOTIABLE_EXTENSIONS: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+export const NEGOTIATED_QUALITY: Record<NegotiatedFormat, number> = {
+  avif: 50,
+  webp: 80,
+};
+
+/**
+ * Lists the formats the client explicitly accepts that beat the source
+ * format, best first. Wildcards do not count: browsers without WebP support
+ * still accept any image type.
+ * @param accept Accept header
+ * @param mimeType MIME type of the source image
+ */
+export function preferredFormats(accept: string | undefined, mimeType: string): NegotiatedFormat[] {
+  const accepted = new Set<string>();
+  for (const entry of (accept || '').split(',')) {
+    const [type, ...params] = entry.split(';').map((part) => part.trim().toLowerCase());
+    const q = params.find((param) => param.startsWith('q='));
+    if (!q || parseFloat(q.slice(2)) > 0) {
+      accepted.add(type);
+    }
+  }
+
+  return (ALTERNATIVES[mimeType] || []).filter((format) => accepted.has(`image/${format}`));
+}
@@ -0,0 +1,32 @@
+import { aspectPadding, checkEditSteps, orientationSteps, parseAspectRatio } from './image-edits';
+
+describe('image-edits', () => {
+  it('should parse aspect ratios', () => {
+    expect(parseAspectRatio('16:9')).toBeCloseTo(16 / 9);
+    expect(parseAspectRatio('1.5')).toBe(1.5);
+    expect(() => parseAspectRatio('16:0')).toThrow('Invalid aspect ratio');
+    expect(() => parseAspectRatio('wide')).toThrow('Invalid aspect ratio');
+  });
+
+  it('should pad the short side to reach the aspect ratio', () => {
+    expect(aspectPadding(100, 100, 16 / 9)).toEqual({ top: 0, bottom: 0, left: 39, right: 39 });
+    expect(aspectPadding(300, 100, 1)).toEqual({ top: 100, bottom: 100, left: 0, right: 0 });
+    expect(aspectPadding(101, 100, 1)).toEqual({ top: 0, bottom: 1, left: 0, right: 0 });
+    expect(aspectPadding(160, 90, 16 / 9)).toEqual({ top: 0, bottom: 0, left: 0, right: 0 });
+  });
+
+  it('should turn EXIF orientations into steps', () => {
+    expect(orientationSteps(1)).toEqual([]);
+    expect(orientationSteps(undefined)).toEqual([]);
+    expect(orientationSteps(6)).toEqual([{ type: 'rotate', angle: 90 }]);
+    expect(orientationSteps(5)).toEqual([{ type: 'rotate', angle: 90 }, { type: 'flop' }]);
+  });
+
+  it('should name the first step missing a parameter', () => {
+    expect(() => checkEditSteps([{ type: 'flip' }, { type: 'grayscale' }])).not.toThrow();
+    expect(() => checkEditSteps([{ type: 'flip' }, { type: 'crop', width: 10 }])).toThrow('Step 2 (crop): crop needs width and height');
+    expect(() => checkEditSteps([{ type: 'adjust' }])).toThrow('adjust needs');
+    expect(() => checkEditSteps([{ type: 'sharpen', sigma: 20 }])).toThrow('sharpen sigma must be 10 or less');
+    expect(() => checkEditSteps([{ type: 'padToAspect', aspectRatio: 'x' }])).toThrow('Step 1 (padToAspect): Invalid aspect ratio');
+  });
+});
@@ -0,0 +1,141 @@
+export type ImageEditType =
+  | 'crop'
+  | 'rotate'
+  | 'flip'
+  | 'flop'
+  | 'autoOrient'
+  | 'adjust'
+  | 'sharpen'
+  | 'blur'
+  | 'grayscale'
+  | 'tint'
+  | 'trim'
+  | 'padToAspect';
+
+export interface ImageEditStep {
+  type: ImageEditType;
+  /** crop: rectangle in pixels of the image at this step */
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  /** rotate: degrees clockwise */
+  angle?: number;
+  /** rotate/padToAspect: fill for uncovered areas; trim: border colour, the top-left pixel when omitted */
+  background?: string;
+  /** adjust: multipliers, 1 leaves it unchanged */
+  brightness?: number;
+  contrast?: number;
+  saturation?: number;
+  /** adjust: hue rotation in degrees */
+  hue?: number;
+  /** sharpen/blur: gaussian sigma in pixels */
+  sigma?: number;
+  /** tint: colour name or hex */
+  color?: string;
+  /** trim: colour difference still treated as border */
+  threshold?: number;
+  /** padToAspect: width:height, e.g. 16:9 or 1.5 */
+  aspectRatio?: string;
+}
+
+export interface Padding {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// EXIF orientation 2-8 as the steps that display the image upright
+const ORIENTATION_STEPS: Record<number, ImageEditStep[]> = {
+  2: [{ type: 'flop' }],
+  3: [{ type: 'rotate', angle: 180 }],
+  4: [{ type: 'flip' }],
+  5: [{ type: 'rotate', angle: 90 }, { type: 'flop' }],
+  6: [{ type: 'rotate', angle: 90 }],
+  7: [{ type: 'rotate', angle: 270 }, { type: 'flop' }],
+  8: [{ type: 'rotate', angle: 270 }],
+};
+
+/**
+ * Parses an aspect ratio given as `16:9` or as a number
+ * @throws Error when the value is not a positive ratio between 1:100 and 100:1
+ */
+export function parseAspectRatio(value: string): number {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(?::\s*(\d+(?:\.\d+)?))?\s*$/.exec(value || '');
+  const ratio = match ? parseFloat(match[1]) / (match[2] ? parseFloat(match[2]) : 1) : NaN;
+  if (!Number.isFinite(ratio) || ratio < 0.01 || ratio > 100) {
+    throw new Error(`Invalid aspect ratio "${value}": expected e.g. 16:9 or 1.5`);
+  }
+  return ratio;
+}
+
+/**
+ * Padding that brings an image to an aspect ratio, split evenly between the
+ * two sides that grow
+ */
+export function aspectPadding(width: number, height: number, ratio: number): Padding {
+  const targetWidth = Math.max(width, Math.round(height * ratio));
+  const targetHeight = Math.max(height, Math.round(width / ratio));
+  const [padX, padY] = targetWidth > width ? [targetWidth - width, 0] : [0, targetHeight - height];
+  return {
+    top: Math.floor(padY / 2),
+    bottom: Math.ceil(padY / 2),
+    left: Math.floor(padX / 2),
+    right: Math.ceil(padX / 2),
+  };
+}
+
+/**
+ * Steps that apply an EXIF orientation to the pixels
+ */
+export function orientationSteps(orientation?: number): ImageEditStep[] {
+  return ORIENTATION_STEPS[orientation] || [];
+}
+
+/**
+ * Checks that every step has the parameters it needs, before any work is done
+ * @throws Error naming the first invalid step
+ */
+export function checkEditSteps(steps: ImageEditStep[]): void {
+  steps.forEach((step, index) => {
+    const fail = (message: string) => {
+      throw new Error(`Step ${index + 1} (${step.type}): ${message}`);
+    };
+
+    switch (step.type) {
+      case 'crop':
+        if (!step.width || !step.height) {
+          fail('crop needs width and height');
+        }
+        break;
+      case 'rotate':
+        if (step.angle === undefined) {
+          fail('rotate needs an angle');
+        }
+        break;
+      case 'adjust':
+        if (['brightness', 'contrast', 'saturation', 'hue'].every((key) => step[key] === undefined)) {
+          fail('adjust needs brightness, contrast, saturation or hue');
+        }
+        break;
+      case 'sharpen':
+        if (step.sigma > 10) {
+          fail('sharpen sigma must be 10 or less');
+        }
+        break;
+      case 'tint':
+        if (!step.color) {
+          fail('tint needs a color');
+        }
+        break;
+      case 'padToAspect':
+        try {
+          parseAspectRatio(step.aspectRatio);
+        } catch (error) {
+          fail(error.message);
+        }
+        break;
+    }
+  });
+}
@@ -0,0 +1,150 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ImageProcessingService } from './image-processing.service';
+import { BackgroundRemovalFactory } from './background-removal-factory.service';
+import { ImageVariantService } from './image-variant.service';
+import { ProcessedMediaService } from '../processed-media/processed-media.service';
+import { JobHandlerRegistry, ProcessingJobRecord } from '../jobs/job-handler.registry';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+
+@Injectable()
+export class ImageJobHandlers implements OnModuleInit {
+  constructor(
+    private readonly registry: JobHandlerRegistry,
+    private readonly imageProcessingService: ImageProcessingService,
+    private readonly backgroundRemovalFactory: BackgroundRemovalFactory,
+    private readonly processedMediaService: ProcessedMediaService,
+    private readonly imageVariantService: ImageVariantService,
+  ) {}
+
+  onModuleInit() {
+    this.registry.register('image.batch-optimize', {
+      queue: 'image',
+      handle: (job) => this.handleBatchOptimize(job),
+      cleanup: (job) => this.removeFiles(job.payload.inputPaths),
+    });
+
+    this.registry.register('image.remove-bg', {
+      queue: 'image',
+      handle: (job) => this.handleRemoveBg(job),
+      cleanup: async (job) => {
+        await this.removeFiles([job.payload.outputPath]);
+        if (job.payload.deleteInput) {
+          await this.removeFiles([job.payload.inputPath]);
+        }
+      },
+    });
+
+    this.registry.register('image.variants', {
+      queue: 'image',
+      handle: (job) => this.handleVariants(job),
+    });
+  }
+
+  private async handleBatchOptimize(job: ProcessingJobRecord) {
+    const { inputPaths, outputDir, options, originalSizes } = job.payload;
+
+    const results = await this.imageProcessingService.batchOptimize(inputPaths, outputDir, options);
+
+    // Clean up temporary files
+    await this.removeFiles(inputPaths);
+
+    return {
+      result: {
+        success: true,
+        processed: results.length,
+        results: results.map(result => ({
+          originalSize: originalSizes?.[path.basename(result.inputPath)] || 0,
+          optimizedSize: result.size,
+          dimensions: result.dimensions,
+          outputPath: result.outputPath,
+        })),
+      },
+    };
+  }
+
+  /**
+   * Remove background from an uploaded temp file, a URL or a media library
+   * file with the BACKGROUND_REMOVAL_PROVIDER, then record the output as
+   * ProcessedMedia
+   */
+  private async handleRemoveBg(job: ProcessingJobRecord) {
+    const p = job.payload;
+    const format = p.options.format || 'png';
+    const provider = this.backgroundRemovalFactory.getProvider();
+
+    const result = p.sourceType === 'URL'
+      ? await provider.removeBackgroundFromUrl(p.imageUrl, p.options)
+      : await provider.removeBackground(await fs.readFile(p.inputPath), p.options);
+
+    // Save result to file
+    await fs.writeFile(p.outputPath, result.imageBuffer);
+
+    if (p.deleteInput) {
+      await this.removeFiles([p.inputPath]);
+    }
+
+    // Save to ProcessedMedia table
+    const processedMedia = await this.processedMediaService.create({
+      originalName: p.originalName,
+      storedFileName: p.filename,
+      mimeType: `image/${format}`,
+      fileSize: result.imageBuffer.length,
+      filePath: p.outputPath,
+      publicUrl: `/uploads/remove-bg/${p.filename}`,
+      width: result.foregroundWidth,
+      height: result.foregroundHeight,
+      format,
+      processType: 'REMOVE_BG',
+      originalSize: p.originalSize,
+      sourceMediaId: p.mediaId,
+      processingOptions: p.options,
+      sourceType: p.sourceType,
+      ...(p.options.expiresAt ? { expiresAt: p.options.expiresAt } : { expiryDays: p.options.expiryDays || 1 }),
+    }, job.userId);
+
+    return {
+      result: {
+        success: true,
+        originalSize: p.originalSize,
+        processedSize: result.imageBuffer.length,
+        dimensions: {
+          width: result.foregroundWidth,
+          height: result.foregroundHeight,
+        },
+        outputPath: p.outputPath,
+        url: `/uploads/remove-bg/${p.filename}`,
+        processedMediaId: processedMedia.id,
+        expiresAt: processedMedia.expiresAt,
+        creditsCharged: result.creditsCharged,
+        type: result.type,
+        provider: provider.name,
+      },
+      processedMediaIds: [processedMedia.id],
+    };
+  }
+
+  /**
+   * Regenerate the variants of a media item, e.g. after its focal point moved
+   */
+  private async handleVariants(job: ProcessingJobRecord) {
+    const { mediaId, inputPath, storageKey } = job.payload;
+    const { variants, srcset } = await this.imageVariantService.generateVariants(mediaId, inputPath, storageKey);
+
+    return {
+      result: {
+        success: variants.length > 0,
+        variants,
+        srcset,
+      },
+    };
+  }
+
+  private async removeFiles(filePaths: string[] = []) {
+    for (const filePath of filePaths) {
+      if (filePath) {
+        await fs.remove(filePath);
+      }
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { Controller, Post, Get, Param, Body, Query, UseInterceptors, UploadedFile, ParseFilePipe, MaxFileSizeValidator, FileTypeValidator, UseGuards, Request } from '@nestjs/common';
+import { Controller, Post, Get, Put, Param, Body, Query, Headers, Res, UseInterceptors, UploadedFile, ParseFilePipe, MaxFileSizeValidator, FileTypeValidator, UseGuards, Request, HttpCode, HttpStatus, BadRequestException } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { ApiTags, ApiOperation, ApiResponse, ApiConsumes, ApiBody, ApiParam, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
 import { ImageProcessingService, ImageOptimizationOptions, ThumbnailOptions } from './image-processing.service';
@@ -12,8 +12,15 @@ import { ThumbnailMediaByIdDto } from './dto/thumbnail-media-by-id.dto';
 import { ConvertMediaByIdDto } from './dto/convert-media-by-id.dto';
 import { RemoveBgDto, RemoveBgFromUrlDto, RemoveBgFromMediaIdDto } from './dto/remove-bg.dto';
 import { RemoveBgService } from './remove-bg.service';
+import { FormatNegotiationService, NEGOTIATED_DIR } from './format-negotiation.service';
+import { FocalPointService } from './focal-point.service';
+import { FocalPointDto, DetectFocalPointDto } from './dto/focal-point.dto';
+import { EditImageDto } from './dto/edit-image.dto';
+import { checkEditSteps, ImageEditStep } from './image-edits';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { ProcessedMediaService } from '../processed-media/processed-media.service';
+import { JobsService } from '../jobs/jobs.service';
+import { Response } from 'express';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 
@@ -25,6 +32,9 @@ export class ImageProcessingController {
     private readonly configService: ConfigService,
     private readonly processedMediaService: ProcessedMediaService,
     private readonly removeBgService: RemoveBgService,
+    private readonly jobsService: JobsService,
+    private readonly formatNegotiationService: FormatNegotiationService,
+    private readonly focalPointService: FocalPointService,
   ) {}
 
   @Post('optimize')
@@ -317,6 +327,103 @@ export class ImageProcessingController {
     };
   }
 
+  @Post('edit')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Apply a chain of editing operations to an image and save to processed media' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Image file to edit',
+        },
+        operations: {
+          type: 'string',
+          description: 'JSON array of editing steps, applied in order',
+          example: '[{"type":"autoOrient"},{"type":"crop","x":10,"y":10,"width":400,"height":300},{"type":"adjust","brightness":1.1}]',
+        },
+        format: {
+          type: 'string',
+          enum: ['jpeg', 'png', 'webp', 'avif'],
+          description: 'Output format',
+          default: 'jpeg',
+        },
+        quality: {
+          type: 'number',
+          description: 'Output quality (1-100)',
+          default: 80,
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 201, description: 'Image edited successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request or validation error' })
+  @UseInterceptors(FileInterceptor('file'))
+  async editImage(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: 10 * 1024 * 1024 }), // 10MB
+          new FileTypeValidator({ fileType: '.(jpg|jpeg|png|gif|webp)' }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+    @Body() options: EditImageDto,
+    @Request() req,
+  ) {
+    this.checkEditSteps(options.operations);
+
+    const format = options.format || 'jpeg';
+    const uploadDir = this.configService.get<string>('UPLOAD_DIR', 'uploads');
+    const editedDir = path.join(uploadDir, 'edited');
+    await fs.ensureDir(editedDir);
+
+    const filename = `${Date.now()}-edited.${format}`;
+    const outputPath = path.join(editedDir, filename);
+
+    const result = await this.imageProcessingService.editImage(
+      file.buffer,
+      outputPath,
+      options.operations,
+      { format, quality: options.quality || 80 },
+    );
+
+    // Save to ProcessedMedia table
+    const processedMedia = await this.processedMediaService.create({
+      originalName: file.originalname,
+      storedFileName: filename,
+      mimeType: `image/${format}`,
+      fileSize: result.size,
+      filePath: outputPath,
+      publicUrl: `/uploads/edited/${filename}`,
+      width: result.dimensions.width,
+      height: result.dimensions.height,
+      format,
+      processType: 'EDIT',
+      quality: options.quality,
+      originalSize: file.size,
+      processingOptions: { operations: options.operations, format, quality: options.quality },
+      sourceType: 'UPLOAD',
+      ...(options.expiresAt ? { expiresAt: options.expiresAt } : { expiryDays: options.expiryDays || 1 }),
+    }, req.user.id);
+
+    return {
+      success: true,
+      originalSize: file.size,
+      editedSize: result.size,
+      dimensions: result.dimensions,
+      outputPath: result.path,
+      url: `/uploads/edited/${filename}`,
+      processedMediaId: processedMedia.id,
+      expiresAt: processedMedia.expiresAt,
+    };
+  }
+
   @Get('metadata/:filename')
   @ApiOperation({ summary: 'Get image metadata' })
   @ApiParam({ name: 'filename', description: 'Image filename' })
@@ -338,6 +445,9 @@ export class ImageProcessingController {
   }
 
   @Post('batch-optimize')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.ACCEPTED)
   @ApiOperation({ summary: 'Batch optimize multiple images' })
   @ApiConsumes('multipart/form-data')
   @ApiBody({
@@ -366,7 +476,7 @@ export class ImageProcessingController {
       },
     },
   })
-  @ApiResponse({ status: 201, description: 'Images optimized successfully' })
+  @ApiResponse({ status: 202, description: 'Batch optimization queued' })
   @ApiResponse({ status: 400, description: 'Bad request or validation error' })
   @UseInterceptors(FileInterceptor('files'))
   async batchOptimize(
@@ -379,14 +489,17 @@ export class ImageProcessingController {
     )
     files: Express.Multer.File[],
     @Body() options: BatchOptimizeDto,
+    @Request() req,
   ) {
     const uploadDir = this.configService.get<string>('UPLOAD_DIR', 'uploads');
     const batchDir = path.join(uploadDir, 'batch-optimized');
     await fs.ensureDir(batchDir);
 
+    const originalSizes: Record<string, number> = {};
     const inputPaths = files.map(file => {
       const tempPath = path.join(batchDir, `temp-${Date.now()}-${file.originalname}`);
       fs.writeFileSync(tempPath, file.buffer);
+      originalSizes[path.basename(tempPath)] = file.size;
       return tempPath;
     });
 
@@ -395,26 +508,18 @@ export class ImageProcessingController {
       format: options.format || 'jpeg',
     };
 
-    const results = await this.imageProcessingService.batchOptimize(
+    const job = await this.jobsService.enqueue('image.batch-optimize', {
       inputPaths,
-      batchDir,
-      optimizationOptions,
-    );
-
-    // Clean up temporary files
-    for (const inputPath of inputPaths) {
-      await fs.remove(inputPath);
-    }
+      outputDir: batchDir,
+      options: optimizationOptions,
+      originalSizes,
+    }, { userId: req.user.id });
 
     return {
       success: true,
-      processed: results.length,
-      results: results.map(result => ({
-        originalSize: files.find(f => f.originalname === path.basename(result.inputPath))?.size || 0,
-        optimizedSize: result.size,
-        dimensions: result.dimensions,
-        outputPath: result.outputPath,
-      })),
+      jobId: job.id,
+      status: job.status,
+      queued: inputPaths.length,
     };
   }
 
@@ -610,6 +715,69 @@ export class ImageProcessingController {
     };
   }
 
+  @Post('media/:mediaId/edit')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Apply a chain of editing operations to existing media by ID and save to processed media' })
+  @ApiParam({ name: 'mediaId', description: 'Media ID' })
+  @ApiBody({ type: EditImageDto })
+  @ApiResponse({ status: 201, description: 'Media edited successfully' })
+  @ApiResponse({ status: 400, description: 'Bad request or validation error' })
+  @ApiResponse({ status: 404, description: 'Media not found' })
+  async editMediaById(
+    @Param('mediaId') mediaId: string,
+    @Body() options: EditImageDto,
+    @Request() req,
+  ) {
+    this.checkEditSteps(options.operations);
+
+    const format = options.format || 'jpeg';
+    const uploadDir = this.configService.get<string>('UPLOAD_DIR', 'uploads');
+    const editedDir = path.join(uploadDir, 'edited');
+    await fs.ensureDir(editedDir);
+
+    const filename = `${Date.now()}-edited.${format}`;
+    const outputPath = path.join(editedDir, filename);
+
+    const result = await this.imageProcessingService.editMediaById(
+      mediaId,
+      outputPath,
+      options.operations,
+      { format, quality: options.quality || 80 },
+    );
+
+    // Save to ProcessedMedia table
+    const processedMedia = await this.processedMediaService.create({
+      originalName: `edited-${mediaId}`,
+      storedFileName: filename,
+      mimeType: `image/${format}`,
+      fileSize: result.size,
+      filePath: outputPath,
+      publicUrl: `/uploads/edited/${filename}`,
+      width: result.dimensions.width,
+      height: result.dimensions.height,
+      format,
+      processType: 'EDIT',
+      quality: options.quality,
+      originalSize: result.originalSize,
+      sourceMediaId: mediaId,
+      processingOptions: { operations: options.operations, format, quality: options.quality },
+      sourceType: 'MEDIA_LIBRARY',
+      ...(options.expiresAt ? { expiresAt: options.expiresAt } : { expiryDays: options.expiryDays || 1 }),
+    }, req.user.id);
+
+    return {
+      success: true,
+      originalSize: result.originalSize,
+      editedSize: result.size,
+      dimensions: result.dimensions,
+      outputPath: result.path,
+      url: `/uploads/edited/${filename}`,
+      processedMediaId: processedMedia.id,
+      expiresAt: processedMedia.expiresAt,
+    };
+  }
+
   @Get('media/:mediaId/metadata')
   @ApiOperation({ summary: 'Get metadata of existing media by ID' })
   @ApiParam({ name: 'mediaId', description: 'Media ID' })
@@ -624,12 +792,35 @@ export class ImageProcessingController {
   }
 
   @Get('media/:mediaId/serve')
-  @ApiOperation({ summary: 'Serve original media file by ID' })
+  @ApiOperation({
+    summary: 'Serve media file by ID',
+    description: 'Returns an AVIF or WebP copy instead of the original when the Accept header allows one and it is smaller.',
+  })
   @ApiParam({ name: 'mediaId', description: 'Media ID' })
   @ApiResponse({ status: 200, description: 'Media file served successfully' })
   @ApiResponse({ status: 404, description: 'Media not found' })
-  async serveMediaById(@Param('mediaId') mediaId: string) {
+  async serveMediaById(
+    @Param('mediaId') mediaId: string,
+    @Headers('accept') accept: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
     const result = await this.imageProcessingService.serveMediaById(mediaId);
+    res.vary('Accept');
+
+    const uploadDir = this.configService.get<string>('UPLOAD_DIR', 'uploads');
+    const negotiated = await this.formatNegotiationService
+      .negotiate(result.filePath, result.mimeType, accept, path.join(uploadDir, NEGOTIATED_DIR))
+      .catch(() => null);
+    if (negotiated) {
+      return {
+        success: true,
+        filePath: negotiated.filePath,
+        mimeType: negotiated.mimeType,
+        size: negotiated.size,
+        url: `/uploads/${NEGOTIATED_DIR}/${negotiated.fileName}`,
+      };
+    }
+
     return {
       success: true,
       filePath: result.filePath,
@@ -639,7 +830,79 @@ export class ImageProcessingController {
     };
   }
 
+  @Get('media/:mediaId/focal-point')
+  @ApiOperation({ summary: 'Get the focal point used to crop media by ID' })
+  @ApiParam({ name: 'mediaId', description: 'Media ID' })
+  @ApiResponse({ status: 200, description: 'Focal point retrieved successfully; null when none is set' })
+  @ApiResponse({ status: 404, description: 'Media not found' })
+  async getFocalPoint(@Param('mediaId') mediaId: string) {
+    const focalPoint = await this.focalPointService.getForMedia(mediaId);
+    return {
+      success: true,
+      focalPoint,
+    };
+  }
+
+  @Put('media/:mediaId/focal-point')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Set the focal point of media by ID',
+    description: 'A manual focal point is kept by automatic detection. Cropped variants are regenerated in the background.',
+  })
+  @ApiParam({ name: 'mediaId', description: 'Media ID' })
+  @ApiBody({ type: FocalPointDto })
+  @ApiResponse({ status: 200, description: 'Focal point saved' })
+  @ApiResponse({ status: 400, description: 'Bad request or validation error' })
+  @ApiResponse({ status: 404, description: 'Media not found' })
+  async setFocalPoint(
+    @Param('mediaId') mediaId: string,
+    @Body() point: FocalPointDto,
+    @Request() req,
+  ) {
+    const { filePath, media } = await this.imageProcessingService.getMediaFileById(mediaId);
+    const focalPoint = await this.focalPointService.setManual(mediaId, point);
+    const job = await this.enqueueVariants(mediaId, filePath, media.path, req.user.id);
+
+    return {
+      success: true,
+      focalPoint,
+      jobId: job.id,
+    };
+  }
+
+  @Post('media/:mediaId/focal-point/detect')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Detect the focal point of media by ID',
+    description: 'Uses face detection when FACE_DETECTOR is set, then the saliency strategy. Replaces a manual focal point.',
+  })
+  @ApiParam({ name: 'mediaId', description: 'Media ID' })
+  @ApiBody({ type: DetectFocalPointDto })
+  @ApiResponse({ status: 201, description: 'Focal point detected and saved' })
+  @ApiResponse({ status: 404, description: 'Media not found' })
+  async detectFocalPoint(
+    @Param('mediaId') mediaId: string,
+    @Body() options: DetectFocalPointDto,
+    @Request() req,
+  ) {
+    const { filePath, media } = await this.imageProcessingService.getMediaFileById(mediaId);
+    const focalPoint = await this.focalPointService.detectForMedia(mediaId, filePath, {
+      strategy: options.strategy,
+      force: true,
+    });
+    const job = await this.enqueueVariants(mediaId, filePath, media.path, req.user.id);
+
+    return {
+      success: true,
+      focalPoint,
+      jobId: job.id,
+    };
+  }
+
   @Post('remove-bg')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Remove background from uploaded image and save to processed media' })
@@ -689,7 +952,7 @@ export class ImageProcessingController {
       },
     },
   })
-  @ApiResponse({ status: 201, description: 'Background removed successfully' })
+  @ApiResponse({ status: 202, description: 'Background removal queued' })
   @ApiResponse({ status: 400, description: 'Bad request or validation error' })
   @UseInterceptors(FileInterceptor('file'))
   async removeBackground(
@@ -712,52 +975,35 @@ export class ImageProcessingController {
     const filename = `${Date.now()}-no-bg.${options.format || 'png'}`;
     const outputPath = path.join(removeBgDir, filename);
 
-    const result = await this.removeBgService.removeBackground(file.buffer, options);
-    
-    // Save result to file
-    await fs.writeFile(outputPath, result.imageBuffer);
+    // Persist the upload so the worker can read it after this request ends
+    const inputPath = path.join(removeBgDir, `temp-${Date.now()}${path.extname(file.originalname)}`);
+    await fs.writeFile(inputPath, file.buffer);
 
-    // Save to ProcessedMedia table
-    const processedMedia = await this.processedMediaService.create({
+    const job = await this.jobsService.enqueue('image.remove-bg', {
+      sourceType: 'UPLOAD',
+      inputPath,
+      deleteInput: true,
+      outputPath,
+      filename,
       originalName: file.originalname,
-      storedFileName: filename,
-      mimeType: `image/${options.format || 'png'}`,
-      fileSize: result.imageBuffer.length,
-      filePath: outputPath,
-      publicUrl: `/uploads/remove-bg/${filename}`,
-      width: result.foregroundWidth,
-      height: result.foregroundHeight,
-      format: options.format || 'png',
-      processType: 'REMOVE_BG',
       originalSize: file.size,
-      processingOptions: options,
-      sourceType: 'UPLOAD',
-      ...(options.expiresAt ? { expiresAt: options.expiresAt } : { expiryDays: options.expiryDays || 1 }),
-    }, req.user.id);
+      options,
+    }, { userId: req.user.id });
 
     return {
       success: true,
-      originalSize: file.size,
-      processedSize: result.imageBuffer.length,
-      dimensions: {
-        width: result.foregroundWidth,
-        height: result.foregroundHeight,
-      },
-      outputPath: outputPath,
-      url: `/uploads/remove-bg/${filename}`,
-      processedMediaId: processedMedia.id,
-      expiresAt: processedMedia.expiresAt,
-      creditsCharged: result.creditsCharged,
-      type: result.type,
+      jobId: job.id,
+      status: job.status,
     };
   }
 
   @Post('remove-bg/url')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Remove background from image URL and save to processed media' })
   @ApiBody({ type: RemoveBgFromUrlDto })
-  @ApiResponse({ status: 201, description: 'Background removed successfully' })
+  @ApiResponse({ status: 202, description: 'Background removal queued' })
   @ApiResponse({ status: 400, description: 'Bad request or validation error' })
   async removeBackgroundFromUrl(
     @Body() dto: RemoveBgFromUrlDto,
@@ -770,51 +1016,30 @@ export class ImageProcessingController {
     const filename = `${Date.now()}-no-bg.${dto.format || 'png'}`;
     const outputPath = path.join(removeBgDir, filename);
 
-    const result = await this.removeBgService.removeBackgroundFromUrl(dto.imageUrl, dto);
-    
-    // Save result to file
-    await fs.writeFile(outputPath, result.imageBuffer);
-
-    // Save to ProcessedMedia table
-    const processedMedia = await this.processedMediaService.create({
-      originalName: `url-${Date.now()}`,
-      storedFileName: filename,
-      mimeType: `image/${dto.format || 'png'}`,
-      fileSize: result.imageBuffer.length,
-      filePath: outputPath,
-      publicUrl: `/uploads/remove-bg/${filename}`,
-      width: result.foregroundWidth,
-      height: result.foregroundHeight,
-      format: dto.format || 'png',
-      processType: 'REMOVE_BG',
-      processingOptions: dto,
+    const job = await this.jobsService.enqueue('image.remove-bg', {
       sourceType: 'URL',
-      ...(dto.expiresAt ? { expiresAt: dto.expiresAt } : { expiryDays: dto.expiryDays || 1 }),
-    }, req.user.id);
+      imageUrl: dto.imageUrl,
+      outputPath,
+      filename,
+      originalName: `url-${Date.now()}`,
+      options: dto,
+    }, { userId: req.user.id });
 
     return {
       success: true,
-      processedSize: result.imageBuffer.length,
-      dimensions: {
-        width: result.foregroundWidth,
-        height: result.foregroundHeight,
-      },
-      outputPath: outputPath,
-      url: `/uploads/remove-bg/${filename}`,
-      processedMediaId: processedMedia.id,
-      expiresAt: processedMedia.expiresAt,
-      creditsCharged: result.creditsCharged,
-      type: result.type,
+      jobId: job.id,
+      status: job.status,
     };
   }
 
   @Post('media/:mediaId/remove-bg')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Remove background from existing media by ID and save to processed media' })
   @ApiParam({ name: 'mediaId', description: 'Media ID' })
   @ApiBody({ type: RemoveBgFromMediaIdDto })
-  @ApiResponse({ status: 201, description: 'Background removed successfully' })
+  @ApiResponse({ status: 202, description: 'Background removal queued' })
   @ApiResponse({ status: 400, description: 'Bad request or validation error' })
   @ApiResponse({ status: 404, description: 'Media not found' })
   async removeBackgroundFromMediaId(
@@ -831,46 +1056,22 @@ export class ImageProcessingController {
 
     // Get media file
     const { filePath, media } = await this.imageProcessingService.getMediaFileById(mediaId);
-    const imageBuffer = await fs.readFile(filePath);
 
-    const result = await this.removeBgService.removeBackground(imageBuffer, options);
-    
-    // Save result to file
-    await fs.writeFile(outputPath, result.imageBuffer);
-
-    // Save to ProcessedMedia table
-    const processedMedia = await this.processedMediaService.create({
+    const job = await this.jobsService.enqueue('image.remove-bg', {
+      sourceType: 'MEDIA_LIBRARY',
+      inputPath: filePath,
+      mediaId,
+      outputPath,
+      filename,
       originalName: `no-bg-${mediaId}`,
-      storedFileName: filename,
-      mimeType: `image/${options.format || 'png'}`,
-      fileSize: result.imageBuffer.length,
-      filePath: outputPath,
-      publicUrl: `/uploads/remove-bg/${filename}`,
-      width: result.foregroundWidth,
-      height: result.foregroundHeight,
-      format: options.format || 'png',
-      processType: 'REMOVE_BG',
       originalSize: media.size,
-      sourceMediaId: mediaId,
-      processingOptions: options,
-      sourceType: 'MEDIA_LIBRARY',
-      ...(options.expiresAt ? { expiresAt: options.expiresAt } : { expiryDays: options.expiryDays || 1 }),
-    }, req.user.id);
+      options,
+    }, { userId: req.user.id, sourceMediaId: mediaId });
 
     return {
       success: true,
-      originalSize: media.size,
-      processedSize: result.imageBuffer.length,
-      dimensions: {
-        width: result.foregroundWidth,
-        height: result.foregroundHeight,
-      },
-      outputPath: outputPath,
-      url: `/uploads/remove-bg/${filename}`,
-      processedMediaId: processedMedia.id,
-      expiresAt: processedMedia.expiresAt,
-      creditsCharged: result.creditsCharged,
-      type: result.type,
+      jobId: job.id,
+      status: job.status,
     };
   }
 
@@ -887,4 +1088,23 @@ export class ImageProcessingController {
       account: accountInfo,
     };
   }
+
+  /**
+   * Queue regeneration of the cropped variants after the focal point moved
+   */
+  private enqueueVariants(mediaId: string, inputPath: string, storageKey: string, userId: string) {
+    return this.jobsService.enqueue('image.variants', {
+      mediaId,
+      inputPath,
+      storageKey,
+    }, { userId, sourceMediaId: mediaId });
+  }
+
+  private checkEditSteps(steps: ImageEditStep[]) {
+    try {
+      checkEditSteps(steps);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
 }
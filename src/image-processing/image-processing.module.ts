@@ -1,19 +1,53 @@
 import { Module, forwardRef } from '@nestjs/common';
 import { ImageProcessingService } from './image-processing.service';
 import { ImageProcessingController } from './image-processing.controller';
+import { ImageTransformController } from './image-transform.controller';
 import { RemoveBgService } from './remove-bg.service';
+import { ImageVariantService } from './image-variant.service';
+import { ImageTransformService } from './image-transform.service';
+import { FormatNegotiationService } from './format-negotiation.service';
+import { FocalPointService } from './focal-point.service';
+import { BackgroundRemovalFactory } from './background-removal-factory.service';
+import { OnnxBackgroundRemovalService } from './onnx-background-removal.service';
+import { FaceDetectorFactory } from './face-detector-factory.service';
+import { OnnxFaceDetectorService } from './onnx-face-detector.service';
+import { ImageJobHandlers } from './image-job.handlers';
 import { MediaModule } from '../media/media.module';
 import { ProcessedMediaModule } from '../processed-media/processed-media.module';
 import { ConfigModule } from '../config/config.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
   imports: [
     forwardRef(() => MediaModule),
     forwardRef(() => ProcessedMediaModule),
     ConfigModule,
+    JobsModule,
+    StorageModule,
+  ],
+  controllers: [ImageProcessingController, ImageTransformController],
+  providers: [
+    ImageProcessingService,
+    RemoveBgService,
+    OnnxBackgroundRemovalService,
+    BackgroundRemovalFactory,
+    ImageVariantService,
+    ImageTransformService,
+    FormatNegotiationService,
+    FocalPointService,
+    FaceDetectorFactory,
+    OnnxFaceDetectorService,
+    ImageJobHandlers,
+  ],
+  exports: [
+    ImageProcessingService,
+    RemoveBgService,
+    BackgroundRemovalFactory,
+    ImageVariantService,
+    ImageTransformService,
+    FormatNegotiationService,
+    FocalPointService,
   ],
-  controllers: [ImageProcessingController],
-  providers: [ImageProcessingService, RemoveBgService],
-  exports: [ImageProcessingService, RemoveBgService],
 })
 export class ImageProcessingModule {}
@@ -1,9 +1,11 @@
-import { Injectable, Logger, NotFoundException, Inject, forwardRef } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException, HttpException, Inject, forwardRef } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as sharp from 'sharp';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import { MediaService } from '../media/media.service';
+import { Point, focalCropRegion, readFocalPoint } from './focal-point';
+import { ImageEditStep, aspectPadding, orientationSteps, parseAspectRatio } from './image-edits';
 
 export interface ImageDimensions {
   width: number;
@@ -32,6 +34,18 @@ export interface ImageOptimizationOptions {
   position?: 'top' | 'right top' | 'right' | 'right bottom' | 'bottom' | 'left bottom' | 'left' | 'left top' | 'center';
   background?: string;
   withoutEnlargement?: boolean;
+  // Replaces `position` for cover crops with both width and height
+  focalPoint?: Point;
+}
+
+export interface ImageEditOptions {
+  quality?: number;
+  format?: 'jpeg' | 'png' | 'webp' | 'avif';
+}
+
+interface RawImage {
+  data: Buffer;
+  info: sharp.OutputInfo;
 }
 
 export interface ThumbnailOptions {
@@ -40,6 +54,7 @@ export interface ThumbnailOptions {
   quality?: number;
   format?: 'jpeg' | 'png' | 'webp' | 'avif';
   fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
+  focalPoint?: Point;
 }
 
 @Injectable()
@@ -110,12 +125,16 @@ export class ImageProcessingService {
         position = 'center',
         background = '#ffffff',
         withoutEnlargement = true,
+        focalPoint,
       } = options;
 
       let sharpInstance = sharp(input);
 
-      // Resize if dimensions are provided
-      if (width || height) {
+      if (focalPoint && fit === 'cover' && width && height) {
+        sharpInstance = (await this.cropToFocalPoint(input, width, height, focalPoint))
+          .resize(width, height, { withoutEnlargement });
+      } else if (width || height) {
+        // Resize if dimensions are provided
         sharpInstance = sharpInstance.resize(width, height, {
           fit,
           position,
@@ -179,17 +198,20 @@ export class ImageProcessingService {
         quality = 80,
         format = 'jpeg',
         fit = 'cover',
+        focalPoint,
       } = options;
 
       // Ensure output directory exists
       await fs.ensureDir(path.dirname(outputPath));
 
-      let sharpInstance = sharp(input)
-        .resize(width, height, {
-          fit,
-          position: 'center',
-          withoutEnlargement: false,
-        });
+      let sharpInstance = focalPoint && fit === 'cover'
+        ? (await this.cropToFocalPoint(input, width, height, focalPoint)).resize(width, height)
+        : sharp(input)
+          .resize(width, height, {
+            fit,
+            position: 'center',
+            withoutEnlargement: false,
+          });
 
       // Apply format-specific settings
       switch (format) {
@@ -335,7 +357,8 @@ export class ImageProcessingService {
       // Ensure output directory exists
       await fs.ensureDir(path.dirname(outputPath));
 
-      let sharpInstance = sharp(input);
+      // Bake in the EXIF orientation; the output carries no metadata
+      let sharpInstance = sharp(input).rotate();
 
       // Apply format-specific settings
       switch (format) {
@@ -374,6 +397,73 @@ export class ImageProcessingService {
     }
   }
 
+  /**
+   * Apply editing steps in order. sharp runs the operations of one pipeline
+   * in a fixed order, so each step works on the raw pixels of the previous
+   * one; crop rectangles refer to the image as the earlier steps left it.
+   */
+  async editImage(
+    input: string | Buffer,
+    outputPath: string,
+    steps: ImageEditStep[],
+    options: ImageEditOptions = {},
+  ): Promise<{ path: string; size: number; dimensions: ImageDimensions }> {
+    try {
+      const { quality = 80, format = 'jpeg' } = options;
+
+      // Raw pixels carry no EXIF, so autoOrient uses the orientation of the input
+      const { orientation } = await sharp(input).metadata();
+      let image = await this.toRawImage(sharp(input));
+
+      for (const step of steps) {
+        const expanded = step.type === 'autoOrient' ? orientationSteps(orientation) : [step];
+        for (const edit of expanded) {
+          image = await this.toRawImage(this.applyEditStep(image, edit));
+        }
+      }
+
+      let sharpInstance = sharp(image.data, { raw: { width: image.info.width, height: image.info.height, channels: image.info.channels } });
+
+      // Apply format-specific settings
+      switch (format) {
+        case 'jpeg':
+          sharpInstance = sharpInstance.jpeg({ quality, progressive: true });
+          break;
+        case 'png':
+          sharpInstance = sharpInstance.png({ quality, progressive: true });
+          break;
+        case 'webp':
+          sharpInstance = sharpInstance.webp({ quality });
+          break;
+        case 'avif':
+          sharpInstance = sharpInstance.avif({ quality });
+          break;
+      }
+
+      // Ensure output directory exists
+      await fs.ensureDir(path.dirname(outputPath));
+
+      // Process and save
+      await sharpInstance.toFile(outputPath);
+      const stats = await fs.stat(outputPath);
+
+      return {
+        path: outputPath,
+        size: stats.size,
+        dimensions: {
+          width: image.info.width,
+          height: image.info.height,
+        },
+      };
+    } catch (error) {
+      this.logger.error(`Failed to edit image:`, error);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new Error(`Image editing failed: ${error.message}`);
+    }
+  }
+
   /**
    * Batch process multiple images
    */
@@ -458,7 +548,10 @@ export class ImageProcessingService {
     try {
       const { filePath, media } = await this.getMediaFileById(mediaId);
       
-      const result = await this.optimizeImage(filePath, outputPath, options);
+      const result = await this.optimizeImage(filePath, outputPath, {
+        focalPoint: readFocalPoint(media.metadata) ?? undefined,
+        ...options,
+      });
       
       return {
         ...result,
@@ -481,7 +574,10 @@ export class ImageProcessingService {
     try {
       const { filePath, media } = await this.getMediaFileById(mediaId);
       
-      const result = await this.generateThumbnail(filePath, outputPath, options);
+      const result = await this.generateThumbnail(filePath, outputPath, {
+        focalPoint: readFocalPoint(media.metadata) ?? undefined,
+        ...options,
+      });
       
       return {
         ...result,
@@ -517,6 +613,30 @@ export class ImageProcessingService {
     }
   }
 
+  /**
+   * Apply editing steps to existing media by ID
+   */
+  async editMediaById(
+    mediaId: string,
+    outputPath: string,
+    steps: ImageEditStep[],
+    options: ImageEditOptions = {},
+  ): Promise<{ path: string; size: number; dimensions: ImageDimensions; originalSize: number }> {
+    try {
+      const { filePath, media } = await this.getMediaFileById(mediaId);
+      
+      const result = await this.editImage(filePath, outputPath, steps, options);
+      
+      return {
+        ...result,
+        originalSize: media.size,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to edit media by ID ${mediaId}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get metadata of existing media by ID
    */
@@ -547,4 +667,68 @@ export class ImageProcessingService {
       throw error;
     }
   }
+
+  /**
+   * Cuts the region with the target aspect ratio around the focal point, so
+   * a plain resize to the target afterwards replaces a centred cover crop.
+   * The focal point is relative to the EXIF-oriented image, so the image is
+   * oriented first.
+   */
+  private async cropToFocalPoint(input: string | Buffer, width: number, height: number, focalPoint: Point): Promise<sharp.Sharp> {
+    const sharpInstance = sharp(input).rotate();
+    const { autoOrient } = await sharpInstance.metadata();
+    return sharpInstance.extract(focalCropRegion(autoOrient.width, autoOrient.height, width, height, focalPoint));
+  }
+
+  private applyEditStep({ data, info }: RawImage, step: ImageEditStep): sharp.Sharp {
+    const image = sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } });
+
+    switch (step.type) {
+      case 'crop': {
+        const { x = 0, y = 0, width, height } = step;
+        if (x + width > info.width || y + height > info.height) {
+          throw new BadRequestException(
+            `Crop ${width}x${height} at ${x},${y} does not fit the ${info.width}x${info.height} image`,
+          );
+        }
+        return image.extract({ left: x, top: y, width, height });
+      }
+      case 'rotate':
+        return image.rotate(step.angle, { background: step.background || '#ffffff' });
+      case 'flip':
+        return image.flip();
+      case 'flop':
+        return image.flop();
+      case 'adjust': {
+        const { contrast, ...rest } = step;
+        const adjusted = contrast !== undefined ? image.linear(contrast, 128 * (1 - contrast)) : image;
+        // modulate rejects keys that are present but undefined
+        const modulate = Object.fromEntries(
+          ['brightness', 'saturation', 'hue'].filter((key) => rest[key] !== undefined).map((key) => [key, rest[key]]),
+        );
+        return Object.keys(modulate).length ? adjusted.modulate(modulate) : adjusted;
+      }
+      case 'sharpen':
+        return step.sigma ? image.sharpen({ sigma: step.sigma }) : image.sharpen();
+      case 'blur':
+        return image.blur(step.sigma || 3);
+      case 'grayscale':
+        return image.grayscale();
+      case 'tint':
+        return image.tint(step.color);
+      case 'trim':
+        return image.trim({ background: step.background, threshold: step.threshold });
+      case 'padToAspect':
+        return image.extend({
+          ...aspectPadding(info.width, info.height, parseAspectRatio(step.aspectRatio)),
+          background: step.background || '#ffffff',
+        });
+      default:
+        throw new BadRequestException(`Unknown edit step: ${step.type}`);
+    }
+  }
+
+  private async toRawImage(sharpInstance: sharp.Sharp): Promise<RawImage> {
+    return sharpInstance.raw().toBuffer({ resolveWithObject: true });
+  }
 }
@@ -0,0 +1,64 @@
+import { Controller, Get, Post, Param, Query, Body, Headers, Res, UseGuards, VERSION_NEUTRAL } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiBearerAuth, ApiBody } from '@nestjs/swagger';
+import { Response } from 'express';
+import * as fs from 'fs-extra';
+import { ImageTransformService } from './image-transform.service';
+import { SignTransformDto } from './dto/sign-transform.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+// Renders are keyed by the source file version, so clients revalidate daily
+// with the ETag instead of caching for a year
+const TRANSFORM_CACHE_CONTROL = 'public, max-age=86400, stale-while-revalidate=604800';
+
+@ApiTags('Image Transformations')
+@Controller({ path: 'img', version: VERSION_NEUTRAL })
+export class ImageTransformController {
+  constructor(private readonly imageTransformService: ImageTransformService) {}
+
+  @Post('sign')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create a signed transformation URL' })
+  @ApiBody({ type: SignTransformDto })
+  @ApiResponse({ status: 201, description: 'Signed URL created' })
+  @ApiResponse({ status: 400, description: 'Invalid transformation or no signing secret configured' })
+  sign(@Body() dto: SignTransformDto) {
+    return this.imageTransformService.sign(dto.mediaId, dto.transform);
+  }
+
+  @Get(':mediaId/:transform')
+  @ApiOperation({ summary: 'Serve a transformed image, rendered on first request' })
+  @ApiParam({ name: 'mediaId', description: 'Media ID' })
+  @ApiParam({ name: 'transform', description: 'Transformation such as w_400,h_300,c_cover,f_auto,q_80, or a preset such as t_card' })
+  @ApiQuery({ name: 's', required: false, description: 'Signature from POST /img/sign' })
+  @ApiResponse({ status: 200, description: 'Transformed image' })
+  @ApiResponse({ status: 304, description: 'Not modified' })
+  @ApiResponse({ status: 400, description: 'Invalid transformation' })
+  @ApiResponse({ status: 403, description: 'Transformation not allowed by IMAGE_TRANSFORM_POLICY' })
+  @ApiResponse({ status: 404, description: 'Media or preset not found' })
+  async serve(
+    @Param('mediaId') mediaId: string,
+    @Param('transform') spec: string,
+    @Query('s') signature: string,
+    @Headers('accept') accept: string,
+    @Headers('if-none-match') ifNoneMatch: string,
+    @Res() res: Response,
+  ) {
+    const transform = this.imageTransformService.resolve(mediaId, spec, signature);
+    const rendered = await this.imageTransformService.render(mediaId, transform, accept);
+
+    res.setHeader('ETag', rendered.etag);
+    res.setHeader('Cache-Control', TRANSFORM_CACHE_CONTROL);
+    if (rendered.negotiated) {
+      res.setHeader('Vary', 'Accept');
+    }
+
+    if (ifNoneMatch && ifNoneMatch.split(',').some((tag) => tag.trim() === rendered.etag)) {
+      return res.status(304).end();
+    }
+
+    res.setHeader('Content-Type', rendered.mimeType);
+    res.setHeader('Content-Length', rendered.size);
+    fs.createReadStream(rendered.filePath).pipe(res);
+  }
+}
@@ -0,0 +1,171 @@
+import { BadRequestException, ForbiddenException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import * as path from 'path';
+import * as fs from 'fs-extra';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { ImageProcessingService } from './image-processing.service';
+import { Point, readFocalPoint } from './focal-point';
+import {
+  ImageTransform,
+  TransformFormat,
+  canonicalTransform,
+  parseTransform,
+  presetName,
+  resolveFormat,
+  signTransform,
+  transformCacheKey,
+  verifyTransformSignature,
+} from './transform-params';
+
+export interface RenderedTransform {
+  filePath: string;
+  mimeType: string;
+  size: number;
+  etag: string;
+  // True when the format was picked from the Accept header
+  negotiated: boolean;
+}
+
+@Injectable()
+export class ImageTransformService {
+  private readonly logger = new Logger(ImageTransformService.name);
+  // Concurrent first requests for one transformation share a single render
+  private readonly rendering = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly imageProcessingService: ImageProcessingService,
+    private readonly configService: UnifiedConfigService,
+  ) {}
+
+  /**
+   * Parses a URL transformation and enforces IMAGE_TRANSFORM_POLICY: named
+   * presets are always allowed, other transformations need a valid signature
+   * under `signed` and are refused under `presets`.
+   * @param mediaId Media ID from the URL
+   * @param spec Transformation from the URL, e.g. `w_400,f_auto` or `t_card`
+   * @param signature `s` query parameter
+   */
+  resolve(mediaId: string, spec: string, signature?: string): ImageTransform {
+    const { imageTransformPolicy, imageTransformPresets, maxImageDimension } = this.configService.getMediaProcessingConfig();
+
+    const preset = presetName(spec);
+    if (preset) {
+      const presetSpec = imageTransformPresets[preset];
+      if (!presetSpec) {
+        throw new NotFoundException(`Unknown transformation preset "${preset}"`);
+      }
+      return this.parse(presetSpec, maxImageDimension);
+    }
+
+    if (imageTransformPolicy === 'presets') {
+      throw new ForbiddenException('Only named transformation presets are allowed');
+    }
+
+    const transform = this.parse(spec, maxImageDimension);
+    if (imageTransformPolicy === 'signed') {
+      const { imageTransformSecret } = this.configService.getSecurityConfig();
+      const canonical = canonicalTransform(transform);
+      if (!imageTransformSecret || !signature || !verifyTransformSignature(mediaId, canonical, signature, imageTransformSecret)) {
+        throw new ForbiddenException('Invalid or missing transformation signature');
+      }
+    }
+
+    return transform;
+  }
+
+  /**
+   * Builds a signed `/img` URL for a transformation
+   * @throws BadRequestException when IMAGE_TRANSFORM_SECRET is not set
+   */
+  sign(mediaId: string, spec: string): { url: string; transform: string; signature: string } {
+    const { imageTransformSecret } = this.configService.getSecurityConfig();
+    if (!imageTransformSecret) {
+      throw new BadRequestException('IMAGE_TRANSFORM_SECRET is not configured');
+    }
+
+    const { maxImageDimension } = this.configService.getMediaProcessingConfig();
+    const canonical = canonicalTransform(this.parse(spec, maxImageDimension));
+    const signature = signTransform(mediaId, canonical, imageTransformSecret);
+    return {
+      url: `/img/${mediaId}/${canonical}?s=${signature}`,
+      transform: canonical,
+      signature,
+    };
+  }
+
+  /**
+   * Renders a transformation with `optimizeImage` on first request and
+   * serves the cached file afterwards. The cache key covers the media, the
+   * transformation with its resolved format and the source file version.
+   * Cover crops without a gravity are cut around the media focal point,
+   * which is part of the source version.
+   * @param accept Accept header, used by `f_auto`
+   */
+  async render(mediaId: string, transform: ImageTransform, accept?: string): Promise<RenderedTransform> {
+    const { filePath, media } = await this.imageProcessingService.getMediaFileById(mediaId);
+    const format = resolveFormat(transform.format, accept, media.mimeType);
+    const canonical = canonicalTransform({ ...transform, format });
+
+    const focalPoint = transform.position ? null : readFocalPoint(media.metadata);
+    const source = await fs.stat(filePath);
+    const sourceVersion = `${source.size}-${source.mtimeMs}${focalPoint ? `-${focalPoint.x},${focalPoint.y}` : ''}`;
+    const hash = transformCacheKey(mediaId, canonical, sourceVersion);
+    const { imageTransformCacheDir } = this.configService.getMediaProcessingConfig();
+    const cachePath = path.join(imageTransformCacheDir, mediaId, `${hash}.${format}`);
+
+    if (!await fs.pathExists(cachePath)) {
+      if (!this.rendering.has(cachePath)) {
+        this.rendering.set(
+          cachePath,
+          this.renderToCache(filePath, cachePath, transform, format, focalPoint).finally(() => this.rendering.delete(cachePath)),
+        );
+      }
+      await this.rendering.get(cachePath);
+    }
+
+    return {
+      filePath: cachePath,
+      mimeType: `image/${format}`,
+      size: (await fs.stat(cachePath)).size,
+      etag: `"${hash}"`,
+      negotiated: transform.format === 'auto',
+    };
+  }
+
+  /**
+   * Writes to a temporary file first, so a half-written render is never
+   * served from the cache
+   */
+  private async renderToCache(
+    inputPath: string,
+    cachePath: string,
+    transform: ImageTransform,
+    format: TransformFormat,
+    focalPoint: Point | null,
+  ) {
+    const tempPath = `${cachePath}.${process.pid}-${Date.now()}.tmp`;
+    try {
+      await this.imageProcessingService.optimizeImage(inputPath, tempPath, {
+        width: transform.width,
+        height: transform.height,
+        fit: transform.fit,
+        position: transform.position,
+        background: transform.background,
+        quality: transform.quality,
+        format,
+        focalPoint: focalPoint ?? undefined,
+      });
+      await fs.move(tempPath, cachePath, { overwrite: true });
+      this.logger.log(`Rendered ${cachePath}`);
+    } finally {
+      await fs.remove(tempPath);
+    }
+  }
+
+  private parse(spec: string, maxImageDimension: number): ImageTransform {
+    try {
+      return parseTransform(spec, maxImageDimension);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+}
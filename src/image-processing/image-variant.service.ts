@@ -0,0 +1,188 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as sharp from 'sharp';
+import * as path from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { StorageFactoryService } from '../storage/storage-factory.service';
+import { FocalPointService } from './focal-point.service';
+import { focalCropRegion } from './focal-point';
+import {
+  GeneratedVariant,
+  VariantFormat,
+  buildSrcset,
+  parseVariantProfiles,
+  selectVariantProfiles,
+} from './variant-profiles';
+
+export interface VariantGenerationResult {
+  variants: GeneratedVariant[];
+  srcset: Record<string, string>;
+}
+
+@Injectable()
+export class ImageVariantService {
+  private readonly logger = new Logger(ImageVariantService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: UnifiedConfigService,
+    private readonly storageFactory: StorageFactoryService,
+    private readonly focalPointService: FocalPointService,
+  ) {}
+
+  /**
+   * Generates the IMAGE_VARIANT_PROFILES variants of an image and stores
+   * them next to the original, e.g. `images/a.jpg` gets `images/a_small.webp`.
+   * Cropped profiles are cut around the media focal point, which is detected
+   * first unless one is already stored.
+   * `processingStage` moves through OPTIMIZING and GENERATING_VARIANTS to
+   * COMPLETED. `metadata.variants` holds the outcome of the last run. A
+   * failure is recorded there and returns no variants, while the media is
+   * still completed: the original stays valid and earlier variants are kept.
+   * @param mediaId Media the variants belong to
+   * @param input Image file path or buffer
+   * @param storageKey Storage key of the original
+   */
+  async generateVariants(mediaId: string, input: string | Buffer, storageKey: string): Promise<VariantGenerationResult> {
+    const { enableImageOptimization, imageVariantProfiles } = this.configService.getMediaProcessingConfig();
+    if (!enableImageOptimization) {
+      return { variants: [], srcset: {} };
+    }
+
+    const storageProvider = this.storageFactory.getStorageProvider();
+    const storedKeys: string[] = [];
+
+    try {
+      await this.setStage(mediaId, 'OPTIMIZING');
+      const profiles = parseVariantProfiles(imageVariantProfiles);
+
+      // Applies the EXIF orientation once; every variant is cut from a clone
+      const source = sharp(input, { failOn: 'none' }).rotate();
+      const { width, height, orientation } = await source.metadata();
+      const [sourceWidth, sourceHeight] = orientation >= 5 ? [height, width] : [width, height];
+      const selected = selectVariantProfiles(profiles, sourceWidth);
+      const focalPoint = await this.focalPointService.detectForMedia(mediaId, input);
+
+      await this.setStage(mediaId, 'GENERATING_VARIANTS');
+      const outputs = [];
+      for (const profile of selected) {
+        for (const format of profile.formats) {
+          const pipeline = profile.height
+            ? source.clone()
+              .extract(focalCropRegion(sourceWidth, sourceHeight, profile.width, profile.height, focalPoint))
+              .resize(profile.width, profile.height)
+            : source.clone().resize(profile.width, undefined, { fit: 'inside', withoutEnlargement: true });
+          const { data, info } = await this.encode(pipeline, format, profile.quality).toBuffer({ resolveWithObject: true });
+
+          const key = this.variantKey(storageKey, profile.variantType, format);
+          const { url } = await storageProvider.uploadFile(
+            {
+              buffer: data,
+              size: data.length,
+              originalname: path.basename(key),
+              mimetype: `image/${format}`,
+            } as Express.Multer.File,
+            key,
+            { variantType: profile.variantType },
+          );
+          storedKeys.push(key);
+
+          outputs.push({
+            variantType: profile.variantType,
+            width: info.width,
+            height: info.height,
+            filePath: key,
+            publicUrl: url,
+            fileSize: data.length,
+            quality: profile.quality,
+            format,
+          });
+        }
+      }
+
+      const [, ...records] = await this.prisma.$transaction([
+        this.prisma.mediaVariant.deleteMany({
+          where: { mediaId, variantType: { in: profiles.map((profile) => profile.variantType) } },
+        }),
+        ...outputs.map((output) => this.prisma.mediaVariant.create({ data: { mediaId, ...output } })),
+      ]);
+
+      await this.complete(mediaId, { count: outputs.length, generatedAt: new Date().toISOString() });
+
+      const variants: GeneratedVariant[] = records.map((record) => ({
+        id: record.id,
+        variantType: record.variantType,
+        format: record.format,
+        width: record.width,
+        height: record.height,
+        fileSize: record.fileSize,
+        url: record.publicUrl,
+      }));
+      this.logger.log(`Generated ${variants.length} variant(s) for media ${mediaId}`);
+      return { variants, srcset: buildSrcset(variants, profiles) };
+    } catch (error) {
+      for (const key of storedKeys) {
+        await storageProvider.deleteFile(key).catch(() => undefined);
+      }
+      await this.recordFailure(mediaId, error);
+      return { variants: [], srcset: {} };
+    }
+  }
+
+  private encode(pipeline: sharp.Sharp, format: VariantFormat, quality: number): sharp.Sharp {
+    switch (format) {
+      case 'jpeg':
+        return pipeline.jpeg({ quality, progressive: true, mozjpeg: true });
+      case 'png':
+        return pipeline.png({ quality, progressive: true });
+      case 'webp':
+        return pipeline.webp({ quality });
+      case 'avif':
+        return pipeline.avif({ quality });
+    }
+  }
+
+  private variantKey(storageKey: string, variantType: string, format: VariantFormat): string {
+    const { dir, name } = path.posix.parse(storageKey);
+    const fileName = `${name}_${variantType.toLowerCase()}.${format === 'jpeg' ? 'jpg' : format}`;
+    return dir ? `${dir}/${fileName}` : fileName;
+  }
+
+  private setStage(mediaId: string, stage: 'OPTIMIZING' | 'GENERATING_VARIANTS') {
+    return this.prisma.media.update({
+      where: { id: mediaId },
+      data: { status: 'PROCESSING', processingStage: stage },
+    });
+  }
+
+  private async recordFailure(mediaId: string, error: Error) {
+    this.logger.warn(`Variant generation failed for media ${mediaId}: ${error.message}`);
+    try {
+      const media = await this.prisma.media.findUnique({ where: { id: mediaId } });
+      await this.complete(mediaId, {
+        error: error.message,
+        failedStage: media?.processingStage,
+        failedAt: new Date().toISOString(),
+      });
+    } catch (updateError) {
+      this.logger.error(`Could not record variant failure for media ${mediaId}: ${updateError.message}`);
+    }
+  }
+
+  /**
+   * Marks the media completed and replaces `metadata.variants` with the
+   * outcome of this run
+   */
+  private async complete(mediaId: string, outcome: Record<string, any>) {
+    const media = await this.prisma.media.findUnique({ where: { id: mediaId } });
+    const metadata = (media?.metadata as Record<string, any>) || {};
+    await this.prisma.media.update({
+      where: { id: mediaId },
+      data: {
+        status: 'COMPLETED',
+        processingStage: 'COMPLETED',
+        metadata: { ...metadata, variants: outcome },
+      },
+    });
+  }
+}
@@ -0,0 +1,327 @@
+import { BadRequestException, Injectable, Logger, OnModuleInit, ServiceUnavailableException } from '@nestjs/common';
+import * as sharp from 'sharp';
+import * as fs from 'fs-extra';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { BackgroundRemovalProvider } from './background-removal-provider.interface';
+import { RemoveBgOptions, RemoveBgResult } from './remove-bg.service';
+import { expandRegion, maskBounds, outputDimensions, parseRegion, placeSubject, visiblePart } from './background-removal';
+import { CropRegion } from './focal-point';
+import { getInferenceSession, loadOnnxRuntime } from './onnx-runtime';
+import { downloadRemoteImage } from './remote-image';
+import { createZipArchive } from './zip-archive';
+
+// Input size and ImageNet normalization of the U²-Net family of models
+const MODEL_SIZE = 320;
+const MEAN = [0.485, 0.456, 0.406];
+const STD = [0.229, 0.224, 0.225];
+
+const TRANSPARENT = { r: 0, g: 0, b: 0, alpha: 0 };
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+@Injectable()
+export class OnnxBackgroundRemovalService implements BackgroundRemovalProvider, OnModuleInit {
+  readonly name = 'onnx';
+  private readonly logger = new Logger(OnnxBackgroundRemovalService.name);
+
+  constructor(private readonly configService: UnifiedConfigService) {}
+
+  // The model is not shipped with the app; warn operators who selected this provider without installing it
+  onModuleInit() {
+    const { backgroundRemovalProvider, backgroundRemovalModel } = this.configService.getMediaProcessingConfig();
+    if (backgroundRemovalProvider === 'onnx' && !fs.existsSync(backgroundRemovalModel)) {
+      this.logger.warn(`Local background removal is unavailable until a model is installed at ${backgroundRemovalModel}`);
+    }
+  }
+
+  /**
+   * Removes the background with the U²-Net model from BACKGROUND_REMOVAL_MODEL
+   * on the CPU, then applies the remove.bg options locally: `size` caps the
+   * resolution, `roi`/`roiPct` limit the foreground, `crop`, `scale` and
+   * `position` place the subject, and shadow, background colour or image and
+   * output format are composed with sharp.
+   * @param imageBuffer Image to process
+   * @param options remove.bg compatible options
+   */
+  async removeBackground(imageBuffer: Buffer, options: RemoveBgOptions = {}): Promise<RemoveBgResult> {
+    try {
+      const source = sharp(imageBuffer, { failOn: 'none' }).rotate();
+      const { autoOrient } = await source.metadata();
+      const { width, height } = outputDimensions(autoOrient.width, autoOrient.height, options.size);
+      const rgb = await source.resize(width, height, { fit: 'fill' }).removeAlpha().raw().toBuffer();
+
+      const mask = await this.predictMask(rgb, width, height);
+      this.applyMaskOptions(mask, width, height, options);
+
+      const cutout: RawImage = {
+        data: await sharp(rgb, { raw: { width, height, channels: 3 } })
+          .joinChannel(mask, { raw: { width, height, channels: 1 } })
+          .raw()
+          .toBuffer(),
+        width,
+        height,
+      };
+
+      const subject = await this.placeOnCanvas(cutout, maskBounds(mask, width, height), options);
+      const alpha = await this.rawSharp(subject).extractChannel(3).raw().toBuffer();
+      const foreground = maskBounds(alpha, subject.width, subject.height);
+
+      const resultBuffer = options.channels === 'alpha'
+        ? await sharp(alpha, { raw: { width: subject.width, height: subject.height, channels: 1 } }).toColourspace('b-w').png().toBuffer()
+        : await this.encode(await this.compose(subject, alpha, options), options.format);
+
+      this.logger.log(`Removed background locally (${subject.width}x${subject.height})`);
+      return {
+        success: true,
+        imageBuffer: resultBuffer,
+        creditsCharged: 0,
+        foregroundTop: foreground?.top,
+        foregroundLeft: foreground?.left,
+        foregroundWidth: foreground?.width,
+        foregroundHeight: foreground?.height,
+      };
+    } catch (error) {
+      this.logger.error('Failed to remove background:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Downloads the image and processes it locally
+   */
+  async removeBackgroundFromUrl(imageUrl: string, options: RemoveBgOptions = {}): Promise<RemoveBgResult> {
+    return this.removeBackground(await this.download(imageUrl), options);
+  }
+
+  /**
+   * Runs the model on a square copy and scales the min-max normalized
+   * prediction back to the image as an 8-bit mask
+   */
+  private async predictMask(rgb: Buffer, width: number, height: number): Promise<Buffer> {
+    const { backgroundRemovalModel } = this.configService.getMediaProcessingConfig();
+    if (!(await fs.pathExists(backgroundRemovalModel))) {
+      throw new ServiceUnavailableException(
+        `Local background removal is unavailable: no model installed at ${backgroundRemovalModel}`,
+      );
+    }
+    const session = await getInferenceSession(backgroundRemovalModel);
+
+    const pixels = await sharp(rgb, { raw: { width, height, channels: 3 } })
+      .resize(MODEL_SIZE, MODEL_SIZE, { fit: 'fill' })
+      .raw()
+      .toBuffer();
+
+    const planeSize = MODEL_SIZE * MODEL_SIZE;
+    const data = new Float32Array(planeSize * 3);
+    for (let i = 0; i < planeSize; i++) {
+      for (let channel = 0; channel < 3; channel++) {
+        data[channel * planeSize + i] = (pixels[i * 3 + channel] / 255 - MEAN[channel]) / STD[channel];
+      }
+    }
+
+    const { Tensor } = loadOnnxRuntime();
+    const outputs = await session.run({
+      [session.inputNames[0]]: new Tensor('float32', data, [1, 3, MODEL_SIZE, MODEL_SIZE]),
+    });
+    // The first output is the fused saliency map
+    const prediction = outputs[session.outputNames[0]].data as Float32Array;
+
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < planeSize; i++) {
+      min = Math.min(min, prediction[i]);
+      max = Math.max(max, prediction[i]);
+    }
+    const range = max - min || 1;
+    const mask = Buffer.alloc(planeSize);
+    for (let i = 0; i < planeSize; i++) {
+      mask[i] = Math.round(((prediction[i] - min) / range) * 255);
+    }
+
+    return sharp(mask, { raw: { width: MODEL_SIZE, height: MODEL_SIZE, channels: 1 } })
+      .resize(width, height, { fit: 'fill' })
+      .extractChannel(0)
+      .raw()
+      .toBuffer();
+  }
+
+  /**
+   * Clears the mask outside the region of interest and hardens its edges
+   * when semitransparency is turned off
+   */
+  private applyMaskOptions(mask: Buffer, width: number, height: number, options: RemoveBgOptions) {
+    if (options.roi || options.roiPct) {
+      let roi;
+      try {
+        roi = options.roi ? parseRegion(options.roi, width, height, false) : parseRegion(options.roiPct, width, height, true);
+      } catch (error) {
+        throw new BadRequestException(error.message);
+      }
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (x < roi.left || x >= roi.left + roi.width || y < roi.top || y >= roi.top + roi.height) {
+            mask[y * width + x] = 0;
+          }
+        }
+      }
+    }
+
+    if (options.semitransparency === false) {
+      for (let i = 0; i < mask.length; i++) {
+        mask[i] = mask[i] >= 128 ? 255 : 0;
+      }
+    }
+  }
+
+  /**
+   * Applies `crop` (with `cropMargin`) and `scale` (with `position`) to the
+   * cutout and returns the transparent canvas holding the subject
+   */
+  private async placeOnCanvas(cutout: RawImage, subject: CropRegion | null, options: RemoveBgOptions): Promise<RawImage> {
+    if (!subject) {
+      return cutout;
+    }
+
+    let canvas = cutout;
+    let bounds = subject;
+    if (options.crop) {
+      const region = expandRegion(subject, Math.round(options.cropMargin || 0), cutout.width, cutout.height);
+      canvas = await this.toRaw(this.rawSharp(cutout).extract(region), region.width, region.height);
+      bounds = { ...subject, left: subject.left - region.left, top: subject.top - region.top };
+    }
+
+    if (!options.scale) {
+      return canvas;
+    }
+
+    const placement = placeSubject(bounds, canvas.width, canvas.height, options.scale, options.position);
+    const visible = visiblePart(placement, canvas.width, canvas.height);
+    const layers: sharp.OverlayOptions[] = [];
+    if (visible) {
+      const scaled = await this.rawSharp(canvas)
+        .extract(bounds)
+        .resize(placement.width, placement.height, { fit: 'fill' })
+        .extract(visible.region)
+        .raw()
+        .toBuffer();
+      layers.push({
+        input: scaled,
+        raw: { width: visible.region.width, height: visible.region.height, channels: 4 },
+        left: visible.left,
+        top: visible.top,
+      });
+    }
+
+    return this.toRaw(
+      sharp({ create: { width: canvas.width, height: canvas.height, channels: 4, background: TRANSPARENT } }).composite(layers),
+      canvas.width,
+      canvas.height,
+    );
+  }
+
+  /**
+   * Puts the subject over the background image or colour with the requested
+   * shadow. Outer and drop shadows go beneath the subject, an inner shadow
+   * is drawn on top of it.
+   */
+  private async compose(subject: RawImage, alpha: Buffer, options: RemoveBgOptions): Promise<sharp.Sharp> {
+    const { width, height } = subject;
+    const layers: sharp.OverlayOptions[] = [];
+    let subjectLayer: Buffer = subject.data;
+
+    if (options.addShadow) {
+      const shadowType = options.shadowType || 'outer';
+      const opacity = options.shadowOpacity ?? 0.5;
+      const blur = Math.max(1, Math.min(width, height) * 0.02);
+      let shadowAlpha = sharp(alpha, { raw: { width, height, channels: 1 } });
+
+      if (shadowType === 'drop') {
+        const offset = Math.max(1, Math.round(blur));
+        shadowAlpha = sharp(
+          await shadowAlpha
+            .extend({ top: offset, left: offset, background: { r: 0, g: 0, b: 0 } })
+            .extract({ left: 0, top: 0, width, height })
+            .extractChannel(0)
+            .raw()
+            .toBuffer(),
+          { raw: { width, height, channels: 1 } },
+        );
+      } else if (shadowType === 'inner') {
+        shadowAlpha = shadowAlpha.negate();
+      }
+
+      const shadowMask = await shadowAlpha.blur(blur).linear(opacity, 0).extractChannel(0).raw().toBuffer();
+      const shadow = await sharp({ create: { width, height, channels: 3, background: '#000000' } })
+        .joinChannel(shadowMask, { raw: { width, height, channels: 1 } })
+        .raw()
+        .toBuffer();
+
+      if (shadowType === 'inner') {
+        subjectLayer = await this.rawSharp(subject)
+          .composite([{ input: shadow, raw: { width, height, channels: 4 }, blend: 'atop' }])
+          .raw()
+          .toBuffer();
+      } else {
+        layers.push({ input: shadow, raw: { width, height, channels: 4 } });
+      }
+    }
+
+    layers.push({ input: subjectLayer, raw: { width, height, channels: 4 } });
+    return sharp(await this.background(width, height, options)).composite(layers);
+  }
+
+  private async background(width: number, height: number, options: RemoveBgOptions): Promise<Buffer> {
+    if (options.bgImageUrl || options.bgImageFile) {
+      const image = options.bgImageFile ? await fs.readFile(options.bgImageFile) : await this.download(options.bgImageUrl);
+      return sharp(image, { failOn: 'none' }).rotate().resize(width, height, { fit: 'cover' }).ensureAlpha().png().toBuffer();
+    }
+
+    // remove.bg accepts hex colours without the leading #
+    const color = options.bgColor && /^[0-9a-f]{3,8}$/i.test(options.bgColor) ? `#${options.bgColor}` : options.bgColor;
+    return sharp({ create: { width, height, channels: 4, background: color || TRANSPARENT } }).png().toBuffer();
+  }
+
+  /**
+   * Encodes the result like remove.bg: a transparent PNG, a JPEG on white,
+   * or a ZIP with the colour JPEG and the alpha matte as PNG
+   */
+  private async encode(image: sharp.Sharp, format: RemoveBgOptions['format'] = 'png'): Promise<Buffer> {
+    const composed = await image.png().toBuffer();
+
+    switch (format) {
+      case 'jpg':
+        return sharp(composed).flatten({ background: '#ffffff' }).jpeg({ quality: 90 }).toBuffer();
+      case 'zip':
+        return createZipArchive([
+          { name: 'color.jpg', data: await sharp(composed).removeAlpha().jpeg({ quality: 90 }).toBuffer() },
+          { name: 'alpha.png', data: await sharp(composed).extractChannel(3).png().toBuffer() },
+        ]);
+      default:
+        return composed;
+    }
+  }
+
+  /**
+   * Fetches a user-supplied URL from this server, so private addresses are
+   * refused and the size is capped at the upload limit
+   */
+  private async download(url: string): Promise<Buffer> {
+    try {
+      return await downloadRemoteImage(url, this.configService.getUploadConfig().maxFileSize);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  private rawSharp(image: RawImage): sharp.Sharp {
+    return sharp(image.data, { raw: { width: image.width, height: image.height, channels: 4 } });
+  }
+
+  private async toRaw(pipeline: sharp.Sharp, width: number, height: number): Promise<RawImage> {
+    return { data: await pipeline.raw().toBuffer(), width, height };
+  }
+}
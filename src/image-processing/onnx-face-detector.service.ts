@@ -0,0 +1,73 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as sharp from 'sharp';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { FaceDetector } from './face-detector.interface';
+import { FaceBox, nonMaxSuppression } from './focal-point';
+import { getInferenceSession, loadOnnxRuntime } from './onnx-runtime';
+
+// Input size of the Ultra-Light-Fast-Generic-Face-Detector RFB-320 model
+const INPUT_WIDTH = 320;
+const INPUT_HEIGHT = 240;
+const SCORE_THRESHOLD = 0.7;
+
+@Injectable()
+export class OnnxFaceDetectorService implements FaceDetector {
+  readonly name = 'onnx';
+  private readonly logger = new Logger(OnnxFaceDetectorService.name);
+
+  constructor(private readonly configService: UnifiedConfigService) {}
+
+  /**
+   * Runs the UltraFace model from FACE_DETECTION_MODEL on the CPU. The image
+   * is stretched to the model input, so the normalized boxes it returns map
+   * straight back onto the original.
+   * @param input Image file path or buffer
+   */
+  async detectFaces(input: string | Buffer): Promise<FaceBox[]> {
+    const { faceDetectionModel } = this.configService.getMediaProcessingConfig();
+    const session = await getInferenceSession(faceDetectionModel);
+
+    const pixels = await sharp(input, { failOn: 'none' })
+      .rotate()
+      .resize(INPUT_WIDTH, INPUT_HEIGHT, { fit: 'fill' })
+      .removeAlpha()
+      .raw()
+      .toBuffer();
+
+    // HWC RGB bytes to a normalized CHW tensor
+    const planeSize = INPUT_WIDTH * INPUT_HEIGHT;
+    const data = new Float32Array(planeSize * 3);
+    for (let i = 0; i < planeSize; i++) {
+      for (let channel = 0; channel < 3; channel++) {
+        data[channel * planeSize + i] = (pixels[i * 3 + channel] - 127) / 128;
+      }
+    }
+
+    const { Tensor } = loadOnnxRuntime();
+    const outputs = await session.run({
+      [session.inputNames[0]]: new Tensor('float32', data, [1, 3, INPUT_HEIGHT, INPUT_WIDTH]),
+    });
+    const scores = outputs.scores.data as Float32Array;
+    const boxes = outputs.boxes.data as Float32Array;
+
+    // scores hold [background, face] pairs, boxes [x1, y1, x2, y2] corners
+    const candidates: FaceBox[] = [];
+    for (let i = 0; i < scores.length / 2; i++) {
+      const score = scores[i * 2 + 1];
+      if (score < SCORE_THRESHOLD) {
+        continue;
+      }
+      const x1 = Math.max(0, boxes[i * 4]);
+      const y1 = Math.max(0, boxes[i * 4 + 1]);
+      const x2 = Math.min(1, boxes[i * 4 + 2]);
+      const y2 = Math.min(1, boxes[i * 4 + 3]);
+      if (x2 > x1 && y2 > y1) {
+        candidates.push({ x: x1, y: y1, width: x2 - x1, height: y2 - y1, score });
+      }
+    }
+
+    const faces = nonMaxSuppression(candidates);
+    this.logger.debug(`Detected ${faces.length} face(s)`);
+    return faces;
+  }
+}
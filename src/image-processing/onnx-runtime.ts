@@ -0,0 +1,39 @@
+import type * as Ort from 'onnxruntime-node';
+
+export type OnnxRuntime = typeof Ort;
+export type InferenceSession = Ort.InferenceSession;
+
+// onnxruntime-node is an optional dependency; it is only loaded when a local model is configured
+let runtime: OnnxRuntime;
+const sessions = new Map<string, Promise<InferenceSession>>();
+
+/**
+ * Loads onnxruntime-node on first use
+ * @throws Error when the package is not installed
+ */
+export function loadOnnxRuntime(): OnnxRuntime {
+  if (!runtime) {
+    try {
+      runtime = require('onnxruntime-node');
+    } catch {
+      throw new Error('onnxruntime-node is not installed; add it to run local models');
+    }
+  }
+  return runtime;
+}
+
+/**
+ * Gets the CPU inference session for a model file, creating it once per path
+ */
+export function getInferenceSession(modelPath: string): Promise<InferenceSession> {
+  if (!sessions.has(modelPath)) {
+    const session = Promise.resolve()
+      .then(() => loadOnnxRuntime().InferenceSession.create(modelPath, { executionProviders: ['cpu'] }))
+      .catch((error) => {
+        sessions.delete(modelPath);
+        throw new Error(`Could not load model ${modelPath}: ${error.message}`);
+      });
+    sessions.set(modelPath, session);
+  }
+  return sessions.get(modelPath);
+}
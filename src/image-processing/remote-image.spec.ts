@@ -0,0 +1,29 @@
+import { downloadRemoteImage, isBlockedAddress } from './remote-image';
+
+describe('remote-image', () => {
+  it('should block loopback, private, link-local and mapped addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:7f00:1']) {
+      expect(isBlockedAddress(address)).toBe(true);
+    }
+  });
+
+  it('should allow public addresses', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111']) {
+      expect(isBlockedAddress(address)).toBe(false);
+    }
+  });
+
+  it('should refuse schemes other than http and https', async () => {
+    await expect(downloadRemoteImage('file:///etc/passwd', 1024)).rejects.toThrow('must use http or https');
+    await expect(downloadRemoteImage('ftp://example.com/a.png', 1024)).rejects.toThrow('must use http or https');
+  });
+
+  it('should refuse private IP literals before connecting', async () => {
+    await expect(downloadRemoteImage('http://169.254.169.254/latest/meta-data/', 1024)).rejects.toThrow('not a public address');
+    await expect(downloadRemoteImage('http://[::ffff:127.0.0.1]:8080/', 1024)).rejects.toThrow('not a public address');
+  });
+
+  it('should refuse hosts that resolve to private addresses', async () => {
+    await expect(downloadRemoteImage('http://localhost:9/image.png', 1024)).rejects.toThrow('does not resolve to a public address');
+  });
+});
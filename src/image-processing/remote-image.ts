@@ -0,0 +1,132 @@
+import { lookup, LookupAddress, LookupAllOptions } from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, isIP } from 'net';
+
+const MAX_REDIRECTS = 3;
+const TIMEOUT_MS = 30000;
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and multicast ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // NAT64 can reach any IPv4 host; IPv4-mapped addresses already match the IPv4 ranges
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is outside the public internet
+ */
+export function isBlockedAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) {
+    return true;
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup for outgoing requests that refuses hosts resolving to a blocked
+ * address. Checking at connect time covers redirects and DNS rebinding.
+ */
+function publicLookup(hostname: string, options: LookupAllOptions | object, callback: (...args: any[]) => void) {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      return callback(error);
+    }
+    if (!addresses.length || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new Error(`${hostname} does not resolve to a public address`));
+    }
+    if ((options as LookupAllOptions).all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/**
+ * Downloads a user-supplied image URL. Only http and https are allowed,
+ * hosts must resolve to public addresses, at most three redirects are
+ * followed and the body is capped at `maxBytes`.
+ * @throws Error when the URL is refused or the download fails
+ */
+export function downloadRemoteImage(url: string, maxBytes: number, redirects = MAX_REDIRECTS): Promise<Buffer> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return Promise.reject(new Error(`Invalid image URL: ${url}`));
+  }
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    return Promise.reject(new Error(`Image URLs must use http or https, not ${target.protocol}`));
+  }
+
+  // IP literals skip the lookup, so they are checked here
+  const host = target.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && isBlockedAddress(host)) {
+    return Promise.reject(new Error(`${host} is not a public address`));
+  }
+
+  const client = target.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.get(target, { lookup: publicLookup as any, timeout: TIMEOUT_MS }, (response) => {
+      const status = response.statusCode;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        if (redirects === 0) {
+          return reject(new Error(`Too many redirects downloading ${url}`));
+        }
+        return resolve(downloadRemoteImage(new URL(response.headers.location, target).toString(), maxBytes, redirects - 1));
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        return reject(new Error(`Could not download image from ${url}: ${status}`));
+      }
+
+      if (parseInt(response.headers['content-length'] || '0', 10) > maxBytes) {
+        response.destroy();
+        return reject(new Error(`Image at ${url} is larger than ${maxBytes} bytes`));
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          response.destroy();
+          reject(new Error(`Image at ${url} is larger than ${maxBytes} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve(Buffer.concat(chunks)));
+      response.on('error', (error) => reject(new Error(`Could not download image from ${url}: ${error.message}`)));
+    });
+
+    request.on('timeout', () => request.destroy(new Error(`Timed out downloading ${url}`)));
+    request.on('error', reject);
+  });
+}
@@ -1,6 +1,7 @@
 import { Injectable, Logger, BadRequestException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { UnifiedConfigService } from '../config/unified-config.service';
+import { BackgroundRemovalProvider } from './background-removal-provider.interface';
 import * as FormData from 'form-data';
 import * as fs from 'fs-extra';
 import * as path from 'path';
@@ -38,7 +39,8 @@ export interface RemoveBgResult {
 }
 
 @Injectable()
-export class RemoveBgService {
+export class RemoveBgService implements BackgroundRemovalProvider {
+  readonly name = 'removebg';
   private readonly logger = new Logger(RemoveBgService.name);
   private readonly apiUrl = 'https://api.remove.bg/v1.0/removebg';
 
@@ -120,6 +122,12 @@ export class RemoveBgService {
         formData.append('bg_image_url', options.bgImageUrl);
       }
       
+      if (options.bgImageFile) {
+        formData.append('bg_image_file', await fs.readFile(options.bgImageFile), {
+          filename: path.basename(options.bgImageFile),
+        });
+      }
+      
       if (options.roi) {
         formData.append('roi', options.roi);
       }
@@ -274,6 +282,12 @@ export class RemoveBgService {
         formData.append('bg_image_url', options.bgImageUrl);
       }
       
+      if (options.bgImageFile) {
+        formData.append('bg_image_file', await fs.readFile(options.bgImageFile), {
+          filename: path.basename(options.bgImageFile),
+        });
+      }
+      
       if (options.roi) {
         formData.append('roi', options.roi);
       }
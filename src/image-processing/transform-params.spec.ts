@@ -0,0 +1,67 @@
+import {
+  canonicalTransform,
+  parseTransform,
+  presetName,
+  resolveFormat,
+  signTransform,
+  transformCacheKey,
+  verifyTransformSignature,
+} from './transform-params';
+
+describe('transform-params', () => {
+  it('should parse URL transformations', () => {
+    expect(parseTransform('w_400,h_300,c_cover,g_north_east,b_FFF,f_jpg,q_80', 4096)).toEqual({
+      width: 400,
+      height: 300,
+      fit: 'cover',
+      position: 'right top',
+      background: '#fff',
+      format: 'jpeg',
+      quality: 80,
+    });
+  });
+
+  it('should reject unknown, repeated and out of range transformations', () => {
+    expect(() => parseTransform('', 4096)).toThrow('No transformation given');
+    expect(() => parseTransform('x_1', 4096)).toThrow('Unknown transformation "x_1"');
+    expect(() => parseTransform('w_1,w_2', 4096)).toThrow('given twice');
+    expect(() => parseTransform('w_5000', 4096)).toThrow('expected 1-4096');
+    expect(() => parseTransform('q_0', 4096)).toThrow('expected 1-100');
+    expect(() => parseTransform('c_crop', 4096)).toThrow('fit must be one of');
+    expect(() => parseTransform('w400', 4096)).toThrow('Invalid transformation "w400"');
+  });
+
+  it('should write equivalent transformations the same way', () => {
+    const a = canonicalTransform(parseTransform('q_80,f_auto,w_400,g_south', 4096));
+    const b = canonicalTransform(parseTransform('w_400,g_south,f_auto,q_80', 4096));
+    expect(a).toBe('w_400,g_south,f_auto,q_80');
+    expect(b).toBe(a);
+  });
+
+  it('should recognise presets', () => {
+    expect(presetName('t_card')).toBe('card');
+    expect(presetName('t_card,w_10')).toBeNull();
+  });
+
+  it('should negotiate f_auto and keep the source format otherwise', () => {
+    expect(resolveFormat('auto', 'image/avif,image/webp,*/*', 'image/jpeg')).toBe('avif');
+    expect(resolveFormat('auto', 'image/webp,*/*', 'image/jpeg')).toBe('webp');
+    expect(resolveFormat('auto', '*/*', 'image/png')).toBe('png');
+    expect(resolveFormat('auto', undefined, 'image/jpeg')).toBe('jpeg');
+    expect(resolveFormat(undefined, 'image/avif', 'image/webp')).toBe('webp');
+    expect(resolveFormat(undefined, undefined, 'image/gif')).toBe('png');
+    expect(resolveFormat('png', 'image/avif', 'image/jpeg')).toBe('png');
+  });
+
+  it('should verify signatures per media and transformation', () => {
+    const signature = signTransform('media-1', 'w_400', 'secret');
+    expect(verifyTransformSignature('media-1', 'w_400', signature, 'secret')).toBe(true);
+    expect(verifyTransformSignature('media-2', 'w_400', signature, 'secret')).toBe(false);
+    expect(verifyTransformSignature('media-1', 'w_401', signature, 'secret')).toBe(false);
+    expect(verifyTransformSignature('media-1', 'w_400', 'short', 'secret')).toBe(false);
+  });
+
+  it('should change the cache key with the source version', () => {
+    expect(transformCacheKey('m', 'w_1,f_webp', '10-1')).not.toBe(transformCacheKey('m', 'w_1,f_webp', '10-2'));
+  });
+});
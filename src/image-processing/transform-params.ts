@@ -0,0 +1,201 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { ImageOptimizationOptions } from './image-processing.service';
+
+/**
+ * Transformations in `/img/:mediaId/:transform` URLs, written as
+ * comma-separated `key_value` pairs, e.g. `w_400,h_300,c_cover,f_auto,q_80`:
+ *
+ * - `w` / `h`: width and height in pixels
+ * - `c`: fit, one of cover, contain, fill, inside, outside
+ * - `g`: gravity for cover crops, e.g. center, north, south_east
+ * - `b`: background hex color for contain, e.g. b_ffffff
+ * - `f`: format, jpeg (jpg), png, webp, avif or auto (from the Accept header)
+ * - `q`: quality, 1-100
+ * - `t`: a named preset from IMAGE_TRANSFORM_PRESETS, on its own
+ */
+export type TransformFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  fit?: ImageOptimizationOptions['fit'];
+  position?: ImageOptimizationOptions['position'];
+  background?: string;
+  format?: TransformFormat | 'auto';
+  quality?: number;
+}
+
+export const DEFAULT_TRANSFORM_PRESETS: Record<string, string> = {
+  thumbnail: 'w_150,h_150,c_cover,f_auto,q_80',
+  card: 'w_400,h_300,c_cover,f_auto,q_80',
+  product: 'w_1200,c_inside,f_auto,q_85',
+};
+
+const FITS = ['cover', 'contain', 'fill', 'inside', 'outside'];
+
+const GRAVITIES: Record<string, ImageOptimizationOptions['position']> = {
+  center: 'center',
+  north: 'top',
+  north_east: 'right top',
+  east: 'right',
+  south_east: 'right bottom',
+  south: 'bottom',
+  south_west: 'left bottom',
+  west: 'left',
+  north_west: 'left top',
+};
+
+const FORMATS: Record<string, TransformFormat | 'auto'> = {
+  auto: 'auto',
+  jpeg: 'jpeg',
+  jpg: 'jpeg',
+  png: 'png',
+  webp: 'webp',
+  avif: 'avif',
+};
+
+// Sources that may carry transparency fall back to PNG rather than JPEG
+const ALPHA_MIME_TYPES = ['image/png', 'image/gif', 'image/webp', 'image/avif', 'image/svg+xml'];
+
+/**
+ * Returns the preset name of a `t_<name>` transformation, or null
+ */
+export function presetName(spec: string): string | null {
+  const match = /^t_([\w-]+)$/.exec(spec.trim());
+  return match ? match[1] : null;
+}
+
+/**
+ * Parses a URL transformation
+ * @param spec e.g. `w_400,h_300,c_cover,f_auto,q_80`
+ * @param maxDimension Largest accepted width or height
+ * @throws Error naming the first invalid part
+ */
+export function parseTransform(spec: string, maxDimension: number): ImageTransform {
+  const transform: ImageTransform = {};
+  const seen = new Set<string>();
+  const parts = spec.split(',').map((part) => part.trim()).filter(Boolean);
+  if (parts.length === 0) {
+    throw new Error('No transformation given');
+  }
+
+  const integer = (part: string, value: string, min: number, max: number) => {
+    const number = /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+    if (!(number >= min && number <= max)) {
+      throw new Error(`Invalid transformation "${part}": expected ${min}-${max}`);
+    }
+    return number;
+  };
+
+  for (const part of parts) {
+    const separator = part.indexOf('_');
+    const key = part.slice(0, separator);
+    const value = part.slice(separator + 1);
+    if (separator < 1 || !value) {
+      throw new Error(`Invalid transformation "${part}"`);
+    }
+    if (seen.has(key)) {
+      throw new Error(`Transformation "${key}" given twice`);
+    }
+    seen.add(key);
+
+    switch (key) {
+      case 'w':
+        transform.width = integer(part, value, 1, maxDimension);
+        break;
+      case 'h':
+        transform.height = integer(part, value, 1, maxDimension);
+        break;
+      case 'q':
+        transform.quality = integer(part, value, 1, 100);
+        break;
+      case 'c':
+        if (!FITS.includes(value)) {
+          throw new Error(`Invalid transformation "${part}": fit must be one of ${FITS.join(', ')}`);
+        }
+        transform.fit = value as ImageTransform['fit'];
+        break;
+      case 'g':
+        if (!GRAVITIES[value]) {
+          throw new Error(`Invalid transformation "${part}": gravity must be one of ${Object.keys(GRAVITIES).join(', ')}`);
+        }
+        transform.position = GRAVITIES[value];
+        break;
+      case 'b':
+        if (!/^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value)) {
+          throw new Error(`Invalid transformation "${part}": background must be a hex color`);
+        }
+        transform.background = `#${value.toLowerCase()}`;
+        break;
+      case 'f':
+        if (!FORMATS[value]) {
+          throw new Error(`Invalid transformation "${part}": format must be one of ${Object.keys(FORMATS).join(', ')}`);
+        }
+        transform.format = FORMATS[value];
+        break;
+      default:
+        throw new Error(`Unknown transformation "${part}"`);
+    }
+  }
+
+  return transform;
+}
+
+/**
+ * Writes a transformation back in a fixed key order, so equivalent URLs share
+ * one signature and one cache entry
+ */
+export function canonicalTransform(transform: ImageTransform): string {
+  const gravity = Object.keys(GRAVITIES).find((name) => GRAVITIES[name] === transform.position);
+  return [
+    transform.width && `w_${transform.width}`,
+    transform.height && `h_${transform.height}`,
+    transform.fit && `c_${transform.fit}`,
+    gravity && `g_${gravity}`,
+    transform.background && `b_${transform.background.slice(1)}`,
+    transform.format && `f_${transform.format}`,
+    transform.quality && `q_${transform.quality}`,
+  ].filter(Boolean).join(',');
+}
+
+/**
+ * Picks the output format: `f_auto` prefers AVIF, then WebP, from the Accept
+ * header; without `f` the source format is kept where possible
+ */
+export function resolveFormat(format: ImageTransform['format'], accept: string | undefined, sourceMimeType: string): TransformFormat {
+  if (format && format !== 'auto') {
+    return format;
+  }
+  if (format === 'auto' && accept) {
+    if (accept.includes('image/avif')) {
+      return 'avif';
+    }
+    if (accept.includes('image/webp')) {
+      return 'webp';
+    }
+  }
+
+  const source = FORMATS[sourceMimeType.replace('image/', '')];
+  if (!format && source && source !== 'auto') {
+    return source;
+  }
+  return ALPHA_MIME_TYPES.includes(sourceMimeType) ? 'png' : 'jpeg';
+}
+
+export function signTransform(mediaId: string, canonical: string, secret: string): string {
+  return createHmac('sha256', secret).update(`${mediaId}/${canonical}`).digest('base64url').slice(0, 22);
+}
+
+export function verifyTransformSignature(mediaId: string, canonical: string, signature: string, secret: string): boolean {
+  const expected = Buffer.from(signTransform(mediaId, canonical, secret));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+/**
+ * Cache key of a rendered transformation. The source version changes when
+ * the original file is replaced, so stale renders are never served.
+ */
+export function transformCacheKey(mediaId: string, canonical: string, sourceVersion: string): string {
+  return createHash('sha256').update(`${mediaId}/${canonical}/${sourceVersion}`).digest('hex').slice(0, 32);
+}
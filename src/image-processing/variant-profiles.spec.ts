@@ -0,0 +1,45 @@
+import { DEFAULT_VARIANT_PROFILES, GeneratedVariant, buildSrcset, parseVariantProfiles, selectVariantProfiles } from './variant-profiles';
+
+describe('variant-profiles', () => {
+  it('should accept the default profiles and JSON input', () => {
+    expect(parseVariantProfiles(DEFAULT_VARIANT_PROFILES)).toEqual(DEFAULT_VARIANT_PROFILES);
+    expect(parseVariantProfiles('[{"variantType":"SMALL","width":320,"formats":["avif","avif"],"quality":60}]')).toEqual([
+      { variantType: 'SMALL', width: 320, formats: ['avif'], quality: 60 },
+    ]);
+  });
+
+  it('should reject invalid profiles', () => {
+    expect(() => parseVariantProfiles('{}')).toThrow('must be an array');
+    expect(() => parseVariantProfiles([{ variantType: 'HUGE', width: 10, formats: ['webp'], quality: 80 }])).toThrow('Variant profile 1: variantType');
+    expect(() => parseVariantProfiles([{ variantType: 'SMALL', width: 0, formats: ['webp'], quality: 80 }])).toThrow('width');
+    expect(() => parseVariantProfiles([{ variantType: 'SMALL', width: 10, formats: ['gif'], quality: 80 }])).toThrow('formats');
+    expect(() => parseVariantProfiles([{ variantType: 'SMALL', width: 10, formats: ['webp'], quality: 101 }])).toThrow('quality');
+  });
+
+  it('should skip resize profiles not narrower than the source', () => {
+    const types = selectVariantProfiles(DEFAULT_VARIANT_PROFILES, 1024).map((profile) => profile.variantType);
+    expect(types).toEqual(['THUMBNAIL', 'SMALL', 'MOBILE_OPTIMIZED']);
+  });
+
+  it('should build one srcset per format without cropped variants', () => {
+    const variant = (variantType: string, format: string, width: number): GeneratedVariant => ({
+      id: `${variantType}-${format}`,
+      variantType,
+      format,
+      width,
+      height: width,
+      fileSize: 1,
+      url: `/uploads/a_${variantType.toLowerCase()}.${format}`,
+    });
+
+    expect(buildSrcset([
+      variant('MEDIUM', 'webp', 1024),
+      variant('THUMBNAIL', 'webp', 150),
+      variant('SMALL', 'webp', 480),
+      variant('SMALL', 'jpeg', 480),
+    ], DEFAULT_VARIANT_PROFILES)).toEqual({
+      webp: '/uploads/a_small.webp 480w, /uploads/a_medium.webp 1024w',
+      jpeg: '/uploads/a_small.jpeg 480w',
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Responsive variant profiles generated for every uploaded image. Each
+ * profile produces one MediaVariant per format.
+ */
+export type VariantProfileType = 'THUMBNAIL' | 'SMALL' | 'MEDIUM' | 'LARGE' | 'WEB_OPTIMIZED' | 'MOBILE_OPTIMIZED';
+
+export type VariantFormat = 'jpeg' | 'png' | 'webp' | 'avif';
+
+export interface VariantProfile {
+  variantType: VariantProfileType;
+  width: number;
+  // Crops to width x height; without it the aspect ratio is kept
+  height?: number;
+  formats: VariantFormat[];
+  quality: number;
+}
+
+export interface GeneratedVariant {
+  id: string;
+  variantType: string;
+  format: string;
+  width: number;
+  height: number;
+  fileSize: number;
+  url: string;
+}
+
+const PROFILE_TYPES: VariantProfileType[] = ['THUMBNAIL', 'SMALL', 'MEDIUM', 'LARGE', 'WEB_OPTIMIZED', 'MOBILE_OPTIMIZED'];
+const FORMATS: VariantFormat[] = ['jpeg', 'png', 'webp', 'avif'];
+
+export const DEFAULT_VARIANT_PROFILES: VariantProfile[] = [
+  { variantType: 'THUMBNAIL', width: 150, height: 150, formats: ['webp', 'jpeg'], quality: 80 },
+  { variantType: 'SMALL', width: 480, formats: ['webp', 'jpeg'], quality: 80 },
+  { variantType: 'MOBILE_OPTIMIZED', width: 768, formats: ['webp', 'jpeg'], quality: 75 },
+  { variantType: 'MEDIUM', width: 1024, formats: ['webp', 'jpeg'], quality: 80 },
+  { variantType: 'LARGE', width: 1600, formats: ['webp', 'jpeg'], quality: 82 },
+  { variantType: 'WEB_OPTIMIZED', width: 2048, formats: ['webp', 'jpeg'], quality: 85 },
+];
+
+/**
+ * Validates variant profiles coming from IMAGE_VARIANT_PROFILES or the
+ * configuration table
+ * @param value JSON string or already parsed profiles
+ * @throws Error naming the first invalid profile
+ */
+export function parseVariantProfiles(value: string | unknown[]): VariantProfile[] {
+  const profiles = typeof value === 'string' ? JSON.parse(value) : value;
+  if (!Array.isArray(profiles)) {
+    throw new Error('Variant profiles must be an array');
+  }
+
+  return profiles.map((profile, index) => {
+    const label = `Variant profile ${index + 1}`;
+    if (!PROFILE_TYPES.includes(profile?.variantType)) {
+      throw new Error(`${label}: variantType must be one of ${PROFILE_TYPES.join(', ')}`);
+    }
+    if (!Number.isInteger(profile.width) || profile.width < 1) {
+      throw new Error(`${label}: width must be a positive integer`);
+    }
+    if (profile.height !== undefined && (!Number.isInteger(profile.height) || profile.height < 1)) {
+      throw new Error(`${label}: height must be a positive integer`);
+    }
+    if (!Array.isArray(profile.formats) || profile.formats.length === 0 || profile.formats.some((format) => !FORMATS.includes(format))) {
+      throw new Error(`${label}: formats must be a non-empty list of ${FORMATS.join(', ')}`);
+    }
+    if (!Number.isInteger(profile.quality) || profile.quality < 1 || profile.quality > 100) {
+      throw new Error(`${label}: quality must be between 1 and 100`);
+    }
+
+    return {
+      variantType: profile.variantType,
+      width: profile.width,
+      ...(profile.height !== undefined && { height: profile.height }),
+      formats: [...new Set<VariantFormat>(profile.formats)],
+      quality: profile.quality,
+    };
+  });
+}
+
+/**
+ * Drops resize profiles at least as wide as the source; upscaling only adds
+ * bytes and the original already covers that width. Cropped profiles are
+ * always kept.
+ */
+export function selectVariantProfiles(profiles: VariantProfile[], sourceWidth: number): VariantProfile[] {
+  return profiles.filter((profile) => profile.height !== undefined || profile.width < sourceWidth);
+}
+
+/**
+ * Builds a `srcset` value per format from the resized variants. Cropped
+ * variants such as THUMBNAIL have a different aspect ratio and are left out.
+ * @returns e.g. `{ webp: '/uploads/a_small.webp 480w, /uploads/a_medium.webp 1024w' }`
+ */
+export function buildSrcset(variants: GeneratedVariant[], profiles: VariantProfile[]): Record<string, string> {
+  const cropped = new Set(profiles.filter((profile) => profile.height !== undefined).map((profile) => profile.variantType));
+  const byFormat: Record<string, GeneratedVariant[]> = {};
+
+  for (const variant of variants) {
+    if (!cropped.has(variant.variantType as VariantProfileType)) {
+      (byFormat[variant.format] ||= []).push(variant);
+    }
+  }
+
+  return Object.fromEntries(
+    Object.entries(byFormat).map(([format, entries]) => [
+      format,
+      entries
+        .sort((a, b) => a.width - b.width)
+        .map((variant) => `${variant.url} ${variant.width}w`)
+        .join(', '),
+    ]),
+  );
+}
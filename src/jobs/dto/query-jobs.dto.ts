@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export enum JobStatusFilter {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+}
+
+export class QueryJobsDto {
+  @ApiProperty({ description: 'Filter by job status', enum: JobStatusFilter, required: false })
+  @IsOptional()
+  @IsEnum(JobStatusFilter)
+  status?: JobStatusFilter;
+
+  @ApiProperty({ description: 'Filter by job type', example: 'video.optimize', required: false })
+  @IsOptional()
+  @IsString()
+  type?: string;
+
+  @ApiProperty({ description: 'Filter by source media ID', required: false })
+  @IsOptional()
+  @IsString()
+  sourceMediaId?: string;
+
+  @ApiProperty({ description: 'Page number', default: 1, required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiProperty({ description: 'Items per page', default: 20, required: false })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
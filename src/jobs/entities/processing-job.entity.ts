@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ProcessingJob {
+  @ApiProperty({ description: 'Unique identifier' })
+  id: string;
+
+  @ApiProperty({ description: 'Job type', example: 'video.optimize' })
+  type: string;
+
+  @ApiProperty({ description: 'Worker queue', enum: ['video', 'image'] })
+  queue: string;
+
+  @ApiProperty({ description: 'Job status', enum: ['QUEUED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED'] })
+  status: string;
+
+  @ApiProperty({ description: 'Higher priority jobs run first' })
+  priority: number;
+
+  @ApiProperty({ description: 'Job input' })
+  payload: Record<string, any>;
+
+  @ApiProperty({ description: 'Latest progress (percent, etaSeconds, speed, stage)', required: false })
+  progress?: Record<string, any>;
+
+  @ApiProperty({ description: 'Job output', required: false })
+  result?: Record<string, any>;
+
+  @ApiProperty({ description: 'Error message if the job failed', required: false })
+  error?: string;
+
+  @ApiProperty({ description: 'Number of attempts made' })
+  attempts: number;
+
+  @ApiProperty({ description: 'Maximum number of attempts' })
+  maxAttempts: number;
+
+  @ApiProperty({ description: 'User who queued the job', required: false })
+  userId?: string;
+
+  @ApiProperty({ description: 'Source media ID', required: false })
+  sourceMediaId?: string;
+
+  @ApiProperty({ description: 'IDs of ProcessedMedia records produced by the job', type: [String] })
+  processedMediaIds: string[];
+
+  @ApiProperty({ description: 'IDs of Media records produced by the job', type: [String] })
+  mediaIds: string[];
+
+  @ApiProperty({ description: 'Time the job started running', required: false })
+  startedAt?: Date;
+
+  @ApiProperty({ description: 'Time the job finished', required: false })
+  completedAt?: Date;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: Date;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: Date;
+}
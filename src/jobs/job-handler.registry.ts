@@ -0,0 +1,72 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+export type JobQueue = 'video' | 'image';
+
+export interface ProcessingJobRecord {
+  id: string;
+  type: string;
+  queue: string;
+  status: string;
+  payload: any;
+  attempts: number;
+  maxAttempts: number;
+  userId?: string | null;
+  sourceMediaId?: string | null;
+}
+
+export interface JobHandlerResult {
+  result?: any;
+  processedMediaIds?: string[];
+  mediaIds?: string[];
+}
+
+export interface JobProgress {
+  percent: number;
+  etaSeconds?: number;
+  speed?: number;
+  stage?: string;
+  [key: string]: any;
+}
+
+export interface JobContext {
+  /** Publish progress to SSE/WebSocket subscribers and persist it on the job */
+  reportProgress: (progress: JobProgress) => void;
+  /** Aborted when the job is cancelled; handlers pass it to FFmpeg so the child is killed */
+  signal: AbortSignal;
+}
+
+export type JobHandler = (job: ProcessingJobRecord, context: JobContext) => Promise<JobHandlerResult>;
+
+export interface JobHandlerDefinition {
+  queue: JobQueue;
+  handle: JobHandler;
+  /**
+   * Called once the job has permanently failed or been cancelled, so the
+   * handler can remove inputs and partial outputs it owns
+   */
+  cleanup?: (job: ProcessingJobRecord) => Promise<void>;
+}
+
+@Injectable()
+export class JobHandlerRegistry {
+  private readonly logger = new Logger(JobHandlerRegistry.name);
+  private readonly handlers = new Map<string, JobHandlerDefinition>();
+
+  /**
+   * Register a handler for a job type
+   */
+  register(type: string, definition: JobHandlerDefinition): void {
+    if (this.handlers.has(type)) {
+      this.logger.warn(`Overriding existing handler for job type ${type}`);
+    }
+    this.handlers.set(type, definition);
+  }
+
+  get(type: string): JobHandlerDefinition | undefined {
+    return this.handlers.get(type);
+  }
+
+  has(type: string): boolean {
+    return this.handlers.has(type);
+  }
+}
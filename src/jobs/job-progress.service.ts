@@ -0,0 +1,116 @@
+import { Injectable, Logger, MessageEvent, NotFoundException } from '@nestjs/common';
+import { Observable, Subject, defer, from, interval, merge } from 'rxjs';
+import { distinctUntilChanged, filter, map, switchMap, takeWhile } from 'rxjs/operators';
+import { PrismaService } from '../prisma/prisma.service';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { JobProgress } from './job-handler.registry';
+
+export type JobEventType = 'progress' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobEvent {
+  jobId: string;
+  type: JobEventType;
+  data: any;
+}
+
+const TERMINAL_EVENTS: Record<string, JobEventType> = {
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled',
+};
+
+@Injectable()
+export class JobProgressService {
+  private readonly logger = new Logger(JobProgressService.name);
+  private readonly events = new Subject<JobEvent>();
+  private readonly lastPersisted = new Map<string, number>();
+
+  /** Minimum gap between progress writes to the database per job */
+  private readonly persistInterval = 2000;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: UnifiedConfigService,
+  ) {}
+
+  /**
+   * Stream of all job events published by workers in this process
+   */
+  get events$(): Observable<JobEvent> {
+    return this.events.asObservable();
+  }
+
+  /**
+   * Publish progress for a running job. Subscribers get every update;
+   * the database copy is throttled so other instances can still poll it.
+   */
+  report(jobId: string, progress: JobProgress) {
+    this.events.next({ jobId, type: 'progress', data: progress });
+
+    const now = Date.now();
+    if (now - (this.lastPersisted.get(jobId) || 0) < this.persistInterval) return;
+    this.lastPersisted.set(jobId, now);
+
+    this.prisma.processingJob
+      .update({ where: { id: jobId }, data: { progress } })
+      .catch((error) => this.logger.warn(`Failed to persist progress for job ${jobId}: ${error.message}`));
+  }
+
+  completed(job: any) {
+    this.lastPersisted.delete(job.id);
+    this.events.next({ jobId: job.id, type: 'completed', data: job });
+  }
+
+  failed(job: any) {
+    this.lastPersisted.delete(job.id);
+    this.events.next({ jobId: job.id, type: 'failed', data: job });
+  }
+
+  cancelled(job: any) {
+    this.lastPersisted.delete(job.id);
+    this.events.next({ jobId: job.id, type: 'cancelled', data: job });
+  }
+
+  /**
+   * Server-Sent Events stream for one job: the current state first, then
+   * live updates until the job completes, fails or is cancelled. The database
+   * is polled as well, so jobs running on another instance still report progress.
+   */
+  watch(jobId: string): Observable<MessageEvent> {
+    const { pollInterval } = this.configService.getJobQueueConfig();
+
+    const snapshot = () =>
+      from(this.prisma.processingJob.findUnique({ where: { id: jobId } })).pipe(
+        map((job: any) => {
+          if (!job) {
+            throw new NotFoundException(`Job with ID ${jobId} not found`);
+          }
+          return this.toEvent(job);
+        }),
+      );
+
+    const local = this.events.pipe(
+      filter((event) => event.jobId === jobId),
+      map((event) => ({ type: event.type, data: event.data } as MessageEvent)),
+    );
+
+    const polled = interval(pollInterval).pipe(
+      switchMap(() => snapshot()),
+      distinctUntilChanged((a, b) => JSON.stringify(a.data) === JSON.stringify(b.data)),
+    );
+
+    return merge(defer(() => snapshot()), local, polled).pipe(
+      takeWhile((event) => event.type === 'progress', true),
+    );
+  }
+
+  private toEvent(job: any): MessageEvent {
+    if (TERMINAL_EVENTS[job.status]) {
+      return { type: TERMINAL_EVENTS[job.status], data: job };
+    }
+    return {
+      type: 'progress',
+      data: { status: job.status, percent: 0, ...(job.progress || {}) },
+    };
+  }
+}
@@ -0,0 +1,291 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import * as fs from 'fs-extra';
+import { PrismaService } from '../prisma/prisma.service';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { JobHandlerRegistry, JobHandlerDefinition, JobQueue, ProcessingJobRecord, JobContext } from './job-handler.registry';
+import { JobProgressService } from './job-progress.service';
+
+const QUEUES: JobQueue[] = ['video', 'image'];
+
+@Injectable()
+export class JobWorkerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(JobWorkerService.name);
+  private readonly workerId = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+  private readonly active = new Map<string, JobQueue>();
+  private readonly controllers = new Map<string, AbortController>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private stopped = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: UnifiedConfigService,
+    private readonly registry: JobHandlerRegistry,
+    private readonly progressService: JobProgressService,
+  ) {}
+
+  onApplicationBootstrap() {
+    const { pollInterval } = this.configService.getJobQueueConfig();
+    this.timer = setInterval(() => this.poll(), pollInterval);
+    this.logger.log(`Job worker ${this.workerId} polling every ${pollInterval}ms`);
+  }
+
+  onModuleDestroy() {
+    this.stopped = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * One polling round: heartbeat running jobs, recover stale ones and fill free slots
+   */
+  private async poll() {
+    if (this.polling || this.stopped) return;
+    this.polling = true;
+
+    try {
+      await this.heartbeat();
+      await this.recoverStaleJobs();
+
+      for (const queue of QUEUES) {
+        const limit = this.getConcurrency(queue);
+        while (!this.stopped && this.countActive(queue) < limit) {
+          const job = await this.claimNext(queue);
+          if (!job) break;
+          this.active.set(job.id, queue);
+          this.run(job).finally(() => this.active.delete(job.id));
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Job polling failed: ${error.message}`);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private getConcurrency(queue: JobQueue): number {
+    const config = this.configService.getJobQueueConfig();
+    return Math.max(1, queue === 'video' ? config.videoConcurrency : config.imageConcurrency);
+  }
+
+  private countActive(queue: JobQueue): number {
+    let count = 0;
+    for (const q of this.active.values()) {
+      if (q === queue) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Atomically claim the next queued job; SKIP LOCKED lets several
+   * app instances poll the same table without handing out a job twice
+   */
+  private async claimNext(queue: JobQueue): Promise<ProcessingJobRecord | null> {
+    const rows: ProcessingJobRecord[] = await this.prisma.$queryRaw`
+      UPDATE "processing_jobs"
+      SET "status" = 'RUNNING'::"JobStatus",
+          "attempts" = "attempts" + 1,
+          "workerId" = ${this.workerId},
+          "startedAt" = NOW(),
+          "heartbeatAt" = NOW(),
+          "updatedAt" = NOW()
+      WHERE "id" = (
+        SELECT "id" FROM "processing_jobs"
+        WHERE "status" = 'QUEUED'::"JobStatus"
+          AND "queue" = ${queue}
+          AND "runAfter" <= NOW()
+        ORDER BY "priority" DESC, "createdAt" ASC
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING *
+    `;
+
+    return rows.length > 0 ? rows[0] : null;
+  }
+
+  /**
+   * Abort a job running in this process; returns false if it runs elsewhere
+   */
+  abort(jobId: string): boolean {
+    const controller = this.controllers.get(jobId);
+    if (!controller) return false;
+
+    controller.abort();
+    return true;
+  }
+
+  private async run(job: ProcessingJobRecord) {
+    const definition = this.registry.get(job.type);
+    const startTime = Date.now();
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    try {
+      if (!definition) {
+        throw new Error(`No handler registered for job type ${job.type}`);
+      }
+
+      this.logger.log(`Running job ${job.id} (${job.type}), attempt ${job.attempts}/${job.maxAttempts}`);
+      const context: JobContext = {
+        reportProgress: (progress) => this.progressService.report(job.id, progress),
+        signal: controller.signal,
+      };
+      const outcome = await definition.handle(job, context);
+
+      // Only a job that is still RUNNING may complete; a cancel that raced
+      // the handler leaves outputs nobody asked for
+      const { count } = await this.prisma.processingJob.updateMany({
+        where: { id: job.id, status: 'RUNNING' },
+        data: {
+          status: 'COMPLETED',
+          result: outcome.result ?? {},
+          processedMediaIds: outcome.processedMediaIds ?? [],
+          mediaIds: outcome.mediaIds ?? [],
+          progress: { percent: 100 },
+          error: null,
+          completedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        await this.discardOutputs(outcome.processedMediaIds, outcome.mediaIds);
+        await this.finishCancelled(job, definition);
+        return;
+      }
+
+      this.progressService.completed(await this.prisma.processingJob.findUnique({ where: { id: job.id } }));
+      this.logger.log(`Job ${job.id} completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await this.finishCancelled(job, definition);
+        return;
+      }
+
+      const retry = job.attempts < job.maxAttempts;
+      this.logger.error(`Job ${job.id} failed${retry ? ', will retry' : ''}: ${error.message}`);
+
+      const { count } = await this.prisma.processingJob.updateMany({
+        where: { id: job.id, status: 'RUNNING' },
+        data: retry
+          ? { status: 'QUEUED', error: error.message, workerId: null, runAfter: new Date(Date.now() + job.attempts * 5000) }
+          : { status: 'FAILED', error: error.message, completedAt: new Date() },
+      });
+
+      if (count === 0) {
+        await this.finishCancelled(job, definition);
+        return;
+      }
+
+      if (!retry) {
+        this.progressService.failed(await this.prisma.processingJob.findUnique({ where: { id: job.id } }));
+
+        if (definition?.cleanup) {
+          await definition.cleanup(job).catch((cleanupError) =>
+            this.logger.warn(`Cleanup for job ${job.id} failed: ${cleanupError.message}`),
+          );
+        }
+      }
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+
+  private async finishCancelled(job: ProcessingJobRecord, definition?: JobHandlerDefinition) {
+    this.logger.warn(`Job ${job.id} was cancelled, cleaning up`);
+
+    if (definition?.cleanup) {
+      await definition.cleanup(job).catch((cleanupError) =>
+        this.logger.warn(`Cleanup for job ${job.id} failed: ${cleanupError.message}`),
+      );
+    }
+
+    this.progressService.cancelled(await this.prisma.processingJob.findUnique({ where: { id: job.id } }));
+  }
+
+  /**
+   * Mark records produced by a cancelled job as cancelled and remove their files
+   */
+  async discardOutputs(processedMediaIds: string[] = [], mediaIds: string[] = []) {
+    if (processedMediaIds.length > 0) {
+      const processed = await this.prisma.processedMedia.findMany({
+        where: { id: { in: processedMediaIds } },
+      });
+      for (const item of processed) {
+        await fs.remove(item.filePath).catch(() => undefined);
+      }
+      await this.prisma.processedMedia.updateMany({
+        where: { id: { in: processedMediaIds } },
+        data: { status: 'CANCELLED', deletedAt: new Date() },
+      });
+    }
+
+    if (mediaIds.length > 0) {
+      const media = await this.prisma.media.findMany({ where: { id: { in: mediaIds } } });
+      for (const item of media) {
+        await fs.remove(item.filePath).catch(() => undefined);
+      }
+      await this.prisma.media.updateMany({
+        where: { id: { in: mediaIds } },
+        data: { status: 'DELETED' },
+      });
+    }
+  }
+
+  /**
+   * Heartbeat running jobs and abort any that were cancelled from another instance
+   */
+  private async heartbeat() {
+    if (this.active.size === 0) return;
+    const ids = Array.from(this.active.keys());
+
+    await this.prisma.processingJob.updateMany({
+      where: { id: { in: ids }, status: 'RUNNING' },
+      data: { heartbeatAt: new Date() },
+    });
+
+    const cancelled = await this.prisma.processingJob.findMany({
+      where: { id: { in: ids }, status: 'CANCELLED' },
+      select: { id: true },
+    });
+    for (const { id } of cancelled) {
+      this.abort(id);
+    }
+  }
+
+  /**
+   * Jobs whose worker stopped heartbeating (crash, restart) are requeued,
+   * or failed once they have used up their attempts
+   */
+  private async recoverStaleJobs() {
+    const { staleTimeout } = this.configService.getJobQueueConfig();
+    const cutoff = new Date(Date.now() - staleTimeout);
+
+    const stale = await this.prisma.processingJob.findMany({
+      where: { status: 'RUNNING', heartbeatAt: { lt: cutoff } },
+    });
+
+    for (const job of stale) {
+      const retry = job.attempts < job.maxAttempts;
+      this.logger.warn(`Job ${job.id} stalled on worker ${job.workerId}, ${retry ? 'requeueing' : 'marking as failed'}`);
+
+      await this.prisma.processingJob.updateMany({
+        where: { id: job.id, status: 'RUNNING', heartbeatAt: { lt: cutoff } },
+        data: retry
+          ? { status: 'QUEUED', workerId: null }
+          : { status: 'FAILED', error: 'Worker stopped responding', completedAt: new Date() },
+      });
+
+      if (!retry) {
+        const definition = this.registry.get(job.type);
+        if (definition?.cleanup) {
+          await definition.cleanup(job).catch(() => undefined);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { Controller, Get, Post, Param, Query, UseGuards, Request, Sse, MessageEvent } from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { JobsService } from './jobs.service';
+import { JobProgressService } from './job-progress.service';
+import { QueryJobsDto } from './dto/query-jobs.dto';
+import { ProcessingJob } from './entities/processing-job.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+
+@ApiTags('Jobs')
+@Controller('jobs')
+export class JobsController {
+  constructor(
+    private readonly jobsService: JobsService,
+    private readonly progressService: JobProgressService,
+  ) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List processing jobs for current user' })
+  @ApiResponse({ status: 200, description: 'Paginated list of jobs' })
+  async findAll(@Request() req, @Query() query: QueryJobsDto) {
+    return this.jobsService.findAll(req.user.id, query);
+  }
+
+  @Get(':id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get processing job state, outputs and errors' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({ status: 200, description: 'Job details', type: ProcessingJob })
+  @ApiResponse({ status: 403, description: 'Job belongs to another user' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async findOne(@Param('id') id: string, @Request() req) {
+    return this.jobsService.findOneForUser(id, req.user);
+  }
+
+  @Sse(':id/progress')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Stream job progress (percent, ETA, speed) as Server-Sent Events' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({ status: 200, description: 'text/event-stream of progress, completed, failed and cancelled events' })
+  @ApiResponse({ status: 403, description: 'Job belongs to another user' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async streamProgress(@Param('id') id: string, @Request() req): Promise<Observable<MessageEvent>> {
+    await this.jobsService.findOneForUser(id, req.user, 'watch');
+    return this.progressService.watch(id);
+  }
+
+  @Post(':id/cancel')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Cancel a queued or running job and remove its intermediate files' })
+  @ApiParam({ name: 'id', description: 'Job ID' })
+  @ApiResponse({ status: 201, description: 'Job cancelled', type: ProcessingJob })
+  @ApiResponse({ status: 400, description: 'Job already finished' })
+  @ApiResponse({ status: 403, description: 'Job belongs to another user' })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  async cancel(@Param('id') id: string, @Request() req) {
+    return this.jobsService.cancel(id, req.user);
+  }
+}
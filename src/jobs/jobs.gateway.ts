@@ -0,0 +1,94 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayInit,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+} from '@nestjs/websockets';
+import { Namespace, Socket } from 'socket.io';
+import { Subscription } from 'rxjs';
+import { JobProgressService } from './job-progress.service';
+import { JobsService } from './jobs.service';
+import { AuthService } from '../auth/auth.service';
+
+/**
+ * Socket.IO gateway for live job progress. Clients connect with an access
+ * token (`auth: { token }` or a Bearer Authorization header), emit
+ * `subscribe` with a job ID and then receive `progress`, `completed`,
+ * `failed` and `cancelled` events. Only the job owner or an admin may
+ * subscribe; other requests get an `error` event.
+ */
+@WebSocketGateway({ namespace: '/jobs', cors: true })
+export class JobsGateway implements OnGatewayInit, OnModuleDestroy {
+  private readonly logger = new Logger(JobsGateway.name);
+  private subscription: Subscription;
+
+  @WebSocketServer()
+  server: Namespace;
+
+  constructor(
+    private readonly progressService: JobProgressService,
+    private readonly jobsService: JobsService,
+    private readonly authService: AuthService,
+  ) {}
+
+  afterInit() {
+    // Refuse the handshake itself, so unauthenticated sockets never reach a handler
+    this.server.use((client, next) => {
+      const header = client.handshake.headers.authorization;
+      const token = client.handshake.auth?.token || (header?.startsWith('Bearer ') ? header.slice(7) : undefined);
+      if (!token) {
+        return next(new Error('Missing access token'));
+      }
+      this.authService.verifyToken(token).then(
+        (user) => {
+          client.data.user = user;
+          next();
+        },
+        (error) => next(new Error(error.message)),
+      );
+    });
+
+    this.subscription = this.progressService.events$.subscribe((event) => {
+      this.server.to(this.room(event.jobId)).emit(event.type, {
+        jobId: event.jobId,
+        ...event.data,
+      });
+    });
+    this.logger.log('Job progress gateway initialized');
+  }
+
+  onModuleDestroy() {
+    this.subscription?.unsubscribe();
+  }
+
+  @SubscribeMessage('subscribe')
+  async handleSubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { jobId: string },
+  ) {
+    try {
+      await this.jobsService.findOneForUser(body.jobId, client.data.user, 'watch');
+    } catch (error) {
+      return { event: 'error', data: { jobId: body.jobId, message: error.message } };
+    }
+
+    await client.join(this.room(body.jobId));
+    return { event: 'subscribed', data: { jobId: body.jobId } };
+  }
+
+  @SubscribeMessage('unsubscribe')
+  async handleUnsubscribe(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() body: { jobId: string },
+  ) {
+    await client.leave(this.room(body.jobId));
+    return { event: 'unsubscribed', data: { jobId: body.jobId } };
+  }
+
+  private room(jobId: string) {
+    return `job:${jobId}`;
+  }
+}
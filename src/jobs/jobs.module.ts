@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { JobsService } from './jobs.service';
+import { JobsController } from './jobs.controller';
+import { JobWorkerService } from './job-worker.service';
+import { JobHandlerRegistry } from './job-handler.registry';
+import { JobProgressService } from './job-progress.service';
+import { JobsGateway } from './jobs.gateway';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ConfigModule } from '../config/config.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [PrismaModule, ConfigModule, AuthModule],
+  controllers: [JobsController],
+  providers: [JobsService, JobWorkerService, JobHandlerRegistry, JobProgressService, JobsGateway],
+  exports: [JobsService, JobHandlerRegistry, JobProgressService],
+})
+export class JobsModule {}
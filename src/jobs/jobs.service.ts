@@ -0,0 +1,152 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { JobHandlerRegistry } from './job-handler.registry';
+import { JobWorkerService } from './job-worker.service';
+import { JobProgressService } from './job-progress.service';
+import { QueryJobsDto } from './dto/query-jobs.dto';
+
+export interface EnqueueJobOptions {
+  userId?: string;
+  sourceMediaId?: string;
+  priority?: number;
+  maxAttempts?: number;
+}
+
+@Injectable()
+export class JobsService {
+  private readonly logger = new Logger(JobsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly registry: JobHandlerRegistry,
+    private readonly worker: JobWorkerService,
+    private readonly progressService: JobProgressService,
+  ) {}
+
+  /**
+   * Persist a new job; a worker picks it up on its next poll
+   * @param type Registered job type, e.g. 'video.optimize'
+   * @param payload JSON-serializable job input
+   */
+  async enqueue(type: string, payload: Record<string, any>, options: EnqueueJobOptions = {}) {
+    const definition = this.registry.get(type);
+    if (!definition) {
+      throw new BadRequestException(`Unknown job type: ${type}`);
+    }
+
+    const job = await this.prisma.processingJob.create({
+      data: {
+        type,
+        queue: definition.queue,
+        payload,
+        userId: options.userId,
+        sourceMediaId: options.sourceMediaId,
+        priority: options.priority ?? 0,
+        maxAttempts: options.maxAttempts ?? 1,
+      },
+    });
+
+    this.logger.log(`Enqueued job ${job.id} (${type}) on ${definition.queue} queue`);
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async findOne(id: string) {
+    const job = await this.prisma.processingJob.findUnique({ where: { id } });
+    if (!job) {
+      throw new NotFoundException(`Job with ID ${id} not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Get a job by ID for a user. Jobs of other users, and jobs queued without
+   * an owner (anonymous upload routes), are refused unless the user is an admin.
+   */
+  async findOneForUser(id: string, user: { id: string; role: string }, action = 'view') {
+    const job = await this.findOne(id);
+
+    if (job.userId !== user.id && user.role !== 'ADMIN') {
+      throw new ForbiddenException(`You can only ${action} your own jobs`);
+    }
+
+    return job;
+  }
+
+  /**
+   * List jobs for a user, newest first
+   */
+  async findAll(userId: string, query: QueryJobsDto) {
+    const where: any = { userId };
+    if (query.status) where.status = query.status;
+    if (query.type) where.type = query.type;
+    if (query.sourceMediaId) where.sourceMediaId = query.sourceMediaId;
+
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+
+    const [jobs, total] = await Promise.all([
+      this.prisma.processingJob.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.processingJob.count({ where }),
+    ]);
+
+    return {
+      data: jobs,
+      meta: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Cancel a job. Queued jobs are cleaned up here; running jobs are flagged
+   * and their worker kills the FFmpeg child and removes intermediate files.
+   */
+  async cancel(id: string, user: { id: string; role: string }) {
+    const job = await this.findOneForUser(id, user, 'cancel');
+
+    const { count: dequeued } = await this.prisma.processingJob.updateMany({
+      where: { id, status: 'QUEUED' },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+
+    if (dequeued === 1) {
+      const definition = this.registry.get(job.type);
+      if (definition?.cleanup) {
+        await definition.cleanup(job).catch((error) =>
+          this.logger.warn(`Cleanup for cancelled job ${id} failed: ${error.message}`),
+        );
+      }
+      const cancelled = await this.findOne(id);
+      this.progressService.cancelled(cancelled);
+      this.logger.log(`Cancelled queued job ${id}`);
+      return cancelled;
+    }
+
+    const { count: flagged } = await this.prisma.processingJob.updateMany({
+      where: { id, status: 'RUNNING' },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+
+    if (flagged === 0) {
+      throw new BadRequestException(`Job ${id} has already finished`);
+    }
+
+    // A worker on another instance picks this up on its next heartbeat
+    if (!this.worker.abort(id)) {
+      this.logger.log(`Job ${id} flagged for cancellation on worker ${job.workerId}`);
+    }
+
+    return this.findOne(id);
+  }
+}
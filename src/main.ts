@@ -6,8 +6,11 @@ import * as compression from 'compression';
 import helmet from 'helmet';
 import * as cors from 'cors';
 import { NestExpressApplication } from '@nestjs/platform-express';
-import { join } from 'path';
+import { extname, join } from 'path';
 import { UnifiedConfigService } from './config/unified-config.service';
+import { STREAMING_MIME_TYPES } from './common/constants/streaming-mime-types';
+import { FormatNegotiationService } from './image-processing/format-negotiation.service';
+import { formatNegotiationMiddleware } from './image-processing/format-negotiation.middleware';
 
 async function bootstrap() {
   const app = await NestFactory.create<NestExpressApplication>(AppModule);
@@ -59,7 +62,12 @@ async function bootstrap() {
 
   // Static file serving for media files
   const uploadDir = process.env.UPLOAD_DIR || 'uploads';
-  app.useStaticAssets(join(__dirname, '..', '..', uploadDir), {
+  const uploadRoot = join(__dirname, '..', '..', uploadDir);
+
+  // Serve AVIF/WebP copies of images to browsers that accept them
+  app.use('/uploads', formatNegotiationMiddleware(app.get(FormatNegotiationService), uploadRoot));
+
+  app.useStaticAssets(uploadRoot, {
     prefix: '/uploads/',
     maxAge: '1y',
     etag: true,
@@ -68,6 +76,12 @@ async function bootstrap() {
       res.setHeader('Access-Control-Allow-Origin', corsOrigin);
       res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
       res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+      // HLS/DASH players reject playlists and segments with generic types
+      const streamingType = STREAMING_MIME_TYPES[extname(path)];
+      if (streamingType) {
+        res.setHeader('Content-Type', streamingType);
+      }
     },
   });
 
@@ -42,9 +42,25 @@ export class CreateProcessedMediaDto {
   @IsString()
   format: string;
 
-  @ApiProperty({ description: 'Processing type', enum: ['OPTIMIZE', 'THUMBNAIL', 'CONVERT', 'RESIZE', 'WATERMARK', 'FORMAT_CHANGE', 'REMOVE_BG'] })
-  @IsEnum(['OPTIMIZE', 'THUMBNAIL', 'CONVERT', 'RESIZE', 'WATERMARK', 'FORMAT_CHANGE', 'REMOVE_BG'])
-  processType: 'OPTIMIZE' | 'THUMBNAIL' | 'CONVERT' | 'RESIZE' | 'WATERMARK' | 'FORMAT_CHANGE' | 'REMOVE_BG';
+  @ApiProperty({ description: 'Processing type', enum: ['OPTIMIZE', 'THUMBNAIL', 'CONVERT', 'RESIZE', 'WATERMARK', 'FORMAT_CHANGE', 'REMOVE_BG', 'SPRITE_SHEET', 'THUMBNAIL_TRACK', 'SUBTITLE', 'ANIMATED_PREVIEW', 'AUDIO_EDIT', 'WAVEFORM', 'PDF_SPLIT', 'PDF_MERGE', 'EDIT'] })
+  @IsEnum(['OPTIMIZE', 'THUMBNAIL', 'CONVERT', 'RESIZE', 'WATERMARK', 'FORMAT_CHANGE', 'REMOVE_BG', 'SPRITE_SHEET', 'THUMBNAIL_TRACK', 'SUBTITLE', 'ANIMATED_PREVIEW', 'AUDIO_EDIT', 'WAVEFORM', 'PDF_SPLIT', 'PDF_MERGE', 'EDIT'])
+  processType:
+    | 'OPTIMIZE'
+    | 'THUMBNAIL'
+    | 'CONVERT'
+    | 'RESIZE'
+    | 'WATERMARK'
+    | 'FORMAT_CHANGE'
+    | 'REMOVE_BG'
+    | 'SPRITE_SHEET'
+    | 'THUMBNAIL_TRACK'
+    | 'SUBTITLE'
+    | 'ANIMATED_PREVIEW'
+    | 'AUDIO_EDIT'
+    | 'WAVEFORM'
+    | 'PDF_SPLIT'
+    | 'PDF_MERGE'
+    | 'EDIT';
 
   @ApiProperty({ description: 'Quality setting used', required: false })
   @IsOptional()
@@ -89,5 +105,10 @@ export class CreateProcessedMediaDto {
   @IsOptional()
   @IsDateString()
   expiresAt?: string;
+
+  @ApiProperty({ description: 'Keep the file without expiry', required: false, default: false })
+  @IsOptional()
+  @IsBoolean()
+  isPermanent?: boolean;
 }
 
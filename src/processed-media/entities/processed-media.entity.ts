@@ -31,7 +31,7 @@ export class ProcessedMedia {
   @ApiProperty({ description: 'Output format' })
   format: string;
 
-  @ApiProperty({ description: 'Processing type', enum: ['OPTIMIZE', 'THUMBNAIL', 'CONVERT', 'RESIZE', 'WATERMARK', 'FORMAT_CHANGE'] })
+  @ApiProperty({ description: 'Processing type', enum: ['OPTIMIZE', 'THUMBNAIL', 'CONVERT', 'RESIZE', 'WATERMARK', 'FORMAT_CHANGE', 'SPRITE_SHEET', 'THUMBNAIL_TRACK', 'SUBTITLE', 'ANIMATED_PREVIEW', 'AUDIO_EDIT', 'WAVEFORM', 'PDF_SPLIT', 'PDF_MERGE', 'EDIT'] })
   processType: string;
 
   @ApiProperty({ description: 'Quality setting used', required: false })
@@ -52,7 +52,7 @@ export class ProcessedMedia {
   @ApiProperty({ description: 'Source type', enum: ['UPLOAD', 'MEDIA_LIBRARY', 'URL'] })
   sourceType: string;
 
-  @ApiProperty({ description: 'Processing status', enum: ['TEMPORARY', 'PERMANENT', 'EXPIRED', 'DELETED'] })
+  @ApiProperty({ description: 'Processing status', enum: ['TEMPORARY', 'PERMANENT', 'EXPIRED', 'DELETED', 'CANCELLED'] })
   status: string;
 
   @ApiProperty({ description: 'Expiry timestamp', required: false })
@@ -22,8 +22,10 @@ export class ProcessedMediaService {
    */
   async create(createDto: CreateProcessedMediaDto, userId: string): Promise<ProcessedMedia> {
     // Calculate expiry date: use expiresAt if provided, otherwise calculate from expiryDays
-    let expiresAt: Date;
-    if (createDto.expiresAt) {
+    let expiresAt: Date | null;
+    if (createDto.isPermanent) {
+      expiresAt = null;
+    } else if (createDto.expiresAt) {
       expiresAt = new Date(createDto.expiresAt);
     } else {
       const expiryDays = createDto.expiryDays || 1;
@@ -57,11 +59,14 @@ export class ProcessedMediaService {
         sourceType: createDto.sourceType,
         userId,
         expiresAt,
-        status: 'TEMPORARY',
+        isPermanent: !!createDto.isPermanent,
+        status: createDto.isPermanent ? 'PERMANENT' : 'TEMPORARY',
       },
     });
 
-    this.logger.log(`Created processed media ${processed.id} for user ${userId}, expires at ${expiresAt}`);
+    this.logger.log(
+      `Created processed media ${processed.id} for user ${userId}, ${expiresAt ? `expires at ${expiresAt}` : 'permanent'}`,
+    );
     return processed as ProcessedMedia;
   }
 
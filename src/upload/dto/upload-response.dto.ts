@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class InitUploadResponseDto {
   @ApiProperty({ description: 'Unique token for this upload session' })
@@ -17,6 +17,32 @@ export class InitUploadResponseDto {
   message: string;
 }
 
+export class UploadVariantResponseDto {
+  @ApiProperty({ description: 'Variant ID' })
+  id: string;
+
+  @ApiProperty({
+    enum: ['THUMBNAIL', 'SMALL', 'MEDIUM', 'LARGE', 'WEB_OPTIMIZED', 'MOBILE_OPTIMIZED'],
+    description: 'Variant profile'
+  })
+  variantType: string;
+
+  @ApiProperty({ enum: ['jpeg', 'png', 'webp', 'avif'], description: 'Image format' })
+  format: string;
+
+  @ApiProperty({ description: 'Width in pixels' })
+  width: number;
+
+  @ApiProperty({ description: 'Height in pixels' })
+  height: number;
+
+  @ApiProperty({ description: 'File size in bytes' })
+  fileSize: number;
+
+  @ApiProperty({ description: 'Public accessible URL' })
+  url: string;
+}
+
 export class UploadChunkResponseDto {
   @ApiProperty({ description: 'The uploaded chunk number' })
   chunkNumber: number;
@@ -27,6 +53,22 @@ export class UploadChunkResponseDto {
   @ApiProperty({ description: 'Total chunks expected' })
   totalChunks: number;
 
+  @ApiPropertyOptional({ description: 'Media created from the assembled file, once all chunks are uploaded' })
+  mediaId?: string;
+
+  @ApiPropertyOptional({ description: 'Public accessible URL, once all chunks are uploaded' })
+  publicUrl?: string;
+
+  @ApiPropertyOptional({ type: [UploadVariantResponseDto], description: 'Responsive variants of an uploaded image' })
+  variants?: UploadVariantResponseDto[];
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    description: 'srcset value per format, e.g. { "webp": "/uploads/a_small.webp 480w, ..." }'
+  })
+  srcset?: Record<string, string>;
+
   @ApiProperty({ description: 'Success message' })
   message: string;
 }
@@ -41,6 +83,16 @@ export class WholeFileUploadResponseDto {
   @ApiProperty({ description: 'Public accessible URL' })
   publicUrl: string;
 
+  @ApiProperty({ type: [UploadVariantResponseDto], description: 'Responsive variants; empty for non-images' })
+  variants: UploadVariantResponseDto[];
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: { type: 'string' },
+    description: 'srcset value per format, e.g. { "webp": "/uploads/a_small.webp 480w, ..." }'
+  })
+  srcset: Record<string, string>;
+
   @ApiProperty({ description: 'Success message' })
   message: string;
 }
@@ -80,6 +80,25 @@ export class UploadController {
         chunkNumber: { type: 'number', description: 'The uploaded chunk number' },
         uploadedChunks: { type: 'number', description: 'Total chunks uploaded so far' },
         totalChunks: { type: 'number', description: 'Total chunks expected' },
+        mediaId: { type: 'string', description: 'Media created once all chunks are uploaded' },
+        publicUrl: { type: 'string', description: 'Public accessible URL once all chunks are uploaded' },
+        variants: {
+          type: 'array',
+          description: 'Responsive variants of an image, for srcset',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              variantType: { type: 'string' },
+              format: { type: 'string' },
+              width: { type: 'number' },
+              height: { type: 'number' },
+              fileSize: { type: 'number' },
+              url: { type: 'string' }
+            }
+          }
+        },
+        srcset: { type: 'object', additionalProperties: { type: 'string' }, description: 'srcset value per format' },
         message: { type: 'string', description: 'Success message' }
       }
     }
@@ -152,6 +171,23 @@ export class UploadController {
         mediaId: { type: 'string', description: 'Unique identifier for the uploaded media' },
         fileName: { type: 'string', description: 'Stored filename on server' },
         publicUrl: { type: 'string', description: 'Public accessible URL' },
+        variants: {
+          type: 'array',
+          description: 'Responsive variants of an image, for srcset',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              variantType: { type: 'string' },
+              format: { type: 'string' },
+              width: { type: 'number' },
+              height: { type: 'number' },
+              fileSize: { type: 'number' },
+              url: { type: 'string' }
+            }
+          }
+        },
+        srcset: { type: 'object', additionalProperties: { type: 'string' }, description: 'srcset value per format' },
         message: { type: 'string', description: 'Success message' }
       }
     }
@@ -328,6 +364,8 @@ export class UploadController {
               mediaId: { type: 'string' },
               fileName: { type: 'string' },
               publicUrl: { type: 'string' },
+              variants: { type: 'array', items: { type: 'object' } },
+              srcset: { type: 'object', additionalProperties: { type: 'string' } },
               status: { type: 'string', enum: ['success', 'error'] },
               error: { type: 'string' }
             }
@@ -5,9 +5,10 @@ import { MediaModule } from '../media/media.module';
 import { ImageProcessingModule } from '../image-processing/image-processing.module';
 import { ConfigModule } from '../config/config.module';
 import { StorageModule } from '../storage/storage.module';
+import { JobsModule } from '../jobs/jobs.module';
 
 @Module({
-  imports: [forwardRef(() => MediaModule), ImageProcessingModule, ConfigModule, StorageModule],
+  imports: [forwardRef(() => MediaModule), ImageProcessingModule, ConfigModule, StorageModule, JobsModule],
   controllers: [UploadController],
   providers: [UploadService],
   exports: [UploadService],
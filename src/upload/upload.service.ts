@@ -13,10 +13,13 @@ import { InitUploadDto } from './dto/init-upload.dto';
 import { UploadChunkDto } from './dto/upload-chunk.dto';
 import { WholeFileUploadDto } from './dto/whole-file-upload.dto';
 import { ImageProcessingService } from '../image-processing/image-processing.service';
+import { ImageVariantService } from '../image-processing/image-variant.service';
 import { StorageConfigService } from '../config/config.service';
 import { CloudStorageService } from '../storage/cloud-storage.service';
 import { StorageFactoryService } from '../storage/storage-factory.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { JobsService } from '../jobs/jobs.service';
+import { OFFICE_MIME_TYPES, isOfficeDocument } from '../document/office-formats';
 
 @Injectable()
 export class UploadService {
@@ -24,6 +27,7 @@ export class UploadService {
   private readonly uploadDir: string;
   private readonly tempDir: string;
   private readonly maxFileSize: number;
+  private readonly assemblies = new Map<string, AbortController>();
 
   constructor(
     private readonly nestConfigService: NestConfigService,
@@ -31,9 +35,11 @@ export class UploadService {
     @Inject(forwardRef(() => MediaService))
     private readonly mediaService: MediaService,
     private readonly imageProcessingService: ImageProcessingService,
+    private readonly imageVariantService: ImageVariantService,
     private readonly cloudStorageService: CloudStorageService,
     private readonly storageFactory: StorageFactoryService,
     private readonly prisma: PrismaService,
+    private readonly jobsService: JobsService,
   ) {
     this.uploadDir = this.nestConfigService.get('UPLOAD_DIR', 'uploads');
     this.tempDir = this.nestConfigService.get('TEMP_DIR', 'temp');
@@ -138,9 +144,35 @@ export class UploadService {
 
     // Save to database
     const savedMedia = await this.mediaService.create(createMediaDto, uploadFileDto.userId || 'anonymous');
+    await this.scheduleAnalysis(savedMedia.id, file.mimetype);
     return savedMedia;
   }
 
+  /**
+   * Queues background analysis of an upload: an ffprobe pass for video and
+   * audio (width, height, duration, format, streams), text extraction and a
+   * first-page thumbnail for PDFs, PDF conversion first for office documents.
+   * Never fails the upload.
+   */
+  private async scheduleAnalysis(mediaId: string, mimeType: string) {
+    let type: string;
+    if (mimeType.startsWith('video/') || mimeType.startsWith('audio/')) {
+      type = 'media.probe';
+    } else if (mimeType === 'application/pdf') {
+      type = 'document.process';
+    } else if (isOfficeDocument(mimeType)) {
+      type = 'document.convert';
+    } else {
+      return;
+    }
+
+    try {
+      await this.jobsService.enqueue(type, { mediaId }, { sourceMediaId: mediaId });
+    } catch (error) {
+      this.logger.warn(`Could not queue ${type} for media ${mediaId}: ${error.message}`);
+    }
+  }
+
   private async ensureDirectories() {
     try {
       if (!existsSync(this.uploadDir)) {
@@ -271,7 +303,19 @@ export class UploadService {
       });
 
       if (uploadedChunks === session.totalChunks) {
-        await this.assembleFile(session.id);
+        const fileName = await this.assembleFile(session.id);
+        const { media, variants, srcset } = await this.registerAssembledFile(session, fileName);
+
+        return {
+          chunkNumber: uploadChunkDto.chunkNumber,
+          uploadedChunks,
+          totalChunks: session.totalChunks,
+          mediaId: media.id,
+          publicUrl: media.publicUrl,
+          variants,
+          srcset,
+          message: 'Upload completed successfully',
+        };
       }
 
       return {
@@ -374,7 +418,13 @@ export class UploadService {
 
       // Save to database
       const savedMedia = await this.mediaService.create(createMediaDto, userId);
-      return savedMedia;
+      await this.scheduleAnalysis(savedMedia.id, file.mimetype);
+
+      // Responsive variants, listed in the response for srcset
+      const { variants, srcset } = mediaType === 'IMAGE'
+        ? await this.imageVariantService.generateVariants(savedMedia.id, file.buffer, storageKey)
+        : { variants: [], srcset: {} };
+      return { ...savedMedia, variants, srcset };
     } catch (error) {
       this.logger.error('Failed to upload whole file', error);
       throw error;
@@ -498,14 +548,14 @@ export class UploadService {
   /**
    * Determine media type from MIME type
    */
-  private determineMediaType(mimeType: string): string {
+  private determineMediaType(mimeType: string): InitUploadDto['mediaType'] | 'FILE' {
     if (mimeType.startsWith('image/')) {
       return 'IMAGE';
     } else if (mimeType.startsWith('video/')) {
       return 'VIDEO';
     } else if (mimeType.startsWith('audio/')) {
       return 'AUDIO';
-    } else if (mimeType.includes('pdf')) {
+    } else if (mimeType.includes('pdf') || isOfficeDocument(mimeType)) {
       return 'DOCUMENT';
     } else {
       return 'FILE';
@@ -527,8 +577,8 @@ export class UploadService {
       'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml',
       'video/mp4', 'video/avi', 'video/mov', 'video/wmv', 'video/webm',
       'audio/mp3', 'audio/wav', 'audio/ogg', 'audio/m4a',
-      'application/pdf', 'text/plain', 'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      'application/pdf', 'text/plain',
+      ...OFFICE_MIME_TYPES,
     ];
 
     if (!allowedMimeTypes.includes(mimeType)) {
@@ -537,9 +587,16 @@ export class UploadService {
   }
 
   /**
-   * Assemble file from chunks
+   * Assemble file from chunks. Can be aborted by cancelUpload, in which case
+   * the partially written file is removed.
+   * @returns Name of the assembled file in the upload directory
    */
-  private async assembleFile(sessionId: string): Promise<void> {
+  private async assembleFile(sessionId: string): Promise<string> {
+    const controller = new AbortController();
+    this.assemblies.set(sessionId, controller);
+    let finalPath: string | undefined;
+    let assembled = false;
+
     try {
       // Get session and chunks
       const session = await this.prisma.uploadSession.findUnique({
@@ -561,7 +618,7 @@ export class UploadService {
 
       // Create final file
       const finalFileName = this.generateFilename(session.fileName);
-      const finalPath = join(this.uploadDir, finalFileName);
+      finalPath = join(this.uploadDir, finalFileName);
       
       // Ensure upload directory exists
       await fs.ensureDir(this.uploadDir);
@@ -569,12 +626,19 @@ export class UploadService {
       // Write chunks to final file
       const writeStream = fs.createWriteStream(finalPath);
       
-      for (const chunk of chunks) {
-        const chunkData = await fs.readFile(chunk.chunkData);
-        writeStream.write(chunkData);
+      try {
+        for (const chunk of chunks) {
+          if (controller.signal.aborted) {
+            throw new BadRequestException('Upload cancelled during assembly');
+          }
+          const chunkData = await fs.readFile(chunk.chunkData);
+          if (!writeStream.write(chunkData)) {
+            await new Promise<void>((resolve) => writeStream.once('drain', () => resolve()));
+          }
+        }
+      } finally {
+        await new Promise<void>((resolve) => writeStream.end(() => resolve()));
       }
-      
-      writeStream.end();
 
       // Verify file integrity
       const finalFileStats = await fs.stat(finalPath);
@@ -582,11 +646,14 @@ export class UploadService {
         throw new BadRequestException('File size mismatch after assembly');
       }
 
-      // Update session status
-      await this.prisma.uploadSession.update({
-        where: { id: sessionId },
+      // Update session status unless it was cancelled while assembling
+      const { count } = await this.prisma.uploadSession.updateMany({
+        where: { id: sessionId, status: { not: 'CANCELLED' } },
         data: { status: 'COMPLETED' },
       });
+      if (count === 0 || controller.signal.aborted) {
+        throw new BadRequestException('Upload cancelled during assembly');
+      }
 
       // Clean up chunk files
       for (const chunk of chunks) {
@@ -598,13 +665,64 @@ export class UploadService {
         where: { sessionId },
       });
 
+      assembled = true;
       this.logger.log(`File assembled successfully: ${finalFileName}`);
+      return finalFileName;
     } catch (error) {
       this.logger.error('Failed to assemble file', error);
       throw error;
+    } finally {
+      this.assemblies.delete(sessionId);
+      if (!assembled && finalPath) {
+        await fs.remove(finalPath).catch(() => undefined);
+      }
     }
   }
 
+  /**
+   * Creates the media record for an assembled chunked upload, linked to its
+   * session, and generates the responsive variants of images
+   */
+  private async registerAssembledFile(session: any, fileName: string) {
+    const fullPath = join(this.uploadDir, fileName);
+    // Media has no FILE type; the other accepted uploads, such as plain text, are documents
+    const detected = this.determineMediaType(session.mimeType);
+    const mediaType = detected === 'FILE' ? 'DOCUMENT' : detected;
+
+    const createMediaDto: CreateMediaDto = {
+      filename: fileName,
+      originalName: session.fileName,
+      mimeType: session.mimeType,
+      size: session.totalFileSize,
+      path: fileName,
+      url: `/uploads/${fileName}`,
+      type: mediaType,
+      userId: session.userId,
+    };
+
+    if (mediaType === 'IMAGE') {
+      try {
+        const dimensions = await this.imageProcessingService.getImageDimensions(fullPath);
+        createMediaDto.width = dimensions.width;
+        createMediaDto.height = dimensions.height;
+      } catch (error) {
+        this.logger.warn(`Could not read dimensions of ${fileName}: ${error.message}`);
+      }
+    }
+
+    const media = await this.mediaService.create(createMediaDto, session.userId);
+    await this.prisma.media.update({
+      where: { id: media.id },
+      data: { uploadSessionId: session.id },
+    });
+    await this.scheduleAnalysis(media.id, session.mimeType);
+
+    const { variants, srcset } = mediaType === 'IMAGE'
+      ? await this.imageVariantService.generateVariants(media.id, fullPath, fileName)
+      : { variants: [], srcset: {} };
+    return { media, variants, srcset };
+  }
+
   /**
    * Get upload status
    */
@@ -673,6 +791,9 @@ export class UploadService {
         throw new NotFoundException('Upload session not found or cannot be cancelled');
       }
 
+      // Stop an in-progress assembly; it removes its partial output itself
+      this.assemblies.get(session.id)?.abort();
+
       // Clean up chunk files
       for (const chunk of session.chunks) {
         try {
@@ -773,6 +894,7 @@ export class UploadService {
             path: filePath,
             url: `/uploads/${filePath}`,
           });
+          await this.scheduleAnalysis(media.id, file.mimetype);
 
           // Process image if it's an image
           if (file.mimetype.startsWith('image/')) {
@@ -796,10 +918,16 @@ export class UploadService {
             }
           }
 
+          const { variants, srcset } = file.mimetype.startsWith('image/')
+            ? await this.imageVariantService.generateVariants(media.id, file.buffer, filePath)
+            : { variants: [], srcset: {} };
+
           results.push({
             mediaId: media.id,
             fileName: uniqueFilename,
             publicUrl: `/uploads/${filePath}`,
+            variants,
+            srcset,
             status: 'success',
           });
 
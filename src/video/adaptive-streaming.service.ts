@@ -0,0 +1,210 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as fs from 'fs-extra';
+import { extname, join } from 'path';
+import { PrismaService } from '../prisma/prisma.service';
+import { StorageFactoryService } from '../storage/storage-factory.service';
+import { STREAMING_MIME_TYPES } from '../common/constants/streaming-mime-types';
+import { HlsPackage } from './video.service';
+
+export interface PublishedStreamingPackage {
+  packageId: string;
+  masterKey: string;
+  masterUrl: string;
+  dash?: {
+    variantId: string;
+    manifestKey: string;
+    manifestUrl: string;
+  };
+  variants: Array<{
+    id: string;
+    label: string;
+    width: number;
+    height: number;
+    bandwidth: number;
+    playlistUrl: string;
+  }>;
+}
+
+@Injectable()
+export class AdaptiveStreamingService {
+  private readonly logger = new Logger(AdaptiveStreamingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly storageFactory: StorageFactoryService,
+  ) {}
+
+  /**
+   * Uploads a packaged HLS ladder to the configured storage provider, keeping
+   * its relative layout so playlists resolve, and records each rendition as a
+   * MediaVariant. When the package has a DASH manifest it is uploaded and
+   * recorded too; it shares the rendition segments. Manifest locations are
+   * stored in the media metadata.
+   * @param mediaId Source media ID
+   * @param hlsPackage Local package produced by VideoService.generateHlsLadder
+   * @param packageId Unique folder name for this package
+   * @param signal Aborts the upload; already uploaded files are removed
+   */
+  async publishStreamingPackage(
+    mediaId: string,
+    hlsPackage: HlsPackage,
+    packageId: string,
+    signal?: AbortSignal,
+  ): Promise<PublishedStreamingPackage> {
+    const storage = this.storageFactory.getStorageProvider();
+    const prefix = `videos/streaming/${mediaId}/${packageId}`;
+    const uploadedKeys: string[] = [];
+
+    const upload = async (relativePath: string) => {
+      if (signal?.aborted) {
+        throw new Error('Streaming package upload cancelled');
+      }
+      const buffer = await fs.readFile(join(hlsPackage.outputDir, relativePath));
+      const key = `${prefix}/${relativePath}`;
+      await storage.uploadFile(
+        {
+          buffer,
+          originalname: relativePath.split('/').pop(),
+          mimetype: STREAMING_MIME_TYPES[extname(relativePath)] || 'application/octet-stream',
+          size: buffer.length,
+        } as Express.Multer.File,
+        key,
+        { mediaId, packageId },
+      );
+      uploadedKeys.push(key);
+      return { key, size: buffer.length };
+    };
+
+    const renditionSizes: number[] = [];
+    let audioSize = 0;
+    let masterKey: string;
+    let manifestKey: string | undefined;
+
+    try {
+      for (const rendition of hlsPackage.renditions) {
+        let size = 0;
+        for (const file of rendition.files) {
+          size += (await upload(`${rendition.directory}/${file}`)).size;
+        }
+        renditionSizes.push(size);
+      }
+      // The audio rendition is referenced from the manifests only, not recorded as a variant
+      for (const file of hlsPackage.audio?.files ?? []) {
+        audioSize += (await upload(`${hlsPackage.audio.directory}/${file}`)).size;
+      }
+      masterKey = (await upload(hlsPackage.masterPlaylist)).key;
+      if (hlsPackage.dashManifest) {
+        manifestKey = (await upload(hlsPackage.dashManifest)).key;
+      }
+    } catch (error) {
+      await this.removeKeys(uploadedKeys);
+      throw error;
+    }
+
+    const variants = await this.prisma.$transaction(
+      hlsPackage.renditions.map((rendition, index) => {
+        const playlistKey = `${prefix}/${rendition.playlist}`;
+        return this.prisma.mediaVariant.create({
+          data: {
+            mediaId,
+            variantType: 'HLS_RENDITION',
+            width: rendition.width,
+            height: rendition.height,
+            filePath: playlistKey,
+            publicUrl: storage.generatePublicUrl(playlistKey),
+            fileSize: renditionSizes[index],
+            quality: rendition.height,
+            format: hlsPackage.segmentFormat === 'fmp4' ? 'hls-fmp4' : 'hls-ts',
+          },
+        });
+      }),
+    );
+
+    const masterUrl = storage.generatePublicUrl(masterKey);
+    const totalSize = renditionSizes.reduce((total, size) => total + size, audioSize);
+    const topRendition = hlsPackage.renditions[hlsPackage.renditions.length - 1];
+
+    let dash: PublishedStreamingPackage['dash'];
+    if (manifestKey) {
+      const manifestVariant = await this.prisma.mediaVariant.create({
+        data: {
+          mediaId,
+          variantType: 'DASH_MANIFEST',
+          width: topRendition.width,
+          height: topRendition.height,
+          filePath: manifestKey,
+          publicUrl: storage.generatePublicUrl(manifestKey),
+          fileSize: totalSize,
+          quality: topRendition.height,
+          format: 'dash',
+        },
+      });
+      dash = {
+        variantId: manifestVariant.id,
+        manifestKey,
+        manifestUrl: manifestVariant.publicUrl,
+      };
+    }
+
+    const media = await this.prisma.media.findUnique({ where: { id: mediaId } });
+    const metadata = (media?.metadata as Record<string, any>) || {};
+    await this.prisma.media.update({
+      where: { id: mediaId },
+      data: {
+        metadata: {
+          ...metadata,
+          streaming: {
+            ...(metadata.streaming || {}),
+            hls: {
+              packageId,
+              masterKey,
+              masterUrl,
+              segmentFormat: hlsPackage.segmentFormat,
+              segmentDuration: hlsPackage.segmentDuration,
+              variantIds: variants.map((variant) => variant.id),
+            },
+            ...(dash && {
+              dash: {
+                packageId,
+                manifestKey: dash.manifestKey,
+                manifestUrl: dash.manifestUrl,
+                variantId: dash.variantId,
+              },
+            }),
+          },
+        },
+      },
+    });
+
+    this.logger.log(
+      `Published ${dash ? 'HLS/DASH' : 'HLS'} package ${packageId} for media ${mediaId} (${variants.length} renditions)`,
+    );
+
+    return {
+      packageId,
+      masterKey,
+      masterUrl,
+      dash,
+      variants: variants.map((variant, index) => ({
+        id: variant.id,
+        label: hlsPackage.renditions[index].label,
+        width: variant.width,
+        height: variant.height,
+        bandwidth: hlsPackage.renditions[index].bandwidth,
+        playlistUrl: variant.publicUrl,
+      })),
+    };
+  }
+
+  /**
+   * Best-effort removal of uploaded package files
+   */
+  private async removeKeys(keys: string[]) {
+    const storage = this.storageFactory.getStorageProvider();
+    for (const key of keys) {
+      await storage
+        .deleteFile(key)
+        .catch((error) => this.logger.warn(`Failed to remove ${key}: ${error.message}`));
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { buildDashManifest, parseMediaPlaylist, toIsoDuration } from './dash-manifest';
+
+const PLAYLIST = [
+  '#EXTM3U',
+  '#EXT-X-VERSION:7',
+  '#EXT-X-TARGETDURATION:6',
+  '#EXT-X-PLAYLIST-TYPE:VOD',
+  '#EXT-X-MAP:URI="init.mp4"',
+  '#EXTINF:6.000000,',
+  'segment_0000.m4s',
+  '#EXTINF:2.500000,',
+  'segment_0001.m4s',
+  '#EXT-X-ENDLIST',
+].join('\n');
+
+describe('dash-manifest', () => {
+  it('should parse an fMP4 media playlist', () => {
+    expect(parseMediaPlaylist(PLAYLIST)).toEqual({
+      initialization: 'init.mp4',
+      segments: [
+        { uri: 'segment_0000.m4s', duration: 6 },
+        { uri: 'segment_0001.m4s', duration: 2.5 },
+      ],
+    });
+  });
+
+  it('should format ISO 8601 durations', () => {
+    expect(toIsoDuration(8.5)).toBe('PT8.5S');
+    expect(toIsoDuration(63.2)).toBe('PT1M3.2S');
+  });
+
+  it('should reference the shared HLS segments from the MPD', () => {
+    const manifest = buildDashManifest(
+      [
+        {
+          id: '360p',
+          bandwidth: 856000,
+          width: 640,
+          height: 360,
+          codecs: 'avc1.4d401e',
+          directory: '360p',
+          playlist: parseMediaPlaylist(PLAYLIST),
+        },
+      ],
+      6,
+    );
+
+    expect(manifest).toContain('mediaPresentationDuration="PT8.5S"');
+    expect(manifest).toContain('<Initialization sourceURL="360p/init.mp4"/>');
+    expect(manifest).toContain('<S t="6000" d="2500"/>');
+    expect(manifest).toContain('<SegmentURL media="360p/segment_0001.m4s"/>');
+    expect(manifest).not.toContain('contentType="audio"');
+  });
+
+  it('should put audio in its own AdaptationSet', () => {
+    const manifest = buildDashManifest(
+      [
+        {
+          id: '360p',
+          bandwidth: 856000,
+          width: 640,
+          height: 360,
+          codecs: 'avc1.4d401e',
+          directory: '360p',
+          playlist: parseMediaPlaylist(PLAYLIST),
+        },
+      ],
+      6,
+      [
+        {
+          id: 'audio',
+          bandwidth: 128000,
+          codecs: 'mp4a.40.2',
+          samplingRate: 48000,
+          channels: 2,
+          directory: 'audio',
+          playlist: parseMediaPlaylist(PLAYLIST),
+        },
+      ],
+    );
+
+    const [video, audio] = manifest.split('</AdaptationSet>');
+    expect(video).toContain('<AdaptationSet id="0" contentType="video" mimeType="video/mp4"');
+    expect(video).toContain('codecs="avc1.4d401e"');
+    expect(video).not.toContain('mp4a');
+    expect(audio).toContain('<AdaptationSet id="1" contentType="audio" mimeType="audio/mp4"');
+    expect(audio).toContain('<Representation id="audio" bandwidth="128000" codecs="mp4a.40.2" audioSamplingRate="48000">');
+    expect(audio).toContain('value="2"/>');
+    expect(audio).toContain('<SegmentURL media="audio/segment_0001.m4s"/>');
+  });
+});
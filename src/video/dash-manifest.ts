@@ -0,0 +1,148 @@
+export interface MediaPlaylistSegment {
+  uri: string;
+  /** Segment length in seconds, from #EXTINF */
+  duration: number;
+}
+
+export interface MediaPlaylist {
+  /** fMP4 initialization segment, from #EXT-X-MAP */
+  initialization?: string;
+  segments: MediaPlaylistSegment[];
+}
+
+export interface DashRepresentation {
+  id: string;
+  bandwidth: number;
+  codecs: string;
+  /** Directory of the rendition relative to the manifest */
+  directory: string;
+  playlist: MediaPlaylist;
+}
+
+export interface DashVideoRepresentation extends DashRepresentation {
+  width: number;
+  height: number;
+}
+
+export interface DashAudioRepresentation extends DashRepresentation {
+  samplingRate: number;
+  channels: number;
+}
+
+/** Timeline values are written in milliseconds */
+const TIMESCALE = 1000;
+
+/**
+ * Parses the segment list of an HLS media playlist.
+ */
+export function parseMediaPlaylist(content: string): MediaPlaylist {
+  const playlist: MediaPlaylist = { segments: [] };
+  let pendingDuration: number | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#EXT-X-MAP:')) {
+      const uri = line.match(/URI="([^"]+)"/);
+      if (uri) playlist.initialization = uri[1];
+    } else if (line.startsWith('#EXTINF:')) {
+      pendingDuration = parseFloat(line.slice('#EXTINF:'.length));
+    } else if (!line.startsWith('#') && pendingDuration !== undefined) {
+      playlist.segments.push({ uri: line, duration: pendingDuration });
+      pendingDuration = undefined;
+    }
+  }
+
+  return playlist;
+}
+
+/**
+ * Formats seconds as an ISO 8601 duration, e.g. PT1M3.200S.
+ */
+export function toIsoDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = Math.round((seconds - minutes * 60) * 1000) / 1000;
+  return minutes > 0 ? `PT${minutes}M${rest}S` : `PT${rest}S`;
+}
+
+/**
+ * Builds a static MPD that points at the fMP4 segments of existing HLS
+ * renditions, so one encode serves both HLS and DASH clients. Video and audio
+ * go in separate AdaptationSets, as dash.js and ExoPlayer expect
+ * demuxed representations. Each representation uses an explicit SegmentList
+ * with a timeline taken from the HLS playlist, which keeps the last (shorter)
+ * segment accurate.
+ */
+export function buildDashManifest(
+  video: DashVideoRepresentation[],
+  segmentDuration: number,
+  audio: DashAudioRepresentation[] = [],
+): string {
+  const duration = video.length
+    ? video[0].playlist.segments.reduce((total, segment) => total + segment.duration, 0)
+    : 0;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<MPD xmlns="urn:mpeg:dash:schema:mpd:2011" profiles="urn:mpeg:dash:profile:isoff-main:2011" type="static" mediaPresentationDuration="${toIsoDuration(duration)}" minBufferTime="${toIsoDuration(segmentDuration)}">`,
+    '  <Period id="0" start="PT0S">',
+    '    <AdaptationSet id="0" contentType="video" mimeType="video/mp4" segmentAlignment="true" startWithSAP="1">',
+  ];
+
+  for (const representation of video) {
+    lines.push(
+      ...representationLines(
+        representation,
+        `width="${representation.width}" height="${representation.height}"`,
+      ),
+    );
+  }
+  lines.push('    </AdaptationSet>');
+
+  if (audio.length) {
+    lines.push('    <AdaptationSet id="1" contentType="audio" mimeType="audio/mp4" segmentAlignment="true" startWithSAP="1">');
+    for (const representation of audio) {
+      lines.push(
+        ...representationLines(
+          representation,
+          `audioSamplingRate="${representation.samplingRate}"`,
+          `        <AudioChannelConfiguration schemeIdUri="urn:mpeg:dash:23003:3:audio_channel_configuration:2011" value="${representation.channels}"/>`,
+        ),
+      );
+    }
+    lines.push('    </AdaptationSet>');
+  }
+
+  lines.push('  </Period>', '</MPD>', '');
+  return lines.join('\n');
+}
+
+function representationLines(representation: DashRepresentation, attributes: string, ...children: string[]): string[] {
+  const { playlist, directory } = representation;
+  if (!playlist.initialization) {
+    throw new Error(`Rendition ${representation.id} has no fMP4 initialization segment`);
+  }
+
+  const lines = [
+    `      <Representation id="${representation.id}" bandwidth="${representation.bandwidth}" codecs="${representation.codecs}" ${attributes}>`,
+    ...children,
+    `        <SegmentList timescale="${TIMESCALE}">`,
+    `          <Initialization sourceURL="${directory}/${playlist.initialization}"/>`,
+    '          <SegmentTimeline>',
+  ];
+
+  let start = 0;
+  for (const segment of playlist.segments) {
+    const length = Math.round(segment.duration * TIMESCALE);
+    lines.push(`            <S t="${start}" d="${length}"/>`);
+    start += length;
+  }
+
+  lines.push('          </SegmentTimeline>');
+  for (const segment of playlist.segments) {
+    lines.push(`          <SegmentURL media="${directory}/${segment.uri}"/>`);
+  }
+  lines.push('        </SegmentList>', '      </Representation>');
+  return lines;
+}
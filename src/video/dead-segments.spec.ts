@@ -0,0 +1,51 @@
+import {
+  computeTrimRange,
+  coverageRatio,
+  parseBlackdetect,
+  parseFreezedetect,
+  parseSilencedetect,
+} from './dead-segments';
+
+describe('dead-segments', () => {
+  it('should parse blackdetect reports', () => {
+    const stderr = '[blackdetect @ 0x1] black_start:0 black_end:2.48 black_duration:2.48\n';
+    expect(parseBlackdetect(stderr)).toEqual([{ start: 0, end: 2.48 }]);
+  });
+
+  it('should pair silence markers and close open silence at the end', () => {
+    const stderr = [
+      '[silencedetect @ 0x2] silence_start: -0.00133',
+      '[silencedetect @ 0x2] silence_end: 1.5 | silence_duration: 1.50133',
+      '[silencedetect @ 0x2] silence_start: 18.2',
+    ].join('\n');
+    expect(parseSilencedetect(stderr, 20)).toEqual([
+      { start: 0, end: 1.5 },
+      { start: 18.2, end: 20 },
+    ]);
+  });
+
+  it('should parse freezedetect metadata lines', () => {
+    const stderr = [
+      '[freezedetect @ 0x3] lavfi.freezedetect.freeze_start: 5.005',
+      '[freezedetect @ 0x3] lavfi.freezedetect.freeze_duration: 2.002',
+      '[freezedetect @ 0x3] lavfi.freezedetect.freeze_end: 7.007',
+    ].join('\n');
+    expect(parseFreezedetect(stderr)).toEqual([{ start: 5.005, end: 7.007 }]);
+  });
+
+  it('should trim merged leading and trailing dead time', () => {
+    const intervals = [
+      { start: 0, end: 2 },
+      { start: 1.5, end: 3 },
+      { start: 10, end: 11 },
+      { start: 28, end: 30 },
+    ];
+    expect(computeTrimRange(intervals, 30)).toEqual({ start: 3, end: 28, trimmed: true });
+    expect(computeTrimRange([{ start: 10, end: 11 }], 30)).toEqual({ start: 0, end: 30, trimmed: false });
+    expect(computeTrimRange([{ start: 0, end: 30 }], 30).trimmed).toBe(false);
+  });
+
+  it('should measure coverage without double counting overlaps', () => {
+    expect(coverageRatio([{ start: 0, end: 6 }, { start: 4, end: 8 }], 10)).toBe(0.8);
+  });
+});
@@ -0,0 +1,128 @@
+export type DeadSegmentKind = 'black' | 'silence' | 'freeze';
+
+export interface TimeInterval {
+  /** Seconds */
+  start: number;
+  /** Seconds */
+  end: number;
+}
+
+export interface TrimRange {
+  start: number;
+  end: number;
+  /** Whether anything was cut at either end */
+  trimmed: boolean;
+}
+
+/** Intervals this close to an edge still count as leading/trailing */
+const EDGE_TOLERANCE = 0.1;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Collects `black_start:1.2 black_end:3.4` reports from blackdetect.
+ */
+export function parseBlackdetect(stderr: string): TimeInterval[] {
+  const intervals: TimeInterval[] = [];
+  const pattern = /black_start:\s*([\d.]+)\s+black_end:\s*([\d.]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(stderr))) {
+    intervals.push({ start: parseFloat(match[1]), end: parseFloat(match[2]) });
+  }
+  return intervals;
+}
+
+/**
+ * Pairs `silence_start` / `silence_end` lines from silencedetect. Silence that
+ * runs to the end of the file has no end line and is closed at `duration`.
+ */
+export function parseSilencedetect(stderr: string, duration?: number): TimeInterval[] {
+  return pairMarkers(stderr, /silence_start:\s*(-?[\d.]+)/, /silence_end:\s*([\d.]+)/, duration);
+}
+
+/**
+ * Pairs `lavfi.freezedetect.freeze_start` / `freeze_end` lines from
+ * freezedetect; an open freeze is closed at `duration`.
+ */
+export function parseFreezedetect(stderr: string, duration?: number): TimeInterval[] {
+  return pairMarkers(stderr, /freeze_start:\s*([\d.]+)/, /freeze_end:\s*([\d.]+)/, duration);
+}
+
+function pairMarkers(stderr: string, startPattern: RegExp, endPattern: RegExp, duration?: number): TimeInterval[] {
+  const intervals: TimeInterval[] = [];
+  let open: number | undefined;
+
+  for (const line of stderr.split(/[\r\n]+/)) {
+    const start = line.match(startPattern);
+    if (start) {
+      open = Math.max(parseFloat(start[1]), 0);
+      continue;
+    }
+    const end = line.match(endPattern);
+    if (end && open !== undefined) {
+      intervals.push({ start: open, end: parseFloat(end[1]) });
+      open = undefined;
+    }
+  }
+
+  if (open !== undefined && duration !== undefined && duration > open) {
+    intervals.push({ start: open, end: duration });
+  }
+  return intervals;
+}
+
+/**
+ * Sorts and merges overlapping or touching intervals.
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start);
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end + EDGE_TOLERANCE) {
+      last.end = Math.max(last.end, interval.end);
+    } else {
+      merged.push({ ...interval });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Share of the duration covered by the intervals, from 0 to 1.
+ */
+export function coverageRatio(intervals: TimeInterval[], duration: number): number {
+  if (!duration) return 0;
+  const covered = mergeIntervals(intervals).reduce(
+    (total, interval) => total + Math.max(Math.min(interval.end, duration) - interval.start, 0),
+    0,
+  );
+  return round(Math.min(covered / duration, 1));
+}
+
+/**
+ * Range to keep after dropping dead time at the start and end. Intervals of
+ * all given kinds are merged, so two seconds of black followed by a second of
+ * silence is cut as one three-second lead-in.
+ */
+export function computeTrimRange(intervals: TimeInterval[], duration: number): TrimRange {
+  const merged = mergeIntervals(intervals);
+  let start = 0;
+  let end = duration;
+
+  const first = merged[0];
+  if (first && first.start <= EDGE_TOLERANCE) {
+    start = first.end;
+  }
+
+  const last = merged[merged.length - 1];
+  if (last && last.end >= duration - EDGE_TOLERANCE && last.start > start) {
+    end = last.start;
+  }
+
+  if (end <= start) {
+    return { start: 0, end: duration, trimmed: false };
+  }
+
+  return { start: round(start), end: round(end), trimmed: start > 0 || end < duration };
+}
@@ -0,0 +1,27 @@
+import { IsString, IsOptional, IsIn, IsNumber, IsArray, IsBoolean, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class HlsByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsIn(['fmp4', 'ts'])
+  segmentFormat?: 'fmp4' | 'ts' = 'fmp4';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(2)
+  @Max(10)
+  segmentDuration?: number = 6;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn(['360p', '480p', '720p', '1080p'], { each: true })
+  renditions?: string[]; // Defaults to the full ladder
+
+  @IsOptional()
+  @IsBoolean()
+  dash?: boolean = false; // Also write an MPD over the same fMP4 segments
+}
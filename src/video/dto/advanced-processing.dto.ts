@@ -88,5 +88,19 @@ export class ValidateVideoDto {
   @Type(() => Number)
   @IsNumber()
   maxDuration?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  maxBlackRatio?: number; // Reject when more of the video than this is black
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  maxSilenceRatio?: number; // Reject when more of the audio than this is silent
 }
 
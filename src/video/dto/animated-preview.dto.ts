@@ -0,0 +1,59 @@
+import { IsString, IsOptional, IsIn, IsNumber, IsInt, IsBoolean, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class AnimatedPreviewByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsIn(['gif', 'webp', 'apng'])
+  format?: 'gif' | 'webp' | 'apng' = 'gif';
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  startTime: number; // Seconds
+
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  endTime: number; // Seconds; at most 30s after startTime
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  fps?: number = 10;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(64)
+  @Max(1280)
+  width?: number = 480;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  loop?: number = 0; // Number of plays; 0 loops forever
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  quality?: number = 75; // WebP only
+
+  @IsOptional()
+  @IsBoolean()
+  permanent?: boolean = true; // Hover previews should not expire by default
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  expiryDays?: number; // Only used when permanent is false
+}
@@ -0,0 +1,150 @@
+import { IsString, IsOptional, IsNumber, IsBoolean, Min, Max } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+// Multipart bodies send booleans as strings
+const toBoolean = ({ value }) => (typeof value === 'string' ? value.toLowerCase() === 'true' : value);
+
+export class ReplaceAudioDto {
+  @IsString()
+  audioMediaId: string; // Library media providing the new audio
+}
+
+export class BackgroundMusicDto {
+  @IsString()
+  musicMediaId: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  musicVolume?: number = 0.3;
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  ducking?: boolean = true; // Lower the music while the original audio is loud
+
+  @IsOptional()
+  @Transform(toBoolean)
+  @IsBoolean()
+  loop?: boolean = true; // Repeat the music until the video ends
+}
+
+export class NormalizeAudioDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-70)
+  @Max(-5)
+  integratedLoudness?: number = -16; // LUFS
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-9)
+  @Max(0)
+  truePeak?: number = -1.5; // dBTP
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  loudnessRange?: number = 11; // LU
+}
+
+export class AudioFadeDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(60)
+  fadeIn?: number = 0; // Seconds
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(60)
+  fadeOut?: number = 0; // Seconds
+}
+
+export class VolumeDto {
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-30)
+  @Max(30)
+  gainDb: number;
+}
+
+export class AudioDelayDto {
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-10)
+  @Max(10)
+  offset: number; // Seconds; positive delays the audio
+}
+
+export class RemoveAudioByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
+
+export class ReplaceAudioByIdDto extends ReplaceAudioDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
+
+export class BackgroundMusicByIdDto extends BackgroundMusicDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
+
+export class NormalizeAudioByIdDto extends NormalizeAudioDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
+
+export class AudioFadeByIdDto extends AudioFadeDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
+
+export class VolumeByIdDto extends VolumeDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
+
+export class AudioDelayByIdDto extends AudioDelayDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
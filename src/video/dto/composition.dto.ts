@@ -0,0 +1,84 @@
+import {
+  IsString,
+  IsOptional,
+  IsIn,
+  IsNumber,
+  IsInt,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  Min,
+  Max,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class PictureInPictureDto {
+  @IsString()
+  mediaId: string; // Background video
+
+  @IsString()
+  overlayMediaId: string; // Inset video
+
+  @IsOptional()
+  @IsIn(['top-left', 'top-right', 'bottom-left', 'bottom-right'])
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' = 'bottom-right';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(0.5)
+  size?: number = 0.25; // Inset width relative to the background width
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(200)
+  margin?: number = 20; // Pixels from the corner
+
+  @IsOptional()
+  @IsIn(['main', 'overlay', 'none'])
+  audioFrom?: 'main' | 'overlay' | 'none' = 'main';
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
+
+export class VideoGridDto {
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(4)
+  @IsString({ each: true })
+  mediaIds: string[];
+
+  @IsOptional()
+  @IsIn(['horizontal', 'vertical', 'grid'])
+  layout?: 'horizontal' | 'vertical' | 'grid' = 'horizontal';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(160)
+  @Max(1920)
+  cellWidth?: number = 640;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(90)
+  @Max(1080)
+  cellHeight?: number = 360;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(-1)
+  @Max(3)
+  audioFrom?: number = 0; // Index into mediaIds; -1 drops audio
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
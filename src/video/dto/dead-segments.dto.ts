@@ -0,0 +1,72 @@
+import { IsString, IsOptional, IsIn, IsNumber, IsBoolean, IsArray, ArrayMinSize, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { DeadSegmentKind } from '../dead-segments';
+
+const DEAD_SEGMENT_KINDS = ['black', 'silence', 'freeze'];
+
+export class DeadSegmentsByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(DEAD_SEGMENT_KINDS, { each: true })
+  kinds?: DeadSegmentKind[] = ['black', 'silence', 'freeze']; // Detectors to run
+
+  @IsOptional()
+  @IsBoolean()
+  autoTrim?: boolean = false; // Cut leading/trailing dead time into a new Media entry
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(DEAD_SEGMENT_KINDS, { each: true })
+  trimOn?: DeadSegmentKind[] = ['black', 'silence']; // Kinds auto-trim may cut
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(60)
+  blackMinDuration?: number = 0.5; // Seconds
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  pixelThreshold?: number = 0.1; // Luminance below which a pixel is black
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(0)
+  silenceNoiseDb?: number = -50;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(60)
+  silenceMinDuration?: number = 0.5; // Seconds
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(0)
+  freezeNoiseDb?: number = -60;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(60)
+  freezeMinDuration?: number = 2; // Seconds
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
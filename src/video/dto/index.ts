@@ -8,3 +8,14 @@ export * from './multiple-thumbnails.dto';
 export * from './process-by-id.dto';
 export * from './advanced-processing.dto';
 
+export * from './adaptive-streaming.dto';
+export * from './sprite-sheet.dto';
+export * from './scene-detection.dto';
+export * from './subtitles.dto';
+export * from './audio-editing.dto';
+export * from './video-filters.dto';
+export * from './video-pipeline.dto';
+export * from './composition.dto';
+export * from './animated-preview.dto';
+export * from './media-probe.dto';
+export * from './dead-segments.dto';
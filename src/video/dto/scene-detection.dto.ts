@@ -0,0 +1,29 @@
+import { IsString, IsOptional, IsIn, IsNumber, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SceneDetectionByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsIn(['detect', 'split', 'chapters'])
+  mode?: 'detect' | 'split' | 'chapters' = 'detect';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.05)
+  @Max(1)
+  threshold?: number = 0.3; // Scene-change score needed for a cut
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(600)
+  minSceneLength?: number = 1; // Seconds
+
+  @IsOptional()
+  @IsString()
+  folderId?: string; // Folder for split clips
+}
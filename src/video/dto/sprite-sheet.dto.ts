@@ -0,0 +1,56 @@
+import { IsString, IsOptional, IsIn, IsNumber, IsBoolean, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SpriteSheetByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(60)
+  interval?: number = 5; // Seconds between frames
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(80)
+  @Max(480)
+  tileWidth?: number = 160;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  columns?: number = 10;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(20)
+  rows?: number = 10;
+
+  @IsOptional()
+  @IsIn(['jpeg', 'webp'])
+  format?: 'jpeg' | 'webp' = 'jpeg';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  quality?: number = 75;
+
+  @IsOptional()
+  @IsBoolean()
+  permanent?: boolean = true; // Player assets should not expire by default
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  expiryDays?: number; // Only used when permanent is false
+}
@@ -0,0 +1,68 @@
+import { IsString, IsOptional, IsIn, IsNumber, IsBoolean, Matches, Min, Max } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class SubtitlesByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsIn(['burn', 'embed'])
+  mode: 'burn' | 'embed';
+
+  // Burn-in styling
+  @IsOptional()
+  @Matches(/^[\w \-]+$/, { message: 'fontName may only contain letters, digits, spaces, hyphens and underscores' })
+  fontName?: string = 'Arial';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(8)
+  @Max(96)
+  fontSize?: number = 24;
+
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'fontColor must be a hex colour like #FFFFFF' })
+  fontColor?: string = '#FFFFFF';
+
+  @IsOptional()
+  @IsIn(['top-left', 'top-center', 'top-right', 'center', 'bottom-left', 'bottom-center', 'bottom-right'])
+  position?: 'top-left' | 'top-center' | 'top-right' | 'center' | 'bottom-left' | 'bottom-center' | 'bottom-right' = 'bottom-center';
+
+  // Soft-embed track options
+  @IsOptional()
+  @IsIn(['mp4', 'mkv'])
+  container?: 'mp4' | 'mkv' = 'mp4';
+
+  @IsOptional()
+  @Matches(/^[a-z]{3}$/, { message: 'language must be an ISO 639-2 code like eng' })
+  language?: string = 'eng';
+
+  @IsOptional()
+  @IsString()
+  title?: string;
+
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value === 'string') {
+      return value.toLowerCase() === 'true';
+    }
+    return value;
+  })
+  @IsBoolean()
+  isDefault?: boolean = false;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
+
+export class ExtractSubtitlesByIdDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  streamIndex?: number; // Subtitle stream index; all text streams when omitted
+}
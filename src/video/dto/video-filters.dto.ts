@@ -0,0 +1,136 @@
+import {
+  IsString,
+  IsOptional,
+  IsIn,
+  IsNumber,
+  IsInt,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Matches,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type, plainToInstance } from 'class-transformer';
+import { ColorPreset, VideoFilterType } from '../video-filters';
+
+export class VideoFilterStepDto {
+  @IsIn(['color', 'preset', 'blur', 'sharpen', 'crop', 'pad', 'fade', 'reverse', 'stabilize'])
+  type: VideoFilterType;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(-1)
+  @Max(1)
+  brightness?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(3)
+  contrast?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(3)
+  saturation?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(10)
+  gamma?: number;
+
+  @IsOptional()
+  @IsIn(['grayscale', 'sepia', 'vintage'])
+  preset?: ColorPreset;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.5)
+  @Max(50)
+  radius?: number; // Blur sigma in pixels
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(5)
+  amount?: number; // Sharpen strength
+
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(7680)
+  width?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(4320)
+  height?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  x?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  y?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(2)
+  @Max(500)
+  border?: number; // Uniform padding in pixels
+
+  @IsOptional()
+  @Matches(/^(#[0-9a-fA-F]{6}|[a-zA-Z]+)$/, { message: 'color must be a hex colour like #000000 or a color name' })
+  color?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(60)
+  fadeIn?: number; // Seconds
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(60)
+  fadeOut?: number; // Seconds
+}
+
+// Multipart bodies send the filter list as a JSON string
+const toFilterSteps = ({ value }) => {
+  let steps = value;
+  if (typeof value === 'string') {
+    try {
+      steps = JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return Array.isArray(steps) ? plainToInstance(VideoFilterStepDto, steps) : steps;
+};
+
+export class VideoFiltersDto {
+  @Transform(toFilterSteps)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  filters: VideoFilterStepDto[];
+}
+
+export class VideoFiltersByIdDto extends VideoFiltersDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
@@ -0,0 +1,130 @@
+import {
+  IsString,
+  IsOptional,
+  IsIn,
+  IsNumber,
+  IsInt,
+  IsArray,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested,
+  Matches,
+  MaxLength,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type, plainToInstance } from 'class-transformer';
+import { PipelineStepType, WatermarkPosition } from '../video-pipeline';
+import { VideoFilterStepDto } from './video-filters.dto';
+
+export class PipelineStepDto {
+  @IsIn(['trim', 'rotate', 'speed', 'filter', 'watermark', 'compress', 'thumbnails'])
+  type: PipelineStepType;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  startTime?: number; // Seconds
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  endTime?: number; // Seconds
+
+  @IsOptional()
+  @IsIn([90, 180, 270])
+  rotation?: 90 | 180 | 270;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.25)
+  @Max(4)
+  speed?: number;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => VideoFilterStepDto)
+  filter?: VideoFilterStepDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  text?: string;
+
+  @IsOptional()
+  @IsIn(['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'])
+  position?: WatermarkPosition;
+
+  @IsOptional()
+  @IsInt()
+  @Min(18)
+  @Max(51)
+  crf?: number;
+
+  @IsOptional()
+  @Matches(/^\d+k$/, { message: 'audioBitrate must look like 128k' })
+  audioBitrate?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  count?: number; // Thumbnails
+}
+
+const toPipelineSteps = ({ value }) =>
+  Array.isArray(value) ? plainToInstance(PipelineStepDto, value) : value;
+
+export class PipelineStepsDto {
+  @Transform(toPipelineSteps)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  steps: PipelineStepDto[];
+}
+
+export class PipelineByIdDto extends PipelineStepsDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
+
+export class CreateVideoRecipeDto extends PipelineStepsDto {
+  @Matches(/^[a-z0-9][a-z0-9-]{0,62}$/, {
+    message: 'name must be lowercase letters, digits and dashes, e.g. social-square-15s',
+  })
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
+
+export class UpdateVideoRecipeDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @IsOptional()
+  @Transform(toPipelineSteps)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(30)
+  @ValidateNested({ each: true })
+  steps?: PipelineStepDto[];
+}
+
+export class RunVideoRecipeDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
@@ -1,4 +1,5 @@
-import { IsString, IsOptional, IsIn } from 'class-validator';
+import { IsString, IsOptional, IsIn, IsNumber, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
 
 export class WatermarkDto {
   @IsString()
@@ -9,3 +10,47 @@ export class WatermarkDto {
   position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center' = 'bottom-right';
 }
 
+export class ImageWatermarkDto {
+  @IsOptional()
+  @IsString()
+  logoMediaId?: string; // Library image to use when no logo file is uploaded
+
+  @IsOptional()
+  @IsIn(['top-left', 'top-right', 'bottom-left', 'bottom-right', 'center'])
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center' = 'bottom-right';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(1)
+  opacity?: number = 0.7;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.01)
+  @Max(1)
+  scale?: number = 0.1; // Logo width relative to frame width
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  startTime?: number; // Seconds
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  endTime?: number; // Seconds
+}
+
+export class ImageWatermarkByIdDto extends ImageWatermarkDto {
+  @IsString()
+  mediaId: string;
+
+  @IsOptional()
+  @IsString()
+  folderId?: string;
+}
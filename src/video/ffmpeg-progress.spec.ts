@@ -0,0 +1,33 @@
+import { computeProgress, parseDurationLine, parseProgressLine, parseTimestamp } from './ffmpeg-progress';
+
+describe('ffmpeg-progress', () => {
+  it('should parse timestamps', () => {
+    expect(parseTimestamp('00:01:02.50')).toBe(62.5);
+    expect(parseTimestamp('15')).toBe(15);
+    expect(parseTimestamp(undefined)).toBeUndefined();
+  });
+
+  it('should parse the input duration banner', () => {
+    expect(parseDurationLine('  Duration: 00:00:20.00, start: 0.000000, bitrate: 1205 kb/s')).toBe(20);
+    expect(parseDurationLine('  Duration: N/A, start: 0.000000')).toBeUndefined();
+  });
+
+  it('should parse status lines', () => {
+    const stats = parseProgressLine(
+      'frame=  240 fps= 48 q=28.0 size=    1024kB time=00:00:10.00 bitrate= 838.9kbits/s speed=1.6x',
+    );
+    expect(stats).toEqual({ timeSeconds: 10, frame: 240, fps: 48, speed: 1.6 });
+    expect(parseProgressLine('Stream mapping:')).toBeUndefined();
+  });
+
+  it('should weight multi-pass progress and estimate remaining time', () => {
+    const progress = computeProgress(
+      { timeSeconds: 10, speed: 2 },
+      { label: 'pass-2', index: 1, count: 2 },
+      20,
+    );
+    expect(progress.percent).toBe(75);
+    expect(progress.etaSeconds).toBe(5);
+    expect(progress.stage).toBe('pass-2');
+  });
+});
@@ -0,0 +1,110 @@
+export interface FfmpegProgress {
+  /** Overall completion across all passes, 0-100 */
+  percent: number;
+  /** Estimated seconds remaining, when the duration is known */
+  etaSeconds?: number;
+  /** Encode speed relative to realtime, e.g. 1.5 for "1.5x" */
+  speed?: number;
+  fps?: number;
+  frame?: number;
+  /** Output timestamp reached in the current pass, in seconds */
+  timeSeconds: number;
+  /** Duration the current pass is measured against, in seconds */
+  durationSeconds?: number;
+  stage?: string;
+  stageIndex: number;
+  stageCount: number;
+}
+
+export interface FfmpegProgressStats {
+  timeSeconds: number;
+  fps?: number;
+  speed?: number;
+  frame?: number;
+}
+
+export interface FfmpegStage {
+  label?: string;
+  index: number;
+  count: number;
+  /** Expected output duration in seconds; falls back to the input's Duration line */
+  duration?: number;
+}
+
+/**
+ * Parses an FFmpeg timestamp (HH:MM:SS.xx or plain seconds) into seconds.
+ */
+export function parseTimestamp(value: string | number | undefined): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return value;
+
+  const parts = value.trim().split(':').map(Number);
+  if (parts.some((part) => isNaN(part))) return undefined;
+
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Extracts the input duration from an FFmpeg "Duration: 00:01:02.50" banner line.
+ */
+export function parseDurationLine(line: string): number | undefined {
+  const match = line.match(/Duration:\s*(\d+:\d{2}:\d{2}(?:\.\d+)?)/);
+  return match ? parseTimestamp(match[1]) : undefined;
+}
+
+/**
+ * Parses an FFmpeg status line such as
+ * "frame=  240 fps= 48 q=28.0 size=1024kB time=00:00:08.00 bitrate=1048.6kbits/s speed=1.6x".
+ * Returns undefined for lines that carry no `time=` value.
+ */
+export function parseProgressLine(line: string): FfmpegProgressStats | undefined {
+  const timeMatch = line.match(/time=\s*(-?\d+:\d{2}:\d{2}(?:\.\d+)?)/);
+  if (!timeMatch) return undefined;
+
+  const timeSeconds = Math.max(0, parseTimestamp(timeMatch[1].replace(/^-/, '')) ?? 0);
+  const frameMatch = line.match(/frame=\s*(\d+)/);
+  const fpsMatch = line.match(/fps=\s*(\d+(?:\.\d+)?)/);
+  const speedMatch = line.match(/speed=\s*(\d+(?:\.\d+)?)x/);
+
+  return {
+    timeSeconds,
+    frame: frameMatch ? parseInt(frameMatch[1]) : undefined,
+    fps: fpsMatch ? parseFloat(fpsMatch[1]) : undefined,
+    speed: speedMatch ? parseFloat(speedMatch[1]) : undefined,
+  };
+}
+
+/**
+ * Turns raw stats for one pass into overall progress. Multi-pass operations
+ * weight each pass equally and assume later passes run at the current speed.
+ */
+export function computeProgress(
+  stats: FfmpegProgressStats,
+  stage: FfmpegStage,
+  durationSeconds?: number,
+): FfmpegProgress {
+  const stagePercent = durationSeconds
+    ? Math.min(100, (stats.timeSeconds / durationSeconds) * 100)
+    : 0;
+  const percent = ((stage.index + stagePercent / 100) / stage.count) * 100;
+
+  let etaSeconds: number | undefined;
+  if (durationSeconds && stats.speed) {
+    const remainingInStage = Math.max(0, durationSeconds - stats.timeSeconds);
+    const remainingStages = stage.count - stage.index - 1;
+    etaSeconds = Math.round((remainingInStage + remainingStages * durationSeconds) / stats.speed);
+  }
+
+  return {
+    percent: Math.round(percent * 10) / 10,
+    etaSeconds,
+    speed: stats.speed,
+    fps: stats.fps,
+    frame: stats.frame,
+    timeSeconds: stats.timeSeconds,
+    durationSeconds,
+    stage: stage.label,
+    stageIndex: stage.index,
+    stageCount: stage.count,
+  };
+}
@@ -0,0 +1,35 @@
+import { buildMasterPlaylist } from './hls-playlist';
+
+const VARIANTS = [
+  { width: 640, height: 360, bandwidth: 856000, codecs: 'avc1.4d401e', playlist: '360p/index.m3u8' },
+  { width: 1280, height: 720, bandwidth: 2996000, codecs: 'avc1.4d401f', playlist: '720p/index.m3u8' },
+];
+
+describe('hls-playlist', () => {
+  it('should reference a separate audio rendition from every variant', () => {
+    const playlist = buildMasterPlaylist(
+      VARIANTS,
+      { bandwidth: 128000, codecs: 'mp4a.40.2', channels: 2, playlist: 'audio/index.m3u8' },
+      7,
+    );
+
+    expect(playlist.split('\n')).toEqual([
+      '#EXTM3U',
+      '#EXT-X-VERSION:7',
+      '#EXT-X-INDEPENDENT-SEGMENTS',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="Default",DEFAULT=YES,AUTOSELECT=YES,CHANNELS="2",URI="audio/index.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=984000,RESOLUTION=640x360,CODECS="avc1.4d401e,mp4a.40.2",AUDIO="audio"',
+      '360p/index.m3u8',
+      '#EXT-X-STREAM-INF:BANDWIDTH=3124000,RESOLUTION=1280x720,CODECS="avc1.4d401f,mp4a.40.2",AUDIO="audio"',
+      '720p/index.m3u8',
+      '',
+    ]);
+  });
+
+  it('should list video-only variants when the source has no audio', () => {
+    const playlist = buildMasterPlaylist(VARIANTS.slice(0, 1), undefined, 3);
+
+    expect(playlist).not.toContain('EXT-X-MEDIA');
+    expect(playlist).toContain('#EXT-X-STREAM-INF:BANDWIDTH=856000,RESOLUTION=640x360,CODECS="avc1.4d401e"\n');
+  });
+});
@@ -0,0 +1,52 @@
+export interface MasterPlaylistVariant {
+  width: number;
+  height: number;
+  /** Peak video bandwidth in bits per second */
+  bandwidth: number;
+  codecs: string;
+  /** Media playlist path relative to the master playlist */
+  playlist: string;
+}
+
+export interface MasterPlaylistAudio {
+  /** Peak audio bandwidth in bits per second */
+  bandwidth: number;
+  codecs: string;
+  channels: number;
+  playlist: string;
+}
+
+/** Group ID linking variant streams to the audio rendition */
+const AUDIO_GROUP = 'audio';
+
+/**
+ * Builds an HLS master playlist. Video renditions carry no audio; the shared
+ * audio rendition is declared once with EXT-X-MEDIA, and every variant adds
+ * its bandwidth and codec so players pick streams on the combined figures.
+ */
+export function buildMasterPlaylist(
+  variants: MasterPlaylistVariant[],
+  audio: MasterPlaylistAudio | undefined,
+  version: number,
+): string {
+  const lines = ['#EXTM3U', `#EXT-X-VERSION:${version}`, '#EXT-X-INDEPENDENT-SEGMENTS'];
+
+  if (audio) {
+    lines.push(
+      `#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="${AUDIO_GROUP}",NAME="Default",DEFAULT=YES,AUTOSELECT=YES,CHANNELS="${audio.channels}",URI="${audio.playlist}"`,
+    );
+  }
+
+  for (const variant of variants) {
+    const attributes = [
+      `BANDWIDTH=${variant.bandwidth + (audio?.bandwidth ?? 0)}`,
+      `RESOLUTION=${variant.width}x${variant.height}`,
+      `CODECS="${audio ? `${variant.codecs},${audio.codecs}` : variant.codecs}"`,
+      ...(audio ? [`AUDIO="${AUDIO_GROUP}"`] : []),
+    ];
+    lines.push(`#EXT-X-STREAM-INF:${attributes.join(',')}`, variant.playlist);
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
@@ -0,0 +1,99 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { spawn } from 'child_process';
+import { PrismaService } from '../prisma/prisma.service';
+import { UnifiedConfigService } from '../config/unified-config.service';
+import { VideoService } from './video.service';
+import { FfprobeOutput, MediaProbe, summarizeProbe } from './media-probe';
+
+@Injectable()
+export class MediaProbeService {
+  private readonly logger = new Logger(MediaProbeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: UnifiedConfigService,
+    private readonly videoService: VideoService,
+  ) {}
+
+  /**
+   * Runs ffprobe on a local file and normalizes its JSON report.
+   * @param filePath Path to the media file
+   * @param signal Kills ffprobe when aborted
+   */
+  async probeFile(filePath: string, signal?: AbortSignal): Promise<MediaProbe> {
+    const { ffprobePath } = this.configService.getMediaProcessingConfig();
+    const args = [
+      '-v',
+      'error',
+      '-print_format',
+      'json',
+      '-show_format',
+      '-show_streams',
+      '-show_chapters',
+      filePath,
+    ];
+
+    const output = await new Promise<string>((resolve, reject) => {
+      const ffprobeProcess = spawn(ffprobePath, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      const onAbort = () => ffprobeProcess.kill('SIGKILL');
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      let stdout = '';
+      let stderr = '';
+      ffprobeProcess.stdout.on('data', (data) => (stdout += data.toString()));
+      ffprobeProcess.stderr.on('data', (data) => (stderr += data.toString()));
+
+      ffprobeProcess.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
+        if (signal?.aborted) {
+          reject(new Error('ffprobe cancelled'));
+        } else if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`ffprobe failed: ${stderr.trim()}`));
+        }
+      });
+
+      ffprobeProcess.on('error', (err) => {
+        reject(new Error(`Failed to start ffprobe (${ffprobePath}): ${err.message}`));
+      });
+    });
+
+    return summarizeProbe(JSON.parse(output) as FfprobeOutput, filePath.split('/').pop());
+  }
+
+  /**
+   * Probes a library item and stores the result: display width/height,
+   * duration (whole seconds) and container format on the Media row, and the
+   * full report under `metadata.probe`. Other metadata keys are preserved.
+   * @param mediaId Media ID
+   * @param signal Kills ffprobe when aborted
+   */
+  async probeMedia(mediaId: string, signal?: AbortSignal) {
+    const filePath = await this.videoService.getLocalFilePath(mediaId);
+    const probe = await this.probeFile(filePath, signal);
+
+    const media = await this.prisma.media.findUnique({ where: { id: mediaId } });
+    const metadata = (media?.metadata as Record<string, any>) || {};
+    const primaryVideo = probe.video[0];
+
+    const updated = await this.prisma.media.update({
+      where: { id: mediaId },
+      data: {
+        width: primaryVideo?.displayWidth ?? media?.width,
+        height: primaryVideo?.displayHeight ?? media?.height,
+        duration: probe.container.duration !== undefined ? Math.round(probe.container.duration) : media?.duration,
+        format: probe.container.format,
+        metadata: {
+          ...metadata,
+          probe: { ...probe, probedAt: new Date().toISOString() },
+        },
+      },
+    });
+
+    this.logger.log(
+      `Probed media ${mediaId}: ${probe.container.format}, ${probe.video.length} video / ${probe.audio.length} audio stream(s)`,
+    );
+    return updated;
+  }
+}
@@ -0,0 +1,58 @@
+import { parseFrameRate, pickContainerFormat, readRotation, summarizeProbe } from './media-probe';
+
+describe('media-probe', () => {
+  it('should parse rational frame rates', () => {
+    expect(parseFrameRate('30000/1001')).toBe(29.97);
+    expect(parseFrameRate('25/1')).toBe(25);
+    expect(parseFrameRate('0/0')).toBeUndefined();
+  });
+
+  it('should read rotation from side data or the rotate tag', () => {
+    expect(readRotation({ side_data_list: [{ side_data_type: 'Display Matrix', rotation: -90 }] })).toBe(90);
+    expect(readRotation({ tags: { rotate: '270' } })).toBe(270);
+    expect(readRotation({})).toBe(0);
+  });
+
+  it('should pick the container matching the file extension', () => {
+    expect(pickContainerFormat('mov,mp4,m4a,3gp,3g2,mj2', 'clip.MP4')).toBe('mp4');
+    expect(pickContainerFormat('matroska,webm', 'clip.bin')).toBe('matroska');
+  });
+
+  it('should summarize streams, HDR flags and chapters', () => {
+    const probe = summarizeProbe(
+      {
+        format: { format_name: 'mov,mp4,m4a,3gp,3g2,mj2', duration: '12.500000', bit_rate: '8000000' },
+        streams: [
+          {
+            index: 0,
+            codec_type: 'video',
+            codec_name: 'hevc',
+            profile: 'Main 10',
+            width: 3840,
+            height: 2160,
+            avg_frame_rate: '60/1',
+            color_transfer: 'smpte2084',
+            side_data_list: [{ rotation: 90 }],
+          },
+          { index: 1, codec_type: 'audio', codec_name: 'aac', channels: 2, sample_rate: '48000', tags: { language: 'eng' } },
+          { index: 2, codec_type: 'video', codec_name: 'mjpeg', disposition: { attached_pic: 1 } },
+        ],
+        chapters: [{ start_time: '0.000000', end_time: '6.000000', tags: { title: 'Intro' } }],
+      },
+      'clip.mp4',
+    );
+
+    expect(probe.container).toMatchObject({ format: 'mp4', duration: 12.5, bitrate: 8000000 });
+    expect(probe.video).toHaveLength(1);
+    expect(probe.video[0]).toMatchObject({
+      hdr: true,
+      hdrFormat: 'HDR10',
+      rotation: 270,
+      displayWidth: 2160,
+      displayHeight: 3840,
+      frameRate: 60,
+    });
+    expect(probe.audio[0]).toMatchObject({ codec: 'aac', channels: 2, sampleRate: 48000, language: 'eng' });
+    expect(probe.chapters).toEqual([{ start: 0, end: 6, title: 'Intro' }]);
+  });
+});
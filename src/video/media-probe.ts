@@ -0,0 +1,197 @@
+/** Subset of `ffprobe -print_format json -show_format -show_streams -show_chapters` */
+export interface FfprobeOutput {
+  format?: Record<string, any>;
+  streams?: Array<Record<string, any>>;
+  chapters?: Array<Record<string, any>>;
+}
+
+export type HdrFormat = 'HDR10' | 'HLG' | 'Dolby Vision';
+
+export interface ProbedVideoStream {
+  index: number;
+  codec: string;
+  profile?: string;
+  level?: number;
+  width: number;
+  height: number;
+  /** Size after applying the rotation, as players show it */
+  displayWidth: number;
+  displayHeight: number;
+  bitrate?: number;
+  frameRate?: number;
+  pixelFormat?: string;
+  bitDepth?: number;
+  colorSpace?: string;
+  colorTransfer?: string;
+  colorPrimaries?: string;
+  colorRange?: string;
+  hdr: boolean;
+  hdrFormat?: HdrFormat;
+  /** Clockwise rotation in degrees from the display matrix or rotate tag */
+  rotation: number;
+  language?: string;
+}
+
+export interface ProbedAudioStream {
+  index: number;
+  codec: string;
+  profile?: string;
+  channels?: number;
+  channelLayout?: string;
+  sampleRate?: number;
+  bitrate?: number;
+  language?: string;
+  /** Ogg and Opus files keep their Vorbis comments here rather than on the container */
+  tags?: Record<string, string>;
+}
+
+export interface ProbedSubtitleStream {
+  index: number;
+  codec: string;
+  language?: string;
+}
+
+export interface ProbedChapter {
+  start: number;
+  end: number;
+  title?: string;
+}
+
+export interface MediaProbe {
+  container: {
+    format: string;
+    formatLongName?: string;
+    duration?: number;
+    bitrate?: number;
+    size?: number;
+    tags?: Record<string, string>;
+  };
+  video: ProbedVideoStream[];
+  audio: ProbedAudioStream[];
+  subtitles: ProbedSubtitleStream[];
+  chapters: ProbedChapter[];
+}
+
+const toNumber = (value: any): number | undefined => {
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * Parses an FFmpeg rational such as "30000/1001" into a number.
+ */
+export function parseFrameRate(value?: string): number | undefined {
+  if (!value) return undefined;
+  const [numerator, denominator] = value.split('/').map(Number);
+  if (!denominator) return toNumber(numerator) || undefined;
+  return numerator ? Math.round((numerator / denominator) * 1000) / 1000 : undefined;
+}
+
+/**
+ * Reads the clockwise rotation of a video stream. Newer FFmpeg reports it in
+ * the display matrix side data (counter-clockwise), older builds as a tag.
+ */
+export function readRotation(stream: Record<string, any>): number {
+  const sideData = (stream.side_data_list || []).find((data) => data.rotation !== undefined);
+  const raw = sideData ? -toNumber(sideData.rotation) : toNumber(stream.tags?.rotate) || 0;
+  return ((Math.round(raw) % 360) + 360) % 360;
+}
+
+function detectHdr(stream: Record<string, any>): HdrFormat | undefined {
+  const sideData: any[] = stream.side_data_list || [];
+  if (sideData.some((data) => /DOVI/i.test(data.side_data_type || ''))) return 'Dolby Vision';
+  if (stream.color_transfer === 'smpte2084') return 'HDR10';
+  if (stream.color_transfer === 'arib-std-b67') return 'HLG';
+  return undefined;
+}
+
+/**
+ * Picks the container name that matches the file extension out of
+ * ffprobe's demuxer list (e.g. "mov,mp4,m4a,3gp,3g2,mj2" for an .mp4).
+ */
+export function pickContainerFormat(formatName: string, fileName?: string): string {
+  const names = formatName.split(',');
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  return names.find((name) => name === extension) || names[0];
+}
+
+/**
+ * Normalizes raw ffprobe JSON into the technical metadata stored on Media.
+ */
+export function summarizeProbe(output: FfprobeOutput, fileName?: string): MediaProbe {
+  const format = output.format || {};
+  const streams = output.streams || [];
+
+  const video = streams
+    .filter((stream) => stream.codec_type === 'video' && !stream.disposition?.attached_pic)
+    .map((stream): ProbedVideoStream => {
+      const rotation = readRotation(stream);
+      const sideways = rotation === 90 || rotation === 270;
+      const hdrFormat = detectHdr(stream);
+      return {
+        index: stream.index,
+        codec: stream.codec_name,
+        profile: stream.profile,
+        level: toNumber(stream.level),
+        width: stream.width,
+        height: stream.height,
+        displayWidth: sideways ? stream.height : stream.width,
+        displayHeight: sideways ? stream.width : stream.height,
+        bitrate: toNumber(stream.bit_rate),
+        frameRate: parseFrameRate(stream.avg_frame_rate) || parseFrameRate(stream.r_frame_rate),
+        pixelFormat: stream.pix_fmt,
+        bitDepth: toNumber(stream.bits_per_raw_sample),
+        colorSpace: stream.color_space,
+        colorTransfer: stream.color_transfer,
+        colorPrimaries: stream.color_primaries,
+        colorRange: stream.color_range,
+        hdr: !!hdrFormat,
+        hdrFormat,
+        rotation,
+        language: stream.tags?.language,
+      };
+    });
+
+  const audio = streams
+    .filter((stream) => stream.codec_type === 'audio')
+    .map((stream): ProbedAudioStream => ({
+      index: stream.index,
+      codec: stream.codec_name,
+      profile: stream.profile,
+      channels: stream.channels,
+      channelLayout: stream.channel_layout,
+      sampleRate: toNumber(stream.sample_rate),
+      bitrate: toNumber(stream.bit_rate),
+      language: stream.tags?.language,
+      tags: stream.tags,
+    }));
+
+  const subtitles = streams
+    .filter((stream) => stream.codec_type === 'subtitle')
+    .map((stream): ProbedSubtitleStream => ({
+      index: stream.index,
+      codec: stream.codec_name,
+      language: stream.tags?.language,
+    }));
+
+  const chapters = (output.chapters || []).map((chapter): ProbedChapter => ({
+    start: toNumber(chapter.start_time),
+    end: toNumber(chapter.end_time),
+    title: chapter.tags?.title,
+  }));
+
+  return {
+    container: {
+      format: pickContainerFormat(format.format_name || 'unknown', fileName),
+      formatLongName: format.format_long_name,
+      duration: toNumber(format.duration),
+      bitrate: toNumber(format.bit_rate),
+      size: toNumber(format.size),
+      tags: format.tags,
+    },
+    video,
+    audio,
+    subtitles,
+    chapters,
+  };
+}
@@ -0,0 +1,36 @@
+import { buildFfmetadataChapters, buildScenes, parseSceneCuts } from './scene-detection';
+
+const STDERR = [
+  '[Parsed_metadata_1 @ 0x55d] frame:0    pts:62500   pts_time:4.16667',
+  '[Parsed_metadata_1 @ 0x55d] lavfi.scene_score=0.412000',
+  '[Parsed_metadata_1 @ 0x55d] frame:1    pts:68000   pts_time:4.53333',
+  '[Parsed_metadata_1 @ 0x55d] lavfi.scene_score=0.350000',
+  '[Parsed_metadata_1 @ 0x55d] frame:2    pts:150000  pts_time:10',
+  '[Parsed_metadata_1 @ 0x55d] lavfi.scene_score=0.905000',
+  'frame=  300 fps=120 q=-0.0 Lsize=N/A time=00:00:12.00 bitrate=N/A speed=4.8x',
+].join('\n');
+
+describe('scene-detection', () => {
+  it('should parse scene cuts with their scores', () => {
+    expect(parseSceneCuts(STDERR)).toEqual([
+      { time: 4.16667, score: 0.412 },
+      { time: 4.53333, score: 0.35 },
+      { time: 10, score: 0.905 },
+    ]);
+  });
+
+  it('should build contiguous scenes and drop cuts closer than the minimum length', () => {
+    const scenes = buildScenes(parseSceneCuts(STDERR), 12, 1);
+
+    expect(scenes.map((scene) => [scene.start, scene.end, scene.confidence])).toEqual([
+      [0, 4.16667, null],
+      [4.16667, 10, 0.412],
+      [10, 12, 0.905],
+    ]);
+  });
+
+  it('should write FFmetadata chapters in milliseconds', () => {
+    const chapters = buildFfmetadataChapters(buildScenes([{ time: 5, score: 0.5 }], 8));
+    expect(chapters).toContain('START=5000\nEND=8000\ntitle=Scene 2');
+  });
+});
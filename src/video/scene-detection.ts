@@ -0,0 +1,99 @@
+import { buildWebVtt } from './webvtt';
+
+export interface SceneCut {
+  /** Cut position in seconds */
+  time: number;
+  /** FFmpeg scene-change score, 0-1 */
+  score: number;
+}
+
+export interface Scene {
+  index: number;
+  start: number;
+  end: number;
+  duration: number;
+  /** Score of the cut that starts this scene; the first scene has none */
+  confidence: number | null;
+}
+
+/**
+ * Extracts scene cuts from the stderr of an FFmpeg run with
+ * `select='gt(scene,x)',metadata=print`, which logs a pts_time line
+ * followed by a lavfi.scene_score line for every selected frame.
+ */
+export function parseSceneCuts(stderr: string): SceneCut[] {
+  const cuts: SceneCut[] = [];
+  let time: number | undefined;
+
+  for (const line of stderr.split(/[\r\n]+/)) {
+    const ptsMatch = line.match(/pts_time:\s*(-?[\d.]+)/);
+    if (ptsMatch) {
+      time = parseFloat(ptsMatch[1]);
+      continue;
+    }
+
+    const scoreMatch = line.match(/lavfi\.scene_score=([\d.]+)/);
+    if (scoreMatch && time !== undefined) {
+      cuts.push({ time, score: parseFloat(scoreMatch[1]) });
+      time = undefined;
+    }
+  }
+
+  return cuts;
+}
+
+/**
+ * Turns cuts into contiguous scenes covering the whole video. Cuts that would
+ * leave a scene shorter than `minSceneLength` are dropped.
+ */
+export function buildScenes(cuts: SceneCut[], duration: number, minSceneLength = 1): Scene[] {
+  const boundaries: SceneCut[] = [];
+  let lastStart = 0;
+
+  for (const cut of [...cuts].sort((a, b) => a.time - b.time)) {
+    if (cut.time - lastStart < minSceneLength || duration - cut.time < minSceneLength) {
+      continue;
+    }
+    boundaries.push(cut);
+    lastStart = cut.time;
+  }
+
+  const starts = [{ time: 0, score: null }, ...boundaries];
+  return starts.map((boundary, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1].time : duration;
+    return {
+      index: index + 1,
+      start: boundary.time,
+      end,
+      duration: Math.round((end - boundary.time) * 1000) / 1000,
+      confidence: boundary.score,
+    };
+  });
+}
+
+/**
+ * WebVTT chapters track (kind="chapters") with one cue per scene.
+ */
+export function buildChaptersVtt(scenes: Scene[]): string {
+  return buildWebVtt(
+    scenes.map((scene) => ({ start: scene.start, end: scene.end, text: `Scene ${scene.index}` })),
+  );
+}
+
+/**
+ * FFmetadata chapters, for muxing with `-i chapters.txt -map_metadata 1`.
+ */
+export function buildFfmetadataChapters(scenes: Scene[]): string {
+  const lines = [';FFMETADATA1'];
+  for (const scene of scenes) {
+    lines.push(
+      '',
+      '[CHAPTER]',
+      'TIMEBASE=1/1000',
+      `START=${Math.round(scene.start * 1000)}`,
+      `END=${Math.round(scene.end * 1000)}`,
+      `title=Scene ${scene.index}`,
+    );
+  }
+  return lines.join('\n') + '\n';
+}
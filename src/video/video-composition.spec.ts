@@ -0,0 +1,29 @@
+import { buildGridFilter, buildPipFilter, gridCells } from './video-composition';
+
+describe('video-composition', () => {
+  it('should size and place the picture-in-picture overlay', () => {
+    expect(buildPipFilter({ mainWidth: 1920, position: 'bottom-right', size: 0.25, margin: 20 })).toBe(
+      '[1:v]scale=480:-2,setsar=1[pip];[0:v][pip]overlay=x=W-w-20:y=H-h-20:eof_action=pass,format=yuv420p[v]',
+    );
+  });
+
+  it('should lay out cells for each layout', () => {
+    expect(gridCells(3, 'horizontal', 640, 360)).toEqual([
+      { x: 0, y: 0 },
+      { x: 640, y: 0 },
+      { x: 1280, y: 0 },
+    ]);
+    expect(gridCells(2, 'vertical', 640, 360)).toEqual([
+      { x: 0, y: 0 },
+      { x: 0, y: 360 },
+    ]);
+    expect(gridCells(4, 'grid', 640, 360)[3]).toEqual({ x: 640, y: 360 });
+  });
+
+  it('should stack letterboxed inputs with xstack', () => {
+    const filter = buildGridFilter(2, 'horizontal', 640, 360);
+    expect(filter).toContain('[1:v]scale=640:360:force_original_aspect_ratio=decrease');
+    expect(filter).toContain('[c0][c1]xstack=inputs=2:layout=0_0|640_0:fill=black:shortest=1');
+    expect(() => buildGridFilter(5, 'grid', 640, 360)).toThrow('Between 2 and 4');
+  });
+});
@@ -0,0 +1,81 @@
+export type PipPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type GridLayout = 'horizontal' | 'vertical' | 'grid';
+
+export interface PipLayout {
+  /** Width of the main video in pixels */
+  mainWidth: number;
+  position: PipPosition;
+  /** Overlay width relative to the main video width */
+  size: number;
+  /** Distance from the chosen corner in pixels */
+  margin: number;
+}
+
+export interface GridCell {
+  x: number;
+  y: number;
+}
+
+const PIP_POSITIONS: Record<PipPosition, (margin: number) => string> = {
+  'top-left': (margin) => `x=${margin}:y=${margin}`,
+  'top-right': (margin) => `x=W-w-${margin}:y=${margin}`,
+  'bottom-left': (margin) => `x=${margin}:y=H-h-${margin}`,
+  'bottom-right': (margin) => `x=W-w-${margin}:y=H-h-${margin}`,
+};
+
+/** H.264 with yuv420p needs even frame dimensions */
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+/**
+ * Builds the filter graph that scales input 1 and overlays it on input 0.
+ * The main video sets the output length; the overlay disappears once it ends.
+ * Produces a `[v]` output pad.
+ */
+export function buildPipFilter(layout: PipLayout): string {
+  const overlayWidth = even(layout.mainWidth * layout.size);
+  return [
+    `[1:v]scale=${overlayWidth}:-2,setsar=1[pip]`,
+    `[0:v][pip]overlay=${PIP_POSITIONS[layout.position](layout.margin)}:eof_action=pass,format=yuv420p[v]`,
+  ].join(';');
+}
+
+/**
+ * Cell positions for 2-4 inputs. `grid` uses two columns, so three inputs
+ * leave the bottom-right cell empty.
+ */
+export function gridCells(count: number, layout: GridLayout, cellWidth: number, cellHeight: number): GridCell[] {
+  const columns = layout === 'horizontal' ? count : layout === 'vertical' ? 1 : 2;
+  return Array.from({ length: count }, (_, index) => ({
+    x: (index % columns) * cellWidth,
+    y: Math.floor(index / columns) * cellHeight,
+  }));
+}
+
+/**
+ * Builds an xstack graph: every input is letterboxed into an equal cell so
+ * clips with different sizes or aspect ratios line up. Stops with the
+ * shortest input. Produces a `[v]` output pad.
+ */
+export function buildGridFilter(count: number, layout: GridLayout, cellWidth: number, cellHeight: number): string {
+  if (count < 2 || count > 4) {
+    throw new Error('Between 2 and 4 videos are required for a grid');
+  }
+
+  const width = even(cellWidth);
+  const height = even(cellHeight);
+  const cells = gridCells(count, layout, width, height);
+
+  const scaled = cells.map(
+    (_, index) =>
+      `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1[c${index}]`,
+  );
+  const inputs = cells.map((_, index) => `[c${index}]`).join('');
+  const positions = cells.map((cell) => `${cell.x}_${cell.y}`).join('|');
+
+  return [
+    ...scaled,
+    `${inputs}xstack=inputs=${count}:layout=${positions}:fill=black:shortest=1,format=yuv420p[v]`,
+  ].join(';');
+}
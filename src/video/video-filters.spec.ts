@@ -0,0 +1,34 @@
+import { buildVideoFilterGraph } from './video-filters';
+
+describe('video-filters', () => {
+  it('should chain steps into one filter graph in order', () => {
+    const graph = buildVideoFilterGraph([
+      { type: 'crop', width: 641, height: 360 },
+      { type: 'color', brightness: 0.1, saturation: 1.2 },
+      { type: 'preset', preset: 'grayscale' },
+      { type: 'sharpen', amount: 0.8 },
+    ]);
+
+    expect(graph).toEqual({
+      video: 'crop=640:360:(iw-ow)/2:(ih-oh)/2,eq=brightness=0.1:saturation=1.2,hue=s=0,unsharp=5:5:0.8:5:5:0,format=yuv420p',
+      audio: undefined,
+    });
+  });
+
+  it('should letterbox to a target size', () => {
+    const { video } = buildVideoFilterGraph([{ type: 'pad', width: 1280, height: 720 }]);
+    expect(video).toBe(
+      'scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2:color=black,format=yuv420p',
+    );
+  });
+
+  it('should reverse audio together with video', () => {
+    expect(buildVideoFilterGraph([{ type: 'reverse' }]).audio).toBe('areverse');
+  });
+
+  it('should place the fade out at the end of the clip', () => {
+    const { video } = buildVideoFilterGraph([{ type: 'fade', fadeIn: 1, fadeOut: 2 }], 10);
+    expect(video).toBe('fade=t=in:st=0:d=1,fade=t=out:st=8:d=2,format=yuv420p');
+    expect(() => buildVideoFilterGraph([{ type: 'fade', fadeOut: 2 }])).toThrow('duration');
+  });
+});
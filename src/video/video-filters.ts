@@ -0,0 +1,182 @@
+export type VideoFilterType =
+  | 'color'
+  | 'preset'
+  | 'blur'
+  | 'sharpen'
+  | 'crop'
+  | 'pad'
+  | 'fade'
+  | 'reverse'
+  | 'stabilize';
+
+export type ColorPreset = 'grayscale' | 'sepia' | 'vintage';
+
+export interface VideoFilterStep {
+  type: VideoFilterType;
+  /** color: -1 to 1, 0 leaves it unchanged */
+  brightness?: number;
+  /** color: 1 leaves it unchanged */
+  contrast?: number;
+  /** color: 0 is grayscale, 1 leaves it unchanged */
+  saturation?: number;
+  /** color: 1 leaves it unchanged */
+  gamma?: number;
+  preset?: ColorPreset;
+  /** blur: gaussian sigma in pixels */
+  radius?: number;
+  /** sharpen: unsharp mask strength */
+  amount?: number;
+  /** crop/pad: target size in pixels */
+  width?: number;
+  height?: number;
+  /** crop: top-left corner, centered when omitted */
+  x?: number;
+  y?: number;
+  /** pad: uniform border in pixels, used when no target size is given */
+  border?: number;
+  /** pad: FFmpeg color name or hex */
+  color?: string;
+  /** fade: seconds */
+  fadeIn?: number;
+  fadeOut?: number;
+}
+
+export interface VideoFilterGraph {
+  /** Value for -vf */
+  video: string;
+  /** Value for -af, when a step also affects the audio track */
+  audio?: string;
+}
+
+const PRESET_FILTERS: Record<ColorPreset, string> = {
+  grayscale: 'hue=s=0',
+  sepia: 'colorchannelmixer=.393:.769:.189:0:.349:.686:.168:0:.272:.534:.131',
+  vintage: 'curves=preset=vintage',
+};
+
+/** H.264 with yuv420p needs even frame dimensions */
+const even = (value: number) => Math.max(2, Math.floor(value / 2) * 2);
+
+/**
+ * Translates one filter step into FFmpeg video (and audio) filters.
+ * @param step Filter to translate
+ * @param duration Duration of the stream at this step in seconds, required for fade-out
+ */
+export function translateFilterStep(step: VideoFilterStep, duration?: number): { video: string[]; audio: string[] } {
+  const video: string[] = [];
+  const audio: string[] = [];
+
+  switch (step.type) {
+    case 'color': {
+      const params = ['brightness', 'contrast', 'saturation', 'gamma']
+        .filter((key) => step[key] !== undefined)
+        .map((key) => `${key}=${step[key]}`);
+      if (params.length === 0) {
+        throw new Error('color filter needs brightness, contrast, saturation or gamma');
+      }
+      video.push(`eq=${params.join(':')}`);
+      break;
+    }
+
+    case 'preset':
+      if (!PRESET_FILTERS[step.preset]) {
+        throw new Error(`Unknown color preset: ${step.preset}`);
+      }
+      video.push(PRESET_FILTERS[step.preset]);
+      break;
+
+    case 'blur':
+      video.push(`gblur=sigma=${step.radius ?? 5}`);
+      break;
+
+    case 'sharpen':
+      video.push(`unsharp=5:5:${step.amount ?? 1}:5:5:0`);
+      break;
+
+    case 'crop': {
+      if (!step.width || !step.height) {
+        throw new Error('crop filter needs width and height');
+      }
+      const x = step.x ?? '(iw-ow)/2';
+      const y = step.y ?? '(ih-oh)/2';
+      video.push(`crop=${even(step.width)}:${even(step.height)}:${x}:${y}`);
+      break;
+    }
+
+    case 'pad': {
+      const color = step.color ?? 'black';
+      if (step.width && step.height) {
+        // Letterbox: fit inside the target size, then center on the padding
+        const width = even(step.width);
+        const height = even(step.height);
+        video.push(
+          `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+          `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${color}`,
+        );
+      } else if (step.border) {
+        const border = even(step.border);
+        video.push(`pad=iw+${border * 2}:ih+${border * 2}:${border}:${border}:color=${color}`);
+      } else {
+        throw new Error('pad filter needs width and height, or border');
+      }
+      break;
+    }
+
+    case 'fade':
+      if (!step.fadeIn && !step.fadeOut) {
+        throw new Error('fade filter needs fadeIn or fadeOut');
+      }
+      if (step.fadeIn) {
+        video.push(`fade=t=in:st=0:d=${step.fadeIn}`);
+      }
+      if (step.fadeOut) {
+        if (!duration) {
+          throw new Error('Could not determine video duration for fade out');
+        }
+        video.push(`fade=t=out:st=${Math.max(duration - step.fadeOut, 0)}:d=${step.fadeOut}`);
+      }
+      break;
+
+    case 'reverse':
+      video.push('reverse');
+      audio.push('areverse');
+      break;
+
+    case 'stabilize':
+      video.push('deshake');
+      break;
+
+    default:
+      throw new Error(`Unknown filter type: ${step.type}`);
+  }
+
+  return { video, audio };
+}
+
+/**
+ * Translates an ordered list of filter steps into a single FFmpeg filter
+ * chain, so the whole list costs one re-encode. Steps run in the given order.
+ * @param steps Filters to apply
+ * @param duration Input duration in seconds, required for fade-out
+ */
+export function buildVideoFilterGraph(steps: VideoFilterStep[], duration?: number): VideoFilterGraph {
+  if (steps.length === 0) {
+    throw new Error('At least one filter is required');
+  }
+
+  const video: string[] = [];
+  const audio: string[] = [];
+
+  for (const step of steps) {
+    const translated = translateFilterStep(step, duration);
+    video.push(...translated.video);
+    audio.push(...translated.audio);
+  }
+
+  video.push('format=yuv420p');
+
+  return {
+    video: video.join(','),
+    audio: audio.length ? audio.join(',') : undefined,
+  };
+}
@@ -0,0 +1,707 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { existsSync } from 'fs';
+import { remove, stat } from 'fs-extra';
+import { VideoService, FfmpegRunOptions } from './video.service';
+import { AdaptiveStreamingService } from './adaptive-streaming.service';
+import { MediaProbeService } from './media-probe.service';
+import { ProcessedMediaService } from '../processed-media/processed-media.service';
+import { CreateProcessedMediaDto } from '../processed-media/dto/create-processed-media.dto';
+import { JobHandlerRegistry, JobHandlerResult, ProcessingJobRecord } from '../jobs/job-handler.registry';
+
+// path.join drops the leading ./ from './uploads/...'
+const toPublicPath = (path: string) => path.replace(/^(\.\/)?uploads\//, '/uploads/');
+
+export const VIDEO_QUALITY_PRESETS = [
+  { label: '360p', width: 640, bitrate: '800k' },
+  { label: '480p', width: 854, bitrate: '1400k' },
+  { label: '720p', width: 1280, bitrate: '2800k' },
+  { label: '1080p', width: 1920, bitrate: '5000k' },
+];
+
+/**
+ * Payload shared by all video jobs. Upload routes set `deleteInput` so the
+ * multer temp file is removed once the job settles; by-id routes set
+ * `mediaId` so outputs are registered as new Media entries.
+ */
+export interface VideoJobPayload {
+  inputPath?: string;
+  inputPaths?: string[];
+  outputPath?: string;
+  deleteInput?: boolean;
+  mediaId?: string;
+  folderId?: string;
+  /** User who queued the job and owns the records it creates */
+  userId?: string;
+  [key: string]: any;
+}
+
+@Injectable()
+export class VideoJobHandlers implements OnModuleInit {
+  constructor(
+    private readonly registry: JobHandlerRegistry,
+    private readonly videoService: VideoService,
+    private readonly adaptiveStreamingService: AdaptiveStreamingService,
+    private readonly processedMediaService: ProcessedMediaService,
+    private readonly mediaProbeService: MediaProbeService,
+  ) {}
+
+  onModuleInit() {
+    this.register('media.probe', async (p, runOptions) => {
+      const media = await this.mediaProbeService.probeMedia(p.mediaId, runOptions.signal);
+      return {
+        result: {
+          mediaId: media.id,
+          width: media.width,
+          height: media.height,
+          duration: media.duration,
+          format: media.format,
+        },
+      };
+    });
+
+    this.register('video.optimize', async (p, runOptions) => {
+      await this.videoService.compressVideo(p.inputPath, p.outputPath, p.crf, p.audioBitrate, runOptions);
+      await this.videoService.createThumbnail(p.outputPath, p.thumbnailPath, p.thumbnailTimestamp);
+      return this.singleOutput(p, 'optimized', {
+        originalFileName: p.originalFileName,
+        optimizedVideoPath: toPublicPath(p.outputPath),
+        thumbnailPath: toPublicPath(p.thumbnailPath),
+      });
+    });
+
+    this.register('video.convert-webm', async (p, runOptions) => {
+      await this.videoService.convertToWebm(p.inputPath, p.outputPath, runOptions);
+      return this.singleOutput(p, 'webm-converted', {
+        convertedVideoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.trim', async (p, runOptions) => {
+      await this.videoService.trimVideo(p.inputPath, p.outputPath, p.startTime, p.duration, runOptions);
+      return this.singleOutput(p, 'trimmed', {
+        trimmedVideoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.rotate', async (p, runOptions) => {
+      await this.videoService.rotateVideo(p.inputPath, p.outputPath, p.rotation, runOptions);
+      return this.singleOutput(p, `rotated-${p.rotation}`, {
+        rotatedVideoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.speed', async (p, runOptions) => {
+      await this.videoService.changeSpeed(p.inputPath, p.outputPath, p.speed, runOptions);
+      return this.singleOutput(p, `speed-${p.speed}x`, {
+        processedVideoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.extract-audio', async (p, runOptions) => {
+      await this.videoService.extractAudio(p.inputPath, p.outputPath, p.format, runOptions);
+      return {
+        result: {
+          audioPath: toPublicPath(p.outputPath),
+          format: p.format,
+        },
+      };
+    });
+
+    this.register('video.watermark', async (p, runOptions) => {
+      await this.videoService.addTextWatermark(p.inputPath, p.outputPath, p.text, p.position, runOptions);
+      return this.singleOutput(p, 'watermarked', {
+        watermarkedVideoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.watermark-image', async (p, runOptions) => {
+      await this.videoService.addImageWatermark(p.inputPath, p.logoPath, p.outputPath, p.options, runOptions);
+      if (p.deleteLogo) {
+        await this.videoService.deleteFile(p.logoPath);
+      }
+      return this.singleOutput(p, 'logo-watermarked', {
+        watermarkedVideoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.filters', async (p, runOptions) => {
+      await this.videoService.applyVideoFilters(p.inputPath, p.outputPath, p.filters, runOptions);
+      return this.singleOutput(p, 'filtered', {
+        filteredVideoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.pipeline', async (p, runOptions) => {
+      const pipeline = await this.videoService.runPipeline(
+        p.inputPath,
+        p.outputPath,
+        p.workDir,
+        p.outputDir,
+        p.steps,
+        runOptions,
+      );
+      return this.singleOutput(p, p.recipe, {
+        processedVideoPath: toPublicPath(p.outputPath),
+        recipe: p.recipe,
+        passes: pipeline.passes,
+        thumbnails: pipeline.thumbnails.map(toPublicPath),
+      });
+    });
+
+    this.register('video.multiple-thumbnails', async (p) => {
+      const thumbnailPaths = await this.videoService.createMultipleThumbnails(
+        p.inputPath,
+        './uploads/thumbnails',
+        p.timestamps,
+        p.baseFilename,
+      );
+      return {
+        result: {
+          count: thumbnailPaths.length,
+          thumbnails: thumbnailPaths.map(toPublicPath),
+        },
+      };
+    });
+
+    this.register('video.sprites', async (p, runOptions) => {
+      const sprites = await this.videoService.generateSpriteSheets(
+        p.inputPath,
+        p.outputDir,
+        p.baseFilename,
+        p.options,
+        runOptions,
+      );
+
+      const format = p.options.format || 'jpeg';
+      const retention = p.permanent === false
+        ? { expiryDays: p.expiryDays || 1 }
+        : { isPermanent: true };
+      const record = (
+        filePath: string,
+        fileSize: number,
+        extra: Pick<CreateProcessedMediaDto, 'mimeType' | 'format' | 'processType' | 'width' | 'height'>,
+      ) =>
+        this.processedMediaService.create({
+          originalName: filePath.split('/').pop(),
+          storedFileName: filePath.split('/').pop(),
+          fileSize,
+          filePath,
+          publicUrl: toPublicPath(filePath),
+          sourceMediaId: p.mediaId,
+          sourceType: 'MEDIA_LIBRARY',
+          processingOptions: { ...p.options, tileHeight: sprites.tileHeight },
+          ...retention,
+          ...extra,
+        }, p.userId);
+
+      const sheets = [];
+      for (const sheet of sprites.sheets) {
+        sheets.push(await record(sheet.path, (await stat(sheet.path)).size, {
+          mimeType: `image/${format}`,
+          format,
+          width: sheet.width,
+          height: sheet.height,
+          processType: 'SPRITE_SHEET',
+        }));
+      }
+      const track = await record(sprites.vttPath, (await stat(sprites.vttPath)).size, {
+        mimeType: 'text/vtt',
+        format: 'vtt',
+        processType: 'THUMBNAIL_TRACK',
+      });
+
+      return {
+        result: {
+          vttUrl: toPublicPath(sprites.vttPath),
+          trackId: track.id,
+          sheets: sprites.sheets.map((sheet, index) => ({
+            id: sheets[index].id,
+            url: toPublicPath(sheet.path),
+            width: sheet.width,
+            height: sheet.height,
+            frames: sheet.frames,
+          })),
+          tileWidth: sprites.tileWidth,
+          tileHeight: sprites.tileHeight,
+          interval: sprites.interval,
+          frames: sprites.frames,
+        },
+        processedMediaIds: [...sheets.map((sheet) => sheet.id), track.id],
+      };
+    });
+
+    this.register('video.animated-preview', async (p, runOptions) => {
+      const preview = await this.videoService.createAnimatedPreview(p.inputPath, p.outputPath, p.options, runOptions);
+      const format = p.options.format || 'gif';
+      const fileName = p.outputPath.split('/').pop();
+
+      const record = await this.processedMediaService.create({
+        originalName: fileName,
+        storedFileName: fileName,
+        mimeType: format === 'apng' ? 'image/apng' : `image/${format}`,
+        fileSize: (await stat(p.outputPath)).size,
+        filePath: p.outputPath,
+        publicUrl: toPublicPath(p.outputPath),
+        width: preview.width,
+        height: preview.height,
+        format,
+        processType: 'ANIMATED_PREVIEW',
+        sourceMediaId: p.mediaId,
+        sourceType: 'MEDIA_LIBRARY',
+        processingOptions: p.options,
+        ...(p.permanent === false ? { expiryDays: p.expiryDays || 1 } : { isPermanent: true }),
+      }, p.userId);
+
+      return {
+        result: {
+          processedMediaId: record.id,
+          url: toPublicPath(p.outputPath),
+          ...preview,
+        },
+        processedMediaIds: [record.id],
+      };
+    });
+
+    this.register('video.scenes', async (p, runOptions) => {
+      const { duration, scenes } = await this.videoService.detectScenes(
+        p.inputPath,
+        p.threshold,
+        p.minSceneLength,
+        runOptions,
+      );
+
+      if (p.mode === 'chapters') {
+        const chapters = await this.videoService.writeSceneChapters(p.outputDir, p.baseFilename, scenes);
+        return {
+          result: {
+            duration,
+            scenes,
+            chaptersVttPath: toPublicPath(chapters.vttPath),
+            ffmetadataPath: toPublicPath(chapters.ffmetadataPath),
+          },
+        };
+      }
+
+      if (p.mode === 'split') {
+        const clips = await this.videoService.splitScenes(
+          p.inputPath,
+          p.outputDir,
+          p.baseFilename,
+          scenes,
+          runOptions,
+        );
+        const mediaEntries = [];
+        for (const clip of clips) {
+          mediaEntries.push(
+            await this.videoService.createProcessedMediaEntry(
+              p.mediaId,
+              clip.path,
+              `scene-${clip.scene.index}`,
+              p.userId,
+              p.folderId,
+            ),
+          );
+        }
+        return {
+          result: {
+            duration,
+            scenes: clips.map((clip, index) => ({
+              ...clip.scene,
+              path: toPublicPath(clip.path),
+              mediaId: mediaEntries[index].id,
+            })),
+          },
+          mediaIds: mediaEntries.map((entry) => entry.id),
+        };
+      }
+
+      return { result: { duration, scenes } };
+    });
+
+    this.register('video.subtitles-burn', async (p, runOptions) => {
+      await this.videoService.burnSubtitles(p.inputPath, p.subtitlePath, p.outputPath, p.style, runOptions);
+      await this.videoService.deleteFile(p.subtitlePath);
+      return this.singleOutput(p, 'captioned', {
+        videoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.subtitles-embed', async (p, runOptions) => {
+      await this.videoService.embedSubtitles(p.inputPath, p.subtitlePath, p.outputPath, p.track, runOptions);
+      await this.videoService.deleteFile(p.subtitlePath);
+      return this.singleOutput(p, 'subtitled', {
+        videoPath: toPublicPath(p.outputPath),
+        language: p.track.language,
+      });
+    });
+
+    this.register('video.subtitles-extract', async (p, runOptions) => {
+      const subtitles = await this.videoService.extractSubtitles(
+        p.inputPath,
+        p.outputDir,
+        p.baseFilename,
+        p.streamIndex,
+        runOptions,
+      );
+
+      const records = [];
+      for (const subtitle of subtitles) {
+        const fileName = subtitle.path.split('/').pop();
+        records.push(
+          await this.processedMediaService.create({
+            originalName: fileName,
+            storedFileName: fileName,
+            mimeType: 'text/vtt',
+            fileSize: (await stat(subtitle.path)).size,
+            filePath: subtitle.path,
+            publicUrl: toPublicPath(subtitle.path),
+            format: 'vtt',
+            processType: 'SUBTITLE',
+            processingOptions: { streamIndex: subtitle.index, language: subtitle.language, codec: subtitle.codec },
+            sourceMediaId: p.mediaId,
+            sourceType: 'MEDIA_LIBRARY',
+            isPermanent: true,
+          }, p.userId),
+        );
+      }
+
+      return {
+        result: {
+          subtitles: subtitles.map((subtitle, index) => ({
+            id: records[index].id,
+            streamIndex: subtitle.index,
+            language: subtitle.language,
+            sourceCodec: subtitle.codec,
+            url: toPublicPath(subtitle.path),
+          })),
+        },
+        processedMediaIds: records.map((record) => record.id),
+      };
+    });
+
+    this.register('video.remove-audio', async (p, runOptions) => {
+      await this.videoService.removeAudio(p.inputPath, p.outputPath, runOptions);
+      return this.singleOutput(p, 'audio-removed', {
+        videoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.replace-audio', async (p, runOptions) => {
+      await this.videoService.replaceAudio(p.inputPath, p.audioPath, p.outputPath, runOptions);
+      return this.singleOutput(p, 'audio-replaced', {
+        videoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.background-music', async (p, runOptions) => {
+      await this.videoService.addBackgroundMusic(
+        p.inputPath,
+        p.musicPath,
+        p.outputPath,
+        { musicVolume: p.musicVolume, ducking: p.ducking, loop: p.loop },
+        runOptions,
+      );
+      return this.singleOutput(p, 'background-music', {
+        videoPath: toPublicPath(p.outputPath),
+        ducking: p.ducking,
+      });
+    });
+
+    this.register('video.normalize-audio', async (p, runOptions) => {
+      const { measured } = await this.videoService.normalizeLoudness(
+        p.inputPath,
+        p.outputPath,
+        {
+          integratedLoudness: p.integratedLoudness,
+          truePeak: p.truePeak,
+          loudnessRange: p.loudnessRange,
+        },
+        runOptions,
+      );
+      return this.singleOutput(p, 'loudness-normalized', {
+        videoPath: toPublicPath(p.outputPath),
+        measuredLoudness: parseFloat(measured.input_i),
+        measuredTruePeak: parseFloat(measured.input_tp),
+      });
+    });
+
+    this.register('video.audio-fade', async (p, runOptions) => {
+      await this.videoService.fadeAudio(p.inputPath, p.outputPath, p.fadeIn, p.fadeOut, runOptions);
+      return this.singleOutput(p, 'audio-faded', {
+        videoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.volume', async (p, runOptions) => {
+      await this.videoService.adjustVolume(p.inputPath, p.outputPath, p.gainDb, runOptions);
+      return this.singleOutput(p, `volume-${p.gainDb}db`, {
+        videoPath: toPublicPath(p.outputPath),
+        gainDb: p.gainDb,
+      });
+    });
+
+    this.register('video.audio-delay', async (p, runOptions) => {
+      await this.videoService.adjustAudioDelay(p.inputPath, p.outputPath, p.offset, runOptions);
+      return this.singleOutput(p, 'audio-synced', {
+        videoPath: toPublicPath(p.outputPath),
+        offset: p.offset,
+      });
+    });
+
+    this.register('video.multi-quality', async (p, runOptions) => {
+      const outputs = await this.videoService.generateMultipleQualities(
+        p.inputPath,
+        './uploads/videos',
+        p.baseFilename,
+        VIDEO_QUALITY_PRESETS,
+        runOptions,
+      );
+
+      const mediaEntries = p.mediaId
+        ? await Promise.all(
+            outputs.map((output) =>
+              this.videoService.createProcessedMediaEntry(
+                p.mediaId,
+                output.path,
+                `quality-${output.label}`,
+                p.userId,
+                p.folderId,
+              ),
+            ),
+          )
+        : [];
+
+      return {
+        result: {
+          videos: outputs.map((output, index) => ({
+            quality: output.label,
+            path: toPublicPath(output.path),
+            mediaId: mediaEntries[index]?.id,
+          })),
+        },
+        mediaIds: mediaEntries.map((entry) => entry.id),
+      };
+    });
+
+    this.register('video.concatenate', async (p, runOptions) => {
+      await this.videoService.concatenateVideos(p.inputPaths, p.outputPath, runOptions);
+      return this.singleOutput(p, 'concatenated', {
+        videoPath: toPublicPath(p.outputPath),
+        sourceCount: p.inputPaths.length,
+      });
+    });
+
+    this.register('video.pip', async (p, runOptions) => {
+      await this.videoService.composePictureInPicture(p.inputPath, p.overlayPath, p.outputPath, p.options, runOptions);
+      return this.singleOutput(p, 'picture-in-picture', {
+        videoPath: toPublicPath(p.outputPath),
+      });
+    });
+
+    this.register('video.grid', async (p, runOptions) => {
+      await this.videoService.composeGrid(p.inputPaths, p.outputPath, p.options, runOptions);
+      return this.singleOutput(p, `grid-${p.options.layout}`, {
+        videoPath: toPublicPath(p.outputPath),
+        sourceCount: p.inputPaths.length,
+      });
+    });
+
+    this.register('video.convert-format', async (p, runOptions) => {
+      await this.videoService.convertFormat(p.inputPath, p.outputPath, p.targetFormat, p.hwAccel, runOptions);
+      return this.singleOutput(p, `format-${p.targetFormat}`, {
+        videoPath: toPublicPath(p.outputPath),
+        format: p.targetFormat,
+        hwAccel: p.hwAccel || 'none',
+      });
+    });
+
+    this.register('video.compress-bitrate', async (p, runOptions) => {
+      await this.videoService.compressWithBitrateMode(
+        p.inputPath,
+        p.outputPath,
+        p.bitrateMode,
+        p.bitrate,
+        p.crf,
+        runOptions,
+      );
+      return this.singleOutput(p, `${p.bitrateMode}-compressed`, {
+        videoPath: toPublicPath(p.outputPath),
+        bitrateMode: p.bitrateMode,
+        bitrate: p.bitrate,
+      });
+    });
+
+    this.register('video.two-pass-encode', async (p, runOptions) => {
+      await this.videoService.twoPassEncode(p.inputPath, p.outputPath, p.bitrate, p.resolution, runOptions);
+      return this.singleOutput(p, 'two-pass-encoded', {
+        videoPath: toPublicPath(p.outputPath),
+        bitrate: p.bitrate,
+        resolution: p.resolution || 'original',
+      });
+    });
+
+    this.register('video.detect-resolution', async (p) => {
+      const metadata = await this.videoService.detectVideoResolution(p.inputPath);
+      return { result: { metadata } };
+    });
+
+    this.register('video.validate', async (p, runOptions) => {
+      const validation = await this.videoService.validateVideo(
+        p.inputPath,
+        p.minWidth,
+        p.minHeight,
+        p.maxDuration,
+        p.contentLimits,
+        runOptions,
+      );
+      return { result: validation };
+    });
+
+    this.register('video.dead-segments', async (p, runOptions) => {
+      const report = await this.videoService.detectDeadSegments(p.inputPath, p.options, runOptions);
+      return { result: report };
+    });
+
+    this.register('video.auto-trim', async (p, runOptions) => {
+      const { report, range } = await this.videoService.autoTrimDeadSegments(
+        p.inputPath,
+        p.outputPath,
+        p.trimOn,
+        p.options,
+        runOptions,
+      );
+      return this.singleOutput(p, 'auto-trimmed', {
+        trimmedVideoPath: toPublicPath(p.outputPath),
+        start: range.start,
+        end: range.end,
+        trimmed: range.trimmed,
+        report,
+      });
+    });
+
+    this.register('video.hls', async (p, runOptions) => {
+      const qualities = p.renditions?.length
+        ? VIDEO_QUALITY_PRESETS.filter((quality) => p.renditions.includes(quality.label))
+        : VIDEO_QUALITY_PRESETS;
+
+      try {
+        let hlsPackage = await this.videoService.generateHlsLadder(
+          p.inputPath,
+          p.workDir,
+          qualities,
+          p.segmentFormat,
+          p.segmentDuration,
+          runOptions,
+        );
+        if (p.dash) {
+          hlsPackage = await this.videoService.writeDashManifest(hlsPackage);
+        }
+        const published = await this.adaptiveStreamingService.publishStreamingPackage(
+          p.mediaId,
+          hlsPackage,
+          p.packageId,
+          runOptions.signal,
+        );
+        return {
+          result: {
+            ...published,
+            segmentFormat: hlsPackage.segmentFormat,
+            segmentDuration: hlsPackage.segmentDuration,
+          },
+        };
+      } finally {
+        await remove(p.workDir);
+      }
+    });
+  }
+
+  private register(
+    type: string,
+    handle: (payload: VideoJobPayload, runOptions: FfmpegRunOptions) => Promise<JobHandlerResult>,
+  ) {
+    this.registry.register(type, {
+      queue: 'video',
+      handle: async (job, context) => {
+        const outcome = await handle(job.payload, {
+          onProgress: (progress) => context.reportProgress(progress),
+          signal: context.signal,
+        });
+        if (job.payload.deleteInput) {
+          await this.videoService.deleteFile(job.payload.inputPath);
+        }
+        return outcome;
+      },
+      cleanup: (job) => this.cleanup(job),
+    });
+  }
+
+  /**
+   * Builds the result for single-output jobs, registering the output as a
+   * new Media entry of the requesting user when the job was started from the
+   * media library
+   */
+  private async singleOutput(
+    payload: VideoJobPayload,
+    processingType: string,
+    result: Record<string, any>,
+  ): Promise<JobHandlerResult> {
+    if (!payload.mediaId) {
+      return { result };
+    }
+
+    const newMedia = await this.videoService.createProcessedMediaEntry(
+      payload.mediaId,
+      payload.outputPath,
+      processingType,
+      payload.userId,
+      payload.folderId,
+    );
+
+    return {
+      result: { mediaId: newMedia.id, ...result },
+      mediaIds: [newMedia.id],
+    };
+  }
+
+  /**
+   * Removes the uploaded input and every output the job may have started
+   * writing; runs after a permanent failure or a cancellation
+   */
+  private async cleanup(job: ProcessingJobRecord) {
+    const payload: VideoJobPayload = job.payload;
+    const paths = [payload.outputPath, payload.thumbnailPath, payload.subtitlePath];
+
+    if (payload.deleteInput) {
+      paths.push(payload.inputPath);
+    }
+
+    if (payload.deleteLogo) {
+      paths.push(payload.logoPath);
+    }
+
+    if (job.type === 'video.multi-quality') {
+      for (const quality of VIDEO_QUALITY_PRESETS) {
+        paths.push(`./uploads/videos/${payload.baseFilename}-${quality.label}.mp4`);
+      }
+    }
+
+    if (job.type === 'video.multiple-thumbnails') {
+      payload.timestamps.forEach((_, index) => {
+        paths.push(`./uploads/thumbnails/${payload.baseFilename}-${index + 1}.png`);
+      });
+    }
+
+    for (const path of paths) {
+      if (path && existsSync(path)) {
+        await this.videoService.deleteFile(path);
+      }
+    }
+
+    // Packaging and sprite jobs write whole directories
+    for (const dir of [payload.workDir, payload.outputDir]) {
+      if (dir) {
+        await remove(dir);
+      }
+    }
+  }
+}
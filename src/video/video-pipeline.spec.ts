@@ -0,0 +1,63 @@
+import { atempoChain, escapeDrawtext, escapeFilterValue, planPipeline } from './video-pipeline';
+
+describe('video-pipeline', () => {
+  it('should merge consecutive transform steps into one encode pass', () => {
+    const passes = planPipeline(
+      [
+        { type: 'trim', startTime: 5, endTime: 20 },
+        { type: 'rotate', rotation: 90 },
+        { type: 'watermark', text: 'ACME', position: 'top-left' },
+        { type: 'compress', crf: 28, audioBitrate: '96k' },
+        { type: 'thumbnails', count: 3 },
+      ],
+      60,
+    );
+
+    expect(passes).toEqual([
+      {
+        kind: 'encode',
+        video: "trim=start=5:end=20,setpts=PTS-STARTPTS,transpose=1,drawtext=text='ACME':fontcolor=white:fontsize=24:x=10:y=10,format=yuv420p",
+        audio: 'atrim=start=5:end=20,asetpts=PTS-STARTPTS',
+        crf: 28,
+        audioBitrate: '96k',
+        duration: 15,
+      },
+      { kind: 'thumbnails', count: 3, duration: 15 },
+    ]);
+  });
+
+  it('should only split passes around a thumbnails step', () => {
+    const passes = planPipeline(
+      [
+        { type: 'speed', speed: 2 },
+        { type: 'thumbnails', count: 4 },
+        { type: 'filter', filter: { type: 'fade', fadeOut: 1 } },
+      ],
+      10,
+    );
+
+    expect(passes.map((pass) => pass.kind)).toEqual(['encode', 'thumbnails', 'encode']);
+    expect(passes[1].duration).toBe(5);
+    expect(passes[2]).toMatchObject({ video: 'fade=t=out:st=4:d=1,format=yuv420p', audio: undefined });
+  });
+
+  it('should report the failing step', () => {
+    expect(() => planPipeline([{ type: 'thumbnails' }])).toThrow('at least one step');
+    expect(() => planPipeline([{ type: 'trim', startTime: 3, endTime: 2 }])).toThrow('Step 1 (trim)');
+  });
+
+  it('should keep atempo stages within range', () => {
+    expect(atempoChain(4)).toEqual(['atempo=2', 'atempo=2']);
+    expect(atempoChain(0.25)).toEqual(['atempo=0.5', 'atempo=0.5']);
+    expect(atempoChain(1.5)).toEqual(['atempo=1.5']);
+  });
+
+  it('should escape drawtext specials', () => {
+    expect(escapeDrawtext("It's 10:00")).toBe("It\\'\\''s 10\\:00");
+    expect(escapeDrawtext('100%')).toBe('100\\\\%');
+  });
+
+  it('should close and reopen the quote around an apostrophe', () => {
+    expect(escapeFilterValue("a'b:c")).toBe("a\\'\\''b\\:c");
+  });
+});
@@ -0,0 +1,223 @@
+import { VideoFilterStep, translateFilterStep } from './video-filters';
+
+export type PipelineStepType = 'trim' | 'rotate' | 'speed' | 'filter' | 'watermark' | 'compress' | 'thumbnails';
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface PipelineStep {
+  type: PipelineStepType;
+  /** trim: seconds */
+  startTime?: number;
+  endTime?: number;
+  /** rotate: degrees clockwise */
+  rotation?: 90 | 180 | 270;
+  /** speed: multiplier, 0.25 to 4 */
+  speed?: number;
+  /** filter: any step accepted by the filters endpoint */
+  filter?: VideoFilterStep;
+  /** watermark: text overlay */
+  text?: string;
+  position?: WatermarkPosition;
+  /** compress: encoder settings for the pass */
+  crf?: number;
+  audioBitrate?: string;
+  /** thumbnails: evenly spaced frames of the video at this point */
+  count?: number;
+}
+
+/** One FFmpeg encode covering a run of consecutive transform steps */
+export interface EncodePass {
+  kind: 'encode';
+  /** Value for -vf */
+  video: string;
+  /** Value for -af, when any step touches the audio track */
+  audio?: string;
+  crf: number;
+  /** Set by a compress step; audio is re-encoded at this bitrate */
+  audioBitrate?: string;
+  /** Expected output duration in seconds, for progress and later fades */
+  duration?: number;
+}
+
+/** Frame grab from the output of the previous encode (or the source) */
+export interface ThumbnailPass {
+  kind: 'thumbnails';
+  count: number;
+  /** Duration of the video being sampled, in seconds */
+  duration?: number;
+}
+
+export type PipelinePass = EncodePass | ThumbnailPass;
+
+const DEFAULT_CRF = 23;
+
+const WATERMARK_POSITIONS: Record<WatermarkPosition, string> = {
+  'top-left': 'x=10:y=10',
+  'top-right': 'x=w-tw-10:y=10',
+  'bottom-left': 'x=10:y=h-th-10',
+  'bottom-right': 'x=w-tw-10:y=h-th-10',
+  'center': 'x=(w-tw)/2:y=(h-th)/2',
+};
+
+const TRANSPOSE: Record<number, string> = {
+  90: 'transpose=1',
+  180: 'transpose=2,transpose=2',
+  270: 'transpose=2',
+};
+
+/**
+ * Escapes a value for a single-quoted filter option. The option parser
+ * unescapes backslashes, quotes and colons; the filtergraph parser strips
+ * the outer quotes, and a backslash does not escape a quote inside them,
+ * so each quote closes the value, adds an escaped quote and reopens it.
+ */
+export function escapeFilterValue(value: string): string {
+  return value.replace(/[\\':]/g, '\\$&').replace(/'/g, "'\\''");
+}
+
+/**
+ * Escapes text for a single-quoted drawtext value; drawtext itself expands
+ * `%{...}` and unescapes backslashes once more.
+ */
+export function escapeDrawtext(text: string): string {
+  return escapeFilterValue(text.replace(/[\\%]/g, '\\$&'));
+}
+
+/**
+ * Splits a speed factor into atempo stages; each stage must stay within 0.5-2.
+ */
+export function atempoChain(speed: number): string[] {
+  const stages: string[] = [];
+  let remaining = speed;
+  while (remaining > 2) {
+    stages.push('atempo=2');
+    remaining /= 2;
+  }
+  while (remaining < 0.5) {
+    stages.push('atempo=0.5');
+    remaining /= 0.5;
+  }
+  if (Math.abs(remaining - 1) > 1e-9 || stages.length === 0) {
+    stages.push(`atempo=${Math.round(remaining * 1e6) / 1e6}`);
+  }
+  return stages;
+}
+
+/**
+ * Plans a recipe into as few FFmpeg passes as possible. Consecutive transform
+ * steps (trim, rotate, speed, filter, watermark, compress) share one filter
+ * graph and therefore one re-encode; only a thumbnails step in the middle of
+ * the recipe forces the video so far to be written out. The expected duration
+ * is tracked across steps so fades and thumbnails line up after trims and
+ * speed changes.
+ * @param steps Recipe steps in order
+ * @param sourceDuration Duration of the input in seconds, if known
+ */
+export function planPipeline(steps: PipelineStep[], sourceDuration?: number): PipelinePass[] {
+  if (!steps.some((step) => step.type !== 'thumbnails')) {
+    throw new Error('A pipeline needs at least one step that produces a video');
+  }
+
+  const passes: PipelinePass[] = [];
+  let duration = sourceDuration;
+  let video: string[] = [];
+  let audio: string[] = [];
+  let crf = DEFAULT_CRF;
+  let audioBitrate: string | undefined;
+  let open = false;
+
+  const flush = () => {
+    if (!open) return;
+    passes.push({
+      kind: 'encode',
+      video: [...video, 'format=yuv420p'].join(','),
+      audio: audio.length ? audio.join(',') : undefined,
+      crf,
+      audioBitrate,
+      duration,
+    });
+    video = [];
+    audio = [];
+    crf = DEFAULT_CRF;
+    audioBitrate = undefined;
+    open = false;
+  };
+
+  steps.forEach((step, index) => {
+    const label = `Step ${index + 1} (${step.type})`;
+
+    if (step.type === 'thumbnails') {
+      flush();
+      passes.push({ kind: 'thumbnails', count: step.count ?? 5, duration });
+      return;
+    }
+
+    open = true;
+    switch (step.type) {
+      case 'trim': {
+        const start = step.startTime ?? 0;
+        if (step.endTime !== undefined && step.endTime <= start) {
+          throw new Error(`${label}: endTime must be after startTime`);
+        }
+        const range = step.endTime !== undefined ? `start=${start}:end=${step.endTime}` : `start=${start}`;
+        video.push(`trim=${range}`, 'setpts=PTS-STARTPTS');
+        audio.push(`atrim=${range}`, 'asetpts=PTS-STARTPTS');
+        const end = step.endTime !== undefined && duration !== undefined
+          ? Math.min(step.endTime, duration)
+          : step.endTime ?? duration;
+        duration = end !== undefined ? Math.max(end - start, 0) : undefined;
+        break;
+      }
+
+      case 'rotate':
+        if (!TRANSPOSE[step.rotation]) {
+          throw new Error(`${label}: rotation must be 90, 180 or 270`);
+        }
+        video.push(TRANSPOSE[step.rotation]);
+        break;
+
+      case 'speed':
+        if (!step.speed || step.speed < 0.25 || step.speed > 4) {
+          throw new Error(`${label}: speed must be between 0.25 and 4`);
+        }
+        video.push(`setpts=PTS/${step.speed}`);
+        audio.push(...atempoChain(step.speed));
+        duration = duration !== undefined ? duration / step.speed : undefined;
+        break;
+
+      case 'filter': {
+        if (!step.filter) {
+          throw new Error(`${label}: filter is required`);
+        }
+        try {
+          const translated = translateFilterStep(step.filter, duration);
+          video.push(...translated.video);
+          audio.push(...translated.audio);
+        } catch (error) {
+          throw new Error(`${label}: ${error.message}`);
+        }
+        break;
+      }
+
+      case 'watermark':
+        if (!step.text) {
+          throw new Error(`${label}: text is required`);
+        }
+        video.push(
+          `drawtext=text='${escapeDrawtext(step.text)}':fontcolor=white:fontsize=24:${WATERMARK_POSITIONS[step.position ?? 'bottom-right']}`,
+        );
+        break;
+
+      case 'compress':
+        crf = step.crf ?? crf;
+        audioBitrate = step.audioBitrate ?? audioBitrate;
+        break;
+
+      default:
+        throw new Error(`${label}: unknown step type`);
+    }
+  });
+
+  flush();
+  return passes;
+}
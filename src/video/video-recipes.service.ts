@@ -0,0 +1,94 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { PipelineStep, planPipeline } from './video-pipeline';
+import { CreateVideoRecipeDto, UpdateVideoRecipeDto } from './dto';
+
+@Injectable()
+export class VideoRecipesService {
+  private readonly logger = new Logger(VideoRecipesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Rejects pipelines that can't be planned (missing step fields, trims
+   * ending before they start, ...) so they fail before queueing. Durations
+   * are only known once the job runs, so fades are checked for shape only.
+   * @returns Number of FFmpeg passes the pipeline needs
+   */
+  validateSteps(steps: PipelineStep[]): number {
+    try {
+      return planPipeline(steps, Number.MAX_SAFE_INTEGER).length;
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  async create(dto: CreateVideoRecipeDto, userId: string) {
+    this.validateSteps(dto.steps);
+
+    const existing = await this.prisma.videoRecipe.findUnique({
+      where: { userId_name: { userId, name: dto.name } },
+    });
+    if (existing) {
+      throw new ConflictException(`Recipe "${dto.name}" already exists`);
+    }
+
+    const recipe = await this.prisma.videoRecipe.create({
+      data: {
+        name: dto.name,
+        description: dto.description,
+        steps: this.toJson(dto.steps),
+        userId,
+      },
+    });
+
+    this.logger.log(`Created recipe ${recipe.name} for user ${userId}`);
+    return recipe;
+  }
+
+  async findAll(userId: string) {
+    return this.prisma.videoRecipe.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findByName(name: string, userId: string) {
+    const recipe = await this.prisma.videoRecipe.findUnique({
+      where: { userId_name: { userId, name } },
+    });
+    if (!recipe) {
+      throw new NotFoundException(`Recipe "${name}" not found`);
+    }
+    return recipe;
+  }
+
+  async update(name: string, dto: UpdateVideoRecipeDto, userId: string) {
+    await this.findByName(name, userId);
+    if (dto.steps) {
+      this.validateSteps(dto.steps);
+    }
+
+    return this.prisma.videoRecipe.update({
+      where: { userId_name: { userId, name } },
+      data: {
+        description: dto.description,
+        steps: dto.steps ? this.toJson(dto.steps) : undefined,
+      },
+    });
+  }
+
+  async remove(name: string, userId: string): Promise<void> {
+    await this.findByName(name, userId);
+    await this.prisma.videoRecipe.delete({
+      where: { userId_name: { userId, name } },
+    });
+  }
+
+  /**
+   * Strips DTO class instances down to plain JSON for the steps column
+   */
+  private toJson(steps: PipelineStep[]) {
+    return JSON.parse(JSON.stringify(steps));
+  }
+}
@@ -1,16 +1,29 @@
 import {
   Controller,
+  Get,
   Post,
+  Put,
+  Delete,
+  Param,
+  Request,
+  UseGuards,
   UploadedFile,
+  UploadedFiles,
   UseInterceptors,
-  InternalServerErrorException,
   Body,
   BadRequestException,
+  HttpCode,
+  HttpStatus,
 } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { FileFieldsInterceptor, FileInterceptor } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
 import { VideoService } from './video.service';
+import { VideoRecipesService } from './video-recipes.service';
+import { MediaProbeService } from './media-probe.service';
+import { JobsService } from '../jobs/jobs.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { extname, join } from 'path';
+import * as fs from 'fs-extra';
 import {
   OptimizeVideoDto,
   TrimVideoDto,
@@ -34,13 +47,162 @@ import {
   TwoPassEncodeDto,
   DetectResolutionDto,
   ValidateVideoDto,
+  HlsByIdDto,
+  SpriteSheetByIdDto,
+  SceneDetectionByIdDto,
+  SubtitlesByIdDto,
+  ExtractSubtitlesByIdDto,
+  ReplaceAudioDto,
+  BackgroundMusicDto,
+  NormalizeAudioDto,
+  AudioFadeDto,
+  VolumeDto,
+  AudioDelayDto,
+  RemoveAudioByIdDto,
+  ReplaceAudioByIdDto,
+  BackgroundMusicByIdDto,
+  NormalizeAudioByIdDto,
+  AudioFadeByIdDto,
+  VolumeByIdDto,
+  AudioDelayByIdDto,
+  ImageWatermarkDto,
+  ImageWatermarkByIdDto,
+  VideoFiltersDto,
+  VideoFiltersByIdDto,
+  PipelineByIdDto,
+  CreateVideoRecipeDto,
+  UpdateVideoRecipeDto,
+  RunVideoRecipeDto,
+  PictureInPictureDto,
+  VideoGridDto,
+  AnimatedPreviewByIdDto,
+  ProbeByIdDto,
+  DeadSegmentsByIdDto,
 } from './dto';
+import { PipelineStep } from './video-pipeline';
+import { VideoFilterStep, buildVideoFilterGraph } from './video-filters';
+
+/**
+ * Upload handling shared by the audio editing routes: stores the video
+ * under ./uploads/videos with a random name and rejects other file types
+ */
+const videoUpload = FileInterceptor('file', {
+  storage: diskStorage({
+    destination: './uploads/videos',
+    filename: (req, file, cb) => {
+      const randomName = Array(32)
+        .fill(null)
+        .map(() => Math.round(Math.random() * 16).toString(16))
+        .join('');
+      return cb(null, `${randomName}${extname(file.originalname)}`);
+    },
+  }),
+  fileFilter: (req, file, cb) => {
+    // Accept video files only
+    const allowedMimeTypes = [
+      'video/mp4',
+      'video/mpeg',
+      'video/quicktime',
+      'video/x-msvideo',
+      'video/webm',
+      'video/x-matroska',
+    ];
+    if (allowedMimeTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new BadRequestException('Invalid file type. Only video files are allowed.'), false);
+    }
+  },
+  limits: {
+    fileSize: 500 * 1024 * 1024, // 500MB limit
+  },
+});
+
+/** Random-named disk storage for uploaded watermark logos */
+const logoStorage = diskStorage({
+  destination: './uploads/watermarks',
+  filename: (req, file, cb) => {
+    const randomName = Array(32)
+      .fill(null)
+      .map(() => Math.round(Math.random() * 16).toString(16))
+      .join('');
+    return cb(null, `${randomName}${extname(file.originalname)}`);
+  },
+});
 
 @Controller('video')
 export class VideoController {
-  constructor(private readonly videoService: VideoService) {}
+  constructor(
+    private readonly videoService: VideoService,
+    private readonly jobsService: JobsService,
+    private readonly recipesService: VideoRecipesService,
+    private readonly mediaProbeService: MediaProbeService,
+  ) {}
+
+  private queued(job: { id: string; status: string }, message: string) {
+    return {
+      message,
+      jobId: job.id,
+      status: job.status,
+    };
+  }
+
+  /**
+   * Queues a single-output job for an uploaded video; the upload is removed
+   * once the job settles
+   */
+  private async enqueueUploaded(
+    type: string,
+    file: Express.Multer.File,
+    outputPrefix: string,
+    params: Record<string, any>,
+    message: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const outputPath = join('./uploads/videos', `${outputPrefix}-${file.filename.split('.')[0]}.mp4`);
+    const job = await this.jobsService.enqueue(type, {
+      inputPath: file.path,
+      outputPath,
+      ...params,
+      deleteInput: true,
+    });
+
+    return this.queued(job, message);
+  }
+
+  /**
+   * Queues a single-output job for a library video; the output is registered
+   * as a new Media entry owned by the requesting user
+   */
+  private async enqueueById(
+    type: string,
+    dto: { mediaId: string; folderId?: string },
+    userId: string,
+    outputPrefix: string,
+    params: Record<string, any>,
+    message: string,
+  ) {
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
+    const outputPath = join('./uploads/videos', `${outputPrefix}-${baseFilename}.mp4`);
+
+    const job = await this.jobsService.enqueue(type, {
+      inputPath,
+      outputPath,
+      ...params,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId,
+    }, { userId, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, message);
+  }
 
   @Post('optimize')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -93,44 +255,25 @@ export class VideoController {
     const outputFileName = `optimized-${file.filename}`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      // Perform the video optimization
-      await this.videoService.compressVideo(
-        inputPath,
-        outputPath,
-        dto.crf,
-        dto.audioBitrate,
-      );
-
-      // Create a thumbnail from the optimized video
-      const thumbnailFileName = `thumbnail-${file.filename.split('.')[0]}.png`;
-      const thumbnailPath = join('./uploads/thumbnails', thumbnailFileName);
-      await this.videoService.createThumbnail(
-        outputPath,
-        thumbnailPath,
-        dto.thumbnailTimestamp,
-      );
-
-      // Clean up the original uploaded file
-      await this.videoService.deleteFile(inputPath);
-
-      return {
-        message: 'Video processed successfully',
-        originalFileName,
-        optimizedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-        thumbnailPath: thumbnailPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(inputPath); // Clean up the original
-      this.videoService.deleteFile(outputPath); // Clean up any partial output
-      throw new InternalServerErrorException(
-        'Video processing failed',
-        error.message,
-      );
-    }
+    const thumbnailFileName = `thumbnail-${file.filename.split('.')[0]}.png`;
+    const thumbnailPath = join('./uploads/thumbnails', thumbnailFileName);
+
+    const job = await this.jobsService.enqueue('video.optimize', {
+      inputPath,
+      outputPath,
+      thumbnailPath,
+      originalFileName,
+      crf: dto.crf,
+      audioBitrate: dto.audioBitrate,
+      thumbnailTimestamp: dto.thumbnailTimestamp,
+      deleteInput: true,
+    });
+
+    return this.queued(job, 'Video optimization queued');
   }
 
   @Post('convert-webm')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -154,25 +297,17 @@ export class VideoController {
     const outputFileName = `${file.filename.split('.')[0]}.webm`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.convertToWebm(inputPath, outputPath);
-      await this.videoService.deleteFile(inputPath);
+    const job = await this.jobsService.enqueue('video.convert-webm', {
+      inputPath,
+      outputPath,
+      deleteInput: true,
+    });
 
-      return {
-        message: 'Video converted successfully',
-        convertedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(inputPath);
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Video conversion failed',
-        error.message,
-      );
-    }
+    return this.queued(job, 'Video conversion queued');
   }
 
   @Post('trim')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -199,30 +334,19 @@ export class VideoController {
     const outputFileName = `trimmed-${file.filename}`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.trimVideo(
-        inputPath,
-        outputPath,
-        dto.startTime,
-        dto.duration,
-      );
-      await this.videoService.deleteFile(inputPath);
-
-      return {
-        message: 'Video trimmed successfully',
-        trimmedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(inputPath);
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Video trimming failed',
-        error.message,
-      );
-    }
+    const job = await this.jobsService.enqueue('video.trim', {
+      inputPath,
+      outputPath,
+      startTime: dto.startTime,
+      duration: dto.duration,
+      deleteInput: true,
+    });
+
+    return this.queued(job, 'Video trimming queued');
   }
 
   @Post('rotate')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -249,25 +373,18 @@ export class VideoController {
     const outputFileName = `rotated-${dto.rotation}-${file.filename}`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.rotateVideo(inputPath, outputPath, dto.rotation);
-      await this.videoService.deleteFile(inputPath);
+    const job = await this.jobsService.enqueue('video.rotate', {
+      inputPath,
+      outputPath,
+      rotation: dto.rotation,
+      deleteInput: true,
+    });
 
-      return {
-        message: `Video rotated ${dto.rotation} degrees successfully`,
-        rotatedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(inputPath);
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Video rotation failed',
-        error.message,
-      );
-    }
+    return this.queued(job, 'Video rotation queued');
   }
 
   @Post('speed')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -294,25 +411,18 @@ export class VideoController {
     const outputFileName = `speed-${dto.speed}x-${file.filename}`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.changeSpeed(inputPath, outputPath, dto.speed);
-      await this.videoService.deleteFile(inputPath);
+    const job = await this.jobsService.enqueue('video.speed', {
+      inputPath,
+      outputPath,
+      speed: dto.speed,
+      deleteInput: true,
+    });
 
-      return {
-        message: `Video speed changed to ${dto.speed}x successfully`,
-        processedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(inputPath);
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Video speed change failed',
-        error.message,
-      );
-    }
+    return this.queued(job, 'Video speed change queued');
   }
 
   @Post('extract-audio')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -340,26 +450,18 @@ export class VideoController {
     const outputFileName = `${file.filename.split('.')[0]}.${format}`;
     const outputPath = join('./uploads/audio', outputFileName);
 
-    try {
-      await this.videoService.extractAudio(inputPath, outputPath, format);
-      await this.videoService.deleteFile(inputPath);
-
-      return {
-        message: 'Audio extracted successfully',
-        audioPath: outputPath.replace('./uploads/', '/uploads/'),
-        format,
-      };
-    } catch (error) {
-      this.videoService.deleteFile(inputPath);
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Audio extraction failed',
-        error.message,
-      );
-    }
+    const job = await this.jobsService.enqueue('video.extract-audio', {
+      inputPath,
+      outputPath,
+      format,
+      deleteInput: true,
+    });
+
+    return this.queued(job, 'Audio extraction queued');
   }
 
   @Post('watermark')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -386,30 +488,19 @@ export class VideoController {
     const outputFileName = `watermarked-${file.filename}`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.addTextWatermark(
-        inputPath,
-        outputPath,
-        dto.text,
-        dto.position,
-      );
-      await this.videoService.deleteFile(inputPath);
-
-      return {
-        message: 'Watermark added successfully',
-        watermarkedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(inputPath);
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Watermark addition failed',
-        error.message,
-      );
-    }
+    const job = await this.jobsService.enqueue('video.watermark', {
+      inputPath,
+      outputPath,
+      text: dto.text,
+      position: dto.position,
+      deleteInput: true,
+    });
+
+    return this.queued(job, 'Watermark addition queued');
   }
 
   @Post('multiple-thumbnails')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -435,32 +526,18 @@ export class VideoController {
     const inputPath = file.path;
     const baseFilename = file.filename.split('.')[0];
 
-    try {
-      const thumbnailPaths = await this.videoService.createMultipleThumbnails(
-        inputPath,
-        './uploads/thumbnails',
-        dto.timestamps,
-        baseFilename,
-      );
-      await this.videoService.deleteFile(inputPath);
-
-      return {
-        message: 'Thumbnails created successfully',
-        count: thumbnailPaths.length,
-        thumbnails: thumbnailPaths.map((path) =>
-          path.replace('./uploads/', '/uploads/'),
-        ),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(inputPath);
-      throw new InternalServerErrorException(
-        'Thumbnail creation failed',
-        error.message,
-      );
-    }
+    const job = await this.jobsService.enqueue('video.multiple-thumbnails', {
+      inputPath,
+      baseFilename,
+      timestamps: dto.timestamps,
+      deleteInput: true,
+    });
+
+    return this.queued(job, 'Thumbnail creation queued');
   }
 
   @Post('multi-quality')
+  @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(
     FileInterceptor('file', {
       storage: diskStorage({
@@ -483,359 +560,395 @@ export class VideoController {
     const inputPath = file.path;
     const baseFilename = file.filename.split('.')[0];
 
-    const qualities = [
-      { label: '360p', width: 640, bitrate: '800k' },
-      { label: '480p', width: 854, bitrate: '1400k' },
-      { label: '720p', width: 1280, bitrate: '2800k' },
-      { label: '1080p', width: 1920, bitrate: '5000k' },
-    ];
 
-    try {
-      const outputs = await this.videoService.generateMultipleQualities(
-        inputPath,
-        './uploads/videos',
-        baseFilename,
-        qualities,
-      );
-      await this.videoService.deleteFile(inputPath);
-
-      return {
-        message: 'Multiple quality videos generated successfully',
-        videos: outputs.map((output) => ({
-          quality: output.label,
-          path: output.path.replace('./uploads/', '/uploads/'),
-        })),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(inputPath);
-      throw new InternalServerErrorException(
-        'Multi-quality generation failed',
-        error.message,
-      );
-    }
+    const job = await this.jobsService.enqueue('video.multi-quality', {
+      inputPath,
+      baseFilename,
+      deleteInput: true,
+    });
+
+    return this.queued(job, 'Multi-quality generation queued');
   }
 
   // ========================================
   // ID-BASED PROCESSING ENDPOINTS
-  // Process existing videos from media library
+  // Process existing videos from media library. Output names carry a
+  // timestamp, so a failed or cancelled job never removes the files of an
+  // earlier job on the same media.
   // ========================================
 
   @Post('by-id/optimize')
-  async optimizeVideoById(@Body() dto: OptimizeByIdDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async optimizeVideoById(@Body() dto: OptimizeByIdDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const outputFileName = `optimized-${baseFilename}.mp4`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.compressVideo(
-        inputPath,
-        outputPath,
-        dto.crf,
-        dto.audioBitrate,
-      );
-
-      const thumbnailFileName = `thumbnail-${baseFilename}.png`;
-      const thumbnailPath = join('./uploads/thumbnails', thumbnailFileName);
-      await this.videoService.createThumbnail(
-        outputPath,
-        thumbnailPath,
-        dto.thumbnailTimestamp,
-      );
-
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaId,
-        outputPath,
-        'optimized',
-        'system', // TODO: Get from JWT
-        dto.folderId,
-      );
-
-      return {
-        message: 'Video optimized successfully',
-        mediaId: newMedia.id,
-        optimizedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-        thumbnailPath: thumbnailPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Video optimization failed',
-        error.message,
-      );
-    }
+    const thumbnailFileName = `thumbnail-${baseFilename}.png`;
+    const thumbnailPath = join('./uploads/thumbnails', thumbnailFileName);
+
+    const job = await this.jobsService.enqueue('video.optimize', {
+      inputPath,
+      outputPath,
+      thumbnailPath,
+      crf: dto.crf,
+      audioBitrate: dto.audioBitrate,
+      thumbnailTimestamp: dto.thumbnailTimestamp,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Video optimization queued');
   }
 
   @Post('by-id/trim')
-  async trimVideoById(@Body() dto: TrimByIdDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async trimVideoById(@Body() dto: TrimByIdDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const outputFileName = `trimmed-${baseFilename}.mp4`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.trimVideo(
-        inputPath,
-        outputPath,
-        dto.startTime,
-        dto.duration,
-      );
-
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaId,
-        outputPath,
-        'trimmed',
-        'system',
-        dto.folderId,
-      );
-
-      return {
-        message: 'Video trimmed successfully',
-        mediaId: newMedia.id,
-        trimmedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Video trimming failed',
-        error.message,
-      );
-    }
+    const job = await this.jobsService.enqueue('video.trim', {
+      inputPath,
+      outputPath,
+      startTime: dto.startTime,
+      duration: dto.duration,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Video trimming queued');
   }
 
   @Post('by-id/rotate')
-  async rotateVideoById(@Body() dto: RotateByIdDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async rotateVideoById(@Body() dto: RotateByIdDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const outputFileName = `rotated-${dto.rotation}-${baseFilename}.mp4`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.rotateVideo(inputPath, outputPath, dto.rotation);
+    const job = await this.jobsService.enqueue('video.rotate', {
+      inputPath,
+      outputPath,
+      rotation: dto.rotation,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
 
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaId,
-        outputPath,
-        `rotated-${dto.rotation}`,
-        'system',
-        dto.folderId,
-      );
-
-      return {
-        message: `Video rotated ${dto.rotation} degrees successfully`,
-        mediaId: newMedia.id,
-        rotatedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Video rotation failed',
-        error.message,
-      );
-    }
+    return this.queued(job, 'Video rotation queued');
   }
 
   @Post('by-id/speed')
-  async changeSpeedById(@Body() dto: SpeedByIdDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async changeSpeedById(@Body() dto: SpeedByIdDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const outputFileName = `speed-${dto.speed}x-${baseFilename}.mp4`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.changeSpeed(inputPath, outputPath, dto.speed);
+    const job = await this.jobsService.enqueue('video.speed', {
+      inputPath,
+      outputPath,
+      speed: dto.speed,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
 
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaId,
-        outputPath,
-        `speed-${dto.speed}x`,
-        'system',
-        dto.folderId,
-      );
-
-      return {
-        message: `Video speed changed to ${dto.speed}x successfully`,
-        mediaId: newMedia.id,
-        processedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Video speed change failed',
-        error.message,
-      );
-    }
+    return this.queued(job, 'Video speed change queued');
   }
 
   @Post('by-id/extract-audio')
-  async extractAudioById(@Body() dto: ExtractAudioByIdDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async extractAudioById(@Body() dto: ExtractAudioByIdDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const format = dto.format || 'mp3';
     const outputFileName = `${baseFilename}.${format}`;
     const outputPath = join('./uploads/audio', outputFileName);
 
-    try {
-      await this.videoService.extractAudio(inputPath, outputPath, format);
+    const job = await this.jobsService.enqueue('video.extract-audio', {
+      inputPath,
+      outputPath,
+      format,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
 
-      return {
-        message: 'Audio extracted successfully',
-        audioPath: outputPath.replace('./uploads/', '/uploads/'),
-        format,
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Audio extraction failed',
-        error.message,
-      );
-    }
+    return this.queued(job, 'Audio extraction queued');
   }
 
   @Post('by-id/watermark')
-  async addWatermarkById(@Body() dto: WatermarkByIdDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async addWatermarkById(@Body() dto: WatermarkByIdDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const outputFileName = `watermarked-${baseFilename}.mp4`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.addTextWatermark(
-        inputPath,
-        outputPath,
-        dto.text,
-        dto.position,
-      );
-
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaId,
-        outputPath,
-        'watermarked',
-        'system',
-        dto.folderId,
-      );
-
-      return {
-        message: 'Watermark added successfully',
-        mediaId: newMedia.id,
-        watermarkedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Watermark addition failed',
-        error.message,
-      );
-    }
+    const job = await this.jobsService.enqueue('video.watermark', {
+      inputPath,
+      outputPath,
+      text: dto.text,
+      position: dto.position,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Watermark addition queued');
   }
 
   @Post('by-id/multiple-thumbnails')
-  async createMultipleThumbnailsById(@Body() dto: MultipleThumbnailsByIdDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createMultipleThumbnailsById(@Body() dto: MultipleThumbnailsByIdDto, @Request() req) {
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
+
+    const job = await this.jobsService.enqueue('video.multiple-thumbnails', {
+      inputPath,
+      baseFilename,
+      timestamps: dto.timestamps,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Thumbnail creation queued');
+  }
+
+  @Post('by-id/sprites')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createSpriteSheetsById(@Body() dto: SpriteSheetByIdDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
     const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const outputDir = join('./uploads/sprites', `${baseFilename}-${Date.now()}`);
+
+    const job = await this.jobsService.enqueue('video.sprites', {
+      inputPath,
+      outputDir,
+      baseFilename,
+      options: {
+        interval: dto.interval,
+        tileWidth: dto.tileWidth,
+        columns: dto.columns,
+        rows: dto.rows,
+        format: dto.format,
+        quality: dto.quality,
+      },
+      permanent: dto.permanent,
+      expiryDays: dto.expiryDays,
+      mediaId: dto.mediaId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
 
-    try {
-      const thumbnailPaths = await this.videoService.createMultipleThumbnails(
-        inputPath,
-        './uploads/thumbnails',
-        dto.timestamps,
-        baseFilename,
-      );
-
-      return {
-        message: 'Thumbnails created successfully',
-        count: thumbnailPaths.length,
-        thumbnails: thumbnailPaths.map((path) =>
-          path.replace('./uploads/', '/uploads/'),
-        ),
-      };
-    } catch (error) {
-      throw new InternalServerErrorException(
-        'Thumbnail creation failed',
-        error.message,
-      );
+    return this.queued(job, 'Sprite sheet generation queued');
+  }
+
+  @Post('by-id/animated-preview')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async createAnimatedPreviewById(@Body() dto: AnimatedPreviewByIdDto, @Request() req) {
+    if (dto.endTime <= dto.startTime) {
+      throw new BadRequestException('endTime must be after startTime');
+    }
+    if (dto.endTime - dto.startTime > 30) {
+      throw new BadRequestException('Animated previews are limited to 30 seconds');
     }
+
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const extension = dto.format === 'apng' ? 'png' : dto.format;
+    const outputPath = join('./uploads/previews', `${baseFilename}-${Date.now()}.${extension}`);
+
+    const job = await this.jobsService.enqueue('video.animated-preview', {
+      inputPath,
+      outputPath,
+      options: {
+        format: dto.format,
+        startTime: dto.startTime,
+        endTime: dto.endTime,
+        fps: dto.fps,
+        width: dto.width,
+        loop: dto.loop,
+        quality: dto.quality,
+      },
+      permanent: dto.permanent,
+      expiryDays: dto.expiryDays,
+      mediaId: dto.mediaId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Animated preview queued');
   }
 
-  @Post('by-id/multi-quality')
-  async generateMultipleQualitiesById(@Body() dto: MultiQualityByIdDto) {
+  @Post('by-id/scenes')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async detectScenesById(@Body() dto: SceneDetectionByIdDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
     const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const mode = dto.mode || 'detect';
+    const outputDir = mode === 'split'
+      ? join('./uploads/videos', `scenes-${baseFilename}-${Date.now()}`)
+      : mode === 'chapters'
+        ? join('./uploads/chapters', `${baseFilename}-${Date.now()}`)
+        : undefined;
+
+    const job = await this.jobsService.enqueue('video.scenes', {
+      inputPath,
+      outputDir,
+      baseFilename,
+      mode,
+      threshold: dto.threshold,
+      minSceneLength: dto.minSceneLength,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Scene detection queued');
+  }
 
-    const qualities = [
-      { label: '360p', width: 640, bitrate: '800k' },
-      { label: '480p', width: 854, bitrate: '1400k' },
-      { label: '720p', width: 1280, bitrate: '2800k' },
-      { label: '1080p', width: 1920, bitrate: '5000k' },
-    ];
+  @Post('by-id/subtitles')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(
+    FileInterceptor('subtitle', {
+      storage: diskStorage({
+        destination: './uploads/subtitles',
+        filename: (req, file, cb) => {
+          const randomName = Array(32)
+            .fill(null)
+            .map(() => Math.round(Math.random() * 16).toString(16))
+            .join('');
+          return cb(null, `${randomName}${extname(file.originalname).toLowerCase()}`);
+        },
+      }),
+      fileFilter: (req, file, cb) => {
+        // Subtitle MIME types are unreliable across clients; check the extension
+        if (['.srt', '.vtt'].includes(extname(file.originalname).toLowerCase())) {
+          cb(null, true);
+        } else {
+          cb(new BadRequestException('Invalid file type. Only SRT and VTT subtitles are allowed.'), false);
+        }
+      },
+      limits: {
+        fileSize: 5 * 1024 * 1024, // 5MB limit
+      },
+    }),
+  )
+  async addSubtitlesById(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() dto: SubtitlesByIdDto,
+    @Request() req,
+  ) {
+    if (!file) {
+      throw new BadRequestException('No subtitle file uploaded');
+    }
 
+    // Once queued, the job removes the subtitle file; until then nothing else will
+    let job;
     try {
-      const outputs = await this.videoService.generateMultipleQualities(
+      const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+      const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
+      const extension = dto.mode === 'embed' ? dto.container || 'mp4' : 'mp4';
+      const outputFileName = `${dto.mode === 'burn' ? 'captioned' : 'subtitled'}-${baseFilename}.${extension}`;
+      const outputPath = join('./uploads/videos', outputFileName);
+
+      job = await this.jobsService.enqueue(`video.subtitles-${dto.mode}`, {
         inputPath,
-        './uploads/videos',
-        baseFilename,
-        qualities,
-      );
-
-      // Create media entries for each quality
-      const mediaEntries = await Promise.all(
-        outputs.map((output) =>
-          this.videoService.createProcessedMediaEntry(
-            dto.mediaId,
-            output.path,
-            `quality-${output.label}`,
-            'system',
-            dto.folderId,
-          ),
-        ),
-      );
-
-      return {
-        message: 'Multiple quality videos generated successfully',
-        videos: outputs.map((output, index) => ({
-          quality: output.label,
-          path: output.path.replace('./uploads/', '/uploads/'),
-          mediaId: mediaEntries[index].id,
-        })),
-      };
+        outputPath,
+        subtitlePath: file.path,
+        style: {
+          fontName: dto.fontName,
+          fontSize: dto.fontSize,
+          fontColor: dto.fontColor,
+          position: dto.position,
+        },
+        track: {
+          language: dto.language,
+          title: dto.title,
+          isDefault: dto.isDefault,
+        },
+        mediaId: dto.mediaId,
+        folderId: dto.folderId,
+        userId: req.user.id,
+      }, { userId: req.user.id, sourceMediaId: dto.mediaId });
     } catch (error) {
-      throw new InternalServerErrorException(
-        'Multi-quality generation failed',
-        error.message,
-      );
+      await this.videoService.deleteFile(file.path);
+      throw error;
     }
+
+    return this.queued(job, dto.mode === 'burn' ? 'Subtitle burn-in queued' : 'Subtitle embedding queued');
   }
 
-  @Post('by-id/convert-webm')
-  async convertToWebmById(@Body() dto: ConvertToWebmByIdDto) {
+  @Post('by-id/subtitles/extract')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async extractSubtitlesById(@Body() dto: ExtractSubtitlesByIdDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
     const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const outputDir = join('./uploads/subtitles', `${baseFilename}-${Date.now()}`);
+
+    const job = await this.jobsService.enqueue('video.subtitles-extract', {
+      inputPath,
+      outputDir,
+      baseFilename,
+      streamIndex: dto.streamIndex,
+      mediaId: dto.mediaId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Subtitle extraction queued');
+  }
+
+  @Post('by-id/multi-quality')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async generateMultipleQualitiesById(@Body() dto: MultiQualityByIdDto, @Request() req) {
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
+
+
+    const job = await this.jobsService.enqueue('video.multi-quality', {
+      inputPath,
+      baseFilename,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Multi-quality generation queued');
+  }
+
+  @Post('by-id/convert-webm')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async convertToWebmById(@Body() dto: ConvertToWebmByIdDto, @Request() req) {
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const outputFileName = `${baseFilename}.webm`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.convertToWebm(inputPath, outputPath);
+    const job = await this.jobsService.enqueue('video.convert-webm', {
+      inputPath,
+      outputPath,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
 
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaId,
-        outputPath,
-        'webm-converted',
-        'system',
-        dto.folderId,
-      );
-
-      return {
-        message: 'Video converted to WebM successfully',
-        mediaId: newMedia.id,
-        convertedVideoPath: outputPath.replace('./uploads/', '/uploads/'),
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Video conversion failed',
-        error.message,
-      );
-    }
+    return this.queued(job, 'Video conversion queued');
   }
 
   // ========================================
@@ -844,205 +957,603 @@ export class VideoController {
   // ========================================
 
   @Post('by-id/concatenate')
-  async concatenateVideos(@Body() dto: ConcatenateVideosDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async concatenateVideos(@Body() dto: ConcatenateVideosDto, @Request() req) {
     if (dto.mediaIds.length < 2) {
       throw new BadRequestException('At least 2 videos are required for concatenation');
     }
 
+    // Resolve all inputs up front so missing media fail the request, not the job
     const inputPaths: string[] = [];
-    try {
-      // Get local file paths for all media IDs
-      for (const mediaId of dto.mediaIds) {
-        const path = await this.videoService.getLocalFilePath(mediaId);
-        inputPaths.push(path);
-      }
+    for (const mediaId of dto.mediaIds) {
+      inputPaths.push(await this.videoService.getLocalFilePath(mediaId));
+    }
 
-      const outputFileName = `concatenated-${Date.now()}.mp4`;
-      const outputPath = join('./uploads/videos', outputFileName);
+    const outputFileName = `concatenated-${Date.now()}.mp4`;
+    const outputPath = join('./uploads/videos', outputFileName);
 
-      await this.videoService.concatenateVideos(inputPaths, outputPath);
+    const job = await this.jobsService.enqueue('video.concatenate', {
+      inputPaths,
+      outputPath,
+      mediaId: dto.mediaIds[0],
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaIds[0] });
 
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaIds[0],
-        outputPath,
-        'concatenated',
-        'system',
-        dto.folderId,
-      );
-
-      return {
-        message: `Successfully concatenated ${dto.mediaIds.length} videos`,
-        mediaId: newMedia.id,
-        videoPath: outputPath.replace('./uploads/', '/uploads/'),
-        sourceCount: dto.mediaIds.length,
-      };
-    } catch (error) {
-      throw new InternalServerErrorException(
-        'Video concatenation failed',
-        error.message,
-      );
+    return this.queued(job, 'Video concatenation queued');
+  }
+
+  @Post('by-id/pip')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async pictureInPicture(@Body() dto: PictureInPictureDto, @Request() req) {
+    const overlayPath = await this.videoService.getLocalFilePath(dto.overlayMediaId);
+
+    return this.enqueueById('video.pip', dto, req.user.id, 'pip', {
+      overlayPath,
+      options: {
+        position: dto.position,
+        size: dto.size,
+        margin: dto.margin,
+        audioFrom: dto.audioFrom,
+      },
+    }, 'Picture-in-picture queued');
+  }
+
+  @Post('by-id/grid')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async composeGrid(@Body() dto: VideoGridDto, @Request() req) {
+    if (dto.audioFrom >= dto.mediaIds.length) {
+      throw new BadRequestException(`audioFrom must be between -1 and ${dto.mediaIds.length - 1}`);
     }
+
+    // Resolve all inputs up front so missing media fail the request, not the job
+    const inputPaths: string[] = [];
+    for (const mediaId of dto.mediaIds) {
+      inputPaths.push(await this.videoService.getLocalFilePath(mediaId));
+    }
+
+    const outputPath = join('./uploads/videos', `${dto.layout}-grid-${Date.now()}.mp4`);
+
+    const job = await this.jobsService.enqueue('video.grid', {
+      inputPaths,
+      outputPath,
+      options: {
+        layout: dto.layout,
+        cellWidth: dto.cellWidth,
+        cellHeight: dto.cellHeight,
+        audioFrom: dto.audioFrom >= 0 ? dto.audioFrom : undefined,
+      },
+      mediaId: dto.mediaIds[0],
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaIds[0] });
+
+    return this.queued(job, 'Video grid queued');
+  }
+
+  @Post('by-id/probe')
+  async probeById(@Body() dto: ProbeByIdDto) {
+    const media = await this.mediaProbeService.probeMedia(dto.mediaId);
+    return {
+      message: 'Media probed successfully',
+      mediaId: media.id,
+      width: media.width,
+      height: media.height,
+      duration: media.duration,
+      format: media.format,
+      probe: (media.metadata as Record<string, any>).probe,
+    };
   }
 
   @Post('by-id/convert-format')
-  async convertFormat(@Body() dto: ConvertFormatDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async convertFormat(@Body() dto: ConvertFormatDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const outputFileName = `${baseFilename}.${dto.targetFormat}`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.convertFormat(
-        inputPath,
-        outputPath,
-        dto.targetFormat,
-        dto.hwAccel,
-      );
-
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaId,
-        outputPath,
-        `format-${dto.targetFormat}`,
-        'system',
-        dto.folderId,
-      );
-
-      return {
-        message: `Video converted to ${dto.targetFormat.toUpperCase()} successfully`,
-        mediaId: newMedia.id,
-        videoPath: outputPath.replace('./uploads/', '/uploads/'),
-        format: dto.targetFormat,
-        hwAccel: dto.hwAccel || 'none',
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Format conversion failed',
-        error.message,
-      );
-    }
+    const job = await this.jobsService.enqueue('video.convert-format', {
+      inputPath,
+      outputPath,
+      targetFormat: dto.targetFormat,
+      hwAccel: dto.hwAccel,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Format conversion queued');
   }
 
   @Post('by-id/compress-bitrate')
-  async compressWithBitrateMode(@Body() dto: BitrateCompressDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async compressWithBitrateMode(@Body() dto: BitrateCompressDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const outputFileName = `${dto.bitrateMode}-${baseFilename}.mp4`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.compressWithBitrateMode(
-        inputPath,
-        outputPath,
-        dto.bitrateMode,
-        dto.bitrate,
-        dto.crf,
-      );
-
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaId,
-        outputPath,
-        `${dto.bitrateMode}-compressed`,
-        'system',
-        dto.folderId,
-      );
-
-      return {
-        message: `Video compressed with ${dto.bitrateMode.toUpperCase()} mode successfully`,
-        mediaId: newMedia.id,
-        videoPath: outputPath.replace('./uploads/', '/uploads/'),
-        bitrateMode: dto.bitrateMode,
-        bitrate: dto.bitrate,
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Bitrate compression failed',
-        error.message,
-      );
-    }
+    const job = await this.jobsService.enqueue('video.compress-bitrate', {
+      inputPath,
+      outputPath,
+      bitrateMode: dto.bitrateMode,
+      bitrate: dto.bitrate,
+      crf: dto.crf,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Bitrate compression queued');
   }
 
   @Post('by-id/two-pass-encode')
-  async twoPassEncode(@Body() dto: TwoPassEncodeDto) {
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async twoPassEncode(@Body() dto: TwoPassEncodeDto, @Request() req) {
     const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const baseFilename = `${inputPath.split('/').pop().split('.')[0]}-${Date.now()}`;
     const outputFileName = `twopass-${baseFilename}.mp4`;
     const outputPath = join('./uploads/videos', outputFileName);
 
-    try {
-      await this.videoService.twoPassEncode(
-        inputPath,
-        outputPath,
-        dto.bitrate,
-        dto.resolution,
-      );
+    const job = await this.jobsService.enqueue('video.two-pass-encode', {
+      inputPath,
+      outputPath,
+      bitrate: dto.bitrate,
+      resolution: dto.resolution,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Two-pass encoding queued');
+  }
 
-      const newMedia = await this.videoService.createProcessedMediaEntry(
-        dto.mediaId,
-        outputPath,
-        'two-pass-encoded',
-        'system',
-        dto.folderId,
-      );
-
-      return {
-        message: 'Two-pass encoding completed successfully',
-        mediaId: newMedia.id,
-        videoPath: outputPath.replace('./uploads/', '/uploads/'),
-        bitrate: dto.bitrate,
-        resolution: dto.resolution || 'original',
-      };
-    } catch (error) {
-      this.videoService.deleteFile(outputPath);
-      throw new InternalServerErrorException(
-        'Two-pass encoding failed',
-        error.message,
-      );
+  @Post('by-id/detect-resolution')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async detectResolution(@Body() dto: DetectResolutionDto, @Request() req) {
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+
+    const job = await this.jobsService.enqueue('video.detect-resolution', {
+      inputPath,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Resolution detection queued');
+  }
+
+  @Post('by-id/validate')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async validateVideo(@Body() dto: ValidateVideoDto, @Request() req) {
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+
+    const job = await this.jobsService.enqueue('video.validate', {
+      inputPath,
+      minWidth: dto.minWidth,
+      minHeight: dto.minHeight,
+      maxDuration: dto.maxDuration,
+      contentLimits: {
+        maxBlackRatio: dto.maxBlackRatio,
+        maxSilenceRatio: dto.maxSilenceRatio,
+      },
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Video validation queued');
+  }
+
+  @Post('by-id/dead-segments')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async detectDeadSegmentsById(@Body() dto: DeadSegmentsByIdDto, @Request() req) {
+    const options = {
+      blackMinDuration: dto.blackMinDuration,
+      pixelThreshold: dto.pixelThreshold,
+      silenceNoiseDb: dto.silenceNoiseDb,
+      silenceMinDuration: dto.silenceMinDuration,
+      freezeNoiseDb: dto.freezeNoiseDb,
+      freezeMinDuration: dto.freezeMinDuration,
+    };
+
+    if (dto.autoTrim) {
+      return this.enqueueById('video.auto-trim', dto, req.user.id, 'auto-trimmed', {
+        trimOn: dto.trimOn,
+        options,
+      }, 'Auto-trim queued');
     }
+
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    const job = await this.jobsService.enqueue('video.dead-segments', {
+      inputPath,
+      options: { ...options, kinds: dto.kinds },
+      userId: req.user.id,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, 'Dead segment detection queued');
   }
 
-  @Post('by-id/detect-resolution')
-  async detectResolution(@Body() dto: DetectResolutionDto) {
-    try {
-      const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-      const metadata = await this.videoService.detectVideoResolution(inputPath);
+  @Post('watermark-image')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [
+        { name: 'file', maxCount: 1 },
+        { name: 'logo', maxCount: 1 },
+      ],
+      {
+        storage: diskStorage({
+          destination: (req, file, cb) => {
+            const dir = file.fieldname === 'logo' ? './uploads/watermarks' : './uploads/videos';
+            fs.ensureDir(dir).then(() => cb(null, dir), (error) => cb(error, dir));
+          },
+          filename: (req, file, cb) => {
+            const randomName = Array(32)
+              .fill(null)
+              .map(() => Math.round(Math.random() * 16).toString(16))
+              .join('');
+            return cb(null, `${randomName}${extname(file.originalname)}`);
+          },
+        }),
+      },
+    ),
+  )
+  async addImageWatermark(
+    @UploadedFiles() files: { file?: Express.Multer.File[]; logo?: Express.Multer.File[] },
+    @Body() dto: ImageWatermarkDto,
+  ) {
+    const file = files?.file?.[0];
+    const logo = files?.logo?.[0];
+    const logoPath = await this.resolveLogoPath(logo, dto.logoMediaId);
+
+    return this.enqueueUploaded('video.watermark-image', file, 'logo-watermarked', {
+      logoPath,
+      deleteLogo: !!logo,
+      options: this.imageWatermarkOptions(dto),
+    }, 'Logo watermark queued');
+  }
 
-      return {
-        message: 'Video metadata detected successfully',
-        metadata,
-      };
-    } catch (error) {
-      throw new InternalServerErrorException(
-        'Resolution detection failed',
-        error.message,
-      );
+  @Post('by-id/watermark-image')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(FileInterceptor('logo', { storage: logoStorage }))
+  async addImageWatermarkById(
+    @UploadedFile() logo: Express.Multer.File,
+    @Body() dto: ImageWatermarkByIdDto,
+    @Request() req,
+  ) {
+    const logoPath = await this.resolveLogoPath(logo, dto.logoMediaId);
+
+    return this.enqueueById('video.watermark-image', dto, req.user.id, 'logo-watermarked', {
+      logoPath,
+      deleteLogo: !!logo,
+      options: this.imageWatermarkOptions(dto),
+    }, 'Logo watermark queued');
+  }
+
+  /**
+   * Logo comes from an upload or, failing that, from the media library
+   */
+  private async resolveLogoPath(logo: Express.Multer.File | undefined, logoMediaId?: string) {
+    if (logo) {
+      return logo.path;
+    }
+    if (!logoMediaId) {
+      throw new BadRequestException('Upload a logo file or provide logoMediaId');
     }
+    return this.videoService.getLocalFilePath(logoMediaId);
   }
 
-  @Post('by-id/validate')
-  async validateVideo(@Body() dto: ValidateVideoDto) {
+  private imageWatermarkOptions(dto: ImageWatermarkDto) {
+    if (dto.startTime !== undefined && dto.endTime !== undefined && dto.endTime <= dto.startTime) {
+      throw new BadRequestException('endTime must be after startTime');
+    }
+    return {
+      position: dto.position,
+      opacity: dto.opacity,
+      scale: dto.scale,
+      startTime: dto.startTime,
+      endTime: dto.endTime,
+    };
+  }
+
+  // ========================================
+  // VISUAL FILTER ENDPOINTS
+  // ========================================
+
+  @Post('filters')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(videoUpload)
+  async applyFilters(@UploadedFile() file: Express.Multer.File, @Body() dto: VideoFiltersDto) {
+    this.checkFilters(dto.filters);
+    return this.enqueueUploaded('video.filters', file, 'filtered', {
+      filters: dto.filters,
+    }, 'Video filters queued');
+  }
+
+  @Post('by-id/filters')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async applyFiltersById(@Body() dto: VideoFiltersByIdDto, @Request() req) {
+    this.checkFilters(dto.filters);
+    return this.enqueueById('video.filters', dto, req.user.id, 'filtered', {
+      filters: dto.filters,
+    }, 'Video filters queued');
+  }
+
+  /**
+   * Rejects incomplete steps (e.g. crop without a size) before queueing.
+   * The real duration is only known once the job runs.
+   */
+  private checkFilters(steps: VideoFilterStep[]) {
     try {
-      const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
-      const validation = await this.videoService.validateVideo(
-        inputPath,
-        dto.minWidth,
-        dto.minHeight,
-        dto.maxDuration,
-      );
-
-      return {
-        message: validation.valid
-          ? 'Video validation passed'
-          : 'Video validation failed',
-        ...validation,
-      };
+      buildVideoFilterGraph(steps, Number.MAX_SAFE_INTEGER);
     } catch (error) {
-      throw new InternalServerErrorException(
-        'Video validation failed',
-        error.message,
-      );
+      throw new BadRequestException(error.message);
     }
   }
-}
 
+  // ========================================
+  // AUDIO EDITING ENDPOINTS
+  // Library media IDs supply replacement audio and background music
+  // ========================================
+
+  @Post('remove-audio')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(videoUpload)
+  async removeAudio(@UploadedFile() file: Express.Multer.File) {
+    return this.enqueueUploaded('video.remove-audio', file, 'muted', {}, 'Audio removal queued');
+  }
+
+  @Post('replace-audio')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(videoUpload)
+  async replaceAudio(@UploadedFile() file: Express.Multer.File, @Body() dto: ReplaceAudioDto) {
+    const audioPath = await this.videoService.getLocalFilePath(dto.audioMediaId);
+    return this.enqueueUploaded('video.replace-audio', file, 'new-audio', { audioPath }, 'Audio replacement queued');
+  }
+
+  @Post('background-music')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(videoUpload)
+  async addBackgroundMusic(@UploadedFile() file: Express.Multer.File, @Body() dto: BackgroundMusicDto) {
+    const musicPath = await this.videoService.getLocalFilePath(dto.musicMediaId);
+    return this.enqueueUploaded('video.background-music', file, 'music', {
+      musicPath,
+      musicVolume: dto.musicVolume,
+      ducking: dto.ducking,
+      loop: dto.loop,
+    }, 'Background music mixing queued');
+  }
+
+  @Post('normalize-audio')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(videoUpload)
+  async normalizeAudio(@UploadedFile() file: Express.Multer.File, @Body() dto: NormalizeAudioDto) {
+    return this.enqueueUploaded('video.normalize-audio', file, 'normalized', {
+      integratedLoudness: dto.integratedLoudness,
+      truePeak: dto.truePeak,
+      loudnessRange: dto.loudnessRange,
+    }, 'Loudness normalization queued');
+  }
+
+  @Post('audio-fade')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(videoUpload)
+  async fadeAudio(@UploadedFile() file: Express.Multer.File, @Body() dto: AudioFadeDto) {
+    if (!dto.fadeIn && !dto.fadeOut) {
+      throw new BadRequestException('fadeIn or fadeOut must be greater than 0');
+    }
+    return this.enqueueUploaded('video.audio-fade', file, 'faded', {
+      fadeIn: dto.fadeIn,
+      fadeOut: dto.fadeOut,
+    }, 'Audio fade queued');
+  }
+
+  @Post('volume')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(videoUpload)
+  async adjustVolume(@UploadedFile() file: Express.Multer.File, @Body() dto: VolumeDto) {
+    return this.enqueueUploaded('video.volume', file, `volume-${dto.gainDb}db`, {
+      gainDb: dto.gainDb,
+    }, 'Volume adjustment queued');
+  }
+
+  @Post('audio-delay')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(videoUpload)
+  async adjustAudioDelay(@UploadedFile() file: Express.Multer.File, @Body() dto: AudioDelayDto) {
+    return this.enqueueUploaded('video.audio-delay', file, 'synced', {
+      offset: dto.offset,
+    }, 'Audio delay adjustment queued');
+  }
+
+  @Post('by-id/remove-audio')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async removeAudioById(@Body() dto: RemoveAudioByIdDto, @Request() req) {
+    return this.enqueueById('video.remove-audio', dto, req.user.id, 'muted', {}, 'Audio removal queued');
+  }
+
+  @Post('by-id/replace-audio')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async replaceAudioById(@Body() dto: ReplaceAudioByIdDto, @Request() req) {
+    const audioPath = await this.videoService.getLocalFilePath(dto.audioMediaId);
+    return this.enqueueById('video.replace-audio', dto, req.user.id, 'new-audio', { audioPath }, 'Audio replacement queued');
+  }
+
+  @Post('by-id/background-music')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async addBackgroundMusicById(@Body() dto: BackgroundMusicByIdDto, @Request() req) {
+    const musicPath = await this.videoService.getLocalFilePath(dto.musicMediaId);
+    return this.enqueueById('video.background-music', dto, req.user.id, 'music', {
+      musicPath,
+      musicVolume: dto.musicVolume,
+      ducking: dto.ducking,
+      loop: dto.loop,
+    }, 'Background music mixing queued');
+  }
+
+  @Post('by-id/normalize-audio')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async normalizeAudioById(@Body() dto: NormalizeAudioByIdDto, @Request() req) {
+    return this.enqueueById('video.normalize-audio', dto, req.user.id, 'normalized', {
+      integratedLoudness: dto.integratedLoudness,
+      truePeak: dto.truePeak,
+      loudnessRange: dto.loudnessRange,
+    }, 'Loudness normalization queued');
+  }
+
+  @Post('by-id/audio-fade')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async fadeAudioById(@Body() dto: AudioFadeByIdDto, @Request() req) {
+    if (!dto.fadeIn && !dto.fadeOut) {
+      throw new BadRequestException('fadeIn or fadeOut must be greater than 0');
+    }
+    return this.enqueueById('video.audio-fade', dto, req.user.id, 'faded', {
+      fadeIn: dto.fadeIn,
+      fadeOut: dto.fadeOut,
+    }, 'Audio fade queued');
+  }
+
+  @Post('by-id/volume')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async adjustVolumeById(@Body() dto: VolumeByIdDto, @Request() req) {
+    return this.enqueueById('video.volume', dto, req.user.id, `volume-${dto.gainDb}db`, {
+      gainDb: dto.gainDb,
+    }, 'Volume adjustment queued');
+  }
+
+  @Post('by-id/audio-delay')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async adjustAudioDelayById(@Body() dto: AudioDelayByIdDto, @Request() req) {
+    return this.enqueueById('video.audio-delay', dto, req.user.id, 'synced', {
+      offset: dto.offset,
+    }, 'Audio delay adjustment queued');
+  }
+
+  // ========================================
+  // ADAPTIVE STREAMING ENDPOINTS
+  // ========================================
+
+  @Post('by-id/hls')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async packageHls(@Body() dto: HlsByIdDto, @Request() req) {
+    if (dto.dash && dto.segmentFormat === 'ts') {
+      throw new BadRequestException('DASH output requires fMP4 segments');
+    }
+
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const packageId = `hls-${Date.now()}`;
+    const workDir = join('./temp', `${baseFilename}-${packageId}`);
+
+    const job = await this.jobsService.enqueue('video.hls', {
+      inputPath,
+      workDir,
+      packageId,
+      segmentFormat: dto.segmentFormat,
+      segmentDuration: dto.segmentDuration,
+      renditions: dto.renditions,
+      dash: dto.dash,
+      mediaId: dto.mediaId,
+    }, { userId: req.user.id, sourceMediaId: dto.mediaId });
+
+    return this.queued(job, dto.dash ? 'HLS/DASH packaging queued' : 'HLS packaging queued');
+  }
+
+  // ========================================
+  // PIPELINE & RECIPE ENDPOINTS
+  // ========================================
+
+  @Post('by-id/pipeline')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async runPipelineById(@Body() dto: PipelineByIdDto, @Request() req) {
+    return this.enqueuePipeline(dto, req.user.id, dto.steps, 'pipeline');
+  }
+
+  @Get('recipes')
+  @UseGuards(JwtAuthGuard)
+  async listRecipes(@Request() req) {
+    return this.recipesService.findAll(req.user.id);
+  }
+
+  @Post('recipes')
+  @UseGuards(JwtAuthGuard)
+  async createRecipe(@Body() dto: CreateVideoRecipeDto, @Request() req) {
+    return this.recipesService.create(dto, req.user.id);
+  }
+
+  @Get('recipes/:name')
+  @UseGuards(JwtAuthGuard)
+  async getRecipe(@Param('name') name: string, @Request() req) {
+    return this.recipesService.findByName(name, req.user.id);
+  }
+
+  @Put('recipes/:name')
+  @UseGuards(JwtAuthGuard)
+  async updateRecipe(@Param('name') name: string, @Body() dto: UpdateVideoRecipeDto, @Request() req) {
+    return this.recipesService.update(name, dto, req.user.id);
+  }
+
+  @Delete('recipes/:name')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteRecipe(@Param('name') name: string, @Request() req) {
+    await this.recipesService.remove(name, req.user.id);
+  }
+
+  @Post('recipes/:name/run')
+  @UseGuards(JwtAuthGuard)
+  @HttpCode(HttpStatus.ACCEPTED)
+  async runRecipe(@Param('name') name: string, @Body() dto: RunVideoRecipeDto, @Request() req) {
+    const recipe = await this.recipesService.findByName(name, req.user.id);
+    return this.enqueuePipeline(dto, req.user.id, recipe.steps as PipelineStep[], recipe.name);
+  }
+
+  /**
+   * Queues a pipeline for a library video. Intermediates go to a private
+   * work directory; only the final video and any thumbnails are kept.
+   */
+  private async enqueuePipeline(
+    dto: { mediaId: string; folderId?: string },
+    userId: string,
+    steps: PipelineStep[],
+    recipe: string,
+  ) {
+    const passes = this.recipesService.validateSteps(steps);
+    const inputPath = await this.videoService.getLocalFilePath(dto.mediaId);
+    const baseFilename = inputPath.split('/').pop().split('.')[0];
+    const runId = `${recipe}-${baseFilename}-${Date.now()}`;
+
+    const job = await this.jobsService.enqueue('video.pipeline', {
+      inputPath,
+      outputPath: join('./uploads/videos', `${runId}.mp4`),
+      workDir: join('./temp', runId),
+      outputDir: join('./uploads/thumbnails', runId),
+      steps,
+      recipe,
+      mediaId: dto.mediaId,
+      folderId: dto.folderId,
+      userId,
+    }, { userId, sourceMediaId: dto.mediaId });
+
+    return {
+      ...this.queued(job, `Pipeline queued (${steps.length} steps, ${passes} FFmpeg passes)`),
+      recipe,
+    };
+  }
+}
@@ -1,14 +1,21 @@
 import { Module } from '@nestjs/common';
 import { VideoService } from './video.service';
 import { VideoController } from './video.controller';
+import { VideoJobHandlers } from './video-job.handlers';
 import { MediaModule } from '../media/media.module';
 import { PrismaModule } from '../prisma/prisma.module';
+import { JobsModule } from '../jobs/jobs.module';
+import { StorageModule } from '../storage/storage.module';
+import { ProcessedMediaModule } from '../processed-media/processed-media.module';
+import { AdaptiveStreamingService } from './adaptive-streaming.service';
+import { VideoRecipesService } from './video-recipes.service';
+import { MediaProbeService } from './media-probe.service';
+import { ConfigModule } from '../config/config.module';
 
 @Module({
-  imports: [MediaModule, PrismaModule],
+  imports: [MediaModule, PrismaModule, JobsModule, StorageModule, ProcessedMediaModule, ConfigModule],
   controllers: [VideoController],
-  providers: [VideoService],
-  exports: [VideoService],
+  providers: [VideoService, VideoJobHandlers, AdaptiveStreamingService, VideoRecipesService, MediaProbeService],
+  exports: [VideoService, MediaProbeService],
 })
 export class VideoModule {}
-
@@ -4,8 +4,220 @@ import ffmpegStatic from 'ffmpeg-static';
 import { unlink, copyFile } from 'fs/promises';
 import { join } from 'path';
 import { existsSync } from 'fs';
+import * as sharp from 'sharp';
 import { MediaService } from '../media/media.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { buildDashManifest, parseMediaPlaylist } from './dash-manifest';
+import { buildMasterPlaylist } from './hls-playlist';
+import { buildThumbnailTrack } from './webvtt';
+import { VideoFilterStep, buildVideoFilterGraph } from './video-filters';
+import { PipelineStep, escapeDrawtext, escapeFilterValue, planPipeline } from './video-pipeline';
+import { GridLayout, PipPosition, buildGridFilter, buildPipFilter } from './video-composition';
+import {
+  DeadSegmentKind,
+  TimeInterval,
+  TrimRange,
+  computeTrimRange,
+  coverageRatio,
+  parseBlackdetect,
+  parseFreezedetect,
+  parseSilencedetect,
+} from './dead-segments';
+import {
+  Scene,
+  buildChaptersVtt,
+  buildFfmetadataChapters,
+  buildScenes,
+  parseSceneCuts,
+} from './scene-detection';
+import {
+  FfmpegProgress,
+  FfmpegStage,
+  computeProgress,
+  parseDurationLine,
+  parseProgressLine,
+  parseTimestamp,
+} from './ffmpeg-progress';
+
+export interface FfmpegRunOptions {
+  /** Receives parsed progress each time FFmpeg prints a status line */
+  onProgress?: (progress: FfmpegProgress) => void;
+  /** Kills the FFmpeg child when aborted */
+  signal?: AbortSignal;
+}
+
+export interface SpriteSheetOptions {
+  /** Seconds between sampled frames */
+  interval?: number;
+  /** Tile width in pixels; height follows the source aspect ratio */
+  tileWidth?: number;
+  columns?: number;
+  rows?: number;
+  format?: 'jpeg' | 'webp';
+  quality?: number;
+}
+
+export interface SpriteSheetResult {
+  sheets: Array<{ path: string; width: number; height: number; frames: number }>;
+  vttPath: string;
+  tileWidth: number;
+  tileHeight: number;
+  interval: number;
+  frames: number;
+}
+
+export interface ImageWatermarkOptions {
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+  /** 0-1 */
+  opacity?: number;
+  /** Logo width relative to the frame width, 0-1 */
+  scale?: number;
+  /** Seconds; the logo is shown from startTime until endTime when set */
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface PipelineResult {
+  /** Number of FFmpeg passes the recipe was planned into */
+  passes: number;
+  thumbnails: string[];
+}
+
+export interface PictureInPictureOptions {
+  position?: PipPosition;
+  /** Overlay width relative to the main video width */
+  size?: number;
+  /** Distance from the corner in pixels */
+  margin?: number;
+  /** Which input's audio track is kept */
+  audioFrom?: 'main' | 'overlay' | 'none';
+}
+
+export interface VideoGridOptions {
+  layout?: GridLayout;
+  cellWidth?: number;
+  cellHeight?: number;
+  /** Index of the input whose audio is kept; undefined drops audio */
+  audioFrom?: number;
+}
+
+export type AnimatedPreviewFormat = 'gif' | 'webp' | 'apng';
+
+export interface AnimatedPreviewOptions {
+  format?: AnimatedPreviewFormat;
+  /** Seconds */
+  startTime: number;
+  /** Seconds */
+  endTime: number;
+  fps?: number;
+  width?: number;
+  /** Number of plays; 0 loops forever */
+  loop?: number;
+  /** WebP quality (1-100) */
+  quality?: number;
+}
+
+export interface AnimatedPreviewResult {
+  width: number;
+  height: number;
+  frames: number;
+}
+
+export interface DeadSegmentOptions {
+  /** Detectors to run; all by default */
+  kinds?: DeadSegmentKind[];
+  /** Shortest black run to report, in seconds */
+  blackMinDuration?: number;
+  /** Luminance (0-1) below which a pixel counts as black */
+  pixelThreshold?: number;
+  /** Level below which audio counts as silent, in dB */
+  silenceNoiseDb?: number;
+  silenceMinDuration?: number;
+  /** Frame difference below which video counts as frozen, in dB */
+  freezeNoiseDb?: number;
+  freezeMinDuration?: number;
+}
+
+export interface DeadSegmentReport {
+  duration: number;
+  black: TimeInterval[];
+  silence: TimeInterval[];
+  freeze: TimeInterval[];
+  /** Share of the duration covered by each kind, from 0 to 1 */
+  ratios: Record<DeadSegmentKind, number>;
+}
+
+export interface ContentQualityLimits {
+  /** Reject when more than this share (0-1) of the video is black */
+  maxBlackRatio?: number;
+  /** Reject when more than this share (0-1) of the audio is silent */
+  maxSilenceRatio?: number;
+}
+
+export type SubtitlePosition =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'center'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right';
+
+export interface SubtitleStyle {
+  fontName?: string;
+  fontSize?: number;
+  /** Hex colour, e.g. #FFFFFF */
+  fontColor?: string;
+  position?: SubtitlePosition;
+}
+
+export interface SubtitleStream {
+  /** Index among the subtitle streams (for -map 0:s:N) */
+  index: number;
+  language?: string;
+  codec: string;
+}
+
+export type HlsSegmentFormat = 'ts' | 'fmp4';
+
+export interface HlsRendition {
+  label: string;
+  width: number;
+  height: number;
+  /** Peak video bandwidth in bits per second; the master playlist adds the audio rendition */
+  bandwidth: number;
+  codecs: string;
+  /** Rendition directory, relative to the package directory */
+  directory: string;
+  playlist: string;
+  files: string[];
+}
+
+/** Audio-only rendition shared by every video rendition of a package */
+export interface HlsAudioRendition {
+  label: string;
+  /** Peak audio bandwidth in bits per second */
+  bandwidth: number;
+  codecs: string;
+  samplingRate: number;
+  channels: number;
+  directory: string;
+  playlist: string;
+  files: string[];
+}
+
+export interface HlsPackage {
+  outputDir: string;
+  masterPlaylist: string;
+  segmentFormat: HlsSegmentFormat;
+  segmentDuration: number;
+  duration: number;
+  renditions: HlsRendition[];
+  /** Absent when the source has no audio stream */
+  audio?: HlsAudioRendition;
+  /** MPD referencing the same fMP4 segments, when written */
+  dashManifest?: string;
+}
 
 @Injectable()
 export class VideoService {
@@ -20,23 +232,64 @@ export class VideoService {
   /**
    * Runs an FFmpeg command with the provided arguments.
    * @param args The command-line arguments for FFmpeg.
-   * @returns A Promise that resolves when the command completes successfully.
+   * @param runOptions Optional progress callback and abort signal.
+   * @param stage Position of this pass within a multi-pass operation.
+   * @returns A Promise that resolves with FFmpeg's stderr when the command completes successfully.
    */
-  private async runFfmpegCommand(args: string[]): Promise<void> {
+  async runFfmpegCommand(
+    args: string[],
+    runOptions?: FfmpegRunOptions,
+    stage: FfmpegStage = { index: 0, count: 1 },
+  ): Promise<string> {
+    const signal = runOptions?.signal;
+    if (signal?.aborted) {
+      throw new Error('FFmpeg command cancelled');
+    }
+
     return new Promise((resolve, reject) => {
       const ffmpegProcess = spawn(this.ffmpegPath, args, {
         stdio: ['ignore', 'pipe', 'pipe'],
       });
 
+      const onAbort = () => {
+        this.logger.warn(`Killing FFmpeg process ${ffmpegProcess.pid} (cancelled)`);
+        ffmpegProcess.kill('SIGKILL');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       let stderr = '';
+      let pending = '';
+      let duration = stage.duration;
       ffmpegProcess.stderr.on('data', (data) => {
-        stderr += data.toString();
+        const chunk = data.toString();
+        stderr += chunk;
+
+        if (!runOptions?.onProgress) return;
+
+        // Status lines are terminated by \r, banner lines by \n
+        pending += chunk;
+        const lines = pending.split(/[\r\n]+/);
+        pending = lines.pop();
+
+        for (const line of lines) {
+          if (!duration) {
+            duration = parseDurationLine(line);
+          }
+          const stats = parseProgressLine(line);
+          if (stats) {
+            runOptions.onProgress(computeProgress(stats, stage, duration));
+          }
+        }
       });
 
       ffmpegProcess.on('close', (code) => {
-        if (code === 0) {
+        signal?.removeEventListener('abort', onAbort);
+
+        if (signal?.aborted) {
+          reject(new Error('FFmpeg command cancelled'));
+        } else if (code === 0) {
           this.logger.log('FFmpeg command completed successfully.');
-          resolve();
+          resolve(stderr);
         } else {
           this.logger.error(`FFmpeg process exited with code ${code}.`);
           this.logger.error(`FFmpeg stderr: ${stderr}`);
@@ -57,12 +310,14 @@ export class VideoService {
    * @param outputPath Path where the compressed video will be saved.
    * @param crf Quality setting (lower is better quality, larger file size)
    * @param audioBitrate Audio bitrate setting
+   * @param runOptions Optional progress callback and abort signal
    */
   async compressVideo(
     inputPath: string,
     outputPath: string,
     crf: number = 28,
     audioBitrate: string = '128k',
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
     const args = [
       '-i',
@@ -82,7 +337,7 @@ export class VideoService {
     ];
 
     this.logger.log(`Compressing video from ${inputPath} to ${outputPath}...`);
-    await this.runFfmpegCommand(args);
+    await this.runFfmpegCommand(args, runOptions);
   }
 
   /**
@@ -117,8 +372,13 @@ export class VideoService {
    * Converts a video to a different format, e.g., MP4 to WebM.
    * @param inputPath Path to the video file.
    * @param outputPath Path where the converted video will be saved.
+   * @param runOptions Optional progress callback and abort signal
    */
-  async convertToWebm(inputPath: string, outputPath: string): Promise<void> {
+  async convertToWebm(
+    inputPath: string,
+    outputPath: string,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
     const args = [
       '-i',
       inputPath,
@@ -131,7 +391,7 @@ export class VideoService {
     ];
 
     this.logger.log(`Converting video from ${inputPath} to ${outputPath}...`);
-    await this.runFfmpegCommand(args);
+    await this.runFfmpegCommand(args, runOptions);
   }
 
   /**
@@ -140,12 +400,14 @@ export class VideoService {
    * @param outputPath Path where the trimmed video will be saved.
    * @param startTime Start time (format: HH:MM:SS or seconds)
    * @param duration Duration to extract (format: HH:MM:SS or seconds)
+   * @param runOptions Optional progress callback and abort signal
    */
   async trimVideo(
     inputPath: string,
     outputPath: string,
     startTime: string,
     duration?: string,
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
     const args = ['-i', inputPath, '-ss', startTime];
 
@@ -158,7 +420,11 @@ export class VideoService {
     this.logger.log(
       `Trimming video from ${inputPath} starting at ${startTime}${duration ? ` for ${duration}` : ''}...`,
     );
-    await this.runFfmpegCommand(args);
+    await this.runFfmpegCommand(args, runOptions, {
+      index: 0,
+      count: 1,
+      duration: parseTimestamp(duration),
+    });
   }
 
   /**
@@ -166,11 +432,13 @@ export class VideoService {
    * @param inputPath Path to the video file.
    * @param outputPath Path where the rotated video will be saved.
    * @param rotation Rotation angle (90, 180, 270)
+   * @param runOptions Optional progress callback and abort signal
    */
   async rotateVideo(
     inputPath: string,
     outputPath: string,
     rotation: 90 | 180 | 270,
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
     // FFmpeg transpose values:
     // 1 = 90 clockwise
@@ -198,7 +466,7 @@ export class VideoService {
     ];
 
     this.logger.log(`Rotating video ${inputPath} by ${rotation} degrees...`);
-    await this.runFfmpegCommand(args);
+    await this.runFfmpegCommand(args, runOptions);
   }
 
   /**
@@ -206,11 +474,13 @@ export class VideoService {
    * @param inputPath Path to the video file.
    * @param outputPath Path where the output video will be saved.
    * @param speed Speed multiplier (0.25-4.0, where 1.0 is normal speed)
+   * @param runOptions Optional progress callback and abort signal
    */
   async changeSpeed(
     inputPath: string,
     outputPath: string,
     speed: number,
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
     const videoSpeed = 1 / speed;
     const audioSpeed = speed;
@@ -228,8 +498,15 @@ export class VideoService {
       outputPath,
     ];
 
+    // Output runs 1/speed as long as the input, so the banner duration can't be used
+    const inputDuration = runOptions?.onProgress ? await this.probeDuration(inputPath) : undefined;
+
     this.logger.log(`Changing video speed to ${speed}x...`);
-    await this.runFfmpegCommand(args);
+    await this.runFfmpegCommand(args, runOptions, {
+      index: 0,
+      count: 1,
+      duration: inputDuration ? inputDuration / speed : undefined,
+    });
   }
 
   /**
@@ -237,11 +514,13 @@ export class VideoService {
    * @param inputPath Path to the video file.
    * @param outputPath Path where the audio will be saved.
    * @param format Audio format (mp3, aac, wav)
+   * @param runOptions Optional progress callback and abort signal
    */
   async extractAudio(
     inputPath: string,
     outputPath: string,
     format: 'mp3' | 'aac' | 'wav' = 'mp3',
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
     const codecMap = {
       mp3: 'libmp3lame',
@@ -260,7 +539,313 @@ export class VideoService {
     ];
 
     this.logger.log(`Extracting audio from ${inputPath} as ${format}...`);
-    await this.runFfmpegCommand(args);
+    await this.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Removes all audio tracks from a video. The video stream is copied.
+   * @param inputPath Path to the video file.
+   * @param outputPath Path where the silent video will be saved.
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async removeAudio(
+    inputPath: string,
+    outputPath: string,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const args = ['-i', inputPath, '-c:v', 'copy', '-an', '-y', outputPath];
+
+    this.logger.log(`Removing audio from ${inputPath}...`);
+    await this.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Replaces the audio of a video with the audio of another file. The output
+   * ends with the shorter of the two.
+   * @param inputPath Path to the video file.
+   * @param audioPath Path to the file providing the new audio (audio or video)
+   * @param outputPath Path where the video will be saved.
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async replaceAudio(
+    inputPath: string,
+    audioPath: string,
+    outputPath: string,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const args = [
+      '-i',
+      inputPath,
+      '-i',
+      audioPath,
+      '-map',
+      '0:v:0',
+      '-map',
+      '1:a:0',
+      '-c:v',
+      'copy',
+      '-c:a',
+      'aac',
+      '-b:a',
+      '192k',
+      '-shortest',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Replacing audio of ${inputPath} with ${audioPath}...`);
+    await this.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Mixes background music under the existing audio. With ducking the music
+   * is compressed whenever the original track (e.g. a voice-over) is loud.
+   * Videos without audio simply get the music as their track.
+   * @param inputPath Path to the video file.
+   * @param musicPath Path to the music file
+   * @param outputPath Path where the video will be saved.
+   * @param options Music volume (0-1), ducking and looping
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async addBackgroundMusic(
+    inputPath: string,
+    musicPath: string,
+    outputPath: string,
+    options: { musicVolume?: number; ducking?: boolean; loop?: boolean } = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const musicVolume = options.musicVolume ?? 0.3;
+    const ducking = options.ducking ?? true;
+    const loop = options.loop ?? true;
+    const hasAudio = await this.hasAudioStream(inputPath);
+
+    let filter: string;
+    if (!hasAudio) {
+      filter = `[1:a]volume=${musicVolume}[aout]`;
+    } else if (ducking) {
+      filter = [
+        '[0:a]asplit=2[main][sidechain]',
+        `[1:a]volume=${musicVolume}[music]`,
+        '[music][sidechain]sidechaincompress=threshold=0.05:ratio=8:attack=20:release=400[ducked]',
+        '[main][ducked]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[aout]',
+      ].join(';');
+    } else {
+      filter = [
+        `[1:a]volume=${musicVolume}[music]`,
+        '[0:a][music]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[aout]',
+      ].join(';');
+    }
+
+    const args = [
+      '-i',
+      inputPath,
+      ...(loop ? ['-stream_loop', '-1'] : []),
+      '-i',
+      musicPath,
+      '-filter_complex',
+      filter,
+      '-map',
+      '0:v:0',
+      '-map',
+      '[aout]',
+      '-c:v',
+      'copy',
+      '-c:a',
+      'aac',
+      '-b:a',
+      '192k',
+      '-shortest',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Adding background music${ducking && hasAudio ? ' with ducking' : ''}...`);
+    await this.runFfmpegCommand(args, runOptions, {
+      index: 0,
+      count: 1,
+      duration: await this.probeDuration(inputPath),
+    });
+  }
+
+  /**
+   * Normalizes loudness to EBU R128 with two-pass loudnorm: the first pass
+   * measures the input, the second applies a linear correction.
+   * @param inputPath Path to the video file.
+   * @param outputPath Path where the video will be saved.
+   * @param target Integrated loudness (LUFS), true peak (dBTP) and loudness range
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async normalizeLoudness(
+    inputPath: string,
+    outputPath: string,
+    target: { integratedLoudness?: number; truePeak?: number; loudnessRange?: number } = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<{ measured: Record<string, string> }> {
+    const I = target.integratedLoudness ?? -16;
+    const TP = target.truePeak ?? -1.5;
+    const LRA = target.loudnessRange ?? 11;
+    const duration = await this.probeDuration(inputPath);
+
+    const stderr = await this.runFfmpegCommand(
+      ['-i', inputPath, '-af', `loudnorm=I=${I}:TP=${TP}:LRA=${LRA}:print_format=json`, '-vn', '-f', 'null', '-'],
+      runOptions,
+      { label: 'measure', index: 0, count: 2, duration },
+    );
+
+    // loudnorm prints its measurements as the last JSON object in stderr
+    const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1);
+    let measured: Record<string, string>;
+    try {
+      measured = JSON.parse(json);
+    } catch (error) {
+      throw new Error('Could not read loudness measurements');
+    }
+
+    const args = [
+      '-i',
+      inputPath,
+      '-af',
+      [
+        `loudnorm=I=${I}:TP=${TP}:LRA=${LRA}`,
+        `measured_I=${measured.input_i}`,
+        `measured_TP=${measured.input_tp}`,
+        `measured_LRA=${measured.input_lra}`,
+        `measured_thresh=${measured.input_thresh}`,
+        `offset=${measured.target_offset}`,
+        'linear=true',
+      ].join(':'),
+      '-c:v',
+      'copy',
+      '-c:a',
+      'aac',
+      '-b:a',
+      '192k',
+      // loudnorm resamples to 192 kHz internally
+      '-ar',
+      '48000',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Normalizing loudness to ${I} LUFS (measured ${measured.input_i} LUFS)...`);
+    await this.runFfmpegCommand(args, runOptions, { label: 'normalize', index: 1, count: 2, duration });
+    return { measured };
+  }
+
+  /**
+   * Applies audio fade in and/or fade out.
+   * @param inputPath Path to the video file.
+   * @param outputPath Path where the video will be saved.
+   * @param fadeIn Fade-in length in seconds (0 to skip)
+   * @param fadeOut Fade-out length in seconds (0 to skip)
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async fadeAudio(
+    inputPath: string,
+    outputPath: string,
+    fadeIn: number = 0,
+    fadeOut: number = 0,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const filters: string[] = [];
+    if (fadeIn > 0) {
+      filters.push(`afade=t=in:st=0:d=${fadeIn}`);
+    }
+    if (fadeOut > 0) {
+      const duration = await this.probeDuration(inputPath);
+      if (!duration) {
+        throw new Error('Could not determine video duration for fade out');
+      }
+      filters.push(`afade=t=out:st=${Math.max(duration - fadeOut, 0)}:d=${fadeOut}`);
+    }
+    if (filters.length === 0) {
+      throw new Error('fadeIn or fadeOut must be greater than 0');
+    }
+
+    const args = [
+      '-i',
+      inputPath,
+      '-af',
+      filters.join(','),
+      '-c:v',
+      'copy',
+      '-c:a',
+      'aac',
+      '-b:a',
+      '192k',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Applying audio fade (in ${fadeIn}s, out ${fadeOut}s)...`);
+    await this.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Changes audio volume by a gain in decibels.
+   * @param inputPath Path to the video file.
+   * @param outputPath Path where the video will be saved.
+   * @param gainDb Gain in dB; negative values make it quieter
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async adjustVolume(
+    inputPath: string,
+    outputPath: string,
+    gainDb: number,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const args = [
+      '-i',
+      inputPath,
+      '-af',
+      `volume=${gainDb}dB`,
+      '-c:v',
+      'copy',
+      '-c:a',
+      'aac',
+      '-b:a',
+      '192k',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Adjusting volume by ${gainDb}dB...`);
+    await this.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Shifts audio relative to video to fix lip-sync. Both streams are copied.
+   * @param inputPath Path to the video file.
+   * @param outputPath Path where the video will be saved.
+   * @param offsetSeconds Positive delays the audio, negative delays the video
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async adjustAudioDelay(
+    inputPath: string,
+    outputPath: string,
+    offsetSeconds: number,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    // Read the file twice and offset whichever stream should start later
+    const offset = Math.abs(offsetSeconds).toString();
+    const videoInput = offsetSeconds < 0 ? ['-itsoffset', offset, '-i', inputPath] : ['-i', inputPath];
+    const audioInput = offsetSeconds > 0 ? ['-itsoffset', offset, '-i', inputPath] : ['-i', inputPath];
+
+    const args = [
+      ...videoInput,
+      ...audioInput,
+      '-map',
+      '0:v:0',
+      '-map',
+      '1:a:0',
+      '-c',
+      'copy',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Shifting audio by ${offsetSeconds}s...`);
+    await this.runFfmpegCommand(args, runOptions);
   }
 
   /**
@@ -284,43 +869,761 @@ export class VideoService {
       thumbnailPaths.push(outputPath);
     }
 
-    return thumbnailPaths;
+    return thumbnailPaths;
+  }
+
+  /**
+   * Turns a short segment into a lightweight looping animation. GIFs use a
+   * palette generated for the segment (palettegen, then paletteuse) instead
+   * of the generic 256-color palette.
+   * @param inputPath Path to the video file.
+   * @param outputPath Path where the animation will be saved.
+   * @param options Segment, frame rate, width, loop count and format
+   * @param runOptions Optional progress callback and abort signal
+   * @returns Dimensions and frame count of the animation
+   */
+  async createAnimatedPreview(
+    inputPath: string,
+    outputPath: string,
+    options: AnimatedPreviewOptions,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<AnimatedPreviewResult> {
+    const { format = 'gif', startTime, endTime, fps = 10, width = 480, loop = 0, quality = 75 } = options;
+    if (endTime <= startTime) {
+      throw new Error('endTime must be after startTime');
+    }
+
+    const fs = require('fs-extra');
+    await fs.ensureDir(join(outputPath, '..'));
+
+    const duration = endTime - startTime;
+    const segment = ['-ss', startTime.toString(), '-t', duration.toString(), '-i', inputPath];
+    const frames = `fps=${fps},scale=${width}:-2:flags=lanczos`;
+
+    if (format === 'gif') {
+      const palettePath = join(process.cwd(), 'temp', `palette-${Date.now()}.png`);
+      await fs.ensureDir(join(palettePath, '..'));
+
+      try {
+        this.logger.log(`Generating GIF palette for ${inputPath} (${startTime}s-${endTime}s)...`);
+        await this.runFfmpegCommand(
+          [...segment, '-vf', `${frames},palettegen=stats_mode=diff`, '-y', palettePath],
+          runOptions,
+          { label: 'palette', index: 0, count: 2, duration },
+        );
+
+        // GIF -loop counts repeats after the first play; -1 plays once
+        await this.runFfmpegCommand(
+          [
+            ...segment,
+            '-i',
+            palettePath,
+            '-lavfi',
+            `${frames}[x];[x][1:v]paletteuse=dither=bayer:bayer_scale=5:diff_mode=rectangle`,
+            '-loop',
+            (loop === 0 ? 0 : loop === 1 ? -1 : loop - 1).toString(),
+            '-y',
+            outputPath,
+          ],
+          runOptions,
+          { label: 'encode', index: 1, count: 2, duration },
+        );
+      } finally {
+        await fs.remove(palettePath);
+      }
+    } else {
+      const codecArgs = format === 'webp'
+        ? ['-c:v', 'libwebp', '-lossless', '0', '-q:v', quality.toString(), '-compression_level', '6', '-loop', loop.toString()]
+        : ['-c:v', 'apng', '-plays', loop.toString(), '-f', 'apng'];
+
+      this.logger.log(`Creating animated ${format} from ${inputPath} (${startTime}s-${endTime}s)...`);
+      await this.runFfmpegCommand(
+        [...segment, '-vf', frames, '-an', ...codecArgs, '-y', outputPath],
+        runOptions,
+        { index: 0, count: 1, duration },
+      );
+    }
+
+    const metadata = await sharp(outputPath, { animated: true }).metadata();
+    return {
+      width: metadata.width,
+      height: metadata.pageHeight || metadata.height,
+      frames: metadata.pages || 1,
+    };
+  }
+
+  /**
+   * Samples frames at a fixed interval, tiles them into sprite sheets and
+   * writes a WebVTT track mapping each time range to a `#xywh=` region, for
+   * hover-scrub previews. Cue URLs are relative to the VTT file.
+   * @param inputPath Path to the video file.
+   * @param outputDir Directory for the sheets and the VTT file
+   * @param baseFilename Base filename for outputs
+   * @param options Sampling interval, tile size, grid and image format
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async generateSpriteSheets(
+    inputPath: string,
+    outputDir: string,
+    baseFilename: string,
+    options: SpriteSheetOptions = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<SpriteSheetResult> {
+    const interval = options.interval || 5;
+    const tileWidth = options.tileWidth || 160;
+    const columns = options.columns || 10;
+    const rows = options.rows || 10;
+    const format = options.format || 'jpeg';
+    const quality = options.quality || 75;
+    const extension = format === 'jpeg' ? 'jpg' : 'webp';
+
+    const fs = require('fs-extra');
+    const framesDir = join(process.cwd(), 'temp', `frames-${baseFilename}-${Date.now()}`);
+    await fs.ensureDir(framesDir);
+    await fs.ensureDir(outputDir);
+
+    try {
+      const duration = await this.probeDuration(inputPath);
+      const args = [
+        '-i',
+        inputPath,
+        '-vf',
+        `fps=1/${interval},scale=${tileWidth}:-2`,
+        '-q:v',
+        '3',
+        '-y',
+        join(framesDir, 'frame-%05d.jpg'),
+      ];
+
+      this.logger.log(`Sampling frames every ${interval}s for sprite sheets...`);
+      await this.runFfmpegCommand(args, runOptions, { label: 'frames', index: 0, count: 1, duration });
+
+      const frames: string[] = (await fs.readdir(framesDir))
+        .filter((file: string) => file.endsWith('.jpg'))
+        .sort()
+        .map((file: string) => join(framesDir, file));
+
+      if (frames.length === 0) {
+        throw new Error('No frames could be extracted from the video');
+      }
+
+      const { height: tileHeight } = await sharp(frames[0]).metadata();
+      const perSheet = columns * rows;
+      const sheets: SpriteSheetResult['sheets'] = [];
+      const cues = [];
+
+      for (let offset = 0; offset < frames.length; offset += perSheet) {
+        if (runOptions?.signal?.aborted) {
+          throw new Error('Sprite sheet generation cancelled');
+        }
+
+        const sheetFrames = frames.slice(offset, offset + perSheet);
+        const sheetColumns = Math.min(columns, sheetFrames.length);
+        const sheetRows = Math.ceil(sheetFrames.length / columns);
+        const sheetName = `${baseFilename}-sprite-${sheets.length + 1}.${extension}`;
+        const sheetPath = `${outputDir}/${sheetName}`;
+
+        const tiles = sheetFrames.map((frame, index) => ({
+          input: frame,
+          left: (index % columns) * tileWidth,
+          top: Math.floor(index / columns) * tileHeight,
+        }));
+
+        const sheet = sharp({
+          create: {
+            width: sheetColumns * tileWidth,
+            height: sheetRows * tileHeight,
+            channels: 3,
+            background: { r: 0, g: 0, b: 0 },
+          },
+        }).composite(tiles);
+
+        await (format === 'jpeg' ? sheet.jpeg({ quality }) : sheet.webp({ quality })).toFile(sheetPath);
+
+        tiles.forEach((tile, index) => {
+          const start = (offset + index) * interval;
+          cues.push({
+            start,
+            end: duration ? Math.min(start + interval, duration) : start + interval,
+            url: `${sheetName}#xywh=${tile.left},${tile.top},${tileWidth},${tileHeight}`,
+          });
+        });
+
+        sheets.push({
+          path: sheetPath,
+          width: sheetColumns * tileWidth,
+          height: sheetRows * tileHeight,
+          frames: sheetFrames.length,
+        });
+      }
+
+      const vttPath = `${outputDir}/${baseFilename}-thumbnails.vtt`;
+      await fs.writeFile(vttPath, buildThumbnailTrack(cues));
+
+      this.logger.log(`Created ${sheets.length} sprite sheet(s) from ${frames.length} frames`);
+      return { sheets, vttPath, tileWidth, tileHeight, interval, frames: frames.length };
+    } finally {
+      await fs.remove(framesDir);
+    }
+  }
+
+  /**
+   * Runs FFmpeg scene-change scoring over a video and returns contiguous
+   * scenes with the score of the cut that starts each one.
+   * @param inputPath Path to the video file.
+   * @param threshold Minimum scene score (0-1) for a frame to count as a cut
+   * @param minSceneLength Cuts closer than this many seconds are ignored
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async detectScenes(
+    inputPath: string,
+    threshold: number = 0.3,
+    minSceneLength: number = 1,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<{ duration: number; scenes: Scene[] }> {
+    const duration = await this.probeDuration(inputPath);
+    if (!duration) {
+      throw new Error('Could not determine video duration');
+    }
+
+    const args = [
+      '-i',
+      inputPath,
+      '-vf',
+      `select='gt(scene,${threshold})',metadata=print`,
+      '-an',
+      '-f',
+      'null',
+      '-',
+    ];
+
+    this.logger.log(`Detecting scenes (threshold ${threshold})...`);
+    const stderr = await this.runFfmpegCommand(args, runOptions, { label: 'detect', index: 0, count: 1, duration });
+    const scenes = buildScenes(parseSceneCuts(stderr), duration, minSceneLength);
+
+    this.logger.log(`Detected ${scenes.length} scenes`);
+    return { duration, scenes };
+  }
+
+  /**
+   * Cuts a video into one clip per scene. Clips are re-encoded so cuts land
+   * exactly on the scene boundaries rather than the nearest keyframe.
+   * @param inputPath Path to the video file.
+   * @param outputDir Directory where clips will be saved
+   * @param baseFilename Base filename for outputs
+   * @param scenes Scenes returned by detectScenes
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async splitScenes(
+    inputPath: string,
+    outputDir: string,
+    baseFilename: string,
+    scenes: Scene[],
+    runOptions?: FfmpegRunOptions,
+  ): Promise<Array<{ scene: Scene; path: string }>> {
+    const fs = require('fs');
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    const clips: Array<{ scene: Scene; path: string }> = [];
+    for (const [index, scene] of scenes.entries()) {
+      const outputPath = `${outputDir}/${baseFilename}-scene-${scene.index}.mp4`;
+      const args = [
+        '-ss',
+        scene.start.toString(),
+        '-i',
+        inputPath,
+        '-t',
+        scene.duration.toString(),
+        '-c:v',
+        'libx264',
+        '-crf',
+        '20',
+        '-c:a',
+        'aac',
+        '-b:a',
+        '128k',
+        '-movflags',
+        '+faststart',
+        '-y',
+        outputPath,
+      ];
+
+      await this.runFfmpegCommand(args, runOptions, {
+        label: `scene-${scene.index}`,
+        index,
+        count: scenes.length,
+        duration: scene.duration,
+      });
+      clips.push({ scene, path: outputPath });
+    }
+
+    this.logger.log(`Split video into ${clips.length} scene clips`);
+    return clips;
+  }
+
+  /**
+   * Writes scenes as a WebVTT chapters track and an FFmetadata file.
+   * @param outputDir Directory where the chapter files will be saved
+   * @param baseFilename Base filename for outputs
+   * @param scenes Scenes returned by detectScenes
+   */
+  async writeSceneChapters(
+    outputDir: string,
+    baseFilename: string,
+    scenes: Scene[],
+  ): Promise<{ vttPath: string; ffmetadataPath: string }> {
+    const { mkdir, writeFile } = require('fs/promises');
+    await mkdir(outputDir, { recursive: true });
+
+    const vttPath = `${outputDir}/${baseFilename}-chapters.vtt`;
+    const ffmetadataPath = `${outputDir}/${baseFilename}-chapters.txt`;
+    await writeFile(vttPath, buildChaptersVtt(scenes));
+    await writeFile(ffmetadataPath, buildFfmetadataChapters(scenes));
+
+    return { vttPath, ffmetadataPath };
+  }
+
+  /**
+   * Burns a subtitle file (SRT, VTT or ASS) into the video frames.
+   * @param inputPath Path to the video file.
+   * @param subtitlePath Path to the subtitle file
+   * @param outputPath Path where the captioned video will be saved
+   * @param style Font, size, colour and position overrides
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async burnSubtitles(
+    inputPath: string,
+    subtitlePath: string,
+    outputPath: string,
+    style: SubtitleStyle = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    // ASS alignment uses numpad positions
+    const alignmentMap: Record<SubtitlePosition, number> = {
+      'bottom-left': 1,
+      'bottom-center': 2,
+      'bottom-right': 3,
+      'center': 5,
+      'top-left': 7,
+      'top-center': 8,
+      'top-right': 9,
+    };
+
+    const forceStyle = [
+      `FontName=${style.fontName || 'Arial'}`,
+      `FontSize=${style.fontSize || 24}`,
+      `PrimaryColour=${this.toAssColour(style.fontColor || '#FFFFFF')}`,
+      `Alignment=${alignmentMap[style.position || 'bottom-center']}`,
+      'MarginV=20',
+    ].join(',');
+
+    const args = [
+      '-i',
+      inputPath,
+      '-vf',
+      `subtitles='${escapeFilterValue(subtitlePath)}':force_style='${escapeFilterValue(forceStyle)}'`,
+      '-c:v',
+      'libx264',
+      '-crf',
+      '20',
+      '-c:a',
+      'copy',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Burning subtitles ${subtitlePath} into video...`);
+    await this.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Muxes a subtitle file into the video as a selectable track. Existing
+   * streams, including earlier subtitle tracks, are kept and copied.
+   * @param inputPath Path to the video file.
+   * @param subtitlePath Path to the subtitle file
+   * @param outputPath Path of the output; .mp4 uses mov_text, .mkv uses SRT
+   * @param track Language (ISO 639-2), title and default flag for the new track
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async embedSubtitles(
+    inputPath: string,
+    subtitlePath: string,
+    outputPath: string,
+    track: { language?: string; title?: string; isDefault?: boolean } = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const existing = await this.probeSubtitleStreams(inputPath);
+    const newIndex = existing.length;
+    const codec = outputPath.endsWith('.mkv') ? 'srt' : 'mov_text';
+
+    const args = [
+      '-i',
+      inputPath,
+      '-i',
+      subtitlePath,
+      '-map',
+      '0',
+      '-map',
+      '1:0',
+      '-c',
+      'copy',
+      '-c:s',
+      codec,
+      `-metadata:s:s:${newIndex}`,
+      `language=${track.language || 'eng'}`,
+    ];
+
+    if (track.title) {
+      args.push(`-metadata:s:s:${newIndex}`, `title=${track.title}`);
+    }
+    if (track.isDefault) {
+      args.push(`-disposition:s:${newIndex}`, 'default');
+    }
+
+    args.push('-y', outputPath);
+
+    this.logger.log(`Embedding subtitle track ${newIndex} (${track.language || 'eng'}) as ${codec}...`);
+    await this.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Extracts embedded text subtitle streams to WebVTT files. Bitmap
+   * subtitles (PGS, DVD) cannot be converted to text and are skipped.
+   * @param inputPath Path to the video file.
+   * @param outputDir Directory where the VTT files will be saved
+   * @param baseFilename Base filename for outputs
+   * @param streamIndex Only extract this subtitle stream
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async extractSubtitles(
+    inputPath: string,
+    outputDir: string,
+    baseFilename: string,
+    streamIndex?: number,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<Array<SubtitleStream & { path: string }>> {
+    const bitmapCodecs = ['hdmv_pgs_subtitle', 'dvd_subtitle', 'dvb_subtitle', 'xsub'];
+    const streams = (await this.probeSubtitleStreams(inputPath)).filter(
+      (stream) => streamIndex === undefined || stream.index === streamIndex,
+    );
+
+    if (streams.length === 0) {
+      throw new Error(
+        streamIndex === undefined
+          ? 'Video has no subtitle streams'
+          : `Subtitle stream ${streamIndex} not found`,
+      );
+    }
+
+    const fs = require('fs');
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    const textStreams = streams.filter((stream) => {
+      if (bitmapCodecs.includes(stream.codec)) {
+        this.logger.warn(`Skipping bitmap subtitle stream ${stream.index} (${stream.codec})`);
+        return false;
+      }
+      return true;
+    });
+
+    const extracted: Array<SubtitleStream & { path: string }> = [];
+    for (const [index, stream] of textStreams.entries()) {
+      const outputPath = `${outputDir}/${baseFilename}-${stream.index}-${stream.language || 'und'}.vtt`;
+      await this.runFfmpegCommand(
+        ['-i', inputPath, '-map', `0:s:${stream.index}`, '-c:s', 'webvtt', '-y', outputPath],
+        runOptions,
+        { label: `subtitle-${stream.index}`, index, count: textStreams.length },
+      );
+      extracted.push({ ...stream, path: outputPath });
+    }
+
+    return extracted;
+  }
+
+  /**
+   * Lists the subtitle streams of a video from FFmpeg's stream banner.
+   * @param inputPath Path to the video file.
+   */
+  async probeSubtitleStreams(inputPath: string): Promise<SubtitleStream[]> {
+    const stderr = await this.readStreamBanner(inputPath);
+    const streams: SubtitleStream[] = [];
+    const pattern = /Stream #\d+:\d+(?:\[0x[0-9a-f]+\])?(?:\((\w+)\))?: Subtitle: (\w+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(stderr)) !== null) {
+      streams.push({ index: streams.length, language: match[1], codec: match[2] });
+    }
+    return streams;
+  }
+
+  /**
+   * Checks whether a file has at least one audio stream.
+   * @param inputPath Path to the media file.
+   */
+  async hasAudioStream(inputPath: string): Promise<boolean> {
+    const stderr = await this.readStreamBanner(inputPath);
+    return /Stream #\d+:\d+.*: Audio:/.test(stderr);
+  }
+
+  /**
+   * Returns the input banner FFmpeg prints for a file (streams, duration).
+   */
+  private readStreamBanner(inputPath: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      const ffmpegProcess = spawn(this.ffmpegPath, ['-i', inputPath, '-hide_banner'], {
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+      let output = '';
+      ffmpegProcess.stderr.on('data', (data) => {
+        output += data.toString();
+      });
+      // FFmpeg exits non-zero without an output file; the banner is still printed
+      ffmpegProcess.on('close', () => resolve(output));
+      ffmpegProcess.on('error', (err) => reject(new Error(`Failed to start FFmpeg: ${err.message}`)));
+    });
+  }
+
+  /**
+   * Converts #RRGGBB to the ASS &HAABBGGRR colour format.
+   */
+  private toAssColour(hex: string): string {
+    const value = hex.replace('#', '').padStart(6, '0');
+    const [r, g, b] = [value.slice(0, 2), value.slice(2, 4), value.slice(4, 6)];
+    return `&H00${b}${g}${r}`.toUpperCase();
+  }
+
+  /**
+   * Adds text watermark to video.
+   * @param inputPath Path to the video file.
+   * @param outputPath Path where the watermarked video will be saved.
+   * @param text Watermark text
+   * @param position Position (top-left, top-right, bottom-left, bottom-right, center)
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async addTextWatermark(
+    inputPath: string,
+    outputPath: string,
+    text: string,
+    position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center' = 'bottom-right',
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const positionMap = {
+      'top-left': 'x=10:y=10',
+      'top-right': 'x=w-tw-10:y=10',
+      'bottom-left': 'x=10:y=h-th-10',
+      'bottom-right': 'x=w-tw-10:y=h-th-10',
+      'center': 'x=(w-tw)/2:y=(h-th)/2',
+    };
+
+    const args = [
+      '-i',
+      inputPath,
+      '-vf',
+      `drawtext=text='${escapeDrawtext(text)}':fontcolor=white:fontsize=24:${positionMap[position]}`,
+      '-c:a',
+      'copy',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Adding text watermark "${text}" to video...`);
+    await this.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Overlays an image logo (PNG with transparency works best), the video
+   * counterpart of ImageProcessingService.addWatermark.
+   * @param inputPath Path to the video file.
+   * @param logoPath Path to the logo image
+   * @param outputPath Path where the watermarked video will be saved.
+   * @param options Position, opacity, scale relative to frame width and time window
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async addImageWatermark(
+    inputPath: string,
+    logoPath: string,
+    outputPath: string,
+    options: ImageWatermarkOptions = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const { position = 'bottom-right', opacity = 0.7, scale = 0.1 } = options;
+    const margin = 10;
+
+    const { width } = await this.detectVideoResolution(inputPath);
+    if (!width) {
+      throw new Error('Could not determine video width');
+    }
+    // Even width keeps yuv420p happy once the logo is blended in
+    const logoWidth = Math.max(2, Math.round((width * scale) / 2) * 2);
+
+    const positionMap = {
+      'top-left': `x=${margin}:y=${margin}`,
+      'top-right': `x=W-w-${margin}:y=${margin}`,
+      'bottom-left': `x=${margin}:y=H-h-${margin}`,
+      'bottom-right': `x=W-w-${margin}:y=H-h-${margin}`,
+      'center': 'x=(W-w)/2:y=(H-h)/2',
+    };
+
+    let enable = '';
+    if (options.startTime !== undefined && options.endTime !== undefined) {
+      enable = `:enable='between(t,${options.startTime},${options.endTime})'`;
+    } else if (options.startTime !== undefined) {
+      enable = `:enable='gte(t,${options.startTime})'`;
+    } else if (options.endTime !== undefined) {
+      enable = `:enable='lte(t,${options.endTime})'`;
+    }
+
+    const args = [
+      '-i',
+      inputPath,
+      '-i',
+      logoPath,
+      '-filter_complex',
+      [
+        `[1:v]scale=${logoWidth}:-1,format=rgba,colorchannelmixer=aa=${opacity}[logo]`,
+        `[0:v][logo]overlay=${positionMap[position]}${enable}`,
+      ].join(';'),
+      '-c:a',
+      'copy',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Adding image watermark ${logoPath} to video (${position}, ${logoWidth}px)...`);
+    await this.runFfmpegCommand(args, runOptions);
   }
 
   /**
-   * Adds text watermark to video.
+   * Applies a chain of visual filters (color correction, presets, blur,
+   * sharpen, crop, padding, fades, reverse, stabilization) in a single encode.
    * @param inputPath Path to the video file.
-   * @param outputPath Path where the watermarked video will be saved.
-   * @param text Watermark text
-   * @param position Position (top-left, top-right, bottom-left, bottom-right, center)
+   * @param outputPath Path where the filtered video will be saved.
+   * @param steps Filters in the order they should run
+   * @param runOptions Optional progress callback and abort signal
    */
-  async addTextWatermark(
+  async applyVideoFilters(
     inputPath: string,
     outputPath: string,
-    text: string,
-    position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center' = 'bottom-right',
+    steps: VideoFilterStep[],
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
-    const positionMap = {
-      'top-left': 'x=10:y=10',
-      'top-right': 'x=w-tw-10:y=10',
-      'bottom-left': 'x=10:y=h-th-10',
-      'bottom-right': 'x=w-tw-10:y=h-th-10',
-      'center': 'x=(w-tw)/2:y=(h-th)/2',
-    };
+    const needsDuration = steps.some((step) => step.type === 'fade' && step.fadeOut);
+    const duration = needsDuration ? await this.probeDuration(inputPath) : undefined;
+    const graph = buildVideoFilterGraph(steps, duration);
+
+    const audioArgs = graph.audio && (await this.hasAudioStream(inputPath))
+      ? ['-af', graph.audio, '-c:a', 'aac', '-b:a', '192k']
+      : ['-c:a', 'copy'];
 
     const args = [
       '-i',
       inputPath,
       '-vf',
-      `drawtext=text='${text}':fontcolor=white:fontsize=24:${positionMap[position]}`,
-      '-c:a',
-      'copy',
+      graph.video,
+      '-c:v',
+      'libx264',
+      '-crf',
+      '23',
+      '-preset',
+      'medium',
+      ...audioArgs,
       '-y',
       outputPath,
     ];
 
-    this.logger.log(`Adding text watermark "${text}" to video...`);
-    await this.runFfmpegCommand(args);
+    this.logger.log(`Applying ${steps.length} video filter(s): ${steps.map((step) => step.type).join(' -> ')}`);
+    await this.runFfmpegCommand(args, runOptions);
+  }
+
+  /**
+   * Runs a multi-step recipe (trim, rotate, speed, filters, watermark,
+   * compress, thumbnails) with as few encodes as possible; see planPipeline.
+   * Intermediate files stay in the work directory and are removed afterwards.
+   * @param inputPath Path to the video file.
+   * @param outputPath Path where the final video will be saved.
+   * @param workDir Directory for intermediate encodes
+   * @param thumbnailDir Directory for thumbnails produced by the recipe
+   * @param steps Recipe steps in order
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async runPipeline(
+    inputPath: string,
+    outputPath: string,
+    workDir: string,
+    thumbnailDir: string,
+    steps: PipelineStep[],
+    runOptions?: FfmpegRunOptions,
+  ): Promise<PipelineResult> {
+    const fs = require('fs-extra');
+    const passes = planPipeline(steps, await this.probeDuration(inputPath));
+    const hasAudio = await this.hasAudioStream(inputPath);
+    const lastEncode = passes.map((pass) => pass.kind).lastIndexOf('encode');
+    const thumbnails: string[] = [];
+
+    this.logger.log(`Running ${steps.length}-step pipeline in ${passes.length} pass(es)...`);
+    await fs.ensureDir(workDir);
+
+    try {
+      let current = inputPath;
+
+      for (const [index, pass] of passes.entries()) {
+        const stage = { label: pass.kind, index, count: passes.length, duration: pass.duration };
+
+        if (pass.kind === 'encode') {
+          const target = index === lastEncode ? outputPath : join(workDir, `pass-${index + 1}.mp4`);
+          let audioArgs = ['-c:a', 'copy'];
+          if (!hasAudio) {
+            audioArgs = ['-an'];
+          } else if (pass.audio || pass.audioBitrate) {
+            audioArgs = [...(pass.audio ? ['-af', pass.audio] : []), '-c:a', 'aac', '-b:a', pass.audioBitrate || '192k'];
+          }
+
+          const args = [
+            '-i',
+            current,
+            '-vf',
+            pass.video,
+            '-c:v',
+            'libx264',
+            '-crf',
+            pass.crf.toString(),
+            '-preset',
+            'medium',
+            ...audioArgs,
+            '-y',
+            target,
+          ];
+          await this.runFfmpegCommand(args, runOptions, stage);
+          current = target;
+        } else {
+          const duration = pass.duration ?? (await this.probeDuration(current));
+          if (!duration) {
+            throw new Error('Could not determine video duration for thumbnails');
+          }
+          await fs.ensureDir(thumbnailDir);
+          const prefix = `thumb-${index + 1}`;
+          const args = [
+            '-i',
+            current,
+            '-vf',
+            `fps=${pass.count}/${duration},scale=320:-2`,
+            '-frames:v',
+            pass.count.toString(),
+            '-y',
+            join(thumbnailDir, `${prefix}-%02d.jpg`),
+          ];
+          await this.runFfmpegCommand(args, runOptions, stage);
+
+          const files: string[] = (await fs.readdir(thumbnailDir))
+            .filter((file: string) => file.startsWith(`${prefix}-`))
+            .sort();
+          thumbnails.push(...files.map((file) => join(thumbnailDir, file)));
+        }
+      }
+    } finally {
+      await fs.remove(workDir);
+    }
+
+    return { passes: passes.length, thumbnails };
   }
 
   /**
@@ -329,16 +1632,19 @@ export class VideoService {
    * @param outputDir Directory where output files will be saved.
    * @param baseFilename Base filename for outputs
    * @param qualities Array of quality presets
+   * @param runOptions Optional progress callback and abort signal
    */
   async generateMultipleQualities(
     inputPath: string,
     outputDir: string,
     baseFilename: string,
     qualities: Array<{ label: string; width: number; bitrate: string }>,
+    runOptions?: FfmpegRunOptions,
   ): Promise<Array<{ label: string; path: string }>> {
     const outputs: Array<{ label: string; path: string }> = [];
+    const duration = runOptions?.onProgress ? await this.probeDuration(inputPath) : undefined;
 
-    for (const quality of qualities) {
+    for (const [index, quality] of qualities.entries()) {
       const outputPath = `${outputDir}/${baseFilename}-${quality.label}.mp4`;
       const args = [
         '-i',
@@ -360,13 +1666,220 @@ export class VideoService {
       this.logger.log(
         `Generating ${quality.label} quality (${quality.width}p) video...`,
       );
-      await this.runFfmpegCommand(args);
+      await this.runFfmpegCommand(args, runOptions, {
+        label: quality.label,
+        index,
+        count: qualities.length,
+        duration,
+      });
       outputs.push({ label: quality.label, path: outputPath });
     }
 
     return outputs;
   }
 
+  /**
+   * Packages a video as an HLS ladder: one segmented video-only rendition
+   * per quality, one audio rendition they all share, and a master playlist.
+   * Keeping audio out of the video renditions lets the same segments back a
+   * DASH manifest. Keyframes are forced on segment boundaries so players can
+   * switch renditions at any segment. Qualities wider than the source are
+   * skipped (the smallest one is always kept).
+   * @param inputPath Path to the video file.
+   * @param outputDir Package directory; one sub-directory per rendition is created
+   * @param qualities Array of quality presets
+   * @param segmentFormat 'fmp4' (CMAF, reusable for DASH) or 'ts' (MPEG-TS)
+   * @param segmentDuration Target segment length in seconds
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async generateHlsLadder(
+    inputPath: string,
+    outputDir: string,
+    qualities: Array<{ label: string; width: number; bitrate: string }>,
+    segmentFormat: HlsSegmentFormat = 'fmp4',
+    segmentDuration: number = 6,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<HlsPackage> {
+    const source = await this.detectVideoResolution(inputPath);
+    if (!source.width || !source.height) {
+      throw new Error('Could not determine source video resolution');
+    }
+
+    const ladder = qualities
+      .filter((quality, index) => index === 0 || quality.width <= source.width)
+      .sort((a, b) => a.width - b.width);
+
+    const segmentExtension = segmentFormat === 'fmp4' ? 'm4s' : 'ts';
+    const hasAudio = await this.hasAudioStream(inputPath);
+    const stageCount = ladder.length + (hasAudio ? 1 : 0);
+    const renditions: HlsRendition[] = [];
+    const fs = require('fs');
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    // Muxer options shared by the video and audio renditions
+    const hlsArgs = (directory: string) => [
+      '-f',
+      'hls',
+      '-hls_time',
+      segmentDuration.toString(),
+      '-hls_playlist_type',
+      'vod',
+      '-hls_segment_type',
+      segmentFormat === 'fmp4' ? 'fmp4' : 'mpegts',
+      ...(segmentFormat === 'fmp4' ? ['-hls_fmp4_init_filename', 'init.mp4'] : []),
+      '-hls_segment_filename',
+      join(directory, `segment_%04d.${segmentExtension}`),
+      '-y',
+      join(directory, 'index.m3u8'),
+    ];
+
+    for (const [index, quality] of ladder.entries()) {
+      const renditionDir = join(outputDir, quality.label);
+      fs.mkdirSync(renditionDir, { recursive: true });
+
+      // Keep the source aspect ratio; H.264 needs even dimensions
+      const height = Math.round((source.height * quality.width) / source.width / 2) * 2;
+      const videoKbps = parseInt(quality.bitrate, 10);
+      const level = quality.width <= 854 ? '3.0' : quality.width <= 1280 ? '3.1' : '4.0';
+
+      const args = [
+        '-i',
+        inputPath,
+        '-map',
+        '0:v:0',
+        '-an',
+        '-vf',
+        `scale=${quality.width}:${height}`,
+        '-c:v',
+        'libx264',
+        '-profile:v',
+        'main',
+        '-level',
+        level,
+        '-b:v',
+        quality.bitrate,
+        '-maxrate',
+        `${Math.round(videoKbps * 1.07)}k`,
+        '-bufsize',
+        `${Math.round(videoKbps * 1.5)}k`,
+        '-force_key_frames',
+        `expr:gte(t,n_forced*${segmentDuration})`,
+        '-sc_threshold',
+        '0',
+        ...hlsArgs(renditionDir),
+      ];
+
+      this.logger.log(`Packaging ${quality.label} HLS rendition (${quality.width}x${height})...`);
+      await this.runFfmpegCommand(args, runOptions, {
+        label: quality.label,
+        index,
+        count: stageCount,
+        duration: source.duration || undefined,
+      });
+
+      renditions.push({
+        label: quality.label,
+        width: quality.width,
+        height,
+        bandwidth: Math.round(videoKbps * 1.07) * 1000,
+        codecs: `avc1.4d40${Math.round(parseFloat(level) * 10).toString(16).padStart(2, '0')}`,
+        directory: quality.label,
+        playlist: `${quality.label}/index.m3u8`,
+        files: fs.readdirSync(renditionDir).sort(),
+      });
+    }
+
+    let audio: HlsAudioRendition | undefined;
+    if (hasAudio) {
+      const audioDir = join(outputDir, 'audio');
+      fs.mkdirSync(audioDir, { recursive: true });
+
+      this.logger.log('Packaging HLS audio rendition...');
+      await this.runFfmpegCommand(
+        ['-i', inputPath, '-map', '0:a:0', '-vn', '-c:a', 'aac', '-b:a', '128k', '-ac', '2', '-ar', '48000', ...hlsArgs(audioDir)],
+        runOptions,
+        { label: 'audio', index: ladder.length, count: stageCount, duration: source.duration || undefined },
+      );
+
+      audio = {
+        label: 'audio',
+        bandwidth: 128000,
+        codecs: 'mp4a.40.2',
+        samplingRate: 48000,
+        channels: 2,
+        directory: 'audio',
+        playlist: 'audio/index.m3u8',
+        files: fs.readdirSync(audioDir).sort(),
+      };
+    }
+
+    fs.writeFileSync(
+      join(outputDir, 'master.m3u8'),
+      buildMasterPlaylist(renditions, audio, segmentFormat === 'fmp4' ? 7 : 3),
+    );
+
+    return {
+      outputDir,
+      masterPlaylist: 'master.m3u8',
+      segmentFormat,
+      segmentDuration,
+      duration: source.duration,
+      renditions,
+      audio,
+    };
+  }
+
+  /**
+   * Writes a DASH manifest next to an fMP4 HLS package. The MPD references
+   * the existing video and audio rendition segments, so nothing is
+   * transcoded again.
+   * @param hlsPackage Package produced by generateHlsLadder
+   */
+  async writeDashManifest(hlsPackage: HlsPackage): Promise<HlsPackage> {
+    if (hlsPackage.segmentFormat !== 'fmp4') {
+      throw new Error('DASH output requires fMP4 segments');
+    }
+
+    const { readFile, writeFile } = require('fs/promises');
+    const readPlaylist = async (playlist: string) =>
+      parseMediaPlaylist(await readFile(join(hlsPackage.outputDir, playlist), 'utf8'));
+
+    const video = [];
+    for (const rendition of hlsPackage.renditions) {
+      video.push({
+        id: rendition.label,
+        bandwidth: rendition.bandwidth,
+        width: rendition.width,
+        height: rendition.height,
+        codecs: rendition.codecs,
+        directory: rendition.directory,
+        playlist: await readPlaylist(rendition.playlist),
+      });
+    }
+
+    const { audio } = hlsPackage;
+    const audioRepresentations = audio
+      ? [{
+          id: audio.label,
+          bandwidth: audio.bandwidth,
+          codecs: audio.codecs,
+          samplingRate: audio.samplingRate,
+          channels: audio.channels,
+          directory: audio.directory,
+          playlist: await readPlaylist(audio.playlist),
+        }]
+      : [];
+
+    const dashManifest = 'manifest.mpd';
+    await writeFile(
+      join(hlsPackage.outputDir, dashManifest),
+      buildDashManifest(video, hlsPackage.segmentDuration, audioRepresentations),
+    );
+
+    this.logger.log(`DASH manifest written for ${video.length} video${audio ? ' and 1 audio' : ''} renditions`);
+    return { ...hlsPackage, dashManifest };
+  }
+
   /**
    * Deletes a file.
    * @param filePath Path to the file to delete.
@@ -467,10 +1980,12 @@ export class VideoService {
    * Concatenates multiple videos into a single video.
    * @param inputPaths Array of paths to video files to concatenate
    * @param outputPath Path where the merged video will be saved
+   * @param runOptions Optional progress callback and abort signal
    */
   async concatenateVideos(
     inputPaths: string[],
     outputPath: string,
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
     if (inputPaths.length < 2) {
       throw new Error('At least 2 videos are required for concatenation');
@@ -505,8 +2020,19 @@ export class VideoService {
         outputPath,
       ];
 
+      // The concat demuxer reports no overall duration, so sum the inputs
+      let totalDuration: number | undefined;
+      if (runOptions?.onProgress) {
+        const durations = await Promise.all(inputPaths.map((path) => this.probeDuration(path)));
+        totalDuration = durations.reduce((total, duration) => total + (duration || 0), 0) || undefined;
+      }
+
       this.logger.log(`Concatenating ${inputPaths.length} videos...`);
-      await this.runFfmpegCommand(args);
+      await this.runFfmpegCommand(args, runOptions, {
+        index: 0,
+        count: 1,
+        duration: totalDuration,
+      });
     } finally {
       // Clean up temp file
       try {
@@ -517,18 +2043,262 @@ export class VideoService {
     }
   }
 
+  /**
+   * Finds black, silent and frozen stretches in one decoding pass using
+   * blackdetect, silencedetect and freezedetect. Silence detection is skipped
+   * for files without an audio track.
+   * @param inputPath Path to the video file.
+   * @param options Detectors to run and their thresholds
+   * @param runOptions Optional progress callback and abort signal
+   * @param stage Position of this pass within a multi-pass operation
+   */
+  async detectDeadSegments(
+    inputPath: string,
+    options: DeadSegmentOptions = {},
+    runOptions?: FfmpegRunOptions,
+    stage: FfmpegStage = { index: 0, count: 1 },
+  ): Promise<DeadSegmentReport> {
+    const {
+      kinds = ['black', 'silence', 'freeze'],
+      blackMinDuration = 0.5,
+      pixelThreshold = 0.1,
+      silenceNoiseDb = -50,
+      silenceMinDuration = 0.5,
+      freezeNoiseDb = -60,
+      freezeMinDuration = 2,
+    } = options;
+
+    const duration = (await this.probeDuration(inputPath)) || 0;
+    const detectSilence = kinds.includes('silence') && (await this.hasAudioStream(inputPath));
+
+    const videoFilters: string[] = [];
+    if (kinds.includes('black')) {
+      videoFilters.push(`blackdetect=d=${blackMinDuration}:pix_th=${pixelThreshold}`);
+    }
+    if (kinds.includes('freeze')) {
+      videoFilters.push(`freezedetect=n=${freezeNoiseDb}dB:d=${freezeMinDuration}`);
+    }
+
+    const report: DeadSegmentReport = {
+      duration,
+      black: [],
+      silence: [],
+      freeze: [],
+      ratios: { black: 0, silence: 0, freeze: 0 },
+    };
+
+    if (videoFilters.length === 0 && !detectSilence) {
+      return report;
+    }
+
+    const args = [
+      '-i',
+      inputPath,
+      ...(videoFilters.length ? ['-vf', videoFilters.join(',')] : ['-vn']),
+      ...(detectSilence ? ['-af', `silencedetect=n=${silenceNoiseDb}dB:d=${silenceMinDuration}`] : ['-an']),
+      '-f',
+      'null',
+      '-',
+    ];
+
+    this.logger.log(`Detecting ${kinds.join('/')} segments in ${inputPath}...`);
+    const stderr = await this.runFfmpegCommand(args, runOptions, { ...stage, duration: duration || undefined });
+
+    report.black = kinds.includes('black') ? parseBlackdetect(stderr) : [];
+    report.silence = detectSilence ? parseSilencedetect(stderr, duration) : [];
+    report.freeze = kinds.includes('freeze') ? parseFreezedetect(stderr, duration) : [];
+    report.ratios = {
+      black: coverageRatio(report.black, duration),
+      silence: coverageRatio(report.silence, duration),
+      freeze: coverageRatio(report.freeze, duration),
+    };
+    return report;
+  }
+
+  /**
+   * Cuts leading and trailing dead time (black and silence by default) and
+   * re-encodes the remainder so the cut is frame accurate. When there is
+   * nothing to cut the input is copied unchanged.
+   * @param inputPath Path to the video file.
+   * @param outputPath Path where the trimmed video will be saved.
+   * @param trimOn Kinds of dead time that may be cut
+   * @param options Detector thresholds
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async autoTrimDeadSegments(
+    inputPath: string,
+    outputPath: string,
+    trimOn: DeadSegmentKind[] = ['black', 'silence'],
+    options: DeadSegmentOptions = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<{ report: DeadSegmentReport; range: TrimRange }> {
+    const report = await this.detectDeadSegments(
+      inputPath,
+      { ...options, kinds: trimOn },
+      runOptions,
+      { label: 'detect', index: 0, count: 2 },
+    );
+    if (!report.duration) {
+      throw new Error('Could not determine video duration');
+    }
+
+    const range = computeTrimRange(trimOn.flatMap((kind) => report[kind]), report.duration);
+    if (!range.trimmed) {
+      this.logger.log(`No leading or trailing dead time in ${inputPath}; copying as is`);
+      await copyFile(inputPath, outputPath);
+      return { report, range };
+    }
+
+    const args = [
+      '-ss',
+      range.start.toString(),
+      '-i',
+      inputPath,
+      '-t',
+      (range.end - range.start).toString(),
+      '-c:v',
+      'libx264',
+      '-crf',
+      '20',
+      '-preset',
+      'medium',
+      '-c:a',
+      'aac',
+      '-b:a',
+      '192k',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Auto-trimming ${inputPath} to ${range.start}s-${range.end}s...`);
+    await this.runFfmpegCommand(args, runOptions, {
+      label: 'trim',
+      index: 1,
+      count: 2,
+      duration: range.end - range.start,
+    });
+    return { report, range };
+  }
+
+  /**
+   * Overlays one video in a corner of another (picture-in-picture).
+   * @param mainPath Path to the background video; it sets the output length
+   * @param overlayPath Path to the inset video
+   * @param outputPath Path where the composed video will be saved
+   * @param options Corner, relative size, margin and audio source
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async composePictureInPicture(
+    mainPath: string,
+    overlayPath: string,
+    outputPath: string,
+    options: PictureInPictureOptions = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const { position = 'bottom-right', size = 0.25, margin = 20, audioFrom = 'main' } = options;
+
+    const { width, duration } = await this.detectVideoResolution(mainPath);
+    if (!width) {
+      throw new Error('Could not determine main video width');
+    }
+
+    const audioArgs = audioFrom === 'none'
+      ? ['-an']
+      : ['-map', `${audioFrom === 'main' ? 0 : 1}:a?`, '-c:a', 'aac', '-b:a', '192k'];
+
+    const args = [
+      '-i',
+      mainPath,
+      '-i',
+      overlayPath,
+      '-filter_complex',
+      buildPipFilter({ mainWidth: width, position, size, margin }),
+      '-map',
+      '[v]',
+      ...audioArgs,
+      '-c:v',
+      'libx264',
+      '-crf',
+      '23',
+      '-preset',
+      'medium',
+      '-y',
+      outputPath,
+    ];
+
+    this.logger.log(`Composing picture-in-picture (${position}, ${Math.round(size * 100)}% width)...`);
+    await this.runFfmpegCommand(args, runOptions, { index: 0, count: 1, duration: duration || undefined });
+  }
+
+  /**
+   * Lays out 2-4 videos side by side, stacked or in a 2x2 grid. Each clip is
+   * letterboxed into an equal cell; the output stops with the shortest clip.
+   * @param inputPaths Paths to the videos, in layout order
+   * @param outputPath Path where the composed video will be saved
+   * @param options Layout, cell size and audio source
+   * @param runOptions Optional progress callback and abort signal
+   */
+  async composeGrid(
+    inputPaths: string[],
+    outputPath: string,
+    options: VideoGridOptions = {},
+    runOptions?: FfmpegRunOptions,
+  ): Promise<void> {
+    const { layout = 'horizontal', cellWidth = 640, cellHeight = 360, audioFrom } = options;
+    if (audioFrom !== undefined && (audioFrom < 0 || audioFrom >= inputPaths.length)) {
+      throw new Error(`audioFrom must point at one of the ${inputPaths.length} inputs`);
+    }
+
+    const audioArgs = audioFrom === undefined
+      ? ['-an']
+      : ['-map', `${audioFrom}:a?`, '-c:a', 'aac', '-b:a', '192k', '-shortest'];
+
+    const args = [
+      ...inputPaths.flatMap((path) => ['-i', path]),
+      '-filter_complex',
+      buildGridFilter(inputPaths.length, layout, cellWidth, cellHeight),
+      '-map',
+      '[v]',
+      ...audioArgs,
+      '-c:v',
+      'libx264',
+      '-crf',
+      '23',
+      '-preset',
+      'medium',
+      '-y',
+      outputPath,
+    ];
+
+    // The banner lists every input; the output follows the shortest one
+    let shortest: number | undefined;
+    if (runOptions?.onProgress) {
+      const durations = await Promise.all(inputPaths.map((path) => this.probeDuration(path)));
+      shortest = Math.min(...durations.map((duration) => duration || Infinity));
+    }
+
+    this.logger.log(`Composing ${inputPaths.length} videos in a ${layout} layout...`);
+    await this.runFfmpegCommand(args, runOptions, {
+      index: 0,
+      count: 1,
+      duration: Number.isFinite(shortest) ? shortest : undefined,
+    });
+  }
+
   /**
    * Converts video to different formats (AVI, MOV, MKV to MP4).
    * @param inputPath Path to the video file
    * @param outputPath Path where the converted video will be saved
    * @param targetFormat Target format (mp4, avi, mov, mkv)
    * @param hwAccel Optional hardware acceleration type
+   * @param runOptions Optional progress callback and abort signal
    */
   async convertFormat(
     inputPath: string,
     outputPath: string,
     targetFormat: 'mp4' | 'avi' | 'mov' | 'mkv',
     hwAccel?: 'nvenc' | 'videotoolbox' | 'vaapi',
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
     const args = ['-i', inputPath];
 
@@ -563,7 +2333,7 @@ export class VideoService {
     this.logger.log(
       `Converting video to ${targetFormat.toUpperCase()}${hwAccel ? ` with ${hwAccel}` : ''}...`,
     );
-    await this.runFfmpegCommand(args);
+    await this.runFfmpegCommand(args, runOptions);
   }
 
   /**
@@ -614,6 +2384,7 @@ export class VideoService {
    * @param bitrateMode Bitrate mode (CBR, VBR, ABR)
    * @param bitrate Target bitrate
    * @param crf Quality setting for VBR mode
+   * @param runOptions Optional progress callback and abort signal
    */
   async compressWithBitrateMode(
     inputPath: string,
@@ -621,6 +2392,7 @@ export class VideoService {
     bitrateMode: 'cbr' | 'vbr' | 'abr',
     bitrate: string,
     crf?: number,
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
     const args = ['-i', inputPath, '-c:v', 'libx264'];
 
@@ -649,7 +2421,7 @@ export class VideoService {
     this.logger.log(
       `Compressing video with ${bitrateMode.toUpperCase()} mode at ${bitrate}...`,
     );
-    await this.runFfmpegCommand(args);
+    await this.runFfmpegCommand(args, runOptions);
   }
 
   /**
@@ -658,12 +2430,14 @@ export class VideoService {
    * @param outputPath Path where the output video will be saved
    * @param bitrate Target bitrate
    * @param resolution Optional resolution (e.g., '1920x1080')
+   * @param runOptions Optional progress callback and abort signal
    */
   async twoPassEncode(
     inputPath: string,
     outputPath: string,
     bitrate: string,
     resolution?: string,
+    runOptions?: FfmpegRunOptions,
   ): Promise<void> {
     const logFile = join(process.cwd(), 'temp', `ffmpeg2pass-${Date.now()}`);
     
@@ -697,45 +2471,59 @@ export class VideoService {
 
     pass1Args.push('/dev/null'); // Discard output
 
-    this.logger.log('Starting first pass encoding...');
-    await this.runFfmpegCommand(pass1Args);
+    const duration = runOptions?.onProgress ? await this.probeDuration(inputPath) : undefined;
 
-    // Second pass
-    const pass2Args = [
-      '-i',
-      inputPath,
-      '-c:v',
-      'libx264',
-      '-b:v',
-      bitrate,
-      '-pass',
-      '2',
-      '-passlogfile',
-      logFile,
-      '-c:a',
-      'aac',
-      '-b:a',
-      '128k',
-      '-movflags',
-      '+faststart',
-    ];
+    try {
+      this.logger.log('Starting first pass encoding...');
+      await this.runFfmpegCommand(pass1Args, runOptions, {
+        label: 'pass-1',
+        index: 0,
+        count: 2,
+        duration,
+      });
 
-    if (resolution) {
-      pass2Args.push('-s', resolution);
-    }
+      // Second pass
+      const pass2Args = [
+        '-i',
+        inputPath,
+        '-c:v',
+        'libx264',
+        '-b:v',
+        bitrate,
+        '-pass',
+        '2',
+        '-passlogfile',
+        logFile,
+        '-c:a',
+        'aac',
+        '-b:a',
+        '128k',
+        '-movflags',
+        '+faststart',
+      ];
 
-    pass2Args.push('-y', outputPath);
+      if (resolution) {
+        pass2Args.push('-s', resolution);
+      }
 
-    this.logger.log('Starting second pass encoding...');
-    await this.runFfmpegCommand(pass2Args);
+      pass2Args.push('-y', outputPath);
 
-    // Clean up pass log files
-    try {
-      const { unlink } = require('fs/promises');
-      await unlink(`${logFile}-0.log`);
-      await unlink(`${logFile}-0.log.mbtree`);
-    } catch (error) {
-      this.logger.warn('Failed to clean up two-pass log files');
+      this.logger.log('Starting second pass encoding...');
+      await this.runFfmpegCommand(pass2Args, runOptions, {
+        label: 'pass-2',
+        index: 1,
+        count: 2,
+        duration,
+      });
+    } finally {
+      // Clean up pass log files, including after a failed or cancelled pass
+      for (const passLog of [`${logFile}-0.log`, `${logFile}-0.log.mbtree`]) {
+        if (existsSync(passLog)) {
+          await unlink(passLog).catch(() =>
+            this.logger.warn(`Failed to clean up two-pass log file ${passLog}`),
+          );
+        }
+      }
     }
   }
 
@@ -814,12 +2602,29 @@ export class VideoService {
     });
   }
 
+  /**
+   * Probes a file's duration for progress reporting.
+   * @param inputPath Path to the video file
+   * @returns Duration in seconds, or undefined if it could not be read
+   */
+  private async probeDuration(inputPath: string): Promise<number | undefined> {
+    try {
+      const { duration } = await this.detectVideoResolution(inputPath);
+      return duration || undefined;
+    } catch (error) {
+      this.logger.warn(`Could not probe duration of ${inputPath}: ${error.message}`);
+      return undefined;
+    }
+  }
+
   /**
    * Validates if video meets minimum requirements.
    * @param inputPath Path to the video file
    * @param minWidth Minimum width
    * @param minHeight Minimum height
    * @param maxDuration Maximum duration in seconds
+   * @param contentLimits Optional limits on black and silent content; checking them decodes the whole file
+   * @param runOptions Optional progress callback and abort signal
    * @returns Validation result
    */
   async validateVideo(
@@ -827,7 +2632,9 @@ export class VideoService {
     minWidth?: number,
     minHeight?: number,
     maxDuration?: number,
-  ): Promise<{ valid: boolean; errors: string[]; metadata: any }> {
+    contentLimits?: ContentQualityLimits,
+    runOptions?: FfmpegRunOptions,
+  ): Promise<{ valid: boolean; errors: string[]; metadata: any; content?: DeadSegmentReport }> {
     const errors: string[] = [];
     const metadata = await this.detectVideoResolution(inputPath);
 
@@ -845,10 +2652,28 @@ export class VideoService {
       );
     }
 
+    let content: DeadSegmentReport | undefined;
+    const { maxBlackRatio, maxSilenceRatio } = contentLimits || {};
+    if (maxBlackRatio !== undefined || maxSilenceRatio !== undefined) {
+      const kinds: DeadSegmentKind[] = [];
+      if (maxBlackRatio !== undefined) kinds.push('black');
+      if (maxSilenceRatio !== undefined) kinds.push('silence');
+      content = await this.detectDeadSegments(inputPath, { kinds }, runOptions);
+
+      const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+      if (maxBlackRatio !== undefined && content.ratios.black > maxBlackRatio) {
+        errors.push(`${percent(content.ratios.black)} of the video is black (maximum ${percent(maxBlackRatio)})`);
+      }
+      if (maxSilenceRatio !== undefined && content.ratios.silence > maxSilenceRatio) {
+        errors.push(`${percent(content.ratios.silence)} of the audio is silent (maximum ${percent(maxSilenceRatio)})`);
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
       metadata,
+      content,
     };
   }
 }
@@ -0,0 +1,38 @@
+export interface WebVttCue {
+  /** Cue start in seconds */
+  start: number;
+  /** Cue end in seconds */
+  end: number;
+  text: string;
+}
+
+/**
+ * Formats seconds as a WebVTT timestamp (HH:MM:SS.mmm).
+ */
+export function formatVttTimestamp(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+}
+
+/**
+ * Serializes cues into a WebVTT document.
+ */
+export function buildWebVtt(cues: WebVttCue[]): string {
+  const blocks = cues.map(
+    (cue) => `${formatVttTimestamp(cue.start)} --> ${formatVttTimestamp(cue.end)}\n${cue.text}`,
+  );
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+/**
+ * Builds a thumbnail track whose cue payloads are sprite URLs with a
+ * `#xywh=x,y,w,h` media fragment, as read by most web players.
+ */
+export function buildThumbnailTrack(cues: Array<{ start: number; end: number; url: string }>): string {
+  return buildWebVtt(cues.map((cue) => ({ start: cue.start, end: cue.end, text: cue.url })));
+}